@@ -6,6 +6,10 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { useAuth } from "@/hooks/useAuth";
 import Landing from "@/pages/landing";
 import Dashboard from "@/pages/dashboard";
+import Instructor from "@/pages/instructor";
+import Games from "@/pages/games";
+import GameReview from "@/pages/game-review";
+import LeaderboardPage from "@/pages/leaderboard";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -18,6 +22,10 @@ function Router() {
       ) : (
         <>
           <Route path="/" component={Dashboard} />
+          <Route path="/games" component={Games} />
+          <Route path="/games/:gameId" component={GameReview} />
+          <Route path="/leaderboard" component={LeaderboardPage} />
+          <Route path="/instructor" component={Instructor} />
         </>
       )}
       <Route component={NotFound} />
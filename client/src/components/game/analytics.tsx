@@ -1,5 +1,6 @@
 import { useMemo } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { summarizeBackorders } from "@/lib/backorders";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -14,6 +15,7 @@ import {
 import {
   PRODUCT_LABELS, PRODUCT_COLORS, formatCurrency, formatNumber, LAUNCH_WEEK,
 } from "./logistics/shared";
+import ExportMenu from "./export-menu";
 
 interface AnalyticsProps {
   gameSession: any;
@@ -94,7 +96,12 @@ function num(v: any): number {
 }
 
 export default function Analytics({ gameSession, currentState }: AnalyticsProps) {
-  const { data: gameConstants } = useQuery({ queryKey: ["/api/game/constants"], retry: false });
+  // Constants of this game's scenario (it may not be the current game when reviewing history)
+  const { data: gameConstants } = useQuery({
+    queryKey: [`/api/game/constants?gameId=${gameSession?.id}`],
+    enabled: !!gameSession?.id,
+    retry: false,
+  });
   const { data: weeksData } = useQuery<{ weeks: any[] }>({
     queryKey: ["/api/game", gameSession?.id, "weeks"],
     enabled: !!gameSession?.id,
@@ -366,6 +373,9 @@ export default function Analytics({ gameSession, currentState }: AnalyticsProps)
 
   const totalCostsAll = costPie.reduce((s, c) => s + c.value, 0);
 
+  // Backorder-mode games: how much unmet demand waited, and how it ended
+  const backorders = useMemo(() => (gameSession?.backorderMode ? summarizeBackorders(weeks) : null), [gameSession?.backorderMode, weeks]);
+
   const productPerf = productKeys.map((p) => {
     const sales = totals.perProductSales[p];
     const demand = totals.perProductDemand[p];
@@ -382,6 +392,9 @@ export default function Analytics({ gameSession, currentState }: AnalyticsProps)
       sales,
       demand,
       lost,
+      backordered: backorders ? backorders.backordered[p] + backorders.preordered[p] : 0,
+      lateServed: backorders ? backorders.lateServed[p] : 0,
+      cancelled: backorders ? backorders.cancelled[p] : 0,
       fillRate,
       ASP,
       rrp,
@@ -436,7 +449,10 @@ export default function Analytics({ gameSession, currentState }: AnalyticsProps)
             Live KPIs, P&amp;L, demand fulfilment, and product economics — all derived from your committed weeks.
           </p>
         </div>
-        <div className="text-sm text-gray-500">Week {currentWeek} • {series.filter((r) => r.week < currentWeek).length} weeks committed</div>
+        <div className="flex flex-col items-end gap-2">
+          {gameSession?.id && <ExportMenu gameId={gameSession.id} />}
+          <div className="text-sm text-gray-500">Week {currentWeek} • {series.filter((r) => r.week < currentWeek).length} weeks committed</div>
+        </div>
       </div>
 
       {/* KPI strip */}
@@ -752,7 +768,7 @@ export default function Analytics({ gameSession, currentState }: AnalyticsProps)
           <Card>
             <CardHeader>
               <CardTitle>Product Performance (YTD)</CardTitle>
-              <p className="text-sm text-gray-500">Demand fulfilled, lost, and fill rate per product</p>
+              <p className="text-sm text-gray-500">Demand fulfilled, lost, and fill rate per product{backorders ? '. Fill rate counts on-time sales only; backorders served late are shown separately' : ''}</p>
             </CardHeader>
             <CardContent>
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -778,6 +794,22 @@ export default function Analytics({ gameSession, currentState }: AnalyticsProps)
                         <div className="font-mono font-semibold text-red-600">{formatNumber(p.lost)}</div>
                       </div>
                     </div>
+                    {backorders && (
+                      <div className="grid grid-cols-3 gap-2 text-sm mt-2">
+                        <div>
+                          <div className="text-gray-500">Backordered</div>
+                          <div className="font-mono font-semibold">{formatNumber(p.backordered)}</div>
+                        </div>
+                        <div>
+                          <div className="text-gray-500">Served late</div>
+                          <div className="font-mono font-semibold text-amber-700">{formatNumber(p.lateServed)}</div>
+                        </div>
+                        <div>
+                          <div className="text-gray-500">Cancelled</div>
+                          <div className="font-mono font-semibold text-red-600">{formatNumber(p.cancelled)}</div>
+                        </div>
+                      </div>
+                    )}
                     <div className="mt-3">
                       <div className="w-full bg-gray-200 rounded-full h-2">
                         <div
@@ -0,0 +1,125 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, ResponsiveContainer,
+} from "recharts";
+import { AlertTriangle, Wallet } from "lucide-react";
+import { formatCurrency } from "./logistics/shared";
+
+type Outflows = Record<'materials' | 'production' | 'logistics' | 'marketing' | 'holding' | 'interest', number>;
+
+type ProjectedWeek = {
+  weekNumber: number;
+  inflows: { sales: number };
+  outflows: Outflows;
+  totalInflows: number;
+  totalOutflows: number;
+  netCashFlow: number;
+  cashOnHand: number;
+  creditUsed: number;
+  peakCreditUsed: number;
+  overCreditLimit: boolean;
+};
+
+type Projection = {
+  fromWeek: number;
+  creditLimit: number;
+  weeks: ProjectedWeek[];
+  firstWeekOverLimit: number | null;
+};
+
+const OUTFLOW_LABELS: Record<keyof Outflows, string> = {
+  materials: 'Materials',
+  production: 'Production',
+  logistics: 'Shipping',
+  marketing: 'Marketing',
+  holding: 'Holding',
+  interest: 'Interest',
+};
+
+interface CashFlowProjectionProps {
+  gameSession: any;
+  currentState: any;
+}
+
+function ProjectionTooltip({ active, payload }: any) {
+  const week: ProjectedWeek | undefined = active ? payload?.[0]?.payload?.week : undefined;
+  if (!week) return null;
+  const outflows = (Object.keys(OUTFLOW_LABELS) as Array<keyof Outflows>).filter((k) => week.outflows[k] > 0);
+  return (
+    <div className="rounded-md border bg-white p-3 text-xs shadow-md">
+      <div className="mb-1 font-semibold">Week {week.weekNumber}</div>
+      <div className="flex justify-between gap-6 text-green-700"><span>Sales</span><span className="font-mono">+{formatCurrency(week.inflows.sales)}</span></div>
+      {outflows.map((k) => (
+        <div key={k} className="flex justify-between gap-6 text-red-700"><span>{OUTFLOW_LABELS[k]}</span><span className="font-mono">−{formatCurrency(week.outflows[k])}</span></div>
+      ))}
+      <div className="mt-1 flex justify-between gap-6 border-t pt-1 font-medium"><span>Net</span><span className="font-mono">{formatCurrency(week.netCashFlow)}</span></div>
+      <div className="flex justify-between gap-6"><span>Cash</span><span className="font-mono">{formatCurrency(week.cashOnHand)}</span></div>
+      <div className="flex justify-between gap-6"><span>Credit used</span><span className="font-mono">{formatCurrency(week.creditUsed)}</span></div>
+      {week.overCreditLimit && <div className="mt-1 text-red-600">Over the credit limit (peak {formatCurrency(week.peakCreditUsed)})</div>}
+    </div>
+  );
+}
+
+// Right-panel chart: cash position for the rest of the season if the current
+// plan plays out unchanged. Refetches whenever the week's decisions are saved.
+export default function CashFlowProjection({ gameSession, currentState }: CashFlowProjectionProps) {
+  const week = Number(currentState?.weekNumber || 0);
+  const { data: projection } = useQuery<Projection>({
+    queryKey: ['/api/game', gameSession?.id, 'week', week, 'cash-projection', currentState?.updatedAt],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/game/${gameSession.id}/week/${week}/cash-projection`);
+      return res.json();
+    },
+    enabled: Boolean(gameSession?.id) && week > 0 && !currentState?.isCommitted,
+    staleTime: 15_000,
+  });
+
+  if (!projection) return null;
+
+  // Net position: cash when positive, credit drawn when negative
+  const rows = projection.weeks.map((w) => ({
+    label: `W${w.weekNumber}`,
+    inflow: w.totalInflows,
+    outflow: -w.totalOutflows,
+    position: w.cashOnHand - w.creditUsed,
+    week: w,
+  }));
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base"><Wallet size={16} /> Cash flow projection</CardTitle>
+        <p className="text-xs text-gray-600">If your current plan plays out unchanged, at expected demand. Hover a week for its inflows and outflows.</p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="h-56">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={rows} margin={{ top: 5, right: 5, left: 0, bottom: 0 }} stackOffset="sign">
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" tick={{ fontSize: 10 }} />
+              <YAxis tick={{ fontSize: 10 }} width={44} tickFormatter={(v) => `£${(Number(v) / 1_000_000).toFixed(1)}m`} />
+              <Tooltip content={<ProjectionTooltip />} />
+              <ReferenceLine y={0} stroke="#999" />
+              <ReferenceLine y={-projection.creditLimit} stroke="#E74C3C" strokeDasharray="4 4" label={{ value: 'Credit limit', fontSize: 10, fill: '#E74C3C', position: 'insideBottomRight' }} />
+              <Bar dataKey="inflow" stackId="flow" fill="#27AE60" />
+              <Bar dataKey="outflow" stackId="flow" fill="#E74C3C" />
+              <Line type="monotone" dataKey="position" stroke="#D4AF37" strokeWidth={2} dot={{ r: 2 }} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+        {projection.firstWeekOverLimit != null ? (
+          <div className="flex items-start gap-2 rounded-md bg-red-50 p-2 text-xs text-red-700">
+            <AlertTriangle size={14} className="mt-0.5 shrink-0" />
+            Week {projection.firstWeekOverLimit} needs more than the {formatCurrency(projection.creditLimit)} credit limit. Delay purchases or production, or cut marketing.
+          </div>
+        ) : (
+          <div className="text-xs text-gray-600">
+            Lowest headroom: {formatCurrency(Math.min(...projection.weeks.map((w) => projection.creditLimit - w.peakCreditUsed)))} of credit
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Store, UserPlus } from "lucide-react";
+
+type ClassMarket = {
+  id: string;
+  name: string;
+  scenarioName: string;
+  status: 'lobby' | 'running' | 'completed';
+  currentWeek: number;
+  teams: Array<{ gameSessionId: string; teamName: string | null }>;
+  myGameSessionId: string | null;
+};
+
+const STATUS_LABELS: Record<ClassMarket['status'], string> = {
+  lobby: 'Open to join',
+  running: 'Running',
+  completed: 'Completed',
+};
+
+// Multiplayer markets in the student's classes: join one in the lobby as a team
+export default function ClassMarkets() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+  const [teamNames, setTeamNames] = useState<Record<string, string>>({});
+
+  const { data: markets = [] } = useQuery<ClassMarket[]>({ queryKey: ['/api/markets'], staleTime: 0 });
+
+  const joinMutation = useMutation({
+    mutationFn: async (marketId: string) => {
+      const res = await apiRequest('POST', `/api/markets/${marketId}/join`, { teamName: teamNames[marketId] || '' });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/markets'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/games'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/game/current'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/game/constants'] });
+      toast({ title: 'Joined market', description: 'Plan your first week; it opens when your instructor starts the market.' });
+      setLocation('/');
+    },
+    onError: (error) => {
+      const message = String((error as Error)?.message || '');
+      let description = 'Failed to join the market. Please try again.';
+      try {
+        description = JSON.parse(message.replace(/^\d+:\s*/, '')).message || description;
+      } catch (_) {}
+      toast({ title: 'Could not join', description, variant: 'destructive' });
+    },
+  });
+
+  // Nothing to show outside a class
+  if (markets.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><Store size={18} /> Class markets</CardTitle>
+        <p className="text-sm text-gray-600">Compete with other teams for the same customers. Weeks advance once every team has submitted.</p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {markets.map((m) => (
+          <div key={m.id} className="flex items-center justify-between gap-4 rounded-md border p-3">
+            <div>
+              <div className="flex items-center gap-2 font-medium">
+                {m.name}
+                <Badge variant={m.status === 'lobby' ? 'default' : 'secondary'}>{STATUS_LABELS[m.status]}</Badge>
+              </div>
+              <div className="text-sm text-gray-600">
+                {m.scenarioName} · {m.teams.length} team{m.teams.length === 1 ? '' : 's'}
+                {m.status === 'running' ? ` · Week ${m.currentWeek}/15` : ''}
+              </div>
+            </div>
+            {m.myGameSessionId ? (
+              <span className="text-sm text-gray-500">You are in this market</span>
+            ) : m.status === 'lobby' ? (
+              <div className="flex items-center gap-2">
+                <Input
+                  className="h-8 w-44"
+                  placeholder="Team name"
+                  value={teamNames[m.id] || ''}
+                  onChange={(e) => setTeamNames((prev) => ({ ...prev, [m.id]: e.target.value }))}
+                />
+                <Button size="sm" onClick={() => joinMutation.mutate(m.id)} disabled={!(teamNames[m.id] || '').trim() || joinMutation.isPending} className="flex items-center gap-1">
+                  <UserPlus size={14} /> Join
+                </Button>
+              </div>
+            ) : null}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,153 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { computeWeekSummary } from "@/lib/summary/summarizeWeek";
+import type { LedgerEntry } from "@/types/weekly-summary";
+import { Banknote, CreditCard, Boxes, Receipt, ShoppingBag } from "lucide-react";
+import { PRODUCT_LABELS, formatCurrency, formatNumber } from "./logistics/shared";
+
+type CommitSimulation = {
+  weekNumber: number;
+  demandBasis: 'exact' | 'expected';
+  committedState: any;
+  nextState: any | null;
+  ledger: LedgerEntry[];
+  finalResults: { finalScore: number; economicProfit: number; serviceLevel: number } | null;
+};
+
+const LEDGER_LABELS: Record<LedgerEntry['entryType'], string> = {
+  marketing: 'Marketing',
+  materials_spt: 'Fabric (spot)',
+  materials_gmc: 'Fabric (GMC)',
+  materials_fvc: 'Fabric (FVC)',
+  production: 'Production',
+  logistics: 'Shipping',
+  holding: 'Stock holding',
+  interest: 'Interest',
+};
+
+interface CommitPreviewProps {
+  gameSession: any;
+  currentState: any;
+}
+
+// Dry run of this week's commit (POST .../simulate): what week N+1 opens with
+// if the current decisions are committed. Nothing is saved.
+export default function CommitPreview({ gameSession, currentState }: CommitPreviewProps) {
+  const week = Number(currentState?.weekNumber || 0);
+  const { data: simulation, isLoading, error } = useQuery<CommitSimulation>({
+    queryKey: ['/api/game', gameSession.id, 'week', week, 'simulate', currentState?.updatedAt],
+    queryFn: async () => {
+      const res = await apiRequest('POST', `/api/game/${gameSession.id}/week/${week}/simulate`);
+      return res.json();
+    },
+    retry: false,
+    staleTime: 15_000,
+  });
+
+  const summary = useMemo(() => {
+    if (!simulation?.nextState) return null;
+    const nextWeek = Number(simulation.nextState.weekNumber);
+    return computeWeekSummary({
+      gameSessionId: gameSession.id,
+      prevState: simulation.committedState,
+      nextState: simulation.nextState,
+      ledgerRowsN1: simulation.ledger.filter((r) => Number(r.weekNumber) === nextWeek),
+    });
+  }, [simulation, gameSession.id]);
+
+  if (isLoading) {
+    return <div className="py-4 text-center text-sm text-gray-600">Simulating the week…</div>;
+  }
+  if (error || !simulation) {
+    return <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">The outcome could not be previewed. Fix the issues above and try again.</div>;
+  }
+
+  const committed = simulation.committedState;
+  const products = Object.keys(PRODUCT_LABELS).filter((p) => p in (committed.weeklyDemand || {}));
+  const hasSales = products.some((p) => Number(committed.weeklyDemand?.[p] || 0) > 0);
+  const opening = simulation.nextState ?? committed;
+
+  return (
+    <div className="space-y-3 rounded-lg border border-blue-200 bg-blue-50/40 p-4 text-sm">
+      <p className="text-xs text-gray-600">
+        {simulation.nextState
+          ? `What week ${simulation.nextState.weekNumber} opens with if you commit now. Nothing is saved until you commit.`
+          : 'Your final position if you commit now. Nothing is saved until you commit.'}
+        {simulation.demandBasis === 'expected' && ' Sales use expected demand; the real week can differ.'}
+      </p>
+
+      <div className="grid grid-cols-3 gap-3">
+        <div className="rounded-md bg-white p-2">
+          <div className="flex items-center gap-1 text-xs text-gray-500"><Banknote size={12} /> Cash</div>
+          <div className="font-mono font-semibold">{formatCurrency(Number(opening.cashOnHand || 0))}</div>
+        </div>
+        <div className="rounded-md bg-white p-2">
+          <div className="flex items-center gap-1 text-xs text-gray-500"><CreditCard size={12} /> Credit used</div>
+          <div className="font-mono font-semibold">{formatCurrency(Number(opening.creditUsed || 0))}</div>
+        </div>
+        <div className="rounded-md bg-white p-2">
+          <div className="flex items-center gap-1 text-xs text-gray-500"><ShoppingBag size={12} /> Revenue this week</div>
+          <div className="font-mono font-semibold">{formatCurrency(Number(committed.weeklyRevenue || 0))}</div>
+        </div>
+      </div>
+
+      {hasSales && (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-gray-500">
+              <th className="text-left font-medium">Product</th>
+              <th className="text-right font-medium">Demand</th>
+              <th className="text-right font-medium">Sold</th>
+              <th className="text-right font-medium">Lost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {products.map((p) => (
+              <tr key={p}>
+                <td>{PRODUCT_LABELS[p]}</td>
+                <td className="text-right font-mono">{formatNumber(Number(committed.weeklyDemand?.[p] || 0))}</td>
+                <td className="text-right font-mono">{formatNumber(Number(committed.weeklySales?.[p] || 0))}</td>
+                <td className={`text-right font-mono ${Number(committed.lostSales?.[p] || 0) > 0 ? 'text-red-700' : ''}`}>{formatNumber(Number(committed.lostSales?.[p] || 0))}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {summary && (summary.procurement.arrivals.length > 0 || summary.inventory.finishedGoodsAdded.length > 0) && (
+        <div>
+          <div className="mb-1 flex items-center gap-1 text-xs font-medium text-gray-700"><Boxes size={12} /> Arrivals</div>
+          <ul className="space-y-0.5 text-xs text-gray-700">
+            {summary.procurement.arrivals.map((a) => (
+              <li key={`rm-${a.material}`}>{a.material}: {formatNumber(a.goodUnits)} good units</li>
+            ))}
+            {summary.inventory.finishedGoodsAdded.map((lot) => (
+              <li key={`fg-${lot.id}`}>{PRODUCT_LABELS[lot.product] || lot.product}: {formatNumber(lot.quantity)} units on the shelf</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {summary && summary.ledgerRows.length > 0 && (
+        <div>
+          <div className="mb-1 flex items-center gap-1 text-xs font-medium text-gray-700"><Receipt size={12} /> Payments at the start of week {summary.weekNumber}</div>
+          <ul className="space-y-0.5 text-xs">
+            {summary.ledgerRows.map((row, i) => (
+              <li key={i} className="flex justify-between gap-4">
+                <span className="text-gray-700">{LEDGER_LABELS[row.entryType] || row.entryType}{row.refId ? ` · ${row.refId}` : ''}</span>
+                <span className="font-mono text-red-800">−{formatCurrency(Number(row.amount))}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {simulation.finalResults && (
+        <div className="text-xs text-gray-700">
+          Final score {simulation.finalResults.finalScore.toFixed(1)} · economic profit {formatCurrency(simulation.finalResults.economicProfit)} · service level {simulation.finalResults.serviceLevel.toFixed(1)}%
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import {
   Dialog,
@@ -12,31 +12,63 @@ import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { CheckCircle, AlertTriangle, Clock, ArrowRight } from "lucide-react";
+import { CheckCircle, AlertTriangle, Clock, ArrowRight, Eye } from "lucide-react";
+import { ISSUE_TAB_LABELS, toValidationIssue, type ValidationIssue } from "@/lib/validation-issues";
 import type { WeeklySummary, LedgerEntry } from "@/types/weekly-summary";
 import { computeWeekSummary } from "@/lib/summary/summarizeWeek";
 import { WeeklySummaryModal } from "@/components/game/weekly-summary-modal";
+import CommitPreview from "@/components/game/commit-preview";
 
 interface CommitWeekModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   gameSession: any;
   currentState: any;
+  // Close the modal and open the tab (and row) an issue points at
+  onGoToIssue?: (issue: ValidationIssue) => void;
+}
+
+function IssueItem({ issue, onGoTo }: { issue: ValidationIssue; onGoTo?: (issue: ValidationIssue) => void }) {
+  const isError = issue.severity === 'error';
+  return (
+    <li className={`text-sm flex items-start gap-2 ${isError ? 'text-red-700' : 'text-yellow-700'}`}>
+      <span className={`mt-0.5 ${isError ? 'text-red-500' : 'text-yellow-500'}`}>•</span>
+      <div className="flex-1">
+        <div>{issue.message}</div>
+        {issue.suggestedFix && <div className="text-xs opacity-80">{issue.suggestedFix}</div>}
+      </div>
+      {issue.tab && onGoTo && (
+        <Button
+          variant="link"
+          size="sm"
+          className={`h-auto p-0 text-xs shrink-0 ${isError ? 'text-red-700' : 'text-yellow-800'}`}
+          onClick={() => onGoTo(issue)}
+        >
+          Go to {ISSUE_TAB_LABELS[issue.tab]} <ArrowRight size={12} className="ml-1" />
+        </Button>
+      )}
+    </li>
+  );
 }
 
 export default function CommitWeekModal({ 
   open, 
   onOpenChange, 
   gameSession, 
-  currentState 
+  currentState,
+  onGoToIssue,
 }: CommitWeekModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [validationData, setValidationData] = useState<any>(null);
   const [isValidating, setIsValidating] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
   // Summary modal temporarily disabled to address startup runtime error
   const [summary, setSummary] = useState<WeeklySummary | null>(null);
   const [showSummary, setShowSummary] = useState(false);
+  // One key per week: retrying after a dropped response returns the original
+  // commit instead of advancing the game twice
+  const idempotencyKey = useMemo(() => crypto.randomUUID(), [gameSession.id, currentState?.id]);
 
   const parseCommitError = (error: unknown) => {
     const message = error instanceof Error ? error.message : String(error || "");
@@ -44,16 +76,16 @@ export default function CommitWeekModal({
     if (jsonStart >= 0) {
       try {
         const parsed = JSON.parse(message.slice(jsonStart));
-        const errors = Array.isArray(parsed.errors) ? parsed.errors : [];
+        const errors: unknown[] = Array.isArray(parsed.errors) ? parsed.errors : [];
         return {
           message: String(parsed.message || "Cannot commit week due to validation errors"),
-          errors: errors.map(String),
+          errors: errors.map((e) => toValidationIssue(e, 'error')),
         };
       } catch {
         // Fall through to the raw message.
       }
     }
-    return { message, errors: [] as string[] };
+    return { message, errors: [] as ValidationIssue[] };
   };
 
   const validateMutation = useMutation({
@@ -88,9 +120,22 @@ export default function CommitWeekModal({
 
   const commitMutation = useMutation({
     mutationFn: async () => {
-      await apiRequest('POST', `/api/game/${gameSession.id}/week/${currentState.weekNumber}/commit`);
+      const response = await apiRequest('POST', `/api/game/${gameSession.id}/week/${currentState.weekNumber}/commit`, undefined, {
+        'Idempotency-Key': idempotencyKey,
+      });
+      return await response.json();
     },
-    onSuccess: async () => {
+    onSuccess: async (data) => {
+      // Market games: the week resolves once every team has submitted
+      if (data?.status === 'submitted') {
+        await Promise.all([
+          queryClient.invalidateQueries({ queryKey: ['/api/game/current'] }),
+          queryClient.invalidateQueries({ queryKey: ['/api/markets', gameSession.marketId] }),
+        ]);
+        onOpenChange(false);
+        toast({ title: 'Decisions Submitted', description: `Week ${currentState.weekNumber} resolves once every team in the market has submitted.` });
+        return;
+      }
       try {
         await Promise.all([
           queryClient.invalidateQueries({ queryKey: ['/api/game/current'] }),
@@ -144,7 +189,7 @@ export default function CommitWeekModal({
       }
       toast({
         title: "Commit Failed",
-        description: parsed.errors[0] || parsed.message || "Failed to commit week. Please address validation errors and try again.",
+        description: parsed.errors[0]?.message || parsed.message || "Failed to commit week. Please address validation errors and try again.",
         variant: "destructive",
       });
     },
@@ -154,6 +199,7 @@ export default function CommitWeekModal({
   useEffect(() => {
     if (open) {
       setValidationData(null);
+      setShowPreview(false);
       setIsValidating(true);
       validateMutation.mutate();
     }
@@ -181,7 +227,7 @@ export default function CommitWeekModal({
   return (
     <>
       <Dialog open={open} onOpenChange={onOpenChange}>
-        <DialogContent className="max-w-2xl">
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <div className="h-10 w-10 bg-primary rounded-lg flex items-center justify-center">
@@ -243,11 +289,8 @@ export default function CommitWeekModal({
                     Critical Issues (Must Fix)
                   </h4>
                   <ul className="space-y-1">
-                    {validationData.errors.map((error: string, index: number) => (
-                      <li key={index} className="text-sm text-red-700 flex items-start gap-2">
-                        <span className="text-red-500 mt-0.5">•</span>
-                        {error}
-                      </li>
+                    {validationData.errors.map((error: unknown, index: number) => (
+                      <IssueItem key={index} issue={toValidationIssue(error, 'error')} onGoTo={onGoToIssue} />
                     ))}
                   </ul>
                 </div>
@@ -261,11 +304,8 @@ export default function CommitWeekModal({
                     Warnings (Review Recommended)
                   </h4>
                   <ul className="space-y-1">
-                    {validationData.warnings.map((warning: string, index: number) => (
-                      <li key={index} className="text-sm text-yellow-700 flex items-start gap-2">
-                        <span className="text-yellow-500 mt-0.5">•</span>
-                        {warning}
-                      </li>
+                    {validationData.warnings.map((warning: unknown, index: number) => (
+                      <IssueItem key={index} issue={toValidationIssue(warning, 'warning')} onGoTo={onGoToIssue} />
                     ))}
                   </ul>
                 </div>
@@ -302,8 +342,21 @@ export default function CommitWeekModal({
             </div>
           )}
 
+          {showPreview && validationData?.canCommit && (
+            <CommitPreview gameSession={gameSession} currentState={currentState} />
+          )}
+
           {/* Action Buttons */}
-          <div className="flex justify-end items-center pt-4 border-t border-gray-200">
+          <div className="flex justify-end items-center gap-2 pt-4 border-t border-gray-200">
+            <Button
+              variant="outline"
+              onClick={() => setShowPreview((v) => !v)}
+              disabled={!validationData?.canCommit}
+              className="flex items-center gap-2"
+            >
+              <Eye size={16} />
+              {showPreview ? 'Hide preview' : 'Preview outcome'}
+            </Button>
             <Button
               onClick={handleCommit}
               disabled={!validationData?.canCommit || commitMutation.isPending}
@@ -0,0 +1,80 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Lightbulb } from "lucide-react";
+
+type DebriefFinding = {
+  code: string;
+  title: string;
+  detail: string;
+  advice: string;
+  impact: number;
+  weeks?: number[];
+  products?: string[];
+};
+
+type Debrief = {
+  finalScore: number;
+  totalImpact: number;
+  findings: DebriefFinding[];
+};
+
+interface DebriefProps {
+  gameId: string;
+}
+
+const formatCurrency = (v: number) => new Intl.NumberFormat('en-GB', { style: 'currency', currency: 'GBP', maximumFractionDigits: 0 }).format(v);
+
+// Coaching from GET /api/game/:gameId/debrief: what cost the most this season, biggest first
+export default function DebriefSection({ gameId }: DebriefProps) {
+  const { data: debrief, isLoading, error } = useQuery<Debrief>({
+    queryKey: ['/api/game', gameId, 'debrief'],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/game/${gameId}/debrief`);
+      return res.json();
+    },
+    enabled: !!gameId,
+    retry: false,
+    staleTime: 60_000,
+  });
+
+  // Games that ended without committing week 15 (restarted) have no debrief
+  if (error) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><Lightbulb size={18} /> Debrief</CardTitle>
+        {debrief && debrief.findings.length > 0 && (
+          <p className="text-sm text-gray-600">
+            These decisions cost you an estimated {formatCurrency(debrief.totalImpact)} this season, largest first.
+          </p>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading && <div className="text-sm text-gray-600">Analysing your season…</div>}
+        {debrief && debrief.findings.length === 0 && (
+          <div className="text-sm text-gray-700">No costly mistakes found: launch timing, stock, shipping, contracts, financing and marketing all held up.</div>
+        )}
+        {debrief && debrief.findings.length > 0 && (
+          <ol className="space-y-4">
+            {debrief.findings.map((f, i) => (
+              <li key={f.code} className="flex gap-3">
+                <div className="w-6 shrink-0 text-right font-mono text-sm text-gray-500">{i + 1}.</div>
+                <div className="flex-1 space-y-1">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <span className="font-semibold text-gray-900">{f.title}</span>
+                    <Badge variant="outline" className="font-mono text-red-700">−{formatCurrency(f.impact)}</Badge>
+                  </div>
+                  <p className="text-sm text-gray-700">{f.detail}</p>
+                  <p className="text-sm text-blue-800">{f.advice}</p>
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -253,7 +253,7 @@ export default function Design({ gameSession, currentState }: DesignProps) {
           const rrpVal = currentState?.productData?.[product.id]?.rrp;
 
           return (
-            <Card key={product.id} className="border border-gray-100">
+            <Card key={product.id} data-issue-target={`product:${product.id}`} className="border border-gray-100">
               <CardHeader className="pb-3">
                 <CardTitle className="flex items-center gap-2 mb-3">
                   <ProductIcon productId={product.id} size={22} /> {product.name}
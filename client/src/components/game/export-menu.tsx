@@ -0,0 +1,47 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download } from "lucide-react";
+
+// Datasets served by GET /api/game/:gameId/export/:dataset.csv (server/exports.ts)
+const CSV_DATASETS: Array<{ key: string; label: string }> = [
+  { key: 'weeks', label: 'Weekly KPIs' },
+  { key: 'cost_breakdown', label: 'Cost breakdown' },
+  { key: 'totals', label: 'Season totals' },
+  { key: 'product_sales', label: 'Sales by product' },
+  { key: 'cash_ledger', label: 'Cash ledger' },
+  { key: 'orders_log', label: 'Orders log' },
+];
+
+interface ExportMenuProps {
+  gameId: string;
+}
+
+// Download the game's data for a spreadsheet: the whole workbook or one CSV
+export default function ExportMenu({ gameId }: ExportMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-2"><Download size={16} /> Export</Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem asChild>
+          <a href={`/api/game/${gameId}/export.xlsx`} download>Excel workbook (.xlsx)</a>
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel className="text-xs text-gray-500">CSV</DropdownMenuLabel>
+        {CSV_DATASETS.map((d) => (
+          <DropdownMenuItem key={d.key} asChild>
+            <a href={`/api/game/${gameId}/export/${d.key}.csv`} download>{d.label}</a>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -2,6 +2,11 @@ import { useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { TooltipWrapper } from "@/components/ui/tooltip-wrapper";
+import { Button } from "@/components/ui/button";
+import { FileText } from "lucide-react";
+import { summarizeBackorders, sumProducts } from "@/lib/backorders";
+import DebriefSection from "./debrief";
+import ExportMenu from "./export-menu";
 import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, PieChart, Pie, Cell } from 'recharts';
 
 interface FinalDashboardProps {
@@ -34,12 +39,24 @@ export default function FinalDashboard({ gameId }: FinalDashboardProps) {
   const totalSales = salesWeeks.reduce((s: number, w: any) => s + Object.values(w.weeklySales || {}).reduce((a: number, b: any) => a + Number(b || 0), 0), 0);
   const totalLost = salesWeeks.reduce((s: number, w: any) => s + Object.values(w.lostSales || {}).reduce((a: number, b: any) => a + Number(b || 0), 0), 0);
   const serviceLevel = totalDemand > 0 ? (totalSales / totalDemand) * 100 : 0;
+  // Backorder mode: unmet demand splits into walked away, waited and was served late, and gave up waiting
+  const hasBackorders = weeks.some((w: any) => !!w.backorders);
+  const backorders = summarizeBackorders(weeks);
+  const lateServed = sumProducts(backorders.lateServed);
+  const waiting = sumProducts(backorders.backordered) + sumProducts(backorders.preordered);
+  const cancelled = sumProducts(backorders.cancelled);
+
+  // Stored with the game when week 15 was committed (server/scoring.ts); older games have none
+  const scoreBreakdown = (data as any).gameSession?.scoreBreakdown as
+    | { components: Array<{ key: string; label: string; value: number; points: number }>; total: number }
+    | null
+    | undefined;
 
   const finalState = weeks[weeks.length - 1];
   const finalCash = Number(finalState.cashOnHand || 0);
 
   const totalRevenue = weeks.reduce((sum: number, w: any) => sum + Number(w.weeklyRevenue || 0), 0);
-  const materialCosts = sumByType('materials_spt') + sumByType('materials_gmc');
+  const materialCosts = sumByType('materials_spt') + sumByType('materials_gmc') + sumByType('materials_fvc');
   const productionCosts = sumByType('production');
   const logisticsCosts = sumByType('logistics');
   const holdingCosts = sumByType('holding');
@@ -85,10 +102,11 @@ export default function FinalDashboard({ gameId }: FinalDashboardProps) {
     return entries[0]?.[0] || 'N/A';
   })();
   const contractMix = (() => {
-    const counts: Record<string, number> = { GMC: 0, SPT: 0 } as any;
+    const counts: Record<string, number> = { FVC: 0, GMC: 0, SPT: 0 } as any;
     const total = allContracts.reduce((s, c) => s + contractUnits(c), 0) || 1;
     allContracts.forEach((c: any) => counts[c.type] = (counts[c.type] || 0) + contractUnits(c));
     return {
+      FVC: Math.round((counts.FVC || 0) / total * 100),
       GMC: Math.round((counts.GMC || 0) / total * 100),
       SPT: Math.round((counts.SPT || 0) / total * 100),
     };
@@ -124,7 +142,15 @@ export default function FinalDashboard({ gameId }: FinalDashboardProps) {
   return (
     <div className="bg-white">
       <div className="max-w-6xl mx-auto space-y-6">
-        <h1 className="text-2xl font-bold">Final Performance Dashboard</h1>
+        <div className="flex items-center justify-between gap-4">
+          <h1 className="text-2xl font-bold">Final Performance Dashboard</h1>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <a href={`/api/game/${gameId}/report.pdf`} download className="flex items-center gap-2"><FileText size={16} /> Season report (PDF)</a>
+            </Button>
+            <ExportMenu gameId={gameId} />
+          </div>
+        </div>
 
         {/* Headline KPIs */}
         <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
@@ -176,8 +202,60 @@ export default function FinalDashboard({ gameId }: FinalDashboardProps) {
               <div className="text-2xl font-bold">{totalLost.toLocaleString()}</div>
             </CardContent>
           </Card>
+          {hasBackorders && (
+            <Card>
+              <CardContent className="p-4">
+                <div className="text-sm text-gray-600">
+                  <TooltipWrapper content="Backorders and pre-orders placed, served late from stock, or cancelled after waiting too long. Late units do not count towards service level.">Backorders</TooltipWrapper>
+                </div>
+                <div className="text-2xl font-bold">{waiting.toLocaleString()}</div>
+                <div className="text-xs text-gray-500">{lateServed.toLocaleString()} served late · {cancelled.toLocaleString()} cancelled</div>
+              </CardContent>
+            </Card>
+          )}
         </div>
 
+        {/* Final Score */}
+        {scoreBreakdown && (
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                <TooltipWrapper content="Economic profit at the rubric's weight, less penalties for service level below target, net debt at the end of week 15, dead stock and launching late">Final Score</TooltipWrapper>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-gray-500">
+                    <th className="text-left font-medium">Component</th>
+                    <th className="text-right font-medium">Measure</th>
+                    <th className="text-right font-medium">Points</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {scoreBreakdown.components.map((c) => (
+                    <tr key={c.key}>
+                      <td className="py-1">{c.label}</td>
+                      <td className="text-right font-mono">
+                        {c.key === 'service_level' ? `${c.value.toFixed(1)}%` : c.key === 'late_launch' ? `${c.value} product-weeks` : formatCurrency(c.value)}
+                      </td>
+                      <td className={`text-right font-mono ${c.points < 0 ? 'text-red-700' : ''}`}>{formatCurrency(c.points)}</td>
+                    </tr>
+                  ))}
+                  <tr className="border-t font-semibold">
+                    <td className="py-1">Final score</td>
+                    <td />
+                    <td className={`text-right font-mono ${scoreBreakdown.total >= 0 ? 'text-emerald-700' : 'text-red-700'}`}>{formatCurrency(scoreBreakdown.total)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Debrief */}
+        <DebriefSection gameId={gameId} />
+
         {/* Cost Breakdown */}
         <Card>
           <CardHeader>
@@ -218,7 +296,7 @@ export default function FinalDashboard({ gameId }: FinalDashboardProps) {
               </div>
               <div>
                 <div className="text-sm text-gray-600">Contract Mix</div>
-                <div className="font-semibold">GMC {contractMix.GMC}% / SPT {contractMix.SPT}%</div>
+                <div className="font-semibold">FVC {contractMix.FVC}% / GMC {contractMix.GMC}% / SPT {contractMix.SPT}%</div>
               </div>
               <div>
                 <div className="text-sm text-gray-600">Production Methods</div>
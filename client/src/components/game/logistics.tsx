@@ -38,7 +38,7 @@ export default function Logistics({ gameSession, currentState, defaultSection =
         loading ? (
           <div className="text-sm text-gray-500 py-12 text-center">Loading inventory…</div>
         ) : (
-          <InventoryTab inventory={inventory} currentState={currentState} />
+          <InventoryTab inventory={inventory} currentState={currentState} gameSession={gameSession} />
         )
       ) : loading ? (
         <div className="text-sm text-gray-500 py-12 text-center">Loading logistics…</div>
@@ -0,0 +1,121 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { TooltipWrapper } from "@/components/ui/tooltip-wrapper";
+import { AlertCircle } from "lucide-react";
+import { PRODUCT_LABELS, formatNumber } from "./shared";
+
+type ProductCoverage = {
+  openingUnits: number;
+  arrivingUnits: number;
+  demand: number;
+  sales: number;
+  shortfall: number;
+  closingUnits: number;
+  coverage: number | null;
+};
+
+type CoverageProjection = {
+  fromWeek: number;
+  weeks: Array<{ weekNumber: number; products: Record<string, ProductCoverage> }>;
+  stockOuts: Array<{ weekNumber: number; product: string; shortfall: number; demand: number }>;
+};
+
+interface CoverageHeatmapProps {
+  gameSession: any;
+  currentState: any;
+}
+
+// Shelf stock as a multiple of the week's forecast demand
+function cellClasses(cell: ProductCoverage): string {
+  if (cell.coverage == null) return "bg-gray-50 text-gray-400";
+  if (cell.shortfall > 0) return "bg-red-500 text-white";
+  if (cell.coverage < 1.5) return "bg-amber-300 text-gray-900";
+  if (cell.coverage <= 4) return "bg-emerald-400 text-gray-900";
+  return "bg-sky-200 text-gray-900";
+}
+
+// Week-by-week stock-out risk for the selling weeks if the current plan plays
+// out unchanged: shelf stock, shipments, WIP and scheduled batches against
+// forecast demand.
+export function CoverageHeatmap({ gameSession, currentState }: CoverageHeatmapProps) {
+  const week = Number(currentState?.weekNumber || 0);
+  const { data: projection } = useQuery<CoverageProjection>({
+    queryKey: ["/api/game", gameSession?.id, "week", week, "inventory-coverage", currentState?.updatedAt],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/game/${gameSession.id}/week/${week}/inventory-coverage`);
+      return res.json();
+    },
+    enabled: Boolean(gameSession?.id) && week > 0 && !currentState?.isCommitted,
+    staleTime: 15000,
+  });
+
+  if (!projection || projection.weeks.length === 0) return null;
+  const products = Object.keys(projection.weeks[0].products);
+
+  return (
+    <Card className="border border-gray-100 mb-6">
+      <CardHeader>
+        <CardTitle className="text-base">Projected stock coverage</CardTitle>
+        <p className="text-xs text-gray-500">
+          Shelf stock ÷ forecast demand each selling week if your current plan plays out unchanged. Red weeks stock out; hover a cell for units.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs border-separate border-spacing-1">
+            <thead>
+              <tr>
+                <th className="text-left font-medium text-gray-600 pr-2">Product</th>
+                {projection.weeks.map((w) => (
+                  <th key={w.weekNumber} className="font-medium text-gray-600">W{w.weekNumber}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {products.map((p) => (
+                <tr key={p} data-issue-target={`product:${p}`}>
+                  <td className="pr-2 text-gray-900 whitespace-nowrap">{PRODUCT_LABELS[p] || p}</td>
+                  {projection.weeks.map((w) => {
+                    const cell = w.products[p];
+                    const tip = `Week ${w.weekNumber}: ${formatNumber(cell.openingUnits)} on shelf`
+                      + (cell.arrivingUnits > 0 ? ` (${formatNumber(cell.arrivingUnits)} arriving)` : "")
+                      + `, ${formatNumber(cell.demand)} forecast demand`
+                      + (cell.shortfall > 0 ? `, ${formatNumber(cell.shortfall)} short` : "");
+                    return (
+                      <td key={w.weekNumber} className="p-0">
+                        <TooltipWrapper content={tip}>
+                          <div className={`rounded px-1 py-2 text-center font-medium cursor-help ${cellClasses(cell)}`}>
+                            {cell.coverage == null ? "—" : `${cell.coverage.toFixed(1)}×`}
+                          </div>
+                        </TooltipWrapper>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="mt-3 flex flex-wrap gap-3 text-xs text-gray-600">
+          <span className="flex items-center gap-1"><span className="inline-block h-3 w-3 rounded bg-red-500" /> Stock-out</span>
+          <span className="flex items-center gap-1"><span className="inline-block h-3 w-3 rounded bg-amber-300" /> Under 1.5×</span>
+          <span className="flex items-center gap-1"><span className="inline-block h-3 w-3 rounded bg-emerald-400" /> 1.5–4×</span>
+          <span className="flex items-center gap-1"><span className="inline-block h-3 w-3 rounded bg-sky-200" /> Over 4×</span>
+        </div>
+        {projection.stockOuts.length > 0 && (
+          <div className="mt-3 rounded-md bg-red-50 p-2 text-xs text-red-700">
+            <div className="mb-1 flex items-center gap-1 font-medium"><AlertCircle size={14} /> Stock-out risk</div>
+            <ul className="space-y-0.5">
+              {projection.stockOuts.map((s) => (
+                <li key={`${s.product}-${s.weekNumber}`}>
+                  Week {s.weekNumber}: {PRODUCT_LABELS[s.product] || s.product} short {formatNumber(s.shortfall)} of {formatNumber(s.demand)} units
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -11,6 +11,8 @@ import {
 import { Area, AreaChart, Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
 import { ChevronDown, ChevronRight, Wallet, CreditCard, Boxes, PackageSearch, Package, Truck, AlertCircle, BarChart3 } from "lucide-react";
 import { InventoryPipeline } from "./inventory-pipeline";
+import { CoverageHeatmap } from "./coverage-heatmap";
+import { LiquidationCard } from "./liquidation-card";
 import {
   PRODUCT_COLORS,
   PRODUCT_LABELS,
@@ -24,6 +26,7 @@ import {
 interface InventoryTabProps {
   inventory: any;
   currentState: any;
+  gameSession?: any;
 }
 
 interface KpiCardProps {
@@ -107,7 +110,7 @@ function StockCoverCard({ product, onShelf, pipeline, weeklyDemand }: StockCover
   );
 }
 
-export function InventoryTab({ inventory, currentState }: InventoryTabProps) {
+export function InventoryTab({ inventory, currentState, gameSession }: InventoryTabProps) {
   const [expandedMaterial, setExpandedMaterial] = useState<string | null>(null);
   const summary = inventory?.summary || {};
   const rmList = inventory?.rawMaterials || [];
@@ -261,6 +264,9 @@ export function InventoryTab({ inventory, currentState }: InventoryTabProps) {
         ))}
       </div>
 
+      {gameSession && <CoverageHeatmap gameSession={gameSession} currentState={currentState} />}
+      {gameSession && <LiquidationCard gameSession={gameSession} currentState={currentState} />}
+
       {/* Raw Materials table */}
       <Card className="border border-gray-100 mb-4">
         <CardHeader>
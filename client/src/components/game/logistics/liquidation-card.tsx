@@ -0,0 +1,89 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { PRODUCT_LABELS, formatCurrency, formatNumber } from "./shared";
+
+interface LiquidationCardProps {
+  gameSession: any;
+  currentState: any;
+}
+
+// Week 15: opt in to selling whatever is left after the week's sales to the
+// end-of-season jobber at salvage value, instead of carrying it as dead stock.
+export function LiquidationCard({ gameSession, currentState }: LiquidationCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: constants } = useQuery<any>({ queryKey: ["/api/game/constants"], retry: false });
+  const week = Number(currentState?.weekNumber || 0);
+  const enabled = Boolean(currentState?.liquidateUnsoldStock);
+
+  const toggleMutation = useMutation({
+    mutationFn: async (liquidateUnsoldStock: boolean) => {
+      const res = await apiRequest("POST", `/api/game/${gameSession.id}/week/${week}/update`, { liquidateUnsoldStock });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/game/current"] });
+    },
+    onError: () => {
+      toast({ title: "Could not save", description: "Please try again.", variant: "destructive" });
+    },
+  });
+
+  if (week !== 15 || currentState?.isCommitted) return null;
+
+  const salvageRate = Number(constants?.RUN_OUT?.SALVAGE_RATE ?? 0);
+  const byProduct: Record<string, { units: number; value: number }> = {};
+  for (const lot of currentState?.finishedGoods?.lots || []) {
+    const row = byProduct[lot.product] || (byProduct[lot.product] = { units: 0, value: 0 });
+    row.units += Number(lot.quantity || 0);
+    row.value += Number(lot.quantity || 0) * Number(lot.unitCostBasis || 0) * salvageRate;
+  }
+  const products = Object.keys(byProduct).filter((p) => byProduct[p].units > 0);
+
+  return (
+    <Card className="border border-gray-100 mb-6">
+      <CardHeader>
+        <CardTitle className="text-base">End-of-season liquidation</CardTitle>
+        <p className="text-xs text-gray-500">
+          A jobber buys whatever finished stock is left after this week's sales at {Math.round(salvageRate * 100)}% of its unit cost.
+          Liquidated stock earns salvage revenue and is not counted as dead stock.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="liquidate-unsold-stock"
+            checked={enabled}
+            onCheckedChange={(checked) => toggleMutation.mutate(checked)}
+            disabled={toggleMutation.isPending || !!currentState?.submittedAt}
+          />
+          <Label htmlFor="liquidate-unsold-stock" className="text-sm text-gray-700">Sell unsold stock to the jobber when I commit week 15</Label>
+        </div>
+        {products.length > 0 && (
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-500">
+                <th className="text-left font-medium">On the shelf now</th>
+                <th className="text-right font-medium">Units</th>
+                <th className="text-right font-medium">Salvage value if none sell</th>
+              </tr>
+            </thead>
+            <tbody>
+              {products.map((p) => (
+                <tr key={p}>
+                  <td>{PRODUCT_LABELS[p] || p}</td>
+                  <td className="text-right font-mono">{formatNumber(byProduct[p].units)}</td>
+                  <td className="text-right font-mono">{formatCurrency(byProduct[p].value)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
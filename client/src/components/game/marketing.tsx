@@ -14,6 +14,7 @@ import { isUnauthorizedError } from "@/lib/authUtils";
 import { AlertTriangle, HelpCircle, Share2, Newspaper, Tv, Search, MonitorSmartphone, User, GraduationCap } from "lucide-react";
 import { DonutGauge } from "@/components/ui/donut-gauge";
 import { Sparkline } from "@/components/ui/sparkline";
+import RunOutMarkdowns from "@/components/game/run-out-markdowns";
 
 interface MarketingProps {
   gameSession: any;
@@ -155,6 +156,11 @@ export default function Marketing({ gameSession, currentState }: MarketingProps)
   // Discounts for next week
   const [discountMode, setDiscountMode] = useState<'none' | 'minimal' | 'standard' | 'aggressive'>('none');
   const [discountPercent, setDiscountPercent] = useState<number>(0);
+  // Per-product markdowns (%) when next week is a run-out week, unless the game uses automatic clearance
+  const [markdowns, setMarkdowns] = useState<Record<'jacket' | 'dress' | 'pants', number>>({ jacket: 0, dress: 0, pants: 0 });
+  const runOutStartWeek = Number((gameConstants as any)?.RUN_OUT?.START_WEEK ?? 13);
+  const nextIsRunOut = currentWeek + 1 >= runOutStartWeek && currentWeek + 1 <= 15;
+  const playerMarkdowns = nextIsRunOut && gameSession?.runOutMode !== 'automatic';
 
   useEffect(() => {
     const plan = (currentState as any)?.plannedMarketingPlan as any;
@@ -170,6 +176,11 @@ export default function Marketing({ gameSession, currentState }: MarketingProps)
       Number(discounts.pants || 0)
     ) / 3;
     const nextDiscountPct = Math.round(avgDiscount * 100);
+    setMarkdowns({
+      jacket: Math.round(Number(discounts.jacket || 0) * 100),
+      dress: Math.round(Number(discounts.dress || 0) * 100),
+      pants: Math.round(Number(discounts.pants || 0) * 100),
+    });
 
     setMarketingSpend(nextSpend);
     setManual(nextManual);
@@ -291,6 +302,7 @@ export default function Marketing({ gameSession, currentState }: MarketingProps)
   };
 
   const plannedDiscounts = useMemo(() => {
+    if (playerMarkdowns) return { jacket: markdowns.jacket / 100, dress: markdowns.dress / 100, pants: markdowns.pants / 100 };
     if (preset === 'awareness') return { jacket: 0, dress: 0, pants: 0 };
     if (preset === 'balanced') {
       if (discountMode === 'none') return { jacket: 0, dress: 0, pants: 0 };
@@ -299,7 +311,7 @@ export default function Marketing({ gameSession, currentState }: MarketingProps)
     // conversion
     if (discountMode === 'none') return { jacket: 0, dress: 0, pants: 0 };
     const d = discountPercent / 100; return { jacket: d, dress: d, pants: d };
-  }, [preset, discountMode, discountPercent]);
+  }, [preset, discountMode, discountPercent, playerMarkdowns, markdowns]);
 
   const discountBounds = useMemo(() => {
     return { min: 0, max: 95 };
@@ -452,7 +464,7 @@ export default function Marketing({ gameSession, currentState }: MarketingProps)
   }, [maxAffordableNextWeek, isFinalWeek, isLocked, capData]);
 
   // Debounced preview of next week's A/I and demand to drive forecast donuts
-  const [preview, setPreview] = useState<{ nextAwareness: number; nextIntent: number; forecastDemandTotal: number } | null>(null);
+  const [preview, setPreview] = useState<{ nextAwareness: number; nextIntent: number; forecastDemandTotal: number; forecastDemandRange?: { low: number; high: number } } | null>(null);
   useEffect(() => {
     if (isFinalWeek) { setPreview(null); return; }
     const t = setTimeout(async () => {
@@ -461,7 +473,7 @@ export default function Marketing({ gameSession, currentState }: MarketingProps)
         const plan = { totalSpend: marketingSpend, channels: channelsArray, manual, preset, splitSource };
         const res = await apiRequest('POST', `/api/game/${gameSession.id}/week/${currentWeek}/marketing-preview`, { plannedMarketingPlan: plan, plannedWeeklyDiscounts: plannedDiscounts });
         const data = await res.json();
-        setPreview({ nextAwareness: Number(data.nextAwareness||0), nextIntent: Number(data.nextIntent||0), forecastDemandTotal: Number(data.forecastDemandTotal||0) });
+        setPreview({ nextAwareness: Number(data.nextAwareness||0), nextIntent: Number(data.nextIntent||0), forecastDemandTotal: Number(data.forecastDemandTotal||0), forecastDemandRange: data.forecastDemandRange || undefined });
       } catch {
         setPreview(null);
       }
@@ -547,8 +559,13 @@ export default function Marketing({ gameSession, currentState }: MarketingProps)
                 const dem = (currentState?.weeklyDemand || {}) as any;
                 const lastWeekUnits = Number(dem.jacket||0)+Number(dem.dress||0)+Number(dem.pants||0);
                 const nextForecast = Number(preview?.forecastDemandTotal||0);
+                // Uncertain-demand games: 10th–90th percentile range instead of a point value
+                const range = preview?.forecastDemandRange;
+                const forecastText = range
+                  ? `→ next week ${range.low.toLocaleString()}–${range.high.toLocaleString()} (80% forecast range)`
+                  : `→ next week ~ ${nextForecast.toLocaleString()} (forecast)`;
                 return (
-                  <div className="text-xs text-gray-600 mb-1">{lastWeekUnits.toLocaleString()} units {(!isFinalWeek && nextForecast>0) ? `→ next week ~ ${nextForecast.toLocaleString()} (forecast)` : ''}</div>
+                  <div className="text-xs text-gray-600 mb-1">{lastWeekUnits.toLocaleString()} units {(!isFinalWeek && nextForecast>0) ? forecastText : ''}</div>
                 );
               })()}
               {(() => {
@@ -680,6 +697,17 @@ export default function Marketing({ gameSession, currentState }: MarketingProps)
 	              </div>
               <div className="text-xs text-gray-500 flex items-center gap-1"><HelpCircle size={12}/> Recommended for next week: {recommendedPreset.charAt(0).toUpperCase()+recommendedPreset.slice(1)}</div>
             </div>
+            {nextIsRunOut ? (
+              <RunOutMarkdowns
+                week={currentWeek + 1}
+                playerMarkdowns={playerMarkdowns}
+                markdowns={markdowns}
+                onChange={(p, value) => setMarkdowns((prev) => ({ ...prev, [p]: value }))}
+                currentState={currentState}
+                gameConstants={gameConstants}
+                disabled={isLocked}
+              />
+            ) : (
             <div className="space-y-2">
               <Label>Discounts (next week)</Label>
               {preset === 'awareness' && (<div className="text-sm text-gray-600">Hidden during Awareness.</div>)}
@@ -700,6 +728,7 @@ export default function Marketing({ gameSession, currentState }: MarketingProps)
 	              </div>
 	            )}
             </div>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -352,18 +352,19 @@ export default function Pricing({ gameSession, currentState }: PricingProps) {
           const price = parseFloat(pricingData[product.skuId]?.rrp) || 0;
 
           return (
-            <SkuCard
-              key={product.skuId}
-              skuId={product.skuId}
-              name={product.name}
-              hmp={product.hmp}
-              base_units={product.base_units}
-              elasticity={product.elasticity}
-              hi_low={product.hi_low}
-              price={price}
-              onChange={handlePriceChange}
-              isLocked={isLocked}
-            />
+            <div key={product.skuId} data-issue-target={`product:${product.skuId}`} className="rounded-lg">
+              <SkuCard
+                skuId={product.skuId}
+                name={product.name}
+                hmp={product.hmp}
+                base_units={product.base_units}
+                elasticity={product.elasticity}
+                hi_low={product.hi_low}
+                price={price}
+                onChange={handlePriceChange}
+                isLocked={isLocked}
+              />
+            </div>
           );
         })}
       </div>
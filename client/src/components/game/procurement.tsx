@@ -14,6 +14,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Slider } from "@/components/ui/slider";
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { estimateSeasonDemand } from "@/lib/simulation-formulas";
+import { announcedDisruptions, isInForce, priceMultiplier } from "@/lib/disruptions";
 
 interface ProcurementProps {
   gameSession: any;
@@ -29,7 +30,7 @@ interface MaterialOrder {
 }
 
 interface ContractData {
-  type: 'gmc' | 'spot' | null;
+  type: 'fvc' | 'gmc' | 'spot' | null;
   supplier: 'supplier1' | 'supplier2' | 'both';
   orders: MaterialOrder[];
   totalCommitment: number;
@@ -61,6 +62,14 @@ export default function Procurement({ gameSession, currentState }: ProcurementPr
   const [gmcCommitments, setGmcCommitments] = useState<Record<string, number>>(() => { return (currentState?.procurementContracts?.gmcCommitments as Record<string, number>) || {} });
   const [dealDialog, setDealDialog] = useState<{ open: boolean; supplier: 'supplier1' | 'supplier2' | null }>({ open: false, supplier: null });
   const [gmcConfirm, setGmcConfirm] = useState<{ open: boolean; supplier: 'supplier1' | 'supplier2' | null }>({ open: false, supplier: null });
+  // FVC terms are only offered in the signing week; the schedule applies to every line in the basket
+  const [useFvcTerms, setUseFvcTerms] = useState(false);
+  const [fvcSchedule, setFvcSchedule] = useState<{ firstWeek: number; deliveries: number }>({ firstWeek: currentWeek + 2, deliveries: 1 });
+  const [fvcConfirmOpen, setFvcConfirmOpen] = useState(false);
+
+  // Price spikes in force this week apply to new spot and GMC orders
+  const disruptions = announcedDisruptions(currentState);
+  const priceSpikes = disruptions.filter((e) => e.kind === 'price_spike' && isInForce(e, currentWeek));
 
   // Prices and surcharges
   const supplierPrices = { supplier1: { selvedgeDenim: 16, standardDenim: 10, egyptianCotton: 12, polyesterBlend: 7, fineWaleCorduroy: 14, wideWaleCorduroy: 9 }, supplier2: { selvedgeDenim: 13, egyptianCotton: 10, polyesterBlend: 6, fineWaleCorduroy: 11, wideWaleCorduroy: 7 } } as const;
@@ -150,24 +159,27 @@ export default function Procurement({ gameSession, currentState }: ProcurementPr
         const basePrice = (supplierPrices as any)[selectedSupplier]?.[material];
         const printSurcharge = (printOptions as any)[material] ? (printSurcharges as any)[selectedSupplier]?.[material] || 0 : 0;
         if (basePrice !== undefined) {
-          const unitPrice = basePrice + printSurcharge;
+          const unitPrice = basePrice * priceMultiplier(selectedSupplier, material, currentWeek, disruptions) + printSurcharge;
           orders.push({ supplier: selectedSupplier, material, quantity, unitPrice, totalCost: quantity * unitPrice });
           totalVolume += quantity; totalCost += quantity * unitPrice;
         }
       }
     });
-    // Determine discount for display based on type: SPOT uses basket-only, GMC uses commitment-only
+    // Determine discount for display based on type: SPOT uses basket-only, GMC uses commitment-only,
+    // FVC uses the supplier's committed volume (GMC + signed FVC) plus this basket
     const hasGmc = Number(savedGmcCommitments[selectedSupplier] || 0) > 0;
     const isSpot = !hasGmc;
     const basketUnits = totalVolume;
     const commitmentUnitsForSupplier = Number(savedGmcCommitments[selectedSupplier] || 0);
-    const unitsForTier = isSpot ? basketUnits : commitmentUnitsForSupplier;
+    const unitsForTier = useFvcTerms
+      ? basketUnits + commitmentUnitsForSupplier + getFvcUnitsForSupplier(selectedSupplier)
+      : isSpot ? basketUnits : commitmentUnitsForSupplier;
     const { discount: tierDiscount } = computeTierForSupplier(selectedSupplier, unitsForTier);
     const extra = singleSupplierDeal === selectedSupplier ? 0.02 : 0;
     const appliedDiscount = tierDiscount + extra;
     const discountedCost = totalCost * (1 - appliedDiscount);
     setContractData(prev => ({ ...prev, orders, totalCommitment: discountedCost, discount: appliedDiscount * 100 }));
-  }, [materialQuantities, printOptions, selectedSupplier, gameConstants, currentWeek, singleSupplierDeal]);
+  }, [materialQuantities, printOptions, selectedSupplier, gameConstants, currentWeek, singleSupplierDeal, useFvcTerms]);
 
   const updateStateMutation = useMutation({
     mutationFn: async (updates: any) => { await apiRequest('POST', `/api/game/${gameSession.id}/week/${currentWeek}/update`, updates); },
@@ -203,20 +215,31 @@ export default function Procurement({ gameSession, currentState }: ProcurementPr
     if (contractData.orders.length === 0) { toast({ title: "No fabrics selected", description: "Please select fabrics and quantities before purchasing.", variant: "destructive" }); return; }
     if (Object.keys(quantityErrors).length > 0) { toast({ title: "Invalid quantities", description: "Fix quantity errors before purchasing.", variant: "destructive" }); return; }
 
+    if (useFvcTerms) { setFvcConfirmOpen(true); return; }
+
     const isGmcTerms = (gmcCommitments[selectedSupplier] || 0) > 0;
-    const orderType: 'gmc' | 'spot' = isGmcTerms ? 'gmc' : 'spot';
+    placeOrder(isGmcTerms ? 'gmc' : 'spot');
+  };
+
+  const placeOrder = (orderType: 'fvc' | 'gmc' | 'spot') => {
     const lead = Number((gameConstants as any)?.SUPPLIERS?.[selectedSupplier]?.leadTime || 2);
-    const shipmentWeek = currentWeek + lead;
+    const shipmentWeek = orderType === 'fvc' ? fvcSchedule.firstWeek : currentWeek + lead;
+    const orders = orderType === 'fvc'
+      ? contractData.orders.map((o) => ({ ...o, deliveries: buildFvcDeliveries(o.quantity) }))
+      : contractData.orders;
 
-    const materialPurchase = { ...contractData, type: orderType, supplier: selectedSupplier, printOptions, materialQuantities, purchaseWeek: currentWeek, shipmentWeek, timestamp: new Date().toISOString(), status: 'ordered', totalUnits: Object.values(materialQuantities).reduce((s: number, v: any) => s + (Number(v) || 0), 0), canDelete: true, gmcCommitmentUnits: orderType === 'gmc' ? Number(savedGmcCommitments[selectedSupplier] || gmcCommitments[selectedSupplier] || 0) : undefined };
+    const materialPurchase = { ...contractData, orders, type: orderType, supplier: selectedSupplier, printOptions, materialQuantities, purchaseWeek: currentWeek, shipmentWeek, timestamp: new Date().toISOString(), status: 'ordered', totalUnits: Object.values(materialQuantities).reduce((s: number, v: any) => s + (Number(v) || 0), 0), canDelete: true, gmcCommitmentUnits: orderType === 'gmc' ? Number(savedGmcCommitments[selectedSupplier] || gmcCommitments[selectedSupplier] || 0) : undefined };
     const updates: any = { materialPurchases: [ ...(currentState?.materialPurchases || []), materialPurchase ] };
     if (orderType === 'gmc') updates.gmcCommitments = gmcCommitments;
     updateStateMutation.mutate(updates, {
       onSuccess: () => {
-        toast({ title: "Fabrics Purchased!", description: `Fabrics ordered from ${selectedSupplier === 'supplier1' ? 'Supplier-1' : 'Supplier-2'}. Shipment arrives Week ${shipmentWeek}.` });
+        toast(orderType === 'fvc'
+          ? { title: "FVC Signed", description: `Full volume committed with ${selectedSupplier === 'supplier1' ? 'Supplier-1' : 'Supplier-2'}. Deliveries from Week ${fvcSchedule.firstWeek}.` }
+          : { title: "Fabrics Purchased!", description: `Fabrics ordered from ${selectedSupplier === 'supplier1' ? 'Supplier-1' : 'Supplier-2'}. Shipment arrives Week ${shipmentWeek}.` });
         // Clear basket optimistically
         setMaterialQuantities({ selvedgeDenim: 0, standardDenim: 0, egyptianCotton: 0, polyesterBlend: 0, fineWaleCorduroy: 0, wideWaleCorduroy: 0 });
         setContractData((prev) => ({ ...prev, orders: [], totalCommitment: 0, discount: 0 }));
+        setUseFvcTerms(false);
       }
     });
   };
@@ -265,6 +288,30 @@ export default function Procurement({ gameSession, currentState }: ProcurementPr
     return fromContracts;
   };
 
+  // FVC: units already signed with a supplier (count towards its volume tier)
+  const getFvcUnitsForSupplier = (sup: 'supplier1' | 'supplier2') => {
+    const contracts = (currentState?.procurementContracts?.contracts || []) as any[];
+    return contracts
+      .filter((c) => c.type === 'FVC' && c.supplier === sup)
+      .reduce((sum, c) => sum + Number(c.units || 0), 0);
+  };
+  const fvcSigningWeek = Number((gameConstants as any)?.FVC?.SIGNING_WEEK ?? 1);
+  const fvcDownPaymentRate = Number((gameConstants as any)?.FVC?.DOWN_PAYMENT_RATE ?? 0.25);
+  const isFvcWindow = currentWeek === fvcSigningWeek && !currentState?.isCommitted;
+  const fvcLead = Number((gameConstants as any)?.SUPPLIERS?.[selectedSupplier]?.leadTime || 2);
+  const fvcFinalWeek = fvcSchedule.firstWeek + fvcSchedule.deliveries - 1;
+
+  // Split a line into weekly deliveries of whole batches; the last delivery takes the remainder
+  const buildFvcDeliveries = (quantity: number) => {
+    const batches = Math.max(1, Math.floor(quantity / batchSize));
+    const count = Math.max(1, Math.min(fvcSchedule.deliveries, batches));
+    const perDelivery = Math.floor(batches / count) * batchSize;
+    return Array.from({ length: count }, (_, i) => ({
+      week: fvcSchedule.firstWeek + i,
+      units: i === count - 1 ? quantity - perDelivery * (count - 1) : perDelivery,
+    }));
+  };
+
   // If a deal is signed, force selection to that supplier
   useEffect(() => {
     if (singleSupplierDeal && selectedSupplier !== singleSupplierDeal) {
@@ -337,6 +384,14 @@ export default function Procurement({ gameSession, currentState }: ProcurementPr
         <p className="text-gray-600">Secure fabrics from suppliers with optimal contract terms</p>
       </div>
 
+      {priceSpikes.length > 0 && (
+        <div className="mb-6 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900">
+          {priceSpikes.map((e) => (
+            <div key={e.id}><span className="font-medium">{e.title}:</span> new orders pay {Math.round((Number(e.priceMultiplier || 1) - 1) * 100)}% more{e.material ? ` for ${e.material.replace(/([A-Z])/g, ' $1').toLowerCase()}` : ''} this week.</div>
+          ))}
+        </div>
+      )}
+
       {/* Supplier Overview (restored large cards) */}
       <div className="grid grid-cols-1 xl:grid-cols-2 gap-6 mb-8">
         {/* Supplier-1 Card */}
@@ -649,6 +704,40 @@ export default function Procurement({ gameSession, currentState }: ProcurementPr
               </div>
             </div>
 
+          {/* FVC terms (signing week only) */}
+            {isFvcWindow && (
+              <div className="mb-6 border rounded-lg p-4 bg-indigo-50/60 border-indigo-200">
+                <div className="flex items-start gap-2 text-sm text-gray-700 mb-3">
+                  <Info size={14} className="mt-0.5 text-gray-500" />
+                  <p>
+                    A Full Volume Commitment (FVC) fixes the whole season's volume and delivery schedule now. It can only be signed in Week {fvcSigningWeek}. You pay a <strong>{Math.round(fvcDownPaymentRate * 100)}% down payment</strong> on signing and the balance on the final delivery. FVC volume counts towards the supplier's discount tiers, so it is the surest route to the top tiers — but the cash is committed whether or not demand materialises.
+                  </p>
+                </div>
+                <div className="flex flex-wrap items-end gap-4">
+                  <div className="flex items-center space-x-2">
+                    <Checkbox id="fvc-terms" checked={useFvcTerms} onCheckedChange={(checked) => setUseFvcTerms(!!checked)} />
+                    <Label htmlFor="fvc-terms" className="text-sm font-medium cursor-pointer">Order this basket on FVC terms</Label>
+                  </div>
+                  {useFvcTerms && (
+                    <>
+                      <div>
+                        <Label className="text-xs text-gray-600">First delivery week</Label>
+                        <Input type="number" min={currentWeek + fvcLead} max={15} value={fvcSchedule.firstWeek} onChange={(e) => setFvcSchedule(prev => ({ ...prev, firstWeek: Math.min(15, Math.max(currentWeek + fvcLead, parseInt(e.target.value) || 0)) }))} className="w-24" />
+                      </div>
+                      <div>
+                        <Label className="text-xs text-gray-600">Weekly deliveries</Label>
+                        <Input type="number" min={1} max={4} value={fvcSchedule.deliveries} onChange={(e) => setFvcSchedule(prev => ({ ...prev, deliveries: Math.min(4, Math.max(1, parseInt(e.target.value) || 1)) }))} className="w-24" />
+                      </div>
+                      <div className="text-xs text-gray-600 pb-2">Deliveries W{fvcSchedule.firstWeek}–W{fvcFinalWeek}</div>
+                    </>
+                  )}
+                </div>
+                {useFvcTerms && fvcFinalWeek > 15 && (
+                  <div className="text-xs text-red-600 mt-2">The final delivery must arrive by Week 15.</div>
+                )}
+              </div>
+            )}
+
           {/* Fabric tiles with constraints */}
             <div className="space-y-4">
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -712,7 +801,7 @@ export default function Procurement({ gameSession, currentState }: ProcurementPr
                         <span className="font-mono">-{formatCurrency(contractData.orders.reduce((sum, order) => sum + order.totalCost, 0) * (contractData.discount / 100))}</span>
                       </div>
                     )}
-                  <div className="flex justify-between items-center text-sm text-gray-700"><span>{(gmcCommitments[selectedSupplier] || 0) > 0 ? 'GMC: each invoice is due two weeks after shipment' : 'SPT: pay on delivery'}</span><span className="font-mono"></span></div>
+                  <div className="flex justify-between items-center text-sm text-gray-700"><span>{useFvcTerms ? `FVC: ${Math.round(fvcDownPaymentRate * 100)}% down payment (${formatCurrency(contractData.totalCommitment * fvcDownPaymentRate)}) due W${currentWeek + 1}; balance due on final delivery W${fvcFinalWeek}` : (gmcCommitments[selectedSupplier] || 0) > 0 ? 'GMC: each invoice is due two weeks after shipment' : 'SPT: pay on delivery'}</span><span className="font-mono"></span></div>
                   <div className="flex justify-between items-center font-bold text-lg border-t border-gray-300 pt-2 mt-2"><span>Order Total:</span><span className="font-mono">{formatCurrency(contractData.totalCommitment)}</span></div>
                   </div>
                 </div>
@@ -721,7 +810,7 @@ export default function Procurement({ gameSession, currentState }: ProcurementPr
 
             {/* Action Buttons */}
             <div className="flex justify-end gap-4 mt-6">
-            <Button onClick={handleBuyMaterials} disabled={contractData.orders.length === 0 || updateStateMutation.isPending} className="flex items-center gap-2 bg-green-600 hover:bg-green-700">{updateStateMutation.isPending ? (<><div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>Processing...</>) : (<><ShoppingCart size={16} />Buy Fabrics</>)}</Button>
+            <Button onClick={handleBuyMaterials} disabled={contractData.orders.length === 0 || updateStateMutation.isPending || (useFvcTerms && fvcFinalWeek > 15)} className="flex items-center gap-2 bg-green-600 hover:bg-green-700">{updateStateMutation.isPending ? (<><div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>Processing...</>) : (<><ShoppingCart size={16} />{useFvcTerms ? 'Sign FVC' : 'Buy Fabrics'}</>)}</Button>
               </div>
           </CardContent>
         </Card>
@@ -743,6 +832,21 @@ export default function Procurement({ gameSession, currentState }: ProcurementPr
           </DialogFooter>
         </DialogContent>
       </Dialog>
+      {/* FVC confirmation dialog */}
+      <Dialog open={fvcConfirmOpen} onOpenChange={setFvcConfirmOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Sign Full Volume Commitment?</DialogTitle>
+            <DialogDescription>
+              You commit to {Number(totalUnits || 0).toLocaleString()} units from {selectedSupplier === 'supplier1' ? 'Supplier-1' : 'Supplier-2'} for {formatCurrency(contractData.totalCommitment)}, delivered W{fvcSchedule.firstWeek}–W{fvcFinalWeek}. The {Math.round(fvcDownPaymentRate * 100)}% down payment ({formatCurrency(contractData.totalCommitment * fvcDownPaymentRate)}) is due at the start of Week {currentWeek + 1}; the balance is due on the final delivery. This cannot be changed after the week is committed.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFvcConfirmOpen(false)}>Cancel</Button>
+            <Button onClick={() => { setFvcConfirmOpen(false); placeOrder('fvc'); }}>Confirm</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
       {/* Orders Log (full history) */}
       <Card className="border border-gray-100">
         <CardHeader>
@@ -764,17 +868,19 @@ export default function Procurement({ gameSession, currentState }: ProcurementPr
               <div className="space-y-3">
                 {flat.map((p: any, idx: number) => {
                   const lead = Number((gameConstants as any)?.SUPPLIERS?.[p.supplier]?.leadTime || 2);
-                  const delivery = Number(p.purchaseWeek) + lead;
-                  const dueWeek = p.type === 'gmc' ? (delivery + 2) : delivery;
+                  const fvcWeeks = (p.orders || []).flatMap((o: any) => (o.deliveries || []).map((d: any) => Number(d.week)));
+                  const delivery = p.type === 'fvc' && fvcWeeks.length ? Math.min(...fvcWeeks) : Number(p.purchaseWeek) + lead;
+                  const finalDelivery = p.type === 'fvc' && fvcWeeks.length ? Math.max(...fvcWeeks) : delivery;
+                  const dueWeek = p.type === 'gmc' ? (delivery + 2) : finalDelivery;
                   const allowRemove = p.purchaseWeek === currentWeek && p.canDelete && !currentState?.isCommitted;
-                  const typeLabel = p.type === 'gmc' ? 'GMC' : 'SPT';
+                  const typeLabel = p.type === 'fvc' ? 'FVC' : p.type === 'gmc' ? 'GMC' : 'SPT';
                   return (
                     <div key={`${p.timestamp}-${idx}`} className="border rounded-md p-3 text-sm">
                       <div className="flex justify-between items-center">
                         <div className="font-medium">W{p.purchaseWeek} • {p.supplier === 'supplier1' ? 'Supplier-1' : 'Supplier-2'} • {typeLabel}</div>
                         <div className="flex items-center gap-2">
-                          <div className="text-gray-600 flex items-center gap-1"><Truck size={14}/> Arrives W{delivery}</div>
-                          <div className="text-gray-600 flex items-center gap-1"><Receipt size={14}/> Invoice Due W{dueWeek}</div>
+                          <div className="text-gray-600 flex items-center gap-1"><Truck size={14}/> Arrives W{delivery}{finalDelivery !== delivery ? `–W${finalDelivery}` : ''}</div>
+                          <div className="text-gray-600 flex items-center gap-1"><Receipt size={14}/> {p.type === 'fvc' ? `Deposit W${Number(p.purchaseWeek) + 1} • Balance W${dueWeek}` : `Invoice Due W${dueWeek}`}</div>
                           <Button variant="outline" size="sm" onClick={() => handleRemovePurchase(p.timestamp)} disabled={!allowRemove} className="h-7 px-2"><Trash2 size={14}/> Remove</Button>
               </div>
             </div>
@@ -8,6 +8,7 @@ import { Badge } from "@/components/ui/badge";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { useToast } from "@/hooks/use-toast";
+import { announcedDisruptions, capacityAfterCuts } from "@/lib/disruptions";
 import { AlertTriangle, Factory, Package, BarChart3, List, Info } from "lucide-react";
 
 interface ProductionProps {
@@ -27,6 +28,7 @@ export default function Production({ gameSession, currentState }: ProductionProp
   // Constants
   const { data: constants } = useQuery({ queryKey: ["/api/game/constants"] });
   const CAPACITY: number[] = (constants as any)?.CAPACITY_SCHEDULE || [];
+  const disruptions = announcedDisruptions(currentState);
   const MFG = (constants as any)?.MANUFACTURING || {};
 
   // Derived state
@@ -163,7 +165,7 @@ export default function Production({ gameSession, currentState }: ProductionProp
   // Capacity usage for in-house lane (W3..W13)
   const capacityByWeek = useMemo(() => {
     const map: Record<number, { capacity: number; used: number }> = {};
-    for (const w of WEEKS_ALL) map[w] = { capacity: Number(CAPACITY[w - 1] || 0), used: 0 };
+    for (const w of WEEKS_ALL) map[w] = { capacity: capacityAfterCuts(Number(CAPACITY[w - 1] || 0), w, disruptions), used: 0 };
     for (const b of scheduledBatches) {
       if (b.method !== "inhouse") continue;
       const lead = getLead(b.product, "inhouse");
@@ -174,7 +176,7 @@ export default function Production({ gameSession, currentState }: ProductionProp
       }
     }
     return map;
-  }, [scheduledBatches, CAPACITY]);
+  }, [scheduledBatches, CAPACITY, disruptions]);
 
   // Add batch mutation (DB-first)
   const addBatch = useMutation({
@@ -1049,7 +1051,7 @@ export default function Production({ gameSession, currentState }: ProductionProp
             ) : (
               <div className="space-y-3">
                 {scheduledBatches.map((b) => (
-                  <div key={b.id} className={`bg-white rounded-lg border border-slate-200 shadow-sm ${isBatchLocked(b) ? 'opacity-80' : 'hover:shadow-md'} transition-all duration-300 overflow-hidden`}>
+                  <div key={b.id} data-issue-target={`batch:${b.id}`} className={`bg-white rounded-lg border border-slate-200 shadow-sm ${isBatchLocked(b) ? 'opacity-80' : 'hover:shadow-md'} transition-all duration-300 overflow-hidden`}>
                     <div className="p-4">
                       <div className="grid grid-cols-6 gap-4 items-center">
                         <div>
@@ -0,0 +1,68 @@
+import { Label } from "@/components/ui/label";
+
+type Product = 'jacket' | 'dress' | 'pants';
+
+const PRODUCTS: Array<{ key: Product; label: string }> = [
+  { key: 'jacket', label: 'Jacket' },
+  { key: 'dress', label: 'Dress' },
+  { key: 'pants', label: 'Pants' },
+];
+
+interface RunOutMarkdownsProps {
+  // The run-out week these markdowns apply to
+  week: number;
+  playerMarkdowns: boolean;
+  markdowns: Record<Product, number>;
+  onChange: (product: Product, value: number) => void;
+  currentState: any;
+  gameConstants: any;
+  disabled?: boolean;
+}
+
+// Next week's run-out markdowns: one slider per product, or the clearance rate
+// in automatic-clearance games. Both stop at the actual unit cost.
+export default function RunOutMarkdowns({ week, playerMarkdowns, markdowns, onChange, currentState, gameConstants, disabled }: RunOutMarkdownsProps) {
+  const startWeek = Number(gameConstants?.RUN_OUT?.START_WEEK ?? 13);
+  const autoMarkdowns: number[] = gameConstants?.RUN_OUT?.AUTO_MARKDOWNS || [];
+  const autoPct = Math.round(Number(autoMarkdowns[week - startWeek] ?? 0) * 100);
+  const actualUnitCost = Number(currentState?.actualUnitCost || 0);
+
+  // Deepest markdown that still sells at or above the actual unit cost
+  const maxMarkdown = (p: Product): number | null => {
+    const rrp = Number(currentState?.productData?.[p]?.rrp || 0);
+    if (!rrp || actualUnitCost <= 0) return null;
+    return Math.max(0, Math.floor((1 - actualUnitCost / rrp) * 100));
+  };
+
+  if (!playerMarkdowns) {
+    return (
+      <div className="space-y-2">
+        <Label>Run-out markdown (week {week})</Label>
+        <div className="text-sm text-gray-700">Automatic clearance: {autoPct}% off every product.</div>
+        <div className="text-xs text-gray-500">
+          No unit sells below your actual unit cost{actualUnitCost > 0 ? ` (£${actualUnitCost.toFixed(2)})` : ''}; the markdown stops there.
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label>Run-out markdowns (week {week})</Label>
+      {PRODUCTS.map(({ key, label }) => {
+        const cap = maxMarkdown(key);
+        const limited = cap != null && markdowns[key] > cap;
+        return (
+          <div key={key} data-issue-target={`product:${key}`}>
+            <div className="flex justify-between text-xs text-gray-600"><span>{label}</span><span>{markdowns[key]}%</span></div>
+            <input type="range" min={0} max={95} step={1} value={markdowns[key]} onChange={(e) => onChange(key, Number(e.target.value))} className="w-full" disabled={disabled} />
+            {limited && <div className="text-xs text-amber-700">Limited to {cap}% by the actual unit cost</div>}
+          </div>
+        );
+      })}
+      <div className="text-xs text-gray-500">
+        Automatic clearance would be {autoPct}% this week. No unit sells below your actual unit cost{actualUnitCost > 0 ? ` (£${actualUnitCost.toFixed(2)})` : ''}.
+      </div>
+    </div>
+  );
+}
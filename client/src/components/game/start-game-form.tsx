@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+
+type ScenarioSummary = { id: string; name: string; description: string };
+
+interface StartGameFormProps {
+  // Inline scenario picker next to the button (page headers) instead of the stacked start-screen layout
+  compact?: boolean;
+  onStarted?: () => void;
+}
+
+export default function StartGameForm({ compact = false, onStarted }: StartGameFormProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [scenarioId, setScenarioId] = useState('vintage-revival');
+  const [uncertainDemand, setUncertainDemand] = useState(false);
+  const [automaticClearance, setAutomaticClearance] = useState(false);
+  const [backorders, setBackorders] = useState(false);
+
+  const { data: scenarios = [] } = useQuery<ScenarioSummary[]>({ queryKey: ['/api/scenarios'], retry: false });
+  const selectedScenario = scenarios.find((s) => s.id === scenarioId);
+
+  const startGameMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', '/api/game/start', { scenarioId, uncertainDemand, runOutMode: automaticClearance ? 'automatic' : 'player', backorders });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/game/current'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/games'] });
+      // Constants follow the new game's scenario
+      queryClient.invalidateQueries({ queryKey: ['/api/game/constants'] });
+      toast({
+        title: "Game Started",
+        description: "Welcome to Fast Fashion Simulation.",
+      });
+      onStarted?.();
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to start game. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const scenarioSelect = (
+    <Select value={scenarioId} onValueChange={setScenarioId}>
+      <SelectTrigger className={compact ? 'w-48' : undefined}><SelectValue placeholder="Select scenario" /></SelectTrigger>
+      <SelectContent>
+        {scenarios.map((s) => (
+          <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const startButton = (
+    <Button
+      onClick={() => startGameMutation.mutate()}
+      disabled={startGameMutation.isPending}
+      size={compact ? 'default' : 'lg'}
+    >
+      {startGameMutation.isPending ? "Starting..." : "Start New Game"}
+    </Button>
+  );
+
+  const uncertainDemandToggle = (
+    <div className="flex items-center gap-2" title="Weekly demand varies randomly around the forecast; the seed is saved with the game so results are reproducible">
+      <Switch id={compact ? 'uncertain-demand-compact' : 'uncertain-demand'} checked={uncertainDemand} onCheckedChange={setUncertainDemand} />
+      <Label htmlFor={compact ? 'uncertain-demand-compact' : 'uncertain-demand'} className="text-sm text-gray-700">Uncertain demand</Label>
+    </div>
+  );
+
+  const runOutToggle = (
+    <div className="flex items-center gap-2" title="Clear stock at fixed 20% / 35% / 50% markdowns in the run-out weeks (13–15) instead of setting your own per product">
+      <Switch id={compact ? 'automatic-clearance-compact' : 'automatic-clearance'} checked={automaticClearance} onCheckedChange={setAutomaticClearance} />
+      <Label htmlFor={compact ? 'automatic-clearance-compact' : 'automatic-clearance'} className="text-sm text-gray-700">Automatic clearance</Label>
+    </div>
+  );
+
+  const backorderToggle = (
+    <div className="flex items-center gap-2" title="Part of the demand you cannot serve waits for stock instead of being lost, and customers pre-order in weeks 5–6. Long waits hurt purchase intent">
+      <Switch id={compact ? 'backorders-compact' : 'backorders'} checked={backorders} onCheckedChange={setBackorders} />
+      <Label htmlFor={compact ? 'backorders-compact' : 'backorders'} className="text-sm text-gray-700">Backorders</Label>
+    </div>
+  );
+
+  if (compact) {
+    return (
+      <div className="flex items-center gap-2">
+        {scenarios.length > 1 && scenarioSelect}
+        {uncertainDemandToggle}
+        {runOutToggle}
+        {backorderToggle}
+        {startButton}
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {scenarios.length > 1 && (
+        <div className="mb-8 text-left">
+          <div className="text-xs text-gray-600 mb-1">Scenario</div>
+          {scenarioSelect}
+          {selectedScenario && <p className="text-xs text-gray-600 mt-2">{selectedScenario.description}</p>}
+        </div>
+      )}
+      <div className="mb-6 flex justify-center gap-6">{uncertainDemandToggle}{runOutToggle}{backorderToggle}</div>
+      {startButton}
+    </>
+  );
+}
@@ -2,7 +2,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { Card } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 import type { WeeklySummary } from '@/types/weekly-summary';
-import { TrendingUp, Percent, Boxes, Factory, Banknote, Receipt } from 'lucide-react';
+import { TrendingUp, Percent, Boxes, Factory, Banknote, Receipt, AlertTriangle } from 'lucide-react';
 import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
 import { Line, LineChart, XAxis, YAxis, CartesianGrid } from 'recharts';
 
@@ -17,7 +17,7 @@ export function WeeklySummaryModal({ open, onOpenChange, summary }: Props) {
 
   const outflows = [
     { name: 'Marketing', value: cash.outflows.marketing },
-    { name: 'Fabrics', value: cash.outflows.materialsSPT + cash.outflows.materialsGMC },
+    { name: 'Fabrics', value: cash.outflows.materialsSPT + cash.outflows.materialsGMC + cash.outflows.materialsFVC },
     { name: 'Production', value: cash.outflows.production },
     { name: 'Logistics', value: cash.outflows.logistics },
     { name: 'Stock Holding', value: cash.outflows.holding },
@@ -34,6 +34,30 @@ export function WeeklySummaryModal({ open, onOpenChange, summary }: Props) {
         </DialogHeader>
 
         <div className="grid grid-cols-1 md:grid-cols-11 gap-3">
+          {(summary.disruptions || []).length > 0 && (
+            <Card className="p-3 md:col-span-11 border-amber-300 bg-amber-50/60">
+              <div className="font-medium flex items-center gap-2"><AlertTriangle className="h-4 w-4 text-amber-600" /> Supply Disruptions</div>
+              <Separator className="my-2" />
+              <div className="space-y-2 text-sm">
+                {(summary.disruptions || []).map(d => (
+                  <div key={d.id}>
+                    <div className="font-medium">{d.title}</div>
+                    <div className="text-muted-foreground">{d.message}</div>
+                    {d.delayedDeliveries.map((x, i) => (
+                      <div key={`del-${i}`} className="text-amber-800">{x.material} • {x.units.toLocaleString()} units moved from week {x.fromWeek} to week {x.toWeek}</div>
+                    ))}
+                    {d.delayedShipments.map((x, i) => (
+                      <div key={`ship-${i}`} className="text-amber-800">{x.product} • {x.quantity.toLocaleString()} units now arrive in week {x.toWeek}</div>
+                    ))}
+                    {d.postponedBatches.map(b => (
+                      <div key={b.id} className="text-amber-800">{b.product} batch {b.id} now starts in week {b.startWeek}</div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </Card>
+          )}
+
           {/* Left: Supplier Invoices Settled */}
           <Card className="p-3 md:col-span-3 h-64 overflow-hidden">
             <div className="flex items-center justify-between">
@@ -42,7 +66,7 @@ export function WeeklySummaryModal({ open, onOpenChange, summary }: Props) {
             <Separator className="my-2" />
             <div className="space-y-1 max-h-28 overflow-auto pr-1 w-full">
               {procurement.settlements.length === 0 && <div className="text-sm text-muted-foreground">No invoices this week.</div>}
-              {['SPT','GMC'].map(kind => {
+              {['FVC','SPT','GMC'].map(kind => {
                 const subset = procurement.settlements.filter(s => s.kind === kind);
                 if (subset.length === 0) return null;
                 const bySupplier = subset.reduce<Record<string, number>>((m, s) => {
@@ -78,7 +102,7 @@ export function WeeklySummaryModal({ open, onOpenChange, summary }: Props) {
               ];
               const outflowsFull = [
                 { name: 'Marketing', value: Number(cash.outflows.marketing || 0) },
-                { name: 'Fabrics', value: Number(cash.outflows.materialsSPT || 0) + Number(cash.outflows.materialsGMC || 0) },
+                { name: 'Fabrics', value: Number(cash.outflows.materialsSPT || 0) + Number(cash.outflows.materialsGMC || 0) + Number(cash.outflows.materialsFVC || 0) },
                 { name: 'Production', value: Number(cash.outflows.production || 0) },
                 { name: 'Logistics', value: Number(cash.outflows.logistics || 0) },
                 { name: 'Stock Holding', value: Number(cash.outflows.holding || 0) },
@@ -0,0 +1,59 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Inbox } from "lucide-react";
+import { DISRUPTION_KIND_LABELS, announcedDisruptions, isInForce, lastWeekOf } from "@/lib/disruptions";
+
+interface DisruptionInboxProps {
+  currentState: any;
+}
+
+// Supply disruptions announced so far, newest first. The badge counts the
+// ones that hit this week.
+export default function DisruptionInbox({ currentState }: DisruptionInboxProps) {
+  const [open, setOpen] = useState(false);
+  const week = Number(currentState?.weekNumber || 1);
+  const events = announcedDisruptions(currentState).slice().sort((a, b) => b.week - a.week);
+  const fresh = events.filter((e) => e.week === week).length;
+
+  if (events.length === 0) return null;
+
+  return (
+    <>
+      <Button variant={fresh > 0 ? 'default' : 'outline'} size="sm" className="flex items-center gap-2" onClick={() => setOpen(true)} title="Supply chain news">
+        <Inbox size={16} />
+        Inbox
+        {fresh > 0 && <Badge className="bg-red-600 text-white px-1.5 py-0 text-xs">{fresh}</Badge>}
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Supply chain news</DialogTitle>
+            <DialogDescription>Disruptions hit without warning. Check your deliveries, batches and orders against them.</DialogDescription>
+          </DialogHeader>
+          <ul className="space-y-3 max-h-[60vh] overflow-auto pr-1">
+            {events.map((e) => {
+              const last = lastWeekOf(e);
+              return (
+                <li key={e.id} className="rounded-md border border-gray-200 p-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="font-medium text-gray-900">{e.title}</div>
+                    <div className="flex items-center gap-1">
+                      {e.week === week && <Badge className="bg-red-100 text-red-800">New</Badge>}
+                      {isInForce(e, week) && <Badge className="bg-amber-100 text-amber-800">In force</Badge>}
+                    </div>
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {DISRUPTION_KIND_LABELS[e.kind] || e.kind} · {last > e.week ? `weeks ${e.week}–${last}` : `week ${e.week}`}
+                  </div>
+                  <p className="mt-1 text-sm text-gray-700">{e.message}</p>
+                </li>
+              );
+            })}
+          </ul>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
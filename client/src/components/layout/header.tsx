@@ -1,14 +1,22 @@
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ArrowRight, CheckCircle, Clock, RotateCcw } from "lucide-react";
+import { ArrowRight, CheckCircle, Clock, GraduationCap, History, LogOut, RotateCcw } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import JoinCohortDialog from "@/components/layout/join-cohort-dialog";
+import RewindWeekDialog from "@/components/layout/rewind-week-dialog";
+import MarketStatus from "@/components/layout/market-status";
+import SandboxSwitcher from "@/components/layout/sandbox-switcher";
+import DisruptionInbox from "@/components/layout/disruption-inbox";
 
 interface HeaderProps {
   currentState: any;
+  gameSession?: any;
   onCommitWeek: () => void;
 }
 
-export default function Header({ currentState, onCommitWeek }: HeaderProps) {
+export default function Header({ currentState, gameSession, onCommitWeek }: HeaderProps) {
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-GB', {
       style: 'currency',
@@ -36,6 +44,9 @@ export default function Header({ currentState, onCommitWeek }: HeaderProps) {
     }
   };
 
+  const { user } = useAuth();
+  const isInstructor = (user as any)?.role === 'instructor';
+
   const { data: constants } = useQuery({ queryKey: ["/api/game/constants"], retry: false });
   // Always refresh current game after a commit so header reflects start-of-week balances
   useQuery({ queryKey: ['/api/game/current'], staleTime: 0 });
@@ -57,6 +68,11 @@ export default function Header({ currentState, onCommitWeek }: HeaderProps) {
             <Badge className={phase.color}>
               {phase.name}
             </Badge>
+            {gameSession?.sandboxOf && (
+              <Badge className="bg-amber-100 text-amber-800" title="What-if copy of your game; not graded">
+                Sandbox
+              </Badge>
+            )}
             
             <div className="flex items-center gap-2">
               {currentState?.isCommitted ? (
@@ -81,15 +97,45 @@ export default function Header({ currentState, onCommitWeek }: HeaderProps) {
                 {formatCurrency(creditAvailable)}
               </span>
             </div>
+
+            {gameSession?.marketId && (
+              <MarketStatus marketId={gameSession.marketId} gameSessionId={gameSession.id} currentWeek={currentState?.weekNumber || 1} />
+            )}
           </div>
         </div>
 
         {/* Right side - Actions */}
         <div className="flex items-center gap-3">
+          {/* Supply disruptions announced so far */}
+          <DisruptionInbox currentState={currentState} />
+
+          {/* Game history / resume another game */}
+          <Link href="/games">
+            <Button variant="outline" size="sm" className="flex items-center gap-2" title="My Games">
+              <History size={16} />
+              My Games
+            </Button>
+          </Link>
+
+          {/* What-if sandboxes: fork, switch, compare, discard */}
+          <SandboxSwitcher gameSession={gameSession} />
+
+          {/* Class membership / instructor dashboard */}
+          {isInstructor ? (
+            <Link href="/instructor">
+              <Button variant="outline" size="sm" className="flex items-center gap-2" title="Instructor Dashboard">
+                <GraduationCap size={16} />
+                Instructor
+              </Button>
+            </Link>
+          ) : (
+            <JoinCohortDialog />
+          )}
+
           {/* Commit Week Button */}
           <Button 
             onClick={onCommitWeek}
-            disabled={currentState?.isCommitted}
+            disabled={currentState?.isCommitted || !!currentState?.submittedAt}
             className="flex items-center gap-2"
           >
             {currentState?.isCommitted ? (
@@ -97,6 +143,11 @@ export default function Header({ currentState, onCommitWeek }: HeaderProps) {
                 <CheckCircle size={16} />
                 Week Committed
               </>
+            ) : currentState?.submittedAt ? (
+              <>
+                <Clock size={16} />
+                Waiting for other teams
+              </>
             ) : (
               <>
                 Commit Week {currentState?.weekNumber || 1}
@@ -105,14 +156,31 @@ export default function Header({ currentState, onCommitWeek }: HeaderProps) {
             )}
           </Button>
 
-          {/* Restart Game */}
+          {/* Rewind to a previous week (market weeks resolve for every team, so no rewinds) */}
+          {!gameSession?.marketId && (
+            <RewindWeekDialog gameSessionId={currentState?.gameSessionId} currentWeek={currentState?.weekNumber || 1} />
+          )}
+
+          {/* Restart Game (a sandbox is discarded instead) */}
+          {!gameSession?.sandboxOf && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleRestart}
+              title="Restart Game"
+            >
+              <RotateCcw size={16} />
+            </Button>
+          )}
+
+          {/* Sign out */}
           <Button
-            variant="outline"
+            variant="ghost"
             size="sm"
-            onClick={handleRestart}
-            title="Restart Game"
+            onClick={() => { window.location.href = '/api/logout'; }}
+            title="Sign out"
           >
-            <RotateCcw size={16} />
+            <LogOut size={16} />
           </Button>
         </div>
       </div>
@@ -0,0 +1,84 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Users } from "lucide-react";
+
+type MyCohort = { id: string; name: string; joinCode: string };
+
+export default function JoinCohortDialog() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [joinCode, setJoinCode] = useState('');
+  const [displayName, setDisplayName] = useState('');
+
+  const { data: myCohorts = [] } = useQuery<MyCohort[]>({ queryKey: ['/api/cohorts/mine'], retry: false });
+
+  const joinMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/cohorts/join', { joinCode: joinCode.trim(), displayName: displayName.trim() || undefined });
+      return await res.json() as MyCohort;
+    },
+    onSuccess: (cohort) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/cohorts/mine'] });
+      setOpen(false);
+      setJoinCode('');
+      toast({ title: 'Joined class', description: `You are now enrolled in ${cohort.name}.` });
+    },
+    onError: (error) => {
+      const notFound = String((error as Error)?.message || '').startsWith('404');
+      toast({
+        title: 'Could not join class',
+        description: notFound ? 'No class matches that join code.' : 'Failed to join class. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const label = myCohorts.length > 0 ? myCohorts[0].name : 'Join Class';
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setOpen(true)} className="flex items-center gap-2" title="Join a class with a code from your instructor">
+        <Users size={16} />
+        <span className="max-w-[10rem] truncate">{label}</span>
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Join a class</DialogTitle>
+            <DialogDescription>
+              Enter the join code from your instructor so they can follow your progress.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="join-code">Join code</Label>
+              <Input id="join-code" className="font-mono uppercase tracking-widest" maxLength={12} value={joinCode} onChange={(e) => setJoinCode(e.target.value.toUpperCase())} />
+            </div>
+            <div>
+              <Label htmlFor="display-name">Your name (as shown to your instructor)</Label>
+              <Input id="display-name" value={displayName} onChange={(e) => setDisplayName(e.target.value)} />
+            </div>
+            {myCohorts.length > 0 && (
+              <div className="text-xs text-gray-600">
+                Already enrolled in: {myCohorts.map((c) => c.name).join(', ')}
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+            <Button onClick={() => joinMutation.mutate()} disabled={!joinCode.trim() || joinMutation.isPending}>
+              {joinMutation.isPending ? 'Joining...' : 'Join'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
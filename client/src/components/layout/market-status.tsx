@@ -0,0 +1,79 @@
+import { useEffect } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, Store } from "lucide-react";
+
+type MarketStatusData = {
+  id: string;
+  name: string;
+  status: 'lobby' | 'running' | 'completed';
+  currentWeek: number;
+  weekDeadlineAt: string | null;
+  teams: Array<{
+    gameSessionId: string;
+    teamName: string | null;
+    submitted: boolean;
+    fallback: { weekNumber: number; errors: string[]; droppedBatchIds: string[]; droppedPlannedMarketing: boolean } | null;
+  }>;
+};
+
+interface MarketStatusProps {
+  marketId: string;
+  gameSessionId: string;
+  currentWeek: number;
+}
+
+// Lock-step progress for a market game. Polling also lets the server resolve
+// a week whose deadline has passed; the game reloads when the market moves on.
+export default function MarketStatus({ marketId, gameSessionId, currentWeek }: MarketStatusProps) {
+  const queryClient = useQueryClient();
+  const { data: market } = useQuery<MarketStatusData>({
+    queryKey: ['/api/markets', marketId],
+    refetchInterval: 15_000,
+    staleTime: 0,
+  });
+
+  const marketWeek = market?.status === 'running' ? market.currentWeek : null;
+  useEffect(() => {
+    if (marketWeek != null && marketWeek !== currentWeek) {
+      queryClient.invalidateQueries({ queryKey: ['/api/game/current'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/game'] });
+    }
+  }, [marketWeek, currentWeek, queryClient]);
+
+  if (!market) return null;
+
+  const submitted = market.teams.filter((t) => t.submitted).length;
+  const label = market.status === 'lobby'
+    ? 'Waiting for the instructor to start'
+    : market.status === 'completed'
+      ? 'Market complete'
+      : `${submitted}/${market.teams.length} teams submitted`;
+  // The market played this team's last week with part of its plan dropped
+  const fallback = market.teams.find((t) => t.gameSessionId === gameSessionId)?.fallback ?? null;
+  const deadline = market.status === 'running' && market.weekDeadlineAt
+    ? new Date(market.weekDeadlineAt).toLocaleString('en-GB', { weekday: 'short', hour: '2-digit', minute: '2-digit' })
+    : null;
+
+  return (
+    <div className="flex items-center gap-2 text-sm" title={market.teams.map((t) => `${t.teamName}${t.submitted ? ' ✓' : ''}`).join(', ')}>
+      <Store className="text-gray-500" size={16} />
+      <span className="font-medium">{market.name}</span>
+      <Badge variant="secondary">{label}</Badge>
+      {deadline && <span className="text-gray-600">Deadline {deadline}</span>}
+      {fallback && (
+        <Badge
+          variant="outline"
+          className="border-amber-400 text-amber-700"
+          title={[
+            ...fallback.errors,
+            fallback.droppedBatchIds.length > 0 ? `Dropped batches ${fallback.droppedBatchIds.join(', ')}` : null,
+            fallback.droppedPlannedMarketing ? "Dropped next week's planned marketing" : null,
+          ].filter(Boolean).join('\n')}
+        >
+          <AlertTriangle size={12} className="mr-1" /> Week {fallback.weekNumber} plan adjusted
+        </Badge>
+      )}
+    </div>
+  );
+}
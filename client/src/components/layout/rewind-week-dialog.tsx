@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Undo2 } from "lucide-react";
+
+type RewindAllowance = {
+  limit: number;
+  used: number;
+  remaining: number;
+  log: Array<{ fromWeek: number; toWeek: number; at: string }>;
+};
+
+interface RewindWeekDialogProps {
+  gameSessionId?: string;
+  currentWeek: number;
+}
+
+export default function RewindWeekDialog({ gameSessionId, currentWeek }: RewindWeekDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [toWeek, setToWeek] = useState<string>('');
+
+  const { data: allowance } = useQuery<RewindAllowance>({
+    queryKey: ['/api/game', gameSessionId, 'rewind'],
+    enabled: !!gameSessionId,
+    retry: false,
+  });
+
+  const rewindMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/game/${gameSessionId}/rewind`, { toWeek: Number(toWeek) });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/game/current'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/game', gameSessionId] });
+      setOpen(false);
+      toast({ title: `Rewound to Week ${toWeek}`, description: 'Later weeks were discarded. Review your decisions and commit again.' });
+      setToWeek('');
+    },
+    onError: (error) => {
+      const message = String((error as Error)?.message || '');
+      toast({
+        title: 'Could not rewind',
+        description: message.replace(/^\d+:\s*/, '') || 'Failed to rewind. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const weeks = Array.from({ length: Math.max(0, currentWeek - 1) }, (_, i) => i + 1);
+  const remaining = allowance?.remaining ?? 0;
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setOpen(true)}
+        disabled={!gameSessionId || weeks.length === 0}
+        title="Rewind to a previous week"
+      >
+        <Undo2 size={16} />
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rewind to a previous week</DialogTitle>
+            <DialogDescription>
+              Every week after the one you choose is discarded, and that week reopens with the decisions you had before committing it.
+              Rewinds are limited and visible to your instructor.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label>Reopen week</Label>
+              <Select value={toWeek} onValueChange={setToWeek}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a week" />
+                </SelectTrigger>
+                <SelectContent>
+                  {weeks.map((w) => (
+                    <SelectItem key={w} value={String(w)}>Week {w}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="text-sm text-gray-600">
+              Rewinds remaining: <span className="font-semibold">{remaining}</span> of {allowance?.limit ?? 0}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+            <Button
+              variant="destructive"
+              onClick={() => rewindMutation.mutate()}
+              disabled={!toWeek || remaining <= 0 || rewindMutation.isPending}
+            >
+              {rewindMutation.isPending ? 'Rewinding...' : 'Rewind'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
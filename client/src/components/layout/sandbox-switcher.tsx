@@ -0,0 +1,187 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { FlaskConical } from "lucide-react";
+
+type GameProgress = {
+  id: string;
+  currentWeek: number;
+  isCompleted: boolean;
+  cash: number;
+  creditUsed: number;
+  revenueToDate: number;
+  unitsSold: number;
+  lostSales: number;
+  serviceLevel: number;
+  finalScore: number | null;
+};
+
+type SandboxOverview = {
+  game: GameProgress;
+  sandboxes: Array<GameProgress & { forkWeek: number; createdAt: string }>;
+};
+
+interface SandboxSwitcherProps {
+  gameSession: any;
+}
+
+const formatCurrency = (value: number) => new Intl.NumberFormat('en-GB', {
+  style: 'currency',
+  currency: 'GBP',
+  minimumFractionDigits: 0,
+  maximumFractionDigits: 0,
+}).format(value);
+
+// Fork the current game into a what-if sandbox, switch between the real game
+// and its sandboxes, and compare where each one stands. Sandboxes are never graded.
+export default function SandboxSwitcher({ gameSession }: SandboxSwitcherProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const isSandbox = !!gameSession?.sandboxOf;
+
+  const { data: overview } = useQuery<SandboxOverview>({
+    queryKey: ['/api/game', gameSession?.id, 'sandboxes'],
+    enabled: open && !!gameSession?.id,
+    retry: false,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/game/current'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/game'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/games'] });
+  };
+
+  const onError = (title: string) => (error: unknown) => {
+    const message = String((error as Error)?.message || '');
+    toast({ title, description: message.replace(/^\d+:\s*/, '') || 'Please try again.', variant: 'destructive' });
+  };
+
+  const forkMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/game/${gameSession.id}/sandboxes`, {});
+      return await res.json();
+    },
+    onSuccess: () => {
+      refresh();
+      setOpen(false);
+      toast({ title: 'Sandbox created', description: 'You are now playing a copy of your game. Nothing here counts towards your grade.' });
+    },
+    onError: onError('Could not create a sandbox'),
+  });
+
+  const switchMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest('POST', `/api/game/${id}/resume`, {});
+      return await res.json();
+    },
+    onSuccess: () => {
+      refresh();
+      setOpen(false);
+    },
+    onError: onError('Could not switch games'),
+  });
+
+  const discardMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest('DELETE', `/api/game/${id}`);
+      return await res.json();
+    },
+    onSuccess: (_data, id) => {
+      refresh();
+      if (id === gameSession.id) setOpen(false);
+      toast({ title: 'Sandbox discarded' });
+    },
+    onError: onError('Could not discard the sandbox'),
+  });
+
+  // Market weeks resolve for every team at once, so market games cannot be forked
+  if (!gameSession?.id || gameSession.marketId) return null;
+
+  const rows = overview ? [{ ...overview.game, label: 'Real game' }, ...overview.sandboxes.map((s, i) => ({ ...s, label: `Sandbox ${i + 1} (from week ${s.forkWeek})` }))] : [];
+  const busy = forkMutation.isPending || switchMutation.isPending || discardMutation.isPending;
+
+  return (
+    <>
+      <Button
+        variant={isSandbox ? 'default' : 'outline'}
+        size="sm"
+        className="flex items-center gap-2"
+        onClick={() => setOpen(true)}
+        title="What-if sandboxes"
+      >
+        <FlaskConical size={16} />
+        {isSandbox ? 'Sandbox' : 'What-if'}
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>What-if sandboxes</DialogTitle>
+            <DialogDescription>
+              A sandbox copies your game as it stands so you can try a different plan and play ahead.
+              Sandboxes are never graded and do not change your real game.
+            </DialogDescription>
+          </DialogHeader>
+          {rows.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500">
+                    <th className="text-left font-medium">Game</th>
+                    <th className="text-right font-medium">Week</th>
+                    <th className="text-right font-medium">Cash</th>
+                    <th className="text-right font-medium">Credit used</th>
+                    <th className="text-right font-medium">Revenue</th>
+                    <th className="text-right font-medium">Service level</th>
+                    <th className="text-right font-medium">Score</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => {
+                    const isCurrent = row.id === gameSession.id;
+                    const isRealGame = row.id === overview?.game.id;
+                    return (
+                      <tr key={row.id} className={isCurrent ? 'bg-blue-50' : ''}>
+                        <td className="py-1 text-gray-900">{row.label}</td>
+                        <td className="text-right font-mono">{row.isCompleted ? 'Done' : row.currentWeek}</td>
+                        <td className="text-right font-mono">{formatCurrency(row.cash)}</td>
+                        <td className="text-right font-mono">{formatCurrency(row.creditUsed)}</td>
+                        <td className="text-right font-mono">{formatCurrency(row.revenueToDate)}</td>
+                        <td className="text-right font-mono">{row.serviceLevel.toFixed(1)}%</td>
+                        <td className="text-right font-mono">{row.finalScore == null ? '—' : row.finalScore.toFixed(1)}</td>
+                        <td className="pl-3 text-right whitespace-nowrap">
+                          {!isCurrent && !row.isCompleted && (
+                            <Button variant="outline" size="sm" disabled={busy} onClick={() => switchMutation.mutate(row.id)}>
+                              Switch
+                            </Button>
+                          )}
+                          {!isRealGame && (
+                            <Button variant="ghost" size="sm" className="text-red-700" disabled={busy} onClick={() => discardMutation.mutate(row.id)}>
+                              Discard
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>Close</Button>
+            {!isSandbox && (
+              <Button onClick={() => forkMutation.mutate()} disabled={busy || gameSession.isCompleted}>
+                {forkMutation.isPending ? 'Creating...' : 'New sandbox from this week'}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
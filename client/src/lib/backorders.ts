@@ -0,0 +1,34 @@
+// Backorder mode totals from each week's BackorderBook (see shared/schema.ts).
+// Service level counts on-time sales only; these are the units that waited.
+
+export type Product = 'jacket' | 'dress' | 'pants';
+
+export type BackorderTotals = {
+  // Unmet demand that chose to wait instead of walking away
+  backordered: Record<Product, number>;
+  preordered: Record<Product, number>;
+  // Waiting orders served from stock after their due week
+  lateServed: Record<Product, number>;
+  // Waiting orders that gave up before stock arrived
+  cancelled: Record<Product, number>;
+};
+
+const PRODUCTS: Product[] = ['jacket', 'dress', 'pants'];
+
+const zero = (): Record<Product, number> => ({ jacket: 0, dress: 0, pants: 0 });
+
+export function summarizeBackorders(weeks: any[]): BackorderTotals {
+  const totals: BackorderTotals = { backordered: zero(), preordered: zero(), lateServed: zero(), cancelled: zero() };
+  for (const w of weeks) {
+    if (!w?.isCommitted || !w.backorders) continue;
+    for (const p of PRODUCTS) {
+      totals.backordered[p] += Number(w.backorders.placed?.[p] || 0);
+      totals.preordered[p] += Number(w.backorders.preordered?.[p] || 0);
+      totals.lateServed[p] += Number(w.backorders.served?.[p] || 0);
+      totals.cancelled[p] += Number(w.backorders.cancelled?.[p] || 0);
+    }
+  }
+  return totals;
+}
+
+export const sumProducts = (values: Record<Product, number>): number => PRODUCTS.reduce((s, p) => s + values[p], 0);
@@ -0,0 +1,51 @@
+// Supply disruptions announced to the player (weekly_states.disruptions; see
+// DisruptionEvent in shared/schema.ts). Future events are never sent to the client.
+
+export type DisruptionEvent = {
+  id: string;
+  kind: 'supplier_delay' | 'port_strike' | 'capacity_cut' | 'price_spike';
+  week: number;
+  durationWeeks?: number;
+  title: string;
+  message: string;
+  supplier?: string;
+  material?: string;
+  product?: string;
+  delayWeeks?: number;
+  capacityFactor?: number;
+  priceMultiplier?: number;
+};
+
+export const DISRUPTION_KIND_LABELS: Record<DisruptionEvent['kind'], string> = {
+  supplier_delay: 'Supplier delay',
+  port_strike: 'Port strike',
+  capacity_cut: 'Capacity cut',
+  price_spike: 'Price spike',
+};
+
+export function announcedDisruptions(state: any): DisruptionEvent[] {
+  return Array.isArray(state?.disruptions) ? state.disruptions : [];
+}
+
+export function lastWeekOf(event: DisruptionEvent): number {
+  return event.week + Math.max(1, Number(event.durationWeeks || 1)) - 1;
+}
+
+export function isInForce(event: DisruptionEvent, week: number): boolean {
+  return week >= event.week && week <= lastWeekOf(event);
+}
+
+// In-house capacity of a week after the announced capacity cuts
+export function capacityAfterCuts(base: number, week: number, events: DisruptionEvent[]): number {
+  return events
+    .filter((e) => e.kind === 'capacity_cut' && isInForce(e, week))
+    .reduce((capacity, e) => Math.floor(capacity * Math.min(1, Math.max(0, Number(e.capacityFactor ?? 1)))), base);
+}
+
+// Multiple of the catalogue price paid by spot and GMC orders placed this week
+export function priceMultiplier(supplier: string, material: string, week: number, events: DisruptionEvent[]): number {
+  return events
+    .filter((e) => e.kind === 'price_spike' && isInForce(e, week))
+    .filter((e) => (!e.supplier || e.supplier === supplier) && (!e.material || e.material === material))
+    .reduce((m, e) => m * Math.max(0, Number(e.priceMultiplier ?? 1)), 1);
+}
@@ -1,4 +1,5 @@
-import type { WeeklySummary, LedgerEntry, InventoryDelta } from '@/types/weekly-summary';
+import type { WeeklySummary, LedgerEntry, InventoryDelta, DisruptionImpact } from '@/types/weekly-summary';
+import { announcedDisruptions } from '@/lib/disruptions';
 
 function hashToUnitInterval(seed: string): number {
   let hash = 2166136261;
@@ -36,6 +37,7 @@ export function computeWeekSummary(params: {
       marketing: sum('marketing'),
       materialsSPT: sum('materials_spt'),
       materialsGMC: sum('materials_gmc'),
+      materialsFVC: sum('materials_fvc'),
       production: sum('production'),
       logistics: sum('logistics'),
       holding: sum('holding'),
@@ -95,11 +97,12 @@ export function computeWeekSummary(params: {
   });
 
   const settlements = ledgerRowsN1
-    .filter(r => r.entryType === 'materials_spt' || r.entryType === 'materials_gmc')
+    .filter(r => r.entryType === 'materials_spt' || r.entryType === 'materials_gmc' || r.entryType === 'materials_fvc')
     .map(r => {
       const [supplier] = (r.refId || 'unknown:unknown').split(':');
+      const kindByType = { materials_spt: 'SPT', materials_gmc: 'GMC', materials_fvc: 'FVC' } as const;
       return {
-        kind: r.entryType === 'materials_spt' ? 'SPT' as const : 'GMC' as const,
+        kind: kindByType[r.entryType as keyof typeof kindByType],
         supplier,
         material: '',
         goodUnits: NaN,
@@ -166,6 +169,24 @@ export function computeWeekSummary(params: {
     }
   }
 
+  // Disruptions announced this week, with the deliveries, shipments and batches they pushed back
+  const contractsN1 = (nextState.procurementContracts?.contracts || []) as any[];
+  const disruptions: DisruptionImpact[] = announcedDisruptions(nextState).filter(e => e.week === w).map(e => ({
+    id: e.id,
+    kind: e.kind,
+    title: e.title,
+    message: e.message,
+    delayedDeliveries: contractsN1.flatMap(c => ((c.deliveries || []) as any[])
+      .filter(d => (d.delayedBy || []).includes(e.id))
+      .map(d => ({ material: String(c.material || ''), units: Number(d.units || 0), fromWeek: Number(d.originalWeek ?? d.week), toWeek: Number(d.week) }))),
+    delayedShipments: ((nextState.shipmentsInTransit || []) as any[])
+      .filter(sh => (sh.delayedBy || []).includes(e.id))
+      .map(sh => ({ product: sh.product, quantity: Number(sh.quantity || 0), toWeek: Number(sh.arrivalWeek) })),
+    postponedBatches: ((nextState.productionSchedule?.batches || []) as any[])
+      .filter(b => b.postponedBy === e.id)
+      .map(b => ({ id: String(b.id), product: b.product, startWeek: Number(b.startWeek) })),
+  }));
+
   return {
     gameSessionId,
     weekNumber: w,
@@ -177,5 +198,6 @@ export function computeWeekSummary(params: {
     marketing: { charged: chargedMarketing, aiDelta, planApplied: nextState.marketingPlan?.channels || [] },
     ledgerRows: ledgerRowsN1,
     demandSeries,
+    disruptions,
   };
 }
@@ -0,0 +1,57 @@
+// Structured validation findings from POST .../validate and failed commits
+// (see ValidationIssue in server/gameEngine.ts).
+
+export type IssueTab = 'pricing' | 'design' | 'marketing' | 'procurement' | 'production' | 'inventory' | 'logistics';
+
+export type ValidationIssue = {
+  code: string;
+  severity: 'error' | 'warning';
+  message: string;
+  tab?: IssueTab;
+  product?: string;
+  batchId?: string;
+  contractId?: string;
+  week?: number;
+  suggestedFix?: string;
+};
+
+export const ISSUE_TAB_LABELS: Record<IssueTab, string> = {
+  pricing: 'Price Positioning',
+  design: 'Design',
+  marketing: 'Marketing',
+  procurement: 'Procurement',
+  production: 'Production',
+  inventory: 'Inventory',
+  logistics: 'Logistics',
+};
+
+// Weeks validated before issues were structured stored plain messages
+export function toValidationIssue(value: unknown, severity: ValidationIssue['severity']): ValidationIssue {
+  if (value && typeof value === 'object' && 'message' in value) return value as ValidationIssue;
+  return { code: 'unknown', severity, message: String(value) };
+}
+
+// Rows that an issue can point at carry data-issue-target="batch:<id>",
+// "contract:<id>" or "product:<key>"; the most specific entity wins.
+export function issueTarget(issue: ValidationIssue): string | null {
+  if (issue.batchId) return `batch:${issue.batchId}`;
+  if (issue.contractId) return `contract:${issue.contractId}`;
+  if (issue.product) return `product:${issue.product}`;
+  return null;
+}
+
+const HIGHLIGHT_CLASSES = ['ring-2', 'ring-offset-2', 'transition-shadow'];
+
+// Scroll the issue's row into view and outline it for a few seconds. Returns
+// false while the row is not rendered yet (tab content still loading).
+export function highlightIssueTarget(issue: ValidationIssue): boolean {
+  const target = issueTarget(issue);
+  if (!target) return true;
+  const el = document.querySelector<HTMLElement>(`[data-issue-target="${CSS.escape(target)}"]`);
+  if (!el) return false;
+  const ring = issue.severity === 'error' ? 'ring-red-500' : 'ring-amber-400';
+  el.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  el.classList.add(...HIGHLIGHT_CLASSES, ring);
+  window.setTimeout(() => el.classList.remove(...HIGHLIGHT_CLASSES, ring), 4000);
+  return true;
+}
@@ -1,9 +1,9 @@
 import { useEffect, useRef, useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { apiRequest } from "@/lib/queryClient";
 import Header from "@/components/layout/header";
 import Sidebar from "@/components/layout/sidebar";
 import KpiCards from "@/components/game/kpi-cards";
@@ -18,17 +18,20 @@ import Marketing from "@/components/game/marketing";
 import Analytics from "@/components/game/analytics";
 import FinalDashboard from "@/components/game/final-dashboard";
 import CommitWeekModal from "@/components/game/commit-week-modal";
+import CashFlowProjection from "@/components/game/cash-flow-projection";
+import StartGameForm from "@/components/game/start-game-form";
 import { Button } from "@/components/ui/button";
-import { ArrowRight } from "lucide-react";
+import { ArrowRight, History } from "lucide-react";
 import { ErrorBoundary } from "@/components/ui/error-boundary";
+import { highlightIssueTarget, type ValidationIssue } from "@/lib/validation-issues";
 
 type Tab = 'overview' | 'pricing' | 'design' | 'procurement' | 'production' | 'inventory' | 'logistics' | 'marketing' | 'analytics';
 
 export default function Dashboard() {
   const { toast } = useToast();
-  const queryClient = useQueryClient();
   const [activeTab, setActiveTab] = useState<Tab>('overview');
   const [showCommitModal, setShowCommitModal] = useState(false);
+  const [focusedIssue, setFocusedIssue] = useState<ValidationIssue | null>(null);
   const mainScrollRef = useRef<HTMLDivElement | null>(null);
 
   // Always reset scroll to top when switching tabs (must run before any conditional returns)
@@ -41,6 +44,21 @@ export default function Dashboard() {
     }
   }, [activeTab]);
 
+  // After "Go to" in the commit modal, wait for the tab to render the issue's
+  // row, then scroll to and outline it
+  useEffect(() => {
+    if (!focusedIssue) return;
+    let attempts = 0;
+    const timer = window.setInterval(() => {
+      attempts += 1;
+      if (highlightIssueTarget(focusedIssue) || attempts >= 20) {
+        window.clearInterval(timer);
+        setFocusedIssue(null);
+      }
+    }, 150);
+    return () => window.clearInterval(timer);
+  }, [focusedIssue]);
+
   // Get current game data
   const { data: gameData, isLoading, error } = useQuery({
     queryKey: ['/api/game/current'],
@@ -49,38 +67,6 @@ export default function Dashboard() {
     staleTime: 10_000,
   });
 
-  // Start new game mutation
-  const startGameMutation = useMutation({
-    mutationFn: async () => {
-      await apiRequest('POST', '/api/game/start');
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/game/current'] });
-      toast({
-        title: "Game Started",
-        description: "Welcome to Fast Fashion Simulation.",
-      });
-    },
-    onError: (error) => {
-      if (isUnauthorizedError(error)) {
-        toast({
-          title: "Unauthorized",
-          description: "You are logged out. Logging in again...",
-          variant: "destructive",
-        });
-        setTimeout(() => {
-          window.location.href = "/api/login";
-        }, 500);
-        return;
-      }
-      toast({
-        title: "Error",
-        description: "Failed to start game. Please try again.",
-        variant: "destructive",
-      });
-    },
-  });
-
   // Handle unauthorized errors for the main query
   useEffect(() => {
     if (error && isUnauthorizedError(error)) {
@@ -117,13 +103,12 @@ export default function Dashboard() {
           </div>
           <h1 className="text-2xl font-bold text-gray-900 mb-4">Ready to Start?</h1>
           <p className="text-gray-600 mb-8">Launch the Vintage Revival capsule collection and manage it through 15 weeks of strategic decisions.</p>
-          <Button 
-            onClick={() => startGameMutation.mutate()}
-            disabled={startGameMutation.isPending}
-            size="lg"
-          >
-            {startGameMutation.isPending ? "Starting..." : "Start New Game"}
-          </Button>
+          <StartGameForm />
+          <div className="mt-4">
+            <Link href="/games">
+              <Button variant="link" className="flex items-center gap-2 mx-auto"><History size={16} /> My games</Button>
+            </Link>
+          </div>
         </div>
       </div>
     );
@@ -141,12 +126,12 @@ export default function Dashboard() {
               <h1 className="text-xl font-bold text-gray-900">Fast Fashion Simulation</h1>
               <p className="text-sm text-gray-600">Final results and debrief</p>
             </div>
-            <Button
-              onClick={() => startGameMutation.mutate()}
-              disabled={startGameMutation.isPending}
-            >
-              {startGameMutation.isPending ? "Starting..." : "Start New Game"}
-            </Button>
+            <div className="flex items-center gap-3">
+              <Link href="/games">
+                <Button variant="outline" className="flex items-center gap-2"><History size={16} /> My games</Button>
+              </Link>
+              <StartGameForm compact />
+            </div>
           </div>
         </header>
         <main className="mx-auto max-w-7xl p-6">
@@ -193,7 +178,7 @@ export default function Dashboard() {
 
   return (
     <div className="min-h-screen bg-gray-50">
-      <Header currentState={currentState} onCommitWeek={() => setShowCommitModal(true)} />
+      <Header currentState={currentState} gameSession={gameSession} onCommitWeek={() => setShowCommitModal(true)} />
       
       <div className="flex h-[calc(100vh-80px)]">
         <Sidebar 
@@ -210,6 +195,12 @@ export default function Dashboard() {
             )}
           </ErrorBoundary>
         </main>
+
+        <aside className="hidden xl:block w-80 shrink-0 overflow-y-auto border-l bg-white p-4">
+          <ErrorBoundary>
+            <CashFlowProjection gameSession={gameSession} currentState={currentState} />
+          </ErrorBoundary>
+        </aside>
       </div>
 
       {/* Floating Commit Button removed */}
@@ -219,6 +210,11 @@ export default function Dashboard() {
         onOpenChange={setShowCommitModal}
         gameSession={gameSession}
         currentState={currentState}
+        onGoToIssue={(issue) => {
+          setShowCommitModal(false);
+          if (issue.tab) setActiveTab(issue.tab);
+          setFocusedIssue(issue);
+        }}
       />
     </div>
   );
@@ -0,0 +1,75 @@
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import Analytics from "@/components/game/analytics";
+import FinalDashboard from "@/components/game/final-dashboard";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ErrorBoundary } from "@/components/ui/error-boundary";
+import { ArrowLeft } from "lucide-react";
+
+interface GameReviewProps {
+  params: { gameId: string };
+}
+
+// Read-only view of a finished (or abandoned) game: final dashboard and season
+// analytics. Also opens a classmate's shared game from the leaderboard.
+export default function GameReview({ params }: GameReviewProps) {
+  const { gameId } = params;
+  const { user } = useAuth();
+  const { data, isLoading, error } = useQuery<{ gameSession: any; weeks: any[] }>({
+    queryKey: ['/api/game', gameId, 'weeks'],
+    retry: false,
+  });
+
+  const gameSession = data?.gameSession;
+  const weeks = data?.weeks || [];
+  const lastState = weeks[weeks.length - 1] || null;
+  const hasFinalResults = gameSession?.finalScore != null;
+  const isOwnGame = !gameSession || gameSession.userId === (user as any)?.id;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="border-b bg-white px-6 py-4">
+        <div className="mx-auto flex max-w-7xl items-center justify-between gap-4">
+          <div>
+            <h1 className="text-xl font-bold text-gray-900">Game Review</h1>
+            <p className="text-sm text-gray-600">
+              {lastState ? `Ended in week ${lastState.weekNumber}` : 'Read-only results'}
+              {gameSession && !hasFinalResults && <Badge variant="outline" className="ml-2">Abandoned</Badge>}
+            </p>
+          </div>
+          <Link href={isOwnGame ? '/games' : '/leaderboard'}>
+            <Button variant="outline" size="sm" className="flex items-center gap-2"><ArrowLeft size={16} /> {isOwnGame ? 'My games' : 'Leaderboard'}</Button>
+          </Link>
+        </div>
+      </header>
+      <main className="mx-auto max-w-7xl p-6">
+        {isLoading && <div className="text-sm text-gray-600">Loading game...</div>}
+        {!isLoading && (error || !gameSession) && (
+          <Card><CardContent className="pt-6 text-sm text-gray-600">This game could not be found.</CardContent></Card>
+        )}
+        {gameSession && (
+          <ErrorBoundary>
+            <Tabs defaultValue={hasFinalResults ? 'results' : 'analytics'}>
+              <TabsList>
+                {hasFinalResults && <TabsTrigger value="results">Final Results</TabsTrigger>}
+                <TabsTrigger value="analytics">Analytics</TabsTrigger>
+              </TabsList>
+              {hasFinalResults && (
+                <TabsContent value="results">
+                  <FinalDashboard gameId={gameSession.id} />
+                </TabsContent>
+              )}
+              <TabsContent value="analytics">
+                <Analytics gameSession={gameSession} currentState={lastState} />
+              </TabsContent>
+            </Tabs>
+          </ErrorBoundary>
+        )}
+      </main>
+    </div>
+  );
+}
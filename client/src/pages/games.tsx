@@ -0,0 +1,187 @@
+import { Link, useLocation } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import StartGameForm from "@/components/game/start-game-form";
+import ClassMarkets from "@/components/game/class-markets";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Eye, History, Play, Trophy } from "lucide-react";
+
+type GameSummary = {
+  id: string;
+  scenarioId: string;
+  scenarioName: string;
+  status: 'in_progress' | 'completed' | 'abandoned';
+  isCurrent: boolean;
+  currentWeek: number | null;
+  cash: number | null;
+  finalScore: number | null;
+  finalCash: number | null;
+  finalServiceLevel: number | null;
+  finalEconomicProfit: number | null;
+  rewindsUsed: number;
+  uncertainDemand: boolean;
+  runOutMode: 'automatic' | 'player';
+  backorderMode: boolean;
+  marketId: string | null;
+  teamName: string | null;
+  // Classmates may open the final dashboard from the leaderboard
+  isShared: boolean;
+  createdAt: string | null;
+  updatedAt: string | null;
+};
+
+const STATUS_LABELS: Record<GameSummary['status'], string> = {
+  in_progress: 'In progress',
+  completed: 'Completed',
+  abandoned: 'Abandoned',
+};
+
+const formatCurrency = (value: number) => new Intl.NumberFormat('en-GB', { style: 'currency', currency: 'GBP', minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(value);
+
+const formatDate = (value: string | null) => value ? new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' }) : '—';
+
+export default function Games() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+
+  const { data: games = [], isLoading } = useQuery<GameSummary[]>({ queryKey: ['/api/games'], staleTime: 0 });
+
+  const resumeMutation = useMutation({
+    mutationFn: async (gameId: string) => {
+      const res = await apiRequest('POST', `/api/game/${gameId}/resume`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/game/current'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/games'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/game/constants'] });
+      setLocation('/');
+    },
+    onError: () => {
+      toast({ title: 'Error', description: 'Failed to resume game. Please try again.', variant: 'destructive' });
+    },
+  });
+
+  const shareMutation = useMutation({
+    mutationFn: async ({ gameId, shared }: { gameId: string; shared: boolean }) => {
+      const res = await apiRequest('POST', `/api/game/${gameId}/share`, { shared });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/games'] });
+    },
+    onError: () => {
+      toast({ title: 'Error', description: 'Failed to update sharing. Please try again.', variant: 'destructive' });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="border-b bg-white px-6 py-4">
+        <div className="mx-auto flex max-w-7xl items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <History className="text-primary" size={24} />
+            <div>
+              <h1 className="text-xl font-bold text-gray-900">My Games</h1>
+              <p className="text-sm text-gray-600">Resume a game in progress or review past results</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <Link href="/leaderboard">
+              <Button variant="outline" size="sm" className="flex items-center gap-2"><Trophy size={16} /> Leaderboard</Button>
+            </Link>
+            <Link href="/">
+              <Button variant="outline" size="sm" className="flex items-center gap-2"><ArrowLeft size={16} /> Back to game</Button>
+            </Link>
+            <StartGameForm compact onStarted={() => setLocation('/')} />
+          </div>
+        </div>
+      </header>
+      <main className="mx-auto max-w-7xl p-6 space-y-6">
+        <ClassMarkets />
+        <Card>
+          <CardHeader>
+            <CardTitle>Games</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading && <div className="text-sm text-gray-600">Loading...</div>}
+            {!isLoading && games.length === 0 && <div className="text-sm text-gray-600">You have not started a game yet.</div>}
+            {games.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Started</TableHead>
+                    <TableHead>Scenario</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Week</TableHead>
+                    <TableHead className="text-right">Cash</TableHead>
+                    <TableHead className="text-right">Service Level</TableHead>
+                    <TableHead className="text-right">Economic Profit</TableHead>
+                    <TableHead className="text-right">Final Score</TableHead>
+                    <TableHead>Shared</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {games.map((g) => {
+                    const cash = g.finalCash ?? g.cash;
+                    return (
+                      <TableRow key={g.id}>
+                        <TableCell>{formatDate(g.createdAt)}</TableCell>
+                        <TableCell>
+                          {g.scenarioName}
+                          {g.teamName && <div className="text-xs text-gray-500">Market team: {g.teamName}</div>}
+                          {g.uncertainDemand && <div className="text-xs text-gray-500">Uncertain demand</div>}
+                          {g.runOutMode === 'automatic' && <div className="text-xs text-gray-500">Automatic clearance</div>}
+                          {g.backorderMode && <div className="text-xs text-gray-500">Backorders</div>}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <Badge variant={g.status === 'completed' ? 'default' : g.status === 'abandoned' ? 'outline' : 'secondary'}>{STATUS_LABELS[g.status]}</Badge>
+                            {g.isCurrent && <span className="text-xs text-gray-500">current</span>}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right font-mono">{g.currentWeek != null ? `${g.currentWeek}/15` : '—'}</TableCell>
+                        <TableCell className="text-right font-mono">{cash != null ? formatCurrency(cash) : '—'}</TableCell>
+                        <TableCell className="text-right font-mono">{g.finalServiceLevel != null ? `${g.finalServiceLevel.toFixed(1)}%` : '—'}</TableCell>
+                        <TableCell className="text-right font-mono">{g.finalEconomicProfit != null ? formatCurrency(g.finalEconomicProfit) : '—'}</TableCell>
+                        <TableCell className="text-right font-mono">{g.finalScore != null ? formatCurrency(g.finalScore) : '—'}</TableCell>
+                        <TableCell>
+                          {g.status === 'completed' && (
+                            <Switch
+                              checked={g.isShared}
+                              onCheckedChange={(shared) => shareMutation.mutate({ gameId: g.id, shared })}
+                              disabled={shareMutation.isPending}
+                              aria-label="Share with my classes"
+                            />
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {g.status === 'in_progress' ? (
+                            <Button size="sm" onClick={() => resumeMutation.mutate(g.id)} disabled={resumeMutation.isPending} className="flex items-center gap-1 ml-auto">
+                              <Play size={14} /> Resume
+                            </Button>
+                          ) : (
+                            <Link href={`/games/${g.id}`}>
+                              <Button size="sm" variant="outline" className="flex items-center gap-1 ml-auto"><Eye size={14} /> View</Button>
+                            </Link>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
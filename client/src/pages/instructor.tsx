@@ -0,0 +1,560 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, ArrowDown, ArrowLeft, ArrowUp, ArrowUpDown, FastForward, GraduationCap, Play, Plus, Store, Users } from "lucide-react";
+
+type ScoringRubric = {
+  EP_WEIGHT: number;
+  SERVICE_LEVEL_GATE: number;
+  SERVICE_LEVEL_PENALTY_PER_POINT: number;
+  CASH_PENALTY_RATE: number;
+  DEAD_STOCK_MULTIPLIER: number;
+  LAUNCH_WEEK: number;
+  LATE_LAUNCH_PENALTY_PER_WEEK: number;
+};
+
+type Cohort = { id: string; name: string; joinCode: string; maxRewinds?: number | null; scoring?: Partial<ScoringRubric> | null; memberCount?: number };
+
+type RosterRow = {
+  userId: string;
+  name: string;
+  email: string | null;
+  joinedAt: string | null;
+  gameSessionId: string | null;
+  status: 'not_started' | 'in_progress' | 'completed';
+  currentWeek: number | null;
+  cash: number | null;
+  serviceLevel: number | null;
+  finalScore: number | null;
+  rewindsUsed: number | null;
+};
+
+type MarketSummary = {
+  id: string;
+  name: string;
+  scenarioName: string;
+  status: 'lobby' | 'running' | 'completed';
+  currentWeek: number;
+  weekDeadlineHours: number;
+  weekDeadlineAt: string | null;
+  teams: Array<{
+    gameSessionId: string;
+    teamName: string | null;
+    submitted: boolean;
+    isCompleted: boolean;
+    finalScore: number | null;
+    fallback: { weekNumber: number; errors: string[]; droppedBatchIds: string[]; droppedPlannedMarketing: boolean } | null;
+  }>;
+};
+
+// What the resolution dropped from a team's plan that failed validation
+const describeFallback = (f: NonNullable<MarketSummary['teams'][number]['fallback']>) => [
+  `Week ${f.weekNumber} plan failed validation: ${f.errors.join('; ')}`,
+  f.droppedBatchIds.length > 0 ? `Dropped batches ${f.droppedBatchIds.join(', ')}` : null,
+  f.droppedPlannedMarketing ? "Dropped next week's planned marketing" : null,
+].filter(Boolean).join('. ');
+
+const MARKET_STATUS_LABELS: Record<MarketSummary['status'], string> = {
+  lobby: 'Lobby',
+  running: 'Running',
+  completed: 'Completed',
+};
+
+type SortKey = 'name' | 'status' | 'currentWeek' | 'cash' | 'serviceLevel' | 'finalScore' | 'rewindsUsed';
+
+const STATUS_LABELS: Record<RosterRow['status'], string> = {
+  not_started: 'Not started',
+  in_progress: 'In progress',
+  completed: 'Completed',
+};
+
+const STATUS_ORDER: Record<RosterRow['status'], number> = { not_started: 0, in_progress: 1, completed: 2 };
+
+const formatCurrency = (value: number) => new Intl.NumberFormat('en-GB', { style: 'currency', currency: 'GBP', minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(value);
+
+export default function Instructor() {
+  const { user } = useAuth();
+  const isInstructor = (user as any)?.role === 'instructor';
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="border-b bg-white px-6 py-4">
+        <div className="mx-auto flex max-w-7xl items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <GraduationCap className="text-primary" size={24} />
+            <div>
+              <h1 className="text-xl font-bold text-gray-900">Instructor Dashboard</h1>
+              <p className="text-sm text-gray-600">Cohorts, join codes and student progress</p>
+            </div>
+          </div>
+          <Link href="/">
+            <Button variant="outline" size="sm" className="flex items-center gap-2"><ArrowLeft size={16} /> Back to game</Button>
+          </Link>
+        </div>
+      </header>
+      <main className="mx-auto max-w-7xl p-6">
+        {isInstructor ? <CohortManager /> : <InstructorEnrolment />}
+      </main>
+    </div>
+  );
+}
+
+function InstructorEnrolment() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [accessCode, setAccessCode] = useState('');
+
+  const enrolMutation = useMutation({
+    mutationFn: async () => { await apiRequest('POST', '/api/instructor/enroll', { accessCode }); },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/user'] });
+      toast({ title: 'Instructor access granted', description: 'You can now create cohorts.' });
+    },
+    onError: () => {
+      toast({ title: 'Access denied', description: 'That instructor access code was not accepted.', variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Card className="max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle>Instructor access</CardTitle>
+        <p className="text-sm text-gray-600">Enter the instructor access code provided by your administrator.</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label htmlFor="access-code">Access code</Label>
+          <Input id="access-code" type="password" value={accessCode} onChange={(e) => setAccessCode(e.target.value)} />
+        </div>
+        <Button onClick={() => enrolMutation.mutate()} disabled={!accessCode || enrolMutation.isPending}>
+          {enrolMutation.isPending ? 'Checking...' : 'Unlock instructor tools'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+function CohortManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [newCohortName, setNewCohortName] = useState('');
+  const [selectedCohortId, setSelectedCohortId] = useState<string | null>(null);
+
+  const { data: cohorts = [], isLoading } = useQuery<Cohort[]>({ queryKey: ['/api/cohorts'], staleTime: 0 });
+
+  useEffect(() => {
+    if (!selectedCohortId && cohorts.length > 0) setSelectedCohortId(cohorts[0].id);
+  }, [cohorts, selectedCohortId]);
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/cohorts', { name: newCohortName });
+      return await res.json() as Cohort;
+    },
+    onSuccess: (cohort) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/cohorts'] });
+      setSelectedCohortId(cohort.id);
+      setNewCohortName('');
+      toast({ title: 'Cohort created', description: `Share join code ${cohort.joinCode} with your students.` });
+    },
+    onError: () => {
+      toast({ title: 'Error', description: 'Failed to create cohort. Please try again.', variant: 'destructive' });
+    },
+  });
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2"><Plus size={18} /> New cohort</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <Input placeholder="e.g. Operations Management 2026" value={newCohortName} onChange={(e) => setNewCohortName(e.target.value)} />
+            <Button className="w-full" onClick={() => createMutation.mutate()} disabled={!newCohortName.trim() || createMutation.isPending}>
+              {createMutation.isPending ? 'Creating...' : 'Create cohort'}
+            </Button>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2"><Users size={18} /> Your cohorts</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {isLoading && <div className="text-sm text-gray-600">Loading...</div>}
+            {!isLoading && cohorts.length === 0 && <div className="text-sm text-gray-600">No cohorts yet.</div>}
+            {cohorts.map((c) => (
+              <Button
+                key={c.id}
+                variant={c.id === selectedCohortId ? 'default' : 'outline'}
+                className="w-full justify-between"
+                onClick={() => setSelectedCohortId(c.id)}
+              >
+                <span className="truncate">{c.name}</span>
+                <Badge variant="secondary">{c.memberCount ?? 0}</Badge>
+              </Button>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+      <div className="lg:col-span-3">
+        {selectedCohortId ? (
+          <div className="space-y-6">
+            <CohortRoster cohortId={selectedCohortId} />
+            <CohortMarkets cohortId={selectedCohortId} />
+          </div>
+        ) : (
+          <Card><CardContent className="pt-6 text-sm text-gray-600">Create a cohort to get a join code for your class.</CardContent></Card>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function CohortRoster({ cohortId }: { cohortId: string }) {
+  const [sort, setSort] = useState<{ key: SortKey; dir: 'asc' | 'desc' }>({ key: 'name', dir: 'asc' });
+  const { data, isLoading } = useQuery<{ cohort: Cohort; students: RosterRow[] }>({
+    queryKey: ['/api/cohorts', cohortId, 'roster'],
+    staleTime: 0,
+    refetchInterval: 30_000,
+  });
+
+  const students = useMemo(() => {
+    const rows = [...(data?.students || [])];
+    const value = (r: RosterRow): string | number | null => sort.key === 'status' ? STATUS_ORDER[r.status] : r[sort.key];
+    rows.sort((a, b) => {
+      const va = value(a);
+      const vb = value(b);
+      // Missing values always sort last regardless of direction
+      if (va == null && vb == null) return 0;
+      if (va == null) return 1;
+      if (vb == null) return -1;
+      const cmp = typeof va === 'string' ? va.localeCompare(String(vb)) : va - Number(vb);
+      return sort.dir === 'asc' ? cmp : -cmp;
+    });
+    return rows;
+  }, [data, sort]);
+
+  const toggleSort = (key: SortKey) => {
+    setSort((prev) => prev.key === key ? { key, dir: prev.dir === 'asc' ? 'desc' : 'asc' } : { key, dir: key === 'name' || key === 'status' ? 'asc' : 'desc' });
+  };
+
+  const SortHeader = ({ label, sortKey, align = 'left' }: { label: string; sortKey: SortKey; align?: 'left' | 'right' }) => (
+    <TableHead className={align === 'right' ? 'text-right' : ''}>
+      <button type="button" className={`inline-flex items-center gap-1 hover:text-gray-900 ${align === 'right' ? 'flex-row-reverse' : ''}`} onClick={() => toggleSort(sortKey)}>
+        {label}
+        {sort.key !== sortKey ? <ArrowUpDown size={12} className="text-gray-400" /> : sort.dir === 'asc' ? <ArrowUp size={12} /> : <ArrowDown size={12} />}
+      </button>
+    </TableHead>
+  );
+
+  if (isLoading || !data) {
+    return <Card><CardContent className="pt-6 text-sm text-gray-600">Loading roster...</CardContent></Card>;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle>{data.cohort.name}</CardTitle>
+          <div className="text-sm text-gray-600">
+            Join code: <span className="font-mono text-lg font-bold tracking-widest text-gray-900">{data.cohort.joinCode}</span>
+          </div>
+        </div>
+        <RewindLimitSetting cohort={data.cohort} />
+        <ScoringRubricSetting cohort={data.cohort} />
+      </CardHeader>
+      <CardContent>
+        {students.length === 0 ? (
+          <div className="text-sm text-gray-600">No students have joined yet. Share the join code above.</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <SortHeader label="Student" sortKey="name" />
+                <SortHeader label="Status" sortKey="status" />
+                <SortHeader label="Week" sortKey="currentWeek" align="right" />
+                <SortHeader label="Cash" sortKey="cash" align="right" />
+                <SortHeader label="Service Level" sortKey="serviceLevel" align="right" />
+                <SortHeader label="Final Score" sortKey="finalScore" align="right" />
+                <SortHeader label="Rewinds" sortKey="rewindsUsed" align="right" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {students.map((s) => (
+                <TableRow key={s.userId}>
+                  <TableCell className="font-medium">{s.name}</TableCell>
+                  <TableCell>
+                    <Badge variant={s.status === 'completed' ? 'default' : 'secondary'}>{STATUS_LABELS[s.status]}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right font-mono">{s.currentWeek != null ? `${s.currentWeek}/15` : '—'}</TableCell>
+                  <TableCell className="text-right font-mono">{s.cash != null ? formatCurrency(s.cash) : '—'}</TableCell>
+                  <TableCell className="text-right font-mono">{s.serviceLevel != null ? `${s.serviceLevel.toFixed(1)}%` : '—'}</TableCell>
+                  <TableCell className="text-right font-mono">{s.finalScore != null ? formatCurrency(s.finalScore) : '—'}</TableCell>
+                  <TableCell className="text-right font-mono">{s.rewindsUsed ?? '—'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Per-cohort cap on week rewinds; blank falls back to the scenario default
+function RewindLimitSetting({ cohort }: { cohort: Cohort }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [value, setValue] = useState(cohort.maxRewinds != null ? String(cohort.maxRewinds) : '');
+
+  useEffect(() => {
+    setValue(cohort.maxRewinds != null ? String(cohort.maxRewinds) : '');
+  }, [cohort.id, cohort.maxRewinds]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('PATCH', `/api/cohorts/${cohort.id}`, { maxRewinds: value.trim() === '' ? null : Number(value) });
+      return await res.json() as Cohort;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/cohorts', cohort.id, 'roster'] });
+      toast({ title: 'Rewind limit saved' });
+    },
+    onError: () => {
+      toast({ title: 'Error', description: 'Rewind limit must be a whole number from 0 to 14.', variant: 'destructive' });
+    },
+  });
+
+  const current = cohort.maxRewinds != null ? String(cohort.maxRewinds) : '';
+
+  return (
+    <div className="flex items-end gap-2 pt-2">
+      <div>
+        <Label htmlFor={`max-rewinds-${cohort.id}`} className="text-xs text-gray-600">Rewinds per student</Label>
+        <Input
+          id={`max-rewinds-${cohort.id}`}
+          type="number"
+          min={0}
+          max={14}
+          className="h-8 w-28"
+          placeholder="Scenario default"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+        />
+      </div>
+      <Button size="sm" variant="outline" onClick={() => saveMutation.mutate()} disabled={value === current || saveMutation.isPending}>
+        {saveMutation.isPending ? 'Saving...' : 'Save'}
+      </Button>
+    </div>
+  );
+}
+
+const RUBRIC_FIELDS: Array<{ key: keyof ScoringRubric; label: string; step: number }> = [
+  { key: 'EP_WEIGHT', label: 'Economic profit weight', step: 0.1 },
+  { key: 'SERVICE_LEVEL_GATE', label: 'Service level target (%)', step: 1 },
+  { key: 'SERVICE_LEVEL_PENALTY_PER_POINT', label: '£ per point below target', step: 1000 },
+  { key: 'CASH_PENALTY_RATE', label: 'Net debt penalty (× debt)', step: 0.1 },
+  { key: 'DEAD_STOCK_MULTIPLIER', label: 'Dead stock (× cost)', step: 0.1 },
+  { key: 'LAUNCH_WEEK', label: 'Launch week', step: 1 },
+  { key: 'LATE_LAUNCH_PENALTY_PER_WEEK', label: '£ per product-week late', step: 1000 },
+];
+
+const rubricInputs = (scoring?: Partial<ScoringRubric> | null) =>
+  Object.fromEntries(RUBRIC_FIELDS.map(({ key }) => [key, scoring?.[key] != null ? String(scoring[key]) : ''])) as Record<keyof ScoringRubric, string>;
+
+// Per-cohort scoring rubric for games finished from now on; blank fields use
+// the scenario's SCORING
+function ScoringRubricSetting({ cohort }: { cohort: Cohort }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [values, setValues] = useState(() => rubricInputs(cohort.scoring));
+  const { data: constants } = useQuery<any>({ queryKey: ['/api/game/constants'], retry: false });
+
+  useEffect(() => {
+    setValues(rubricInputs(cohort.scoring));
+  }, [cohort.id, cohort.scoring]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const entries = RUBRIC_FIELDS
+        .filter(({ key }) => values[key].trim() !== '')
+        .map(({ key }) => [key, Number(values[key])]);
+      const res = await apiRequest('PATCH', `/api/cohorts/${cohort.id}`, { scoring: entries.length > 0 ? Object.fromEntries(entries) : null });
+      return await res.json() as Cohort;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/cohorts', cohort.id, 'roster'] });
+      toast({ title: 'Scoring rubric saved', description: 'It applies to games finished from now on.' });
+    },
+    onError: () => {
+      toast({ title: 'Error', description: 'Check the rubric: values must be positive, the target at most 100% and the launch week 7 to 15.', variant: 'destructive' });
+    },
+  });
+
+  const changed = RUBRIC_FIELDS.some(({ key }) => values[key] !== rubricInputs(cohort.scoring)[key]);
+
+  return (
+    <div className="pt-2">
+      <div className="text-xs font-medium text-gray-700">Scoring rubric</div>
+      <div className="flex flex-wrap items-end gap-2">
+        {RUBRIC_FIELDS.map(({ key, label, step }) => (
+          <div key={key}>
+            <Label htmlFor={`rubric-${key}-${cohort.id}`} className="text-xs text-gray-600">{label}</Label>
+            <Input
+              id={`rubric-${key}-${cohort.id}`}
+              type="number"
+              min={0}
+              step={step}
+              className="h-8 w-36"
+              placeholder={constants?.SCORING?.[key] != null ? String(constants.SCORING[key]) : 'Scenario default'}
+              value={values[key]}
+              onChange={(e) => setValues((v) => ({ ...v, [key]: e.target.value }))}
+            />
+          </div>
+        ))}
+        <Button size="sm" variant="outline" onClick={() => saveMutation.mutate()} disabled={!changed || saveMutation.isPending}>
+          {saveMutation.isPending ? 'Saving...' : 'Save'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Multiplayer markets: teams from the cohort share one market's demand and
+// advance week by week together
+function CohortMarkets({ cohortId }: { cohortId: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState('');
+  const [deadlineHours, setDeadlineHours] = useState('48');
+
+  const { data: markets = [] } = useQuery<MarketSummary[]>({
+    queryKey: ['/api/cohorts', cohortId, 'markets'],
+    staleTime: 0,
+    refetchInterval: 30_000,
+  });
+
+  const onError = (error: unknown) => {
+    const message = String((error as Error)?.message || '');
+    let description = 'Something went wrong. Please try again.';
+    try {
+      description = JSON.parse(message.replace(/^\d+:\s*/, '')).message || description;
+    } catch (_) {}
+    toast({ title: 'Error', description, variant: 'destructive' });
+  };
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['/api/cohorts', cohortId, 'markets'] });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/cohorts/${cohortId}/markets`, { name, weekDeadlineHours: Number(deadlineHours) });
+      return await res.json();
+    },
+    onSuccess: () => {
+      refresh();
+      setName('');
+      toast({ title: 'Market created', description: 'Students can now join it as teams from My Games.' });
+    },
+    onError,
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ marketId, action }: { marketId: string; action: 'start' | 'advance' }) => {
+      const res = await apiRequest('POST', `/api/markets/${marketId}/${action}`);
+      return await res.json();
+    },
+    onSuccess: (_data, { action }) => {
+      refresh();
+      toast({ title: action === 'start' ? 'Market started' : 'Week advanced' });
+    },
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><Store size={18} /> Markets</CardTitle>
+        <div className="flex items-end gap-2 pt-2">
+          <div className="flex-1">
+            <Label htmlFor={`market-name-${cohortId}`} className="text-xs text-gray-600">New market</Label>
+            <Input id={`market-name-${cohortId}`} className="h-8" placeholder="e.g. Seminar group A" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor={`market-deadline-${cohortId}`} className="text-xs text-gray-600">Hours per week</Label>
+            <Input id={`market-deadline-${cohortId}`} type="number" min={1} className="h-8 w-28" value={deadlineHours} onChange={(e) => setDeadlineHours(e.target.value)} />
+          </div>
+          <Button size="sm" onClick={() => createMutation.mutate()} disabled={!name.trim() || !(Number(deadlineHours) >= 1) || createMutation.isPending}>
+            {createMutation.isPending ? 'Creating...' : 'Create market'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {markets.length === 0 ? (
+          <div className="text-sm text-gray-600">No markets yet. Teams in a market compete for the same customers.</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Market</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Week</TableHead>
+                <TableHead>Teams</TableHead>
+                <TableHead>Deadline</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {markets.map((m) => (
+                <TableRow key={m.id}>
+                  <TableCell className="font-medium">{m.name}</TableCell>
+                  <TableCell><Badge variant={m.status === 'running' ? 'default' : 'secondary'}>{MARKET_STATUS_LABELS[m.status]}</Badge></TableCell>
+                  <TableCell className="text-right font-mono">{m.status === 'lobby' ? '—' : `${m.currentWeek}/15`}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {m.teams.length === 0 && <span className="text-sm text-gray-500">None yet</span>}
+                      {m.teams.map((t) => (
+                        <Badge
+                          key={t.gameSessionId}
+                          variant={m.status === 'running' && t.submitted ? 'default' : 'outline'}
+                          className={t.fallback ? 'border-amber-400' : undefined}
+                          title={[m.status === 'running' ? (t.submitted ? 'Submitted' : 'Not submitted') : null, t.fallback ? describeFallback(t.fallback) : null].filter(Boolean).join('. ') || undefined}
+                        >
+                          {t.fallback && <AlertTriangle size={12} className="mr-1 text-amber-500" />}
+                          {t.teamName}{t.finalScore != null ? ` · ${formatCurrency(t.finalScore)}` : ''}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    {m.status === 'running' && m.weekDeadlineAt ? new Date(m.weekDeadlineAt).toLocaleString('en-GB', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' }) : '—'}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {m.status === 'lobby' && (
+                      <Button size="sm" onClick={() => actionMutation.mutate({ marketId: m.id, action: 'start' })} disabled={m.teams.length < 2 || actionMutation.isPending} className="flex items-center gap-1 ml-auto">
+                        <Play size={14} /> Start
+                      </Button>
+                    )}
+                    {m.status === 'running' && (
+                      <Button size="sm" variant="outline" onClick={() => actionMutation.mutate({ marketId: m.id, action: 'advance' })} disabled={actionMutation.isPending} className="flex items-center gap-1 ml-auto" title="Resolve this week now; teams that have not submitted play their saved decisions">
+                        <FastForward size={14} /> Advance week
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
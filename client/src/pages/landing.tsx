@@ -1,21 +1,65 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
-import { BarChart3 } from "lucide-react";
+import { BarChart3, KeyRound } from "lucide-react";
+
+type AuthProviders = { local: boolean; oidc: { name: string } | null };
 
 export default function Landing() {
-  const handleGoogleLogin = () => {
-    window.location.href = "/api/login";
+  const queryClient = useQueryClient();
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [firstName, setFirstName] = useState('');
+  const [lastName, setLastName] = useState('');
+  const [formError, setFormError] = useState<string | null>(
+    typeof window !== 'undefined' && new URLSearchParams(window.location.search).get('login') === 'failed'
+      ? 'Single sign-on failed. Please try again.'
+      : null,
+  );
+
+  const { data: providers } = useQuery<AuthProviders>({ queryKey: ['/api/auth/providers'], retry: false });
+
+  const handleOidcLogin = () => {
+    window.location.href = "/api/auth/oidc/login";
   };
 
-  const handleEmailLogin = (e: React.FormEvent) => {
+  const authMutation = useMutation({
+    mutationFn: async () => {
+      const body = mode === 'register'
+        ? { email, password, firstName: firstName || undefined, lastName: lastName || undefined }
+        : { email, password };
+      const res = await apiRequest('POST', mode === 'register' ? '/api/auth/register' : '/api/auth/login', body);
+      return await res.json();
+    },
+    onSuccess: () => {
+      setFormError(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/user'] });
+    },
+    onError: (error) => {
+      const message = String((error as Error)?.message || '');
+      // apiRequest errors read "<status>: <body>"; show the server's message when there is one
+      const match = message.match(/^\d+: ([\s\S]*)$/);
+      let text = 'Something went wrong. Please try again.';
+      try {
+        text = JSON.parse(match?.[1] || '').message || text;
+      } catch (_) {}
+      setFormError(text);
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    // For now, redirect to Google login since email/password isn't fully implemented
-    window.location.href = "/api/login";
+    authMutation.mutate();
   };
 
+  const isRegister = mode === 'register';
+
   return (
     <div className="min-h-screen flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8 bg-gray-50">
       <div className="max-w-md w-full space-y-8">
@@ -31,65 +75,89 @@ export default function Landing() {
           <CardContent className="p-8">
             <div className="space-y-6">
               <div className="text-center">
-                <h2 className="text-xl font-semibold text-gray-900 mb-4">Sign in to continue</h2>
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">{isRegister ? 'Create your account' : 'Sign in to continue'}</h2>
               </div>
 
-              {/* Google Login */}
-              <Button 
-                onClick={handleGoogleLogin}
-                variant="outline" 
-                className="w-full flex justify-center items-center gap-3"
-              >
-                <svg className="w-5 h-5" viewBox="0 0 24 24">
-                  <path fill="#4285F4" d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"/>
-                  <path fill="#34A853" d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"/>
-                  <path fill="#FBBC05" d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"/>
-                  <path fill="#EA4335" d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"/>
-                </svg>
-                Continue with Google
-              </Button>
+              {/* Single sign-on (only when an OIDC provider is configured) */}
+              {providers?.oidc && (
+                <>
+                  <Button
+                    onClick={handleOidcLogin}
+                    variant="outline"
+                    className="w-full flex justify-center items-center gap-3"
+                  >
+                    <KeyRound size={18} />
+                    Continue with {providers.oidc.name}
+                  </Button>
 
-              <div className="relative">
-                <div className="absolute inset-0 flex items-center">
-                  <Separator className="w-full" />
-                </div>
-                <div className="relative flex justify-center text-sm">
-                  <span className="px-2 bg-white text-gray-500">Or continue with email</span>
-                </div>
-              </div>
+                  <div className="relative">
+                    <div className="absolute inset-0 flex items-center">
+                      <Separator className="w-full" />
+                    </div>
+                    <div className="relative flex justify-center text-sm">
+                      <span className="px-2 bg-white text-gray-500">Or continue with email</span>
+                    </div>
+                  </div>
+                </>
+              )}
 
               {/* Email/Password Form */}
-              <form onSubmit={handleEmailLogin} className="space-y-4">
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {isRegister && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <Label htmlFor="firstName">First name</Label>
+                      <Input id="firstName" name="firstName" className="mt-1" value={firstName} onChange={(e) => setFirstName(e.target.value)} />
+                    </div>
+                    <div>
+                      <Label htmlFor="lastName">Last name</Label>
+                      <Input id="lastName" name="lastName" className="mt-1" value={lastName} onChange={(e) => setLastName(e.target.value)} />
+                    </div>
+                  </div>
+                )}
                 <div>
                   <Label htmlFor="email">Email address</Label>
-                  <Input 
-                    type="email" 
-                    id="email" 
-                    name="email" 
-                    required 
+                  <Input
+                    type="email"
+                    id="email"
+                    name="email"
+                    required
+                    autoComplete="email"
                     className="mt-1"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
                   />
                 </div>
                 <div>
                   <Label htmlFor="password">Password</Label>
-                  <Input 
-                    type="password" 
-                    id="password" 
-                    name="password" 
-                    required 
+                  <Input
+                    type="password"
+                    id="password"
+                    name="password"
+                    required
+                    minLength={isRegister ? 8 : undefined}
+                    autoComplete={isRegister ? 'new-password' : 'current-password'}
                     className="mt-1"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
                   />
+                  {isRegister && <p className="text-xs text-gray-500 mt-1">At least 8 characters.</p>}
                 </div>
-                <Button type="submit" className="w-full">
-                  Sign In
+                {formError && <p className="text-sm text-red-600">{formError}</p>}
+                <Button type="submit" className="w-full" disabled={authMutation.isPending}>
+                  {authMutation.isPending ? 'Please wait...' : isRegister ? 'Create Account' : 'Sign In'}
                 </Button>
               </form>
 
               <div className="text-center">
                 <p className="text-sm text-gray-600">
-                  Don't have an account?{" "}
-                  <Button variant="link" onClick={handleGoogleLogin} className="p-0 h-auto text-primary">
-                    Register here
+                  {isRegister ? 'Already have an account?' : "Don't have an account?"}{" "}
+                  <Button
+                    variant="link"
+                    onClick={() => { setMode(isRegister ? 'login' : 'register'); setFormError(null); }}
+                    className="p-0 h-auto text-primary"
+                  >
+                    {isRegister ? 'Sign in' : 'Register here'}
                   </Button>
                 </p>
               </div>
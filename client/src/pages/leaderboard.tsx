@@ -0,0 +1,203 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowDown, ArrowLeft, Eye, Trophy } from "lucide-react";
+
+type CohortOption = { id: string; name: string };
+
+type SortKey = 'score' | 'serviceLevel' | 'economicProfit' | 'finalCash';
+
+type LeaderboardEntry = {
+  rank: number;
+  handle: string;
+  isNamed: boolean;
+  isYou: boolean;
+  scenarioId: string;
+  scenarioName: string;
+  finalScore: number;
+  serviceLevel: number;
+  economicProfit: number;
+  finalCash: number;
+  gameSessionId: string | null;
+};
+
+type Leaderboard = {
+  cohort: CohortOption;
+  sort: SortKey;
+  scenarios: Array<{ id: string; name: string }>;
+  // The viewer's own setting; null for the cohort's instructor
+  showOnLeaderboard: boolean | null;
+  entries: LeaderboardEntry[];
+};
+
+const ALL_SCENARIOS = 'all';
+
+const formatCurrency = (value: number) => new Intl.NumberFormat('en-GB', { style: 'currency', currency: 'GBP', minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(value);
+
+const COLUMNS: Array<{ key: SortKey; label: string; format: (e: LeaderboardEntry) => string }> = [
+  { key: 'score', label: 'Final Score', format: (e) => formatCurrency(e.finalScore) },
+  { key: 'serviceLevel', label: 'Service Level', format: (e) => `${e.serviceLevel.toFixed(1)}%` },
+  { key: 'economicProfit', label: 'Economic Profit', format: (e) => formatCurrency(e.economicProfit) },
+  { key: 'finalCash', label: 'Final Cash', format: (e) => formatCurrency(e.finalCash) },
+];
+
+// Cohort leaderboard: best completed game per classmate, ranked by score or one of its results
+export default function LeaderboardPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const isInstructor = (user as any)?.role === 'instructor';
+  const [cohortId, setCohortId] = useState<string>('');
+  const [scenarioId, setScenarioId] = useState<string>(ALL_SCENARIOS);
+  const [sort, setSort] = useState<SortKey>('score');
+
+  // Instructors see the cohorts they run; students the ones they joined
+  const { data: cohorts = [], isLoading: cohortsLoading } = useQuery<CohortOption[]>({
+    queryKey: [isInstructor ? '/api/cohorts' : '/api/cohorts/mine'],
+    enabled: !!user,
+  });
+
+  useEffect(() => {
+    if (!cohortId && cohorts.length > 0) setCohortId(cohorts[0].id);
+  }, [cohorts, cohortId]);
+
+  const params = new URLSearchParams({ sort });
+  if (scenarioId !== ALL_SCENARIOS) params.set('scenarioId', scenarioId);
+  const { data: board, isLoading } = useQuery<Leaderboard>({
+    queryKey: [`/api/cohorts/${cohortId}/leaderboard?${params.toString()}`],
+    enabled: !!cohortId,
+    staleTime: 0,
+  });
+
+  const visibilityMutation = useMutation({
+    mutationFn: async (showOnLeaderboard: boolean) => {
+      const res = await apiRequest('PATCH', `/api/cohorts/${cohortId}/membership`, { showOnLeaderboard });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ predicate: (q) => String(q.queryKey[0]).startsWith(`/api/cohorts/${cohortId}/leaderboard`) });
+    },
+    onError: () => {
+      toast({ title: 'Could not save', description: 'Please try again.', variant: 'destructive' });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="border-b bg-white px-6 py-4">
+        <div className="mx-auto flex max-w-7xl items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Trophy className="text-primary" size={24} />
+            <div>
+              <h1 className="text-xl font-bold text-gray-900">Leaderboard</h1>
+              <p className="text-sm text-gray-600">Each classmate's best completed game</p>
+            </div>
+          </div>
+          <Link href="/games">
+            <Button variant="outline" size="sm" className="flex items-center gap-2"><ArrowLeft size={16} /> My games</Button>
+          </Link>
+        </div>
+      </header>
+      <main className="mx-auto max-w-7xl p-6 space-y-6">
+        {!cohortsLoading && cohorts.length === 0 && (
+          <Card><CardContent className="pt-6 text-sm text-gray-600">Join a class with its join code to see its leaderboard.</CardContent></Card>
+        )}
+        {cohorts.length > 0 && (
+          <Card>
+            <CardHeader>
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <CardTitle>{board?.cohort.name ?? 'Class'}</CardTitle>
+                <div className="flex flex-wrap items-center gap-3">
+                  {cohorts.length > 1 && (
+                    <Select value={cohortId} onValueChange={(id) => { setCohortId(id); setScenarioId(ALL_SCENARIOS); }}>
+                      <SelectTrigger className="w-48"><SelectValue placeholder="Select class" /></SelectTrigger>
+                      <SelectContent>
+                        {cohorts.map((c) => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  <Select value={scenarioId} onValueChange={setScenarioId}>
+                    <SelectTrigger className="w-48"><SelectValue placeholder="All scenarios" /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_SCENARIOS}>All scenarios</SelectItem>
+                      {(board?.scenarios || []).map((s) => <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              {board?.showOnLeaderboard != null && (
+                <div className="flex items-center gap-2 pt-2">
+                  <Switch
+                    id="show-on-leaderboard"
+                    checked={board.showOnLeaderboard}
+                    onCheckedChange={(checked) => visibilityMutation.mutate(checked)}
+                    disabled={visibilityMutation.isPending}
+                  />
+                  <Label htmlFor="show-on-leaderboard" className="text-sm text-gray-700">
+                    Show my name to classmates (otherwise they see an anonymous handle)
+                  </Label>
+                </div>
+              )}
+            </CardHeader>
+            <CardContent>
+              {isLoading && <div className="text-sm text-gray-600">Loading...</div>}
+              {board && board.entries.length === 0 && <div className="text-sm text-gray-600">No completed games yet.</div>}
+              {board && board.entries.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-12 text-right">#</TableHead>
+                      <TableHead>Player</TableHead>
+                      <TableHead>Scenario</TableHead>
+                      {COLUMNS.map((col) => (
+                        <TableHead key={col.key} className="text-right">
+                          <button type="button" onClick={() => setSort(col.key)} className="inline-flex items-center gap-1 hover:text-gray-900">
+                            {col.label}
+                            {sort === col.key && <ArrowDown size={12} />}
+                          </button>
+                        </TableHead>
+                      ))}
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {board.entries.map((e) => (
+                      <TableRow key={`${e.handle}-${e.gameSessionId ?? e.rank}`} className={e.isYou ? 'bg-blue-50' : undefined}>
+                        <TableCell className="text-right font-mono">{e.rank}</TableCell>
+                        <TableCell>
+                          <span className={e.isNamed ? 'font-medium' : 'text-gray-700'}>{e.handle}</span>
+                          {e.isYou && <Badge variant="secondary" className="ml-2">You</Badge>}
+                        </TableCell>
+                        <TableCell>{e.scenarioName}</TableCell>
+                        {COLUMNS.map((col) => (
+                          <TableCell key={col.key} className={`text-right font-mono${sort === col.key ? ' font-semibold' : ''}`}>{col.format(e)}</TableCell>
+                        ))}
+                        <TableCell className="text-right">
+                          {e.gameSessionId && (
+                            <Link href={`/games/${e.gameSessionId}`}>
+                              <Button size="sm" variant="outline" className="flex items-center gap-1 ml-auto"><Eye size={14} /> View</Button>
+                            </Link>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
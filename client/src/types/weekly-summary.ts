@@ -4,6 +4,7 @@ export type LedgerEntry = {
     | 'marketing'
     | 'materials_spt'
     | 'materials_gmc'
+    | 'materials_fvc'
     | 'production'
     | 'logistics'
     | 'holding'
@@ -22,7 +23,7 @@ export type ProcurementArrival = {
 };
 
 export type ProcurementSettlement = {
-  kind: 'SPT' | 'GMC';
+  kind: 'SPT' | 'GMC' | 'FVC';
   supplier: string;
   material: string;
   goodUnits: number;
@@ -79,6 +80,7 @@ export type CashWaterfall = {
     marketing: number;
     materialsSPT: number;
     materialsGMC: number;
+    materialsFVC: number;
     production: number;
     logistics: number;
     holding: number;
@@ -89,6 +91,16 @@ export type CashWaterfall = {
   closingCredit: number;
 };
 
+export type DisruptionImpact = {
+  id: string;
+  kind: string;
+  title: string;
+  message: string;
+  delayedDeliveries: Array<{ material: string; units: number; fromWeek: number; toWeek: number }>;
+  delayedShipments: Array<{ product: string; quantity: number; toWeek: number }>;
+  postponedBatches: Array<{ id: string; product: string; startWeek: number }>;
+};
+
 export type WeeklySummary = {
   gameSessionId: string;
   weekNumber: number; // N+1
@@ -116,6 +128,9 @@ export type WeeklySummary = {
   ledgerRows: LedgerEntry[];
 
   demandSeries?: Array<{ week: number; awareness: number; intent: number; demand: number }>;
+
+  // Disruptions that hit this week and what they moved
+  disruptions?: DisruptionImpact[];
 };
 
 
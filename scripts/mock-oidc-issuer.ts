@@ -0,0 +1,163 @@
+/* Local OpenID Connect issuer for development and tests.
+ *
+ * Auto-approves every authorization request (no login page) and issues
+ * RS256-signed ID tokens, enough to exercise the app's OIDC sign-in without
+ * an external provider. Start it, then run the app with:
+ *   npm run mock-oidc
+ *   OIDC_ISSUER_URL=http://localhost:5055 OIDC_CLIENT_ID=ffsg OIDC_CLIENT_SECRET=dev-secret npm run dev
+ *
+ * The signed-in identity comes from `login_hint` on the authorization request,
+ * else MOCK_OIDC_EMAIL (default student@example.com). MOCK_OIDC_PORT,
+ * MOCK_OIDC_CLIENT_ID and MOCK_OIDC_CLIENT_SECRET override the defaults above.
+ */
+
+import { createHash, createSign, generateKeyPairSync, randomBytes } from "node:crypto";
+import { createServer, type Server } from "node:http";
+import { pathToFileURL } from "node:url";
+
+export interface MockOidcIssuerOptions {
+  port?: number;
+  clientId?: string;
+  clientSecret?: string;
+  email?: string;
+}
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  nonce?: string;
+  codeChallenge?: string;
+  email: string;
+}
+
+const base64url = (input: Buffer | string) => Buffer.from(input).toString("base64url");
+
+export async function startMockOidcIssuer(options: MockOidcIssuerOptions = {}): Promise<{ issuer: string; server: Server }> {
+  const port = options.port ?? 5055;
+  const clientId = options.clientId ?? "ffsg";
+  const clientSecret = options.clientSecret ?? "dev-secret";
+  const defaultEmail = options.email ?? "student@example.com";
+
+  const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  const kid = randomBytes(8).toString("hex");
+  const codes = new Map<string, PendingCode>();
+  let issuer = `http://localhost:${port}`;
+
+  const signIdToken = (claims: Record<string, unknown>) => {
+    const header = base64url(JSON.stringify({ alg: "RS256", typ: "JWT", kid }));
+    const payload = base64url(JSON.stringify(claims));
+    const signature = createSign("RSA-SHA256").update(`${header}.${payload}`).sign(privateKey);
+    return `${header}.${payload}.${base64url(signature)}`;
+  };
+
+  const sendJson = (res: any, status: number, body: unknown) => {
+    res.writeHead(status, { "Content-Type": "application/json", "Cache-Control": "no-store" });
+    res.end(JSON.stringify(body));
+  };
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url || "/", issuer);
+
+    if (url.pathname === "/.well-known/openid-configuration") {
+      return sendJson(res, 200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+        response_types_supported: ["code"],
+        subject_types_supported: ["public"],
+        id_token_signing_alg_values_supported: ["RS256"],
+        code_challenge_methods_supported: ["S256"],
+        token_endpoint_auth_methods_supported: ["client_secret_post", "client_secret_basic"],
+        scopes_supported: ["openid", "email", "profile"],
+      });
+    }
+
+    if (url.pathname === "/jwks") {
+      return sendJson(res, 200, { keys: [{ ...publicKey.export({ format: "jwk" }), kid, use: "sig", alg: "RS256" }] });
+    }
+
+    if (url.pathname === "/authorize") {
+      const redirectUri = url.searchParams.get("redirect_uri");
+      if (url.searchParams.get("client_id") !== clientId || !redirectUri) {
+        return sendJson(res, 400, { error: "invalid_request" });
+      }
+      const code = randomBytes(16).toString("hex");
+      codes.set(code, {
+        clientId,
+        redirectUri,
+        nonce: url.searchParams.get("nonce") || undefined,
+        codeChallenge: url.searchParams.get("code_challenge") || undefined,
+        email: url.searchParams.get("login_hint") || defaultEmail,
+      });
+      const callback = new URL(redirectUri);
+      callback.searchParams.set("code", code);
+      const state = url.searchParams.get("state");
+      if (state) callback.searchParams.set("state", state);
+      callback.searchParams.set("iss", issuer);
+      res.writeHead(302, { Location: callback.href });
+      return res.end();
+    }
+
+    if (url.pathname === "/token" && req.method === "POST") {
+      let body = "";
+      for await (const chunk of req) body += chunk;
+      const form = new URLSearchParams(body);
+      const basic = (req.headers.authorization || "").replace(/^Basic /, "");
+      const [basicId, basicSecret] = basic
+        ? Buffer.from(basic, "base64").toString().split(":").map(decodeURIComponent)
+        : [form.get("client_id"), form.get("client_secret")];
+      if (basicId !== clientId || basicSecret !== clientSecret) {
+        return sendJson(res, 401, { error: "invalid_client" });
+      }
+      const pending = codes.get(form.get("code") || "");
+      codes.delete(form.get("code") || "");
+      if (!pending || pending.redirectUri !== form.get("redirect_uri")) {
+        return sendJson(res, 400, { error: "invalid_grant" });
+      }
+      if (pending.codeChallenge) {
+        const challenge = base64url(createHash("sha256").update(form.get("code_verifier") || "").digest());
+        if (challenge !== pending.codeChallenge) {
+          return sendJson(res, 400, { error: "invalid_grant", error_description: "PKCE verification failed" });
+        }
+      }
+      const now = Math.floor(Date.now() / 1000);
+      const [localPart] = pending.email.split("@");
+      return sendJson(res, 200, {
+        access_token: randomBytes(16).toString("hex"),
+        token_type: "Bearer",
+        expires_in: 3600,
+        id_token: signIdToken({
+          iss: issuer,
+          aud: clientId,
+          sub: createHash("sha256").update(pending.email).digest("hex").slice(0, 24),
+          iat: now,
+          exp: now + 3600,
+          nonce: pending.nonce,
+          email: pending.email,
+          email_verified: true,
+          given_name: localPart,
+          family_name: "Mock",
+        }),
+      });
+    }
+
+    sendJson(res, 404, { error: "not_found" });
+  });
+
+  await new Promise<void>((resolve) => server.listen(port, "127.0.0.1", resolve));
+  const address = server.address();
+  if (address && typeof address === "object") issuer = `http://localhost:${address.port}`;
+  return { issuer, server };
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  startMockOidcIssuer({
+    port: process.env.MOCK_OIDC_PORT ? Number(process.env.MOCK_OIDC_PORT) : undefined,
+    clientId: process.env.MOCK_OIDC_CLIENT_ID,
+    clientSecret: process.env.MOCK_OIDC_CLIENT_SECRET,
+    email: process.env.MOCK_OIDC_EMAIL,
+  }).then(({ issuer }) => {
+    console.log(`Mock OIDC issuer listening at ${issuer}`);
+  });
+}
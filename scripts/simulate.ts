@@ -0,0 +1,105 @@
+/* Headless season simulator.
+ *
+ * Plays a full 15-week season from a decision script and prints the weekly
+ * states, the cash ledger and the final score. Run from the project root with:
+ *   npm run simulate -- scripts/examples/baseline-season.yaml
+ *   npm run simulate -- my-season.json --json > result.json
+ *
+ * Flags:
+ *   --json   print the full result (committed states, ledger, final) as JSON
+ *   --force  commit weeks even when validation reports errors
+ *   --seed=<value>  uncertain demand, drawn from this seed (overrides the script's demandSeed)
+ *
+ * Exits non-zero when a week fails validation (without --force).
+ */
+
+import { readFileSync } from "node:fs";
+import { extname } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { simulateSeason, type DecisionScript } from "../server/simulator.js";
+
+const formatMoney = (value: number) => new Intl.NumberFormat('en-GB', {
+  style: 'currency',
+  currency: 'GBP',
+  minimumFractionDigits: 0,
+  maximumFractionDigits: 0,
+}).format(value);
+
+const sumProducts = (byProduct: any) => ['jacket', 'dress', 'pants'].reduce((s, p) => s + Number(byProduct?.[p] || 0), 0);
+
+function loadScript(path: string): DecisionScript {
+  const text = readFileSync(path, 'utf8');
+  const ext = extname(path).toLowerCase();
+  const script = (ext === '.yaml' || ext === '.yml' ? parseYaml(text) : JSON.parse(text)) as DecisionScript;
+  if (!script || typeof script !== 'object' || typeof script.weeks !== 'object') {
+    throw new Error(`${path}: expected an object with a "weeks" map`);
+  }
+  return script;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const path = args.find((a) => !a.startsWith('--'));
+  if (!path) {
+    console.error('Usage: npm run simulate -- <decision-script.(json|yaml)> [--json] [--force] [--seed=<value>]');
+    process.exit(2);
+  }
+
+  const seedArg = args.find((a) => a.startsWith('--seed='));
+  const result = await simulateSeason(loadScript(path), {
+    force: args.includes('--force'),
+    demandSeed: seedArg ? seedArg.slice('--seed='.length) : undefined,
+  });
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    console.log(`Scenario: ${result.scenarioId}\n`);
+    console.log('Week  Phase        Cash          Credit        Revenue       Demand   Sales');
+    for (const { weekNumber, state, errors, warnings } of result.weeks) {
+      const s: any = state;
+      console.log([
+        String(weekNumber).padEnd(5),
+        String(s.phase || '').padEnd(12),
+        formatMoney(Number(s.cashOnHand || 0)).padStart(12),
+        formatMoney(Number(s.creditUsed || 0)).padStart(12),
+        formatMoney(Number(s.weeklyRevenue || 0)).padStart(12),
+        String(sumProducts(s.weeklyDemand)).padStart(8),
+        String(sumProducts(s.weeklySales)).padStart(7),
+      ].join(' '));
+      for (const e of errors) console.log(`      ERROR    ${e.message}`);
+      for (const w of warnings) console.log(`      warning  ${w.message}`);
+    }
+
+    const ledgerByType: Record<string, number> = {};
+    for (const entry of result.ledger) {
+      ledgerByType[entry.type] = (ledgerByType[entry.type] || 0) + Number(entry.amount || 0);
+    }
+    console.log('\nLedger totals:');
+    for (const [type, amount] of Object.entries(ledgerByType)) {
+      console.log(`  ${type.padEnd(14)} ${formatMoney(amount).padStart(14)}`);
+    }
+
+    if (result.final) {
+      const f = result.final;
+      console.log('\nFinal results:');
+      console.log(`  Service level      ${f.serviceLevel.toFixed(1)}%`);
+      console.log(`  Revenue            ${formatMoney(f.totalRevenue)}`);
+      console.log(`  Costs              ${formatMoney(f.totalCosts)}`);
+      console.log(`  Economic profit    ${formatMoney(f.economicProfit)}`);
+      console.log(`  Dead stock penalty ${formatMoney(f.deadStockPenalty)}`);
+      console.log(`  Final score        ${formatMoney(f.finalScore)}`);
+      console.log(`  Final cash         ${formatMoney(f.finalCash)}`);
+    }
+  }
+
+  if (result.stoppedAtWeek) {
+    console.error(`\nStopped: week ${result.stoppedAtWeek} failed validation (use --force to commit anyway).`);
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
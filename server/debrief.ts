@@ -0,0 +1,292 @@
+import type { ProductKey, ScoringRubric, WeeklyState } from "@shared/schema";
+import type { GameEngine } from "./gameEngine";
+import { productLaunchWeeks } from "./scoring";
+
+// Post-game debrief: rule-based coaching over a finished season. Each rule
+// looks for one recognisable mistake in the weekly states and the cash
+// ledger and prices it in pounds; findings come back largest impact first.
+
+export type DebriefFindingCode =
+  | 'late_launch'
+  | 'peak_stockouts'
+  | 'expedited_shipping'
+  | 'dead_stock'
+  | 'idle_gmc_volume'
+  | 'credit_interest'
+  | 'marketing_below_baseline';
+
+export interface DebriefFinding {
+  code: DebriefFindingCode;
+  title: string;
+  // What happened, with the numbers behind it
+  detail: string;
+  // What to do differently next season
+  advice: string;
+  // £ the mistake cost (lost margin, extra cost or penalty); estimates are flagged in `detail`
+  impact: number;
+  weeks?: number[];
+  products?: ProductKey[];
+}
+
+export interface Debrief {
+  finalScore: number;
+  // Sum of the findings' impact
+  totalImpact: number;
+  findings: DebriefFinding[];
+}
+
+// Ledger rows as stored (cash_ledger) or staged by the simulator
+export interface DebriefLedgerRow {
+  entryType: string;
+  amount: number | string;
+  weekNumber: number;
+}
+
+export const DEBRIEF_THRESHOLDS = {
+  // Findings worth less than this are left out
+  MIN_IMPACT: 1000,
+  // Seasonality at or above this marks a peak week
+  PEAK_SEASONALITY: 1.0,
+  // Share of shipped units sent expedited above which the premium is flagged
+  EXPEDITED_SHARE: 0.25,
+  // Interest above this share of revenue is flagged
+  INTEREST_SHARE_OF_REVENUE: 0.01,
+};
+
+const PRODUCTS: ProductKey[] = ['jacket', 'dress', 'pants'];
+const PRODUCT_NAMES: Record<ProductKey, string> = { jacket: 'jackets', dress: 'dresses', pants: 'pants' };
+
+const num = (v: unknown): number => {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : 0;
+};
+
+const gbp = (v: number): string => `£${Math.round(v).toLocaleString('en-GB')}`;
+const units = (v: number): string => Math.round(v).toLocaleString('en-GB');
+
+function listNames(products: ProductKey[]): string {
+  const names = products.map((p) => PRODUCT_NAMES[p]);
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0] || '';
+}
+
+export function generateDebrief(
+  engine: typeof GameEngine,
+  allStates: WeeklyState[],
+  ledger: DebriefLedgerRow[],
+  rubric: ScoringRubric = engine.constants.SCORING,
+  // The score the game was awarded; recomputed under the rubric when absent
+  finalScore: number | null = null,
+): Debrief {
+  const constants = engine.constants;
+  const weeks = [...allStates].sort((a, b) => num(a.weekNumber) - num(b.weekNumber)) as any[];
+  const finalState = weeks[weeks.length - 1] || {};
+  const results = engine.calculateFinalResults(allStates, rubric);
+  const launchWeek = rubric.LAUNCH_WEEK;
+  const fallbackUnitCost = num(finalState.actualUnitCost);
+
+  // Margin lost on one unit that could not be sold in a given week
+  const unitMargin = (w: any, p: ProductKey): number => {
+    const price = num(w.productData?.[p]?.rrp) * (1 - num(w.weeklyDiscounts?.[p]));
+    return Math.max(0, price - (num(w.actualUnitCost) || fallbackUnitCost));
+  };
+  const lostOf = (w: any, p: ProductKey) => num(w.lostSales?.[p]);
+  const ledgerSum = (type: string) => ledger.filter((r) => r.entryType === type).reduce((s, r) => s + num(r.amount), 0);
+
+  const findings: DebriefFinding[] = [];
+
+  // 1) Late launch: demand from the launch week went unserved until the first stock reached the shelf
+  const firstSaleWeek: Partial<Record<ProductKey, number>> = {};
+  {
+    let impact = 0;
+    const late: ProductKey[] = [];
+    const lateWeeks = new Set<number>();
+    const launches = productLaunchWeeks(allStates, launchWeek);
+    for (const p of PRODUCTS) {
+      firstSaleWeek[p] = launches[p] ?? Infinity;
+      const before = weeks.filter((w) => num(w.weekNumber) >= launchWeek && num(w.weekNumber) < firstSaleWeek[p]! && lostOf(w, p) > 0);
+      if (before.length === 0) continue;
+      late.push(p);
+      for (const w of before) {
+        impact += lostOf(w, p) * unitMargin(w, p);
+        lateWeeks.add(num(w.weekNumber));
+      }
+    }
+    if (late.length > 0) {
+      const firstSales = late.map((p) => `${PRODUCT_NAMES[p]} ${Number.isFinite(firstSaleWeek[p]) ? `in week ${firstSaleWeek[p]}` : 'never'}`).join(', ');
+      findings.push({
+        code: 'late_launch',
+        title: 'Late launch',
+        detail: `Sales open in week ${launchWeek} but the first units sold came later (${firstSales}). Demand in the weeks before went unserved.`,
+        advice: `Work back from week ${launchWeek}: order fabric and start production early enough that every product is on the shelf when sales open.`,
+        impact,
+        weeks: Array.from(lateWeeks).sort((a, b) => a - b),
+        products: late,
+      });
+    }
+  }
+
+  // 2) Stock-outs in peak seasonality weeks, once the product had launched
+  {
+    let impact = 0;
+    let lostUnits = 0;
+    const peakWeeks = new Set<number>();
+    const products = new Set<ProductKey>();
+    for (const w of weeks) {
+      const week = num(w.weekNumber);
+      if (engine.getPhaseForWeek(week) !== 'sales') continue;
+      if (num(constants.SEASONALITY[week - 1]) < DEBRIEF_THRESHOLDS.PEAK_SEASONALITY) continue;
+      for (const p of PRODUCTS) {
+        if (week < (firstSaleWeek[p] ?? Infinity) || lostOf(w, p) <= 0) continue;
+        impact += lostOf(w, p) * unitMargin(w, p);
+        lostUnits += lostOf(w, p);
+        peakWeeks.add(week);
+        products.add(p);
+      }
+    }
+    if (lostUnits > 0) {
+      findings.push({
+        code: 'peak_stockouts',
+        title: 'Stock-outs at peak season',
+        detail: `${units(lostUnits)} units of ${listNames(Array.from(products))} demand were lost in ${engine.formatWeekList(Array.from(peakWeeks))}, the busiest weeks of the season.`,
+        advice: 'Check inventory coverage before the peak and schedule batches so the shelf holds enough for the highest-demand weeks.',
+        impact,
+        weeks: Array.from(peakWeeks).sort((a, b) => a - b),
+        products: Array.from(products),
+      });
+    }
+  }
+
+  // 3) Expedited shipping used for a large share of production
+  {
+    const batches = ((finalState.productionSchedule?.batches || []) as any[]).filter((b) => num(b.quantity) > 0);
+    const billed = (b: any) => Math.max(num(constants.BATCH_SIZE), num(b.quantity));
+    const totalUnits = batches.reduce((s, b) => s + billed(b), 0);
+    const expedited = batches.filter((b) => b.shipping === 'expedited');
+    const expeditedUnits = expedited.reduce((s, b) => s + billed(b), 0);
+    const premium = expedited.reduce((s, b) => {
+      const rates = (constants.SHIPPING as any)[b.product] || {};
+      return s + billed(b) * Math.max(0, num(rates.expedited) - num(rates.standard));
+    }, 0);
+    if (totalUnits > 0 && expeditedUnits / totalUnits > DEBRIEF_THRESHOLDS.EXPEDITED_SHARE) {
+      findings.push({
+        code: 'expedited_shipping',
+        title: 'Heavy use of expedited shipping',
+        detail: `${Math.round((expeditedUnits / totalUnits) * 100)}% of shipped units went expedited, paying ${gbp(premium)} over standard rates.`,
+        advice: 'Start batches a week earlier and ship standard; keep expedited for genuine emergencies.',
+        impact: premium,
+        products: PRODUCTS.filter((p) => expedited.some((b) => b.product === p)),
+      });
+    }
+  }
+
+  // 4) Dead stock: finished goods still unsold after week 15
+  if (results.deadStockPenalty > 0) {
+    const leftByProduct = PRODUCTS.map((p) => ({
+      p,
+      units: ((finalState.finishedGoods?.lots || []) as any[]).filter((l) => l.product === p).reduce((s, l) => s + num(l.quantity), 0),
+    })).filter((r) => r.units > 0);
+    findings.push({
+      code: 'dead_stock',
+      title: 'Dead stock at season end',
+      detail: `${leftByProduct.map((r) => `${units(r.units)} ${PRODUCT_NAMES[r.p]}`).join(', ')} were left unsold after week 15 and count against the score.`,
+      advice: 'Size the last batches to forecast run-out demand, mark down earlier in weeks 13–15, or liquidate what is left in week 15.',
+      impact: results.deadStockPenalty,
+      weeks: [15],
+      products: leftByProduct.map((r) => r.p),
+    });
+  }
+
+  // 5) GMC volume committed but never ordered
+  {
+    const contracts = finalState.procurementContracts?.contracts || [];
+    const { bySupplier, total } = engine.gmcShortfallPenalty(contracts, finalState.procurementContracts?.gmcCommitments || {});
+    const short = Object.entries(bySupplier).filter(([, v]) => v.undeliveredUnits > 0);
+    if (total > 0) {
+      findings.push({
+        code: 'idle_gmc_volume',
+        title: 'Unused GMC volume',
+        detail: `${short.map(([sup, v]) => `${units(v.undeliveredUnits)} units with ${(constants.SUPPLIERS as any)[sup]?.name || sup}`).join(', ')} of committed GMC volume were never delivered, triggering the shortfall penalty.`,
+        advice: 'Commit only the GMC volume you will call off, and place the remaining orders before the season ends.',
+        impact: total,
+        weeks: [15],
+      });
+    }
+  }
+
+  // 6) Interest on a credit line drawn for much of the season
+  {
+    const interest = ledgerSum('interest') || num(finalState.interestAccrued);
+    const creditWeeks = weeks.filter((w) => num(w.creditUsed) > 0).map((w) => num(w.weekNumber));
+    const peakCredit = weeks.reduce((m, w) => Math.max(m, num(w.creditUsed)), 0);
+    if (interest > DEBRIEF_THRESHOLDS.INTEREST_SHARE_OF_REVENUE * results.totalRevenue) {
+      findings.push({
+        code: 'credit_interest',
+        title: 'Credit-heavy financing',
+        detail: `Credit was drawn in ${creditWeeks.length} week${creditWeeks.length === 1 ? '' : 's'}, peaking at ${gbp(peakCredit)}, and cost ${gbp(interest)} in interest.`,
+        advice: 'Use the cash flow projection to time purchases and production payments, and avoid paying for stock long before it sells.',
+        impact: interest,
+        weeks: creditWeeks,
+      });
+    }
+  }
+
+  // 7) Marketing under half the baseline decays awareness and intent
+  // (GameEngine.marketingDecay). Estimate the demand a funded plan
+  // would have kept, converted at each week's fill rate and unit margin.
+  {
+    const baseline = num(constants.BASELINE_MARKETING_SPEND);
+    let lostA = 0;
+    let lostI = 0;
+    let streak = 0;
+    const underfunded: number[] = [];
+    let impact = 0;
+    let prev: any = null;
+    for (const w of weeks) {
+      const week = num(w.weekNumber);
+      // The spend paid in week N is what moved awareness and intent from week N-1 to N
+      const spend = num(w.marketingPlan?.totalSpend ?? w.marketingSpend);
+      if (prev) {
+        const decay = engine.marketingDecay(spend, streak, streak);
+        // Decay cannot take away more than there was
+        lostA += Math.min(decay.dA, num(prev.awareness));
+        lostI += Math.min(decay.dI, num(prev.intent));
+        if (spend < 0.5 * baseline) underfunded.push(week);
+        streak = spend < 0.5 * baseline ? streak + 1 : 0;
+      }
+      prev = w;
+      if (!['sales', 'runout'].includes(engine.getPhaseForWeek(week)) || (lostA <= 0 && lostI <= 0)) continue;
+      const awareness = num(w.awareness);
+      const intent = num(w.intent);
+      const actual = engine.computeMarketingFactor(awareness, intent);
+      if (actual <= 0) continue;
+      const funded = engine.computeMarketingFactor(Math.min(100, awareness + lostA), Math.min(100, intent + lostI));
+      for (const p of PRODUCTS) {
+        const demand = num(w.weeklyDemand?.[p]);
+        if (demand <= 0) continue;
+        const fillRate = num(w.weeklySales?.[p]) / demand;
+        impact += demand * (funded / actual - 1) * fillRate * unitMargin(w, p);
+      }
+    }
+    if (underfunded.length > 0 && impact > 0) {
+      findings.push({
+        code: 'marketing_below_baseline',
+        title: 'Marketing below baseline',
+        detail: `Spend was under half the ${gbp(baseline)} weekly baseline in ${engine.formatWeekList(underfunded)}, so awareness and intent decayed. Estimated margin lost on the demand a funded plan would have kept.`,
+        advice: 'Keep weekly marketing at least at half the baseline from the pre-launch weeks on; underfunding streaks decay awareness faster each week.',
+        impact,
+        weeks: underfunded,
+      });
+    }
+  }
+
+  const ranked = findings
+    .map((f) => ({ ...f, impact: Math.round(f.impact * 100) / 100 }))
+    .filter((f) => f.impact >= DEBRIEF_THRESHOLDS.MIN_IMPACT)
+    .sort((a, b) => b.impact - a.impact);
+
+  return {
+    finalScore: finalScore ?? results.finalScore,
+    totalImpact: ranked.reduce((s, f) => s + f.impact, 0),
+    findings: ranked,
+  };
+}
@@ -0,0 +1,126 @@
+import ExcelJS from "exceljs";
+import type { CashLedger, OrdersLog, ProductKey, WeeklyState } from "@shared/schema";
+
+// Spreadsheet exports of a game: one dataset per table, as CSV (one file per
+// dataset) or as an XLSX workbook with one sheet per dataset.
+
+export type ExportDatasetKey = 'weeks' | 'cost_breakdown' | 'totals' | 'product_sales' | 'cash_ledger' | 'orders_log';
+export const EXPORT_DATASETS: ExportDatasetKey[] = ['weeks', 'cost_breakdown', 'totals', 'product_sales', 'cash_ledger', 'orders_log'];
+
+export type ExportCell = string | number | boolean | null;
+
+export interface ExportDataset {
+  key: ExportDatasetKey;
+  // Sheet name in the workbook
+  title: string;
+  columns: string[];
+  rows: ExportCell[][];
+}
+
+export interface ExportSource {
+  weeks: WeeklyState[];
+  ledger: CashLedger[];
+  ordersLog: OrdersLog[];
+}
+
+const PRODUCTS: ProductKey[] = ['jacket', 'dress', 'pants'];
+const COST_KEYS = ['materials', 'production', 'logistics', 'marketing', 'holding', 'interest'];
+const TOTALS_KEYS = ['revenueToDate', 'unitsSoldToDate', 'cogsMaterialsToDate', 'cogsProductionToDate', 'cogsLogisticsToDate', 'cogsMarketingToDate'];
+
+const num = (value: unknown): number => {
+  const n = Number(value ?? 0);
+  return Number.isFinite(n) ? n : 0;
+};
+
+const sumProducts = (byProduct: unknown): number =>
+  PRODUCTS.reduce((s, p) => s + num((byProduct as any)?.[p]), 0);
+
+const iso = (value: Date | string | null | undefined): string | null =>
+  value == null ? null : new Date(value).toISOString();
+
+/** Every dataset of a game, weeks in order. Decimal columns come out as numbers. */
+export function buildExportDatasets({ weeks, ledger, ordersLog }: ExportSource): ExportDataset[] {
+  const sorted = [...weeks].sort((a, b) => Number(a.weekNumber) - Number(b.weekNumber));
+
+  return [
+    {
+      key: 'weeks',
+      title: 'Weekly KPIs',
+      columns: ['week', 'phase', 'committed', 'cash_on_hand', 'credit_used', 'interest_accrued', 'revenue', 'marketing_spend', 'awareness', 'intent', 'demand', 'units_sold', 'lost_sales', 'actual_unit_cost'],
+      rows: sorted.map((w) => [
+        Number(w.weekNumber), w.phase, !!w.isCommitted, num(w.cashOnHand), num(w.creditUsed), num(w.interestAccrued),
+        num(w.weeklyRevenue), num((w.marketingPlan as any)?.totalSpend ?? w.marketingSpend), num(w.awareness), num(w.intent),
+        sumProducts(w.weeklyDemand), sumProducts(w.weeklySales), sumProducts(w.lostSales), num(w.actualUnitCost),
+      ]),
+    },
+    {
+      key: 'cost_breakdown',
+      title: 'Cost breakdown',
+      columns: ['week', ...COST_KEYS, 'total'],
+      rows: sorted.map((w) => {
+        const costs = COST_KEYS.map((k) => num((w.costBreakdown as any)?.[k]));
+        return [Number(w.weekNumber), ...costs, costs.reduce((s, c) => s + c, 0)];
+      }),
+    },
+    {
+      key: 'totals',
+      title: 'Season totals',
+      columns: ['week', ...TOTALS_KEYS],
+      rows: sorted.map((w) => [Number(w.weekNumber), ...TOTALS_KEYS.map((k) => num((w.totals as any)?.[k]))]),
+    },
+    {
+      key: 'product_sales',
+      title: 'Sales by product',
+      columns: ['week', 'product', 'demand', 'units_sold', 'lost_sales'],
+      rows: sorted.flatMap((w) => PRODUCTS.map((p): ExportCell[] => [
+        Number(w.weekNumber), p, num((w.weeklyDemand as any)?.[p]), num((w.weeklySales as any)?.[p]), num((w.lostSales as any)?.[p]),
+      ])),
+    },
+    {
+      key: 'cash_ledger',
+      title: 'Cash ledger',
+      columns: ['week', 'entry_type', 'amount', 'balance_after', 'credit_after', 'committed_week', 'ref_id', 'created_at'],
+      rows: [...ledger]
+        .sort((a, b) => Number(a.weekNumber) - Number(b.weekNumber))
+        .map((e) => [
+          Number(e.weekNumber), e.entryType, num(e.amount),
+          e.balanceAfter != null ? num(e.balanceAfter) : null, e.creditAfter != null ? num(e.creditAfter) : null,
+          e.committedWeek ?? null, e.refId ?? null, iso(e.createdAt),
+        ]),
+    },
+    {
+      key: 'orders_log',
+      title: 'Orders log',
+      columns: ['week', 'order_timestamp', 'supplier', 'order_type', 'material', 'quantity', 'unit_price', 'line_total', 'removed_at'],
+      rows: [...ordersLog]
+        .sort((a, b) => Number(a.weekNumber) - Number(b.weekNumber) || a.orderTimestamp.localeCompare(b.orderTimestamp))
+        .map((o) => [
+          Number(o.weekNumber), o.orderTimestamp, o.supplier, o.orderType, o.material, Number(o.quantity),
+          num(o.effectiveUnitPrice), num(o.effectiveLineTotal), iso(o.removedAt),
+        ]),
+    },
+  ];
+}
+
+const csvCell = (value: ExportCell): string => {
+  if (value == null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** RFC 4180 CSV with a header row and CRLF line endings. */
+export function toCsv(dataset: ExportDataset): string {
+  return [dataset.columns, ...dataset.rows].map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+export async function toXlsx(datasets: ExportDataset[]): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  for (const dataset of datasets) {
+    const sheet = workbook.addWorksheet(dataset.title);
+    sheet.columns = dataset.columns.map((header) => ({ header, key: header, width: Math.max(12, header.length + 2) }));
+    sheet.getRow(1).font = { bold: true };
+    sheet.views = [{ state: 'frozen', ySplit: 1 }];
+    sheet.addRows(dataset.rows);
+  }
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
@@ -1,5 +1,5 @@
-import { WeeklyState, GameSession, ExtendedWeeklyState, ProductKey, SupplierKey, MaterialKey, cashLedger } from "@shared/schema";
-import { db } from "./db";
+import { WeeklyState, GameSession, ExtendedWeeklyState, ProductKey, SupplierKey, MaterialKey, RunOutMode, LiquidationResult, BackorderBook, DisruptionEvent, ScoreBreakdown, ScoringRubric } from "@shared/schema";
+import { lateLaunchWeeks, scoreSeason } from "./scoring";
 
 // Game constants from the specification
 export const GAME_CONSTANTS = {
@@ -85,7 +85,79 @@ export const GAME_CONSTANTS = {
       { min: 400000, max: Number.MAX_SAFE_INTEGER, discount: 0.09 },
     ],
   },
-  
+
+  // Full Volume Commitment: Week 1 only; 25% down on signing, balance on final delivery
+  FVC: {
+    SIGNING_WEEK: 1,
+    DOWN_PAYMENT_RATE: 0.25,
+  },
+
+  // Week rewinds per game; cohorts can override (null there = use this)
+  REWIND: {
+    MAX_REWINDS: 3,
+  },
+
+  // Run-out phase (weeks 13-15). Players set their own markdowns unless the
+  // game opted into 'automatic' clearance at these rates. Either way no unit
+  // sells below actualUnitCost.
+  RUN_OUT: {
+    START_WEEK: 13,
+    // Weeks 13, 14, 15
+    AUTO_MARKDOWNS: [0.20, 0.35, 0.50],
+    // End-of-season jobber: unsold finished goods fetch this share of their unit cost basis
+    SALVAGE_RATE: 0.30,
+  },
+
+  // Backorder mode (games started with backorderMode): part of the unmet
+  // demand in a selling week waits for stock, and awareness drives pre-orders
+  // before launch. Waiting orders are served FIFO from the shelf.
+  BACKORDERS: {
+    // Share of unmet demand that waits instead of walking away
+    SHARE: 0.4,
+    // Share of an order still wanted, by weeks past its due week (0, 1, 2, 3); cancelled after
+    FILL_PROBABILITY: [0.9, 0.75, 0.55, 0.35],
+    // Intent points lost next week per 10,000 units that have waited this many weeks past due, capped
+    LONG_WAIT_WEEKS: 2,
+    LONG_WAIT_INTENT_PENALTY: 2,
+    MAX_WAIT_INTENT_PENALTY: 8,
+    // Pre-order weeks, and the share of a week's base demand pre-ordered at 100 awareness
+    PREORDER_WEEKS: [5, 6],
+    PREORDER_SHARE: 0.3,
+    // Pre-orders are due at launch
+    PREORDER_DUE_WEEK: 7,
+  },
+
+  // Final score (server/scoring.ts): economic profit less penalties for the
+  // spec's other priorities. Cohorts can override any of these.
+  SCORING: {
+    EP_WEIGHT: 1,
+    SERVICE_LEVEL_GATE: 95,
+    SERVICE_LEVEL_PENALTY_PER_POINT: 50000,
+    CASH_PENALTY_RATE: 1,
+    DEAD_STOCK_MULTIPLIER: 1,
+    LAUNCH_WEEK: 7,
+    LATE_LAUNCH_PENALTY_PER_WEEK: 50000,
+  } as ScoringRubric,
+
+  // Uncertain-demand mode (games started with a demand seed): weekly demand per
+  // product is drawn around the calculateDemand mean
+  DEMAND_UNCERTAINTY: {
+    // Coefficient of variation of the weekly draw (mean-preserving lognormal)
+    CV: 0.2,
+    // Forecast range shown in the marketing preview: 10th to 90th percentile
+    FORECAST_Z: 1.2816,
+  },
+
+  // Multiplayer markets: teams in one market split a shared pool of demand
+  MARKET: {
+    // Each team beyond the first grows the pool by this share of one team's standalone demand
+    ADDITIONAL_TEAM_MARKET_SIZE: 0.5,
+    // Exponent on each team's offer when splitting the pool (> 1 favours the strongest offer)
+    SHARE_SENSITIVITY: 1.5,
+    // Hours a market week stays open before teams that have not submitted are committed as saved
+    DEFAULT_WEEK_DEADLINE_HOURS: 48,
+  },
+
   MANUFACTURING: {
     jacket: { inHouseCost: 15, outsourceCost: 25, inHouseTime: 3, outsourceTime: 1 },
     dress: { inHouseCost: 8, outsourceCost: 14, inHouseTime: 2, outsourceTime: 1 },
@@ -95,6 +167,10 @@ export const GAME_CONSTANTS = {
   CAPACITY_SCHEDULE: [
     0, 0, 25000, 50000, 100000, 100000, 150000, 150000, 200000, 200000, 100000, 100000, 100000, 0, 0
   ],
+
+  // Supply disruptions (supplier delays, port strikes, capacity cuts, price
+  // spikes). Scenarios list their own; the default season has none.
+  EVENTS: [] as DisruptionEvent[],
   
   SHIPPING: {
     jacket: { standard: 4, expedited: 7 },
@@ -115,13 +191,156 @@ export const GAME_CONSTANTS = {
   }
 };
 
+export type GameConstants = typeof GAME_CONSTANTS;
+
+// Cash ledger entry staged by commitWeek; weekNumber defaults to the committed week
+export interface LedgerEntryDraft {
+  type: string;
+  amount: number;
+  refId?: string;
+  weekNumber?: number;
+}
+
+export interface FinalResults {
+  serviceLevel: number;
+  totalRevenue: number;
+  totalCosts: number;
+  averageCapital: number;
+  economicProfit: number;
+  deadStockPenalty: number;
+  finalScore: number;
+  finalCash: number;
+  scoreBreakdown: ScoreBreakdown;
+}
+
+export interface CommitWeekOptions {
+  // Demand per product to use instead of the standalone calculation (multiplayer markets)
+  marketDemand?: Partial<Record<keyof typeof GAME_CONSTANTS.PRODUCTS, number>>;
+  // Uncertain-demand mode: the game's seed for the weekly demand draws
+  demandSeed?: string | null;
+  // Who sets run-out markdowns: RunOutMode, default 'player'
+  runOutMode?: string | null;
+  // Backorder mode: unmet demand can wait for stock (BACKORDERS)
+  backorders?: boolean;
+}
+
+// The per-game rules a commit runs under, as opposed to per-week inputs
+// like market demand or the demand seed
+export type GameRuleOptions = Pick<CommitWeekOptions, 'runOutMode' | 'backorders'>;
+
+export interface PreviewOptions {
+  // Add 10th–90th percentile demand ranges (uncertain-demand games)
+  uncertainDemand?: boolean;
+}
+
+export type CashFlowOutflows = Record<'materials' | 'production' | 'logistics' | 'marketing' | 'holding' | 'interest', number>;
+
+// One week of GameEngine.projectCashFlow
+export interface ProjectedCashWeek {
+  weekNumber: number;
+  inflows: { sales: number };
+  outflows: CashFlowOutflows;
+  totalInflows: number;
+  totalOutflows: number;
+  netCashFlow: number;
+  // Closing position; credit is uncapped so a breach of the limit stays visible
+  cashOnHand: number;
+  creditUsed: number;
+  // Credit drawn after the week's payments, before sales cash comes in
+  peakCreditUsed: number;
+  overCreditLimit: boolean;
+}
+
+export interface CashFlowProjection {
+  fromWeek: number;
+  creditLimit: number;
+  weeks: ProjectedCashWeek[];
+  // First week whose peak credit exceeds the limit, if any
+  firstWeekOverLimit: number | null;
+}
+
+// One product in one week of GameEngine.projectInventoryCoverage
+export interface ProductCoverage {
+  // Finished goods on the shelf when the week opens (after that week's arrivals)
+  openingUnits: number;
+  // Arrived since the previous week closed (0 for the current week)
+  arrivingUnits: number;
+  demand: number;
+  sales: number;
+  shortfall: number;
+  closingUnits: number;
+  // openingUnits / demand; null without demand
+  coverage: number | null;
+}
+
+export interface InventoryCoverageWeek {
+  weekNumber: number;
+  products: Record<ProductKey, ProductCoverage>;
+}
+
+export interface InventoryCoverageProjection {
+  fromWeek: number;
+  weeks: InventoryCoverageWeek[];
+  stockOuts: Array<{ weekNumber: number; product: ProductKey; shortfall: number; demand: number }>;
+}
+
+export type ValidationCode =
+  | 'product_data_missing'
+  | 'rrp_missing'
+  | 'rrp_below_cost_floor'
+  | 'batch_invalid_quantity'
+  | 'batch_over_size'
+  | 'capacity_exceeded'
+  | 'fabric_missing'
+  | 'insufficient_materials'
+  | 'zero_marketing'
+  | 'aggressive_pricing'
+  | 'discount_below_cost_floor'
+  | 'planned_discount_below_cost_floor'
+  | 'markdown_below_unit_cost'
+  | 'inadequate_cash'
+  | 'low_cash'
+  | 'stock_out_risk'
+  | 'credit_limit_breach'
+  | 'high_inventory';
+
+// Dashboard tab where the player fixes an issue
+export type ValidationTab = 'pricing' | 'design' | 'marketing' | 'procurement' | 'production' | 'inventory' | 'logistics';
+
+// One validation finding. Stored as-is in weeklyStates.validationErrors /
+// validationWarnings; the entity fields let the commit modal jump to the
+// offending row.
+export interface ValidationIssue {
+  code: ValidationCode;
+  severity: 'error' | 'warning';
+  message: string;
+  tab?: ValidationTab;
+  product?: ProductKey;
+  batchId?: string;
+  contractId?: string;
+  week?: number;
+  suggestedFix?: string;
+}
+
 export interface ValidationResult {
-  errors: string[];
-  warnings: string[];
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
   canCommit: boolean;
 }
 
 export class GameEngine {
+  // Scenario constants for this engine. GameEngine itself plays the default
+  // scenario; withScenario() returns a subclass bound to another one, and every
+  // static method reads constants through `this` so the binding carries through.
+  static constants: GameConstants = GAME_CONSTANTS;
+
+  static withScenario(constants: GameConstants): typeof GameEngine {
+    if (constants === GAME_CONSTANTS) return GameEngine;
+    return class ScenarioGameEngine extends GameEngine {
+      static constants = constants;
+    };
+  }
+
   // --------------------
   // Utility conversions
   // --------------------
@@ -138,7 +357,7 @@ export class GameEngine {
     product: keyof typeof GAME_CONSTANTS.PRODUCTS,
     rrp: number
   ): number {
-    const productData = GAME_CONSTANTS.PRODUCTS[product];
+    const productData = this.constants.PRODUCTS[product];
     const targetPrice = productData.hmPrice * 1.2;
     if (!Number.isFinite(rrp) || rrp <= 0 || targetPrice <= 0) return 0;
 
@@ -153,9 +372,9 @@ export class GameEngine {
 
   private static calculateDesignEffect(materialChoice?: MaterialKey | null, hasPrint: boolean = false): number {
     const fabricLift = materialChoice
-      ? this.toNumber((GAME_CONSTANTS.DESIGN_DEMAND_EFFECTS.fabric as any)[materialChoice], 0)
+      ? this.toNumber((this.constants.DESIGN_DEMAND_EFFECTS.fabric as any)[materialChoice], 0)
       : 0;
-    const printLift = hasPrint ? GAME_CONSTANTS.DESIGN_DEMAND_EFFECTS.print : 0;
+    const printLift = hasPrint ? this.constants.DESIGN_DEMAND_EFFECTS.print : 0;
     return Math.max(0.5, 1 + fabricLift + printLift);
   }
 
@@ -204,7 +423,7 @@ export class GameEngine {
 
   private static getProductionBilledUnits(quantity: number): number {
     const qty = Math.max(0, this.toNumber(quantity));
-    return qty > 0 ? Math.max(GAME_CONSTANTS.BATCH_SIZE, qty) : 0;
+    return qty > 0 ? Math.max(this.constants.BATCH_SIZE, qty) : 0;
   }
 
   private static startProductionBatch(state: any, b: any, week: number): { quantity: number; productionCash: number } {
@@ -309,6 +528,7 @@ export class GameEngine {
     state.productionSchedule = state.productionSchedule || { batches: [] };
 
     this.completeProductionAndArrivalsForWeek(state, week);
+    this.postponeBatchesOverCapacity(state, week);
 
     const startingBatches = (state.productionSchedule.batches || [])
       .filter((b: any) => this.toNumber(b.startWeek) === week && !this.hasMaterializedBatch(state, String(b.id)));
@@ -345,7 +565,7 @@ export class GameEngine {
   // Procurement helpers
   // --------------------
   private static computeSupplierVolumeDiscount(supplier: SupplierKey, totalUnits: number): number {
-    const tiers = (GAME_CONSTANTS.VOLUME_DISCOUNTS as any)[supplier] || [];
+    const tiers = (this.constants.VOLUME_DISCOUNTS as any)[supplier] || [];
     for (const tier of tiers) {
       if (totalUnits >= tier.min && totalUnits <= tier.max) {
         return tier.discount;
@@ -355,11 +575,11 @@ export class GameEngine {
   }
 
   private static getSupplierLeadTime(supplier: SupplierKey): number {
-    return GAME_CONSTANTS.SUPPLIERS[supplier].leadTime;
+    return this.constants.SUPPLIERS[supplier].leadTime;
   }
 
   private static getSupplierDefectRate(supplier: SupplierKey): number {
-    return GAME_CONSTANTS.SUPPLIERS[supplier].defectRate;
+    return this.constants.SUPPLIERS[supplier].defectRate;
   }
 
   private static hashToUnitInterval(seed: string): number {
@@ -371,6 +591,49 @@ export class GameEngine {
     return (hash >>> 0) / 4294967295;
   }
 
+  // Same FNV-1a hash with a final avalanche step, so seeds that differ only in
+  // their last characters still give independent draws
+  private static mixedHashToUnitInterval(seed: string): number {
+    let hash = 2166136261;
+    for (let i = 0; i < seed.length; i += 1) {
+      hash ^= seed.charCodeAt(i);
+      hash = Math.imul(hash, 16777619);
+    }
+    hash ^= hash >>> 16;
+    hash = Math.imul(hash, 0x85ebca6b);
+    hash ^= hash >>> 13;
+    hash = Math.imul(hash, 0xc2b2ae35);
+    hash ^= hash >>> 16;
+    return (hash >>> 0) / 4294967296;
+  }
+
+  // Lognormal sigma for a coefficient of variation
+  private static demandSigma(cv: number = this.toNumber(this.constants.DEMAND_UNCERTAINTY.CV)): number {
+    return cv > 0 ? Math.sqrt(Math.log(1 + cv * cv)) : 0;
+  }
+
+  // Uncertain-demand mode: multiplier on one product-week's mean demand.
+  // Lognormal with mean 1, reproducible from the game's seed.
+  static demandNoiseFactor(seed: string, week: number, product: string): number {
+    const sigma = this.demandSigma();
+    if (sigma <= 0) return 1;
+    const u1 = Math.max(1e-12, this.mixedHashToUnitInterval(`${seed}:${week}:${product}:1`));
+    const u2 = this.mixedHashToUnitInterval(`${seed}:${week}:${product}:2`);
+    const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+    return Math.exp(sigma * z - (sigma * sigma) / 2);
+  }
+
+  // 10th–90th percentile of uncertain demand around a mean forecast
+  static demandForecastRange(mean: number, cv: number = this.toNumber(this.constants.DEMAND_UNCERTAINTY.CV)): { low: number; high: number } {
+    const sigma = this.demandSigma(cv);
+    const z = this.toNumber(this.constants.DEMAND_UNCERTAINTY.FORECAST_Z);
+    const m = Math.max(0, this.toNumber(mean));
+    return {
+      low: Math.round(m * Math.exp(-z * sigma - (sigma * sigma) / 2)),
+      high: Math.round(m * Math.exp(z * sigma - (sigma * sigma) / 2)),
+    };
+  }
+
   private static getSeededDeliveryDefectRate(supplier: SupplierKey, seed: string): number {
     const maxDefectRate = this.getSupplierDefectRate(supplier);
     if (maxDefectRate <= 0) return 0;
@@ -384,11 +647,11 @@ export class GameEngine {
   }
 
   private static getMaterialBasePrice(supplier: SupplierKey, material: MaterialKey): number {
-    return (GAME_CONSTANTS.SUPPLIERS as any)[supplier].materials[material].price || 0;
+    return (this.constants.SUPPLIERS as any)[supplier].materials[material].price || 0;
   }
 
   private static getMaterialPrintSurcharge(supplier: SupplierKey, material: MaterialKey): number {
-    return (GAME_CONSTANTS.SUPPLIERS as any)[supplier].materials[material].printSurcharge || 0;
+    return (this.constants.SUPPLIERS as any)[supplier].materials[material].printSurcharge || 0;
   }
 
   private static computeContractUnitPrice(contract: any): number {
@@ -404,6 +667,53 @@ export class GameEngine {
     return price;
   }
 
+  /**
+   * Week-15 penalty on GMC volume committed but never delivered: 20% of the
+   * supplier's average GMC unit price on every undelivered unit.
+   */
+  static gmcShortfallPenalty(contracts: any[], commitmentsBySupplier: Record<string, number>): {
+    bySupplier: Record<string, { undeliveredUnits: number; penalty: number }>;
+    total: number;
+  } {
+    const bySupplier: Record<string, { undeliveredUnits: number; penalty: number }> = {};
+    let total = 0;
+    for (const [sup, commit] of Object.entries(commitmentsBySupplier || {})) {
+      const gmcContracts = (contracts || []).filter((c: any) => c.type === 'GMC' && c.supplier === sup);
+      const deliveredSum = gmcContracts.reduce((s: number, c: any) => s + this.toNumber(c.deliveredUnits), 0);
+      const undelivered = Math.max(0, this.toNumber(commit) - deliveredSum);
+      if (undelivered <= 0) continue;
+      // Average GMC unit price for this supplier, weighted by delivered units
+      let avgUnit = 0;
+      let totalUnitsForAvg = 0;
+      for (const c of gmcContracts) {
+        const delivered = this.toNumber(c.deliveredUnits);
+        if (delivered > 0) {
+          avgUnit += this.computeContractUnitPrice(c) * delivered;
+          totalUnitsForAvg += delivered;
+        }
+      }
+      if (totalUnitsForAvg > 0) {
+        avgUnit = avgUnit / totalUnitsForAvg;
+      } else if (gmcContracts.length > 0) {
+        avgUnit = gmcContracts.reduce((s: number, c: any) => s + this.computeContractUnitPrice(c), 0) / gmcContracts.length;
+      }
+      const penalty = undelivered * avgUnit * 0.20;
+      bySupplier[sup] = { undeliveredUnits: undelivered, penalty };
+      total += penalty;
+    }
+    return { bySupplier, total };
+  }
+
+  /** FVC contract value is billed on ordered units across the fixed delivery schedule. */
+  private static computeFvcPaymentSplit(contract: any): { total: number; downPayment: number; balance: number; finalDeliveryWeek: number } {
+    const unitPrice = this.computeContractUnitPrice(contract);
+    const deliveries = (contract.deliveries || []) as any[];
+    const total = deliveries.reduce((s: number, d: any) => s + this.toNumber(d.units) * this.toNumber(d.unitPrice ?? unitPrice), 0);
+    const downPayment = total * this.constants.FVC.DOWN_PAYMENT_RATE;
+    const finalDeliveryWeek = deliveries.reduce((m: number, d: any) => Math.max(m, this.toNumber(d.week)), 0);
+    return { total, downPayment, balance: total - downPayment, finalDeliveryWeek };
+  }
+
   private static scheduleDeliveriesForContract(contract: any): any {
     // Always ensure deliveries reflect the latest orders; merge missing entries
     const lead = this.getSupplierLeadTime(contract.supplier);
@@ -421,7 +731,7 @@ export class GameEngine {
         const seed = `${contract.id || ''}:${o.orderId || ''}:${arrWeek}:${units}:${uPrice}`;
         const goodUnits = this.calculateDeliveryGoodUnits(supplier, units, seed);
         // consider an entry existing if same week and units exist
-        const exists = (contract.deliveries as any[]).some((d: any) => this.toNumber(d.week) === arrWeek && this.toNumber(d.units) === units);
+        const exists = (contract.deliveries as any[]).some((d: any) => this.toNumber(d.originalWeek ?? d.week) === arrWeek && this.toNumber(d.units) === units);
         if (!exists) {
           (contract.deliveries as any[]).push({ week: arrWeek, units, goodUnits, unitPrice: uPrice });
         }
@@ -453,12 +763,12 @@ export class GameEngine {
   // Capacity helpers
   // --------------------
   private static getProductionLead(product: keyof typeof GAME_CONSTANTS.MANUFACTURING, method: 'inhouse' | 'outsource'): number {
-    const m = GAME_CONSTANTS.MANUFACTURING[product];
+    const m = this.constants.MANUFACTURING[product];
     return method === 'inhouse' ? m.inHouseTime : m.outsourceTime;
   }
 
   private static getProductionUnitCost(product: keyof typeof GAME_CONSTANTS.MANUFACTURING, method: 'inhouse' | 'outsource'): number {
-    const m = GAME_CONSTANTS.MANUFACTURING[product];
+    const m = this.constants.MANUFACTURING[product];
     return method === 'inhouse' ? m.inHouseCost : m.outsourceCost;
     }
 
@@ -467,15 +777,101 @@ export class GameEngine {
   }
 
   private static getShippingUnitCost(product: keyof typeof GAME_CONSTANTS.SHIPPING, method: 'standard' | 'expedited'): number {
-    const s = GAME_CONSTANTS.SHIPPING[product];
+    const s = this.constants.SHIPPING[product];
     return method === 'standard' ? s.standard : s.expedited;
   }
 
+  // --------------------
+  // Disruption helpers
+  // --------------------
+  // Scenario events of a kind that are in force in a week
+  private static disruptionsInForce(kind: DisruptionEvent['kind'], week: number): DisruptionEvent[] {
+    return (this.constants.EVENTS || []).filter((e) => (
+      e.kind === kind && week >= e.week && week < e.week + Math.max(1, this.toNumber(e.durationWeeks, 1))
+    ));
+  }
+
+  // In-house capacity of a week after any capacity cut announced by `asOfWeek`
+  // (the player only learns of a cut in the week it hits)
+  static capacityForWeek(week: number, asOfWeek: number = week): number {
+    const base = this.toNumber(this.constants.CAPACITY_SCHEDULE[week - 1]);
+    return this.disruptionsInForce('capacity_cut', week)
+      .filter((e) => e.week <= asOfWeek)
+      .reduce((capacity, e) => Math.floor(capacity * this.clamp(this.toNumber(e.capacityFactor, 1), 0, 1)), base);
+  }
+
+  // Multiple of the catalogue price paid by spot and GMC orders placed in a week
+  static materialPriceMultiplier(supplier: string, material: string, week: number): number {
+    return this.disruptionsInForce('price_spike', week)
+      .filter((e) => (!e.supplier || e.supplier === supplier) && (!e.material || e.material === material))
+      .reduce((m, e) => m * Math.max(0, this.toNumber(e.priceMultiplier, 1)), 1);
+  }
+
+  // Supplier delays and port strikes in force at the start of `week` push back
+  // the material deliveries and finished-goods shipments due that week. Each
+  // event delays an arrival at most once.
+  private static applyArrivalDisruptions(state: any, week: number): void {
+    for (const e of this.disruptionsInForce('supplier_delay', week)) {
+      const delay = Math.max(0, Math.round(this.toNumber(e.delayWeeks)));
+      for (const c of (state.procurementContracts?.contracts || [])) {
+        if ((e.supplier && c.supplier !== e.supplier) || (e.material && c.material !== e.material)) continue;
+        for (const d of (c.deliveries || [])) {
+          if (this.toNumber(d.week) !== week || d.__arrived || (d.delayedBy || []).includes(e.id)) continue;
+          d.originalWeek = d.originalWeek ?? this.toNumber(d.week);
+          d.week = this.toNumber(d.week) + delay;
+          d.delayedBy = [...(d.delayedBy || []), e.id];
+        }
+      }
+    }
+    for (const e of this.disruptionsInForce('port_strike', week)) {
+      const delay = Math.max(0, Math.round(this.toNumber(e.delayWeeks)));
+      for (const sh of (state.shipmentsInTransit || [])) {
+        if (this.toNumber(sh.arrivalWeek) !== week || (e.product && sh.product !== e.product) || (sh.delayedBy || []).includes(e.id)) continue;
+        sh.arrivalWeek = this.toNumber(sh.arrivalWeek) + delay;
+        sh.delayedBy = [...(sh.delayedBy || []), e.id];
+      }
+    }
+  }
+
+  // A capacity cut in force at the start of `week` postpones the in-house
+  // batches due to start that no longer fit by a week; batches already
+  // running carry on
+  private static postponeBatchesOverCapacity(state: any, week: number): void {
+    const cuts = this.disruptionsInForce('capacity_cut', week);
+    if (cuts.length === 0) return;
+    const capacity = this.capacityForWeek(week);
+    let used = ((state.workInProcess as any)?.batches || [])
+      .filter((b: any) => b.method === 'inhouse' && this.toNumber(b.startWeek) < week && week < this.toNumber(b.endWeek))
+      .length * this.constants.BATCH_SIZE;
+    for (const b of (state.productionSchedule?.batches || [])) {
+      if (b.method !== 'inhouse' || this.toNumber(b.startWeek) !== week || this.hasMaterializedBatch(state, String(b.id))) continue;
+      if (used + this.constants.BATCH_SIZE <= capacity) {
+        used += this.constants.BATCH_SIZE;
+      } else {
+        b.startWeek = week + 1;
+        b.postponedBy = cuts[0].id;
+      }
+    }
+  }
+
   // --------------------
   // Marketing helpers
   // --------------------
   private static clamp(n: number, min: number, max: number): number { return Math.max(min, Math.min(max, n)); }
 
+  // "week 8", "weeks 8–10", "weeks 7, 9–10"
+  static formatWeekList(weeks: number[]): string {
+    const sorted = Array.from(new Set(weeks)).sort((a, b) => a - b);
+    const runs: string[] = [];
+    for (let i = 0; i < sorted.length; i++) {
+      let j = i;
+      while (j + 1 < sorted.length && sorted[j + 1] === sorted[j] + 1) j++;
+      runs.push(i === j ? `${sorted[i]}` : `${sorted[i]}–${sorted[j]}`);
+      i = j;
+    }
+    return `${sorted.length === 1 ? 'week' : 'weeks'} ${runs.join(', ')}`;
+  }
+
   private static computeChannelGains(
     totalSpend: number,
     channels: Array<{ name: string; spend: number }>,
@@ -583,7 +979,7 @@ export class GameEngine {
     return { dA, dI };
   }
 
-  private static computeMarketingFactor(awareness: number, intent: number): number {
+  static computeMarketingFactor(awareness: number, intent: number): number {
     // Awareness gates demand. When A=0, MF=0 (no one knows about the product → no demand).
     // As A grows, MF rises smoothly; Intent modulates the effect but cannot create demand by itself.
     const A = this.clamp(awareness, 0, 100) / 100; // 0..1
@@ -593,8 +989,20 @@ export class GameEngine {
     return this.clamp(fA * gI, 0, 1.3);
   }
 
+  // Awareness and Intent lost to a week's spend under half the baseline,
+  // deeper with each week of the underfunding streak so far
+  static marketingDecay(totalSpend: number, streakA: number, streakI: number): { dA: number; dI: number } {
+    if (totalSpend <= 0) {
+      return { dA: (1.0 + 0.5 * streakA) * 3, dI: (2.0 + 1.0 * streakI) * 3 }; // x3 decay
+    }
+    if (totalSpend < 0.5 * this.constants.BASELINE_MARKETING_SPEND) {
+      return { dA: (0.5 + 0.25 * streakA) * 3, dI: (1.0 + 0.5 * streakI) * 3 }; // x3 decay
+    }
+    return { dA: 0, dI: 0 };
+  }
+
   // Preview next week's Awareness/Intent and demand without mutating state
-  static previewNextWeekMarketing(currentState: WeeklyState & ExtendedWeeklyState, plan?: any, plannedDiscounts?: any) {
+  static previewNextWeekMarketing(currentState: WeeklyState & ExtendedWeeklyState, plan?: any, plannedDiscounts?: any, options: PreviewOptions = {}) {
     const state: any = this.cloneJson(currentState);
     const nextWeek = this.toNumber(state.weekNumber) + 1;
     const marketingPlan = plan || state.plannedMarketingPlan || { totalSpend: 0, channels: [] };
@@ -610,18 +1018,9 @@ export class GameEngine {
     let dI = gainsI;
 
     // Progressive decay (use current streaks as baseline, do not persist)
-    const baselineSpend = GAME_CONSTANTS.BASELINE_MARKETING_SPEND;
-    const belowHalf = totalSpend > 0 && totalSpend < 0.5 * baselineSpend;
-    const zeroSpend = totalSpend <= 0;
-    const streakA = this.toNumber(state.underfundedStreakA, 0);
-    const streakI = this.toNumber(state.underfundedStreakI, 0);
-    if (zeroSpend) {
-      dA -= (1.0 + 0.5 * (streakA)) * 3; // x3 decay
-      dI -= (2.0 + 1.0 * (streakI)) * 3; // x3 decay
-    } else if (belowHalf) {
-      dA -= (0.5 + 0.25 * (streakA)) * 3; // x3 decay
-      dI -= (1.0 + 0.5 * (streakI)) * 3;  // x3 decay
-    }
+    const decay = this.marketingDecay(totalSpend, this.toNumber(state.underfundedStreakA, 0), this.toNumber(state.underfundedStreakI, 0));
+    dA -= decay.dA;
+    dI -= decay.dI;
 
     // Discount behavior penalties (compare next plan vs last observed)
     const nextDiscounts = plannedDiscounts || state.plannedWeeklyDiscounts || { jacket: 0, dress: 0, pants: 0 };
@@ -661,13 +1060,29 @@ export class GameEngine {
     }
     const forecastDemandTotal = Object.values(demandByProduct).reduce((s, v) => s + this.toNumber(v), 0);
 
-    return { nextAwareness: nextAwarenessRounded, nextIntent: nextIntentRounded, demandByProduct, forecastDemandTotal };
+    if (!options.uncertainDemand) {
+      return { nextAwareness: nextAwarenessRounded, nextIntent: nextIntentRounded, demandByProduct, forecastDemandTotal };
+    }
+    // Products are drawn independently, so the total varies less than each product
+    const demandRangeByProduct: Record<string, { low: number; high: number }> = {};
+    for (const p of productKeys) demandRangeByProduct[p] = this.demandForecastRange(demandByProduct[p]);
+    const sumOfSquares = productKeys.reduce((s, p) => s + demandByProduct[p] * demandByProduct[p], 0);
+    const totalCv = forecastDemandTotal > 0
+      ? this.toNumber(this.constants.DEMAND_UNCERTAINTY.CV) * Math.sqrt(sumOfSquares) / forecastDemandTotal
+      : 0;
+    const forecastDemandRange = this.demandForecastRange(forecastDemandTotal, totalCv);
+    return { nextAwareness: nextAwarenessRounded, nextIntent: nextIntentRounded, demandByProduct, forecastDemandTotal, demandRangeByProduct, forecastDemandRange };
   }
 
   // --------------------
   // Core weekly processing
   // --------------------
-  static async commitWeek(currentState: WeeklyState): Promise<WeeklyState> {
+  static async commitWeek(currentState: WeeklyState, options: CommitWeekOptions = {}): Promise<WeeklyState> {
+    return this.computeCommittedWeek(currentState, options);
+  }
+
+  // commitWeek's simulation; synchronous so projectCashFlow can chain weeks from validation
+  private static computeCommittedWeek(currentState: WeeklyState, options: CommitWeekOptions = {}): WeeklyState {
     const state = this.cloneJson(currentState) as any as WeeklyState & ExtendedWeeklyState;
     const week = state.weekNumber;
 
@@ -685,7 +1100,7 @@ export class GameEngine {
 
     this.clampPlannedMarketingToLiquidity(state);
 
-    let openingCash = this.toNumber(state.cashOnHand, GAME_CONSTANTS.STARTING_CAPITAL);
+    let openingCash = this.toNumber(state.cashOnHand, this.constants.STARTING_CAPITAL);
     let cashOnHand = openingCash;
     let creditUsed = this.toNumber(state.creditUsed, 0);
     let weeklyRevenue = 0;
@@ -773,6 +1188,17 @@ export class GameEngine {
     let awareness = this.toNumber((state as any).awareness, 0);
     let intent = this.toNumber((state as any).intent, 0);
 
+    // Run-out weeks sell at the player's markdowns (or the clearance ones),
+    // never below the actual unit cost; the committed week keeps what applied
+    if (week >= this.constants.RUN_OUT.START_WEEK) {
+      const actualUnitCost = this.toNumber((state as any).actualUnitCost);
+      for (const p of Object.keys(this.constants.PRODUCTS) as ProductKey[]) {
+        const rrp = this.toNumber((state.productData as any)?.[p]?.rrp);
+        const planned = this.toNumber((state.weeklyDiscounts as any)[p]);
+        (state.weeklyDiscounts as any)[p] = this.runOutMarkdown(week, planned, rrp, actualUnitCost, options.runOutMode);
+      }
+    }
+
     // Discount behavior penalties on Intent
     const discounts = this.cloneJson(state.weeklyDiscounts);
     (state as any).lastDiscountAvg = this.toNumber((state as any).lastDiscountAvg, 0);
@@ -833,7 +1259,7 @@ export class GameEngine {
     // Track underfunded-marketing streaks for the next-week preview decay model.
     // Reset on adequate spend (>= half baseline), increment otherwise.
     {
-      const baselineSpend = GAME_CONSTANTS.BASELINE_MARKETING_SPEND;
+      const baselineSpend = this.constants.BASELINE_MARKETING_SPEND;
       const isUnderfunded = marketingSpend < 0.5 * baselineSpend;
       const prevStreakA = this.toNumber((state as any).underfundedStreakA, 0);
       const prevStreakI = this.toNumber((state as any).underfundedStreakI, 0);
@@ -852,6 +1278,9 @@ export class GameEngine {
     let nextWeekOutflowsMarketing = 0;
     let nextWeekOutflowsSPT = 0;
     let nextWeekOutflowsGMC = 0;
+    let nextWeekOutflowsFVC = 0;
+    // Disruptions hitting week N+1 move its arrivals before they are staged
+    this.applyArrivalDisruptions(state, dueWeekNext);
     // Stage all N+1 effects without mutating Week N state
     if (nextWeekMarketingSpend > 0) {
       nextWeekOutflowsMarketing += nextWeekMarketingSpend;
@@ -859,8 +1288,23 @@ export class GameEngine {
     }
     for (const c of contracts) {
       const unitPriceC = this.computeContractUnitPrice(c);
+      // FVC: the down payment settles at the first opening after signing and
+      // the balance on the final delivery week (both on ordered units).
+      if (c.type === 'FVC') {
+        const split = this.computeFvcPaymentSplit(c);
+        if (!(c as any).downPaymentPaid) {
+          nextWeekOutflowsFVC += split.downPayment;
+          nextWeekLedger.push({ type: 'materials_fvc', amount: split.downPayment, refId: `${c.supplier}:${c.material}:deposit`, weekNumber: dueWeekNext });
+          (c as any).downPaymentPaid = true;
+        }
+        if (dueWeekNext <= 15 && split.finalDeliveryWeek === dueWeekNext && !(c as any).balancePaid) {
+          nextWeekOutflowsFVC += split.balance;
+          nextWeekLedger.push({ type: 'materials_fvc', amount: split.balance, refId: `${c.supplier}:${c.material}:balance`, weekNumber: dueWeekNext });
+          (c as any).balancePaid = true;
+        }
+      }
       for (const d of (c.deliveries || [])) {
-        // Both SPT and GMC: physical arrival lands at d.week.
+        // All contract types: physical arrival lands at d.week.
         if (this.toNumber(d.week) === dueWeekNext && !(d as any).__arrived) {
           const units = this.toNumber(d.units);
           const goodUnits = Number.isFinite((d as any).goodUnits)
@@ -903,8 +1347,46 @@ export class GameEngine {
     const totMkt = this.toNumber((state.totals as any)?.cogsMarketingToDate);
     const actualUnitCost = this.calculateActualUnitCost(totRev, totMat, totProd, totLog, totMkt, Math.max(1, totUnitsSold));
 
+    // Sell up to `units` of a product from the shelf, oldest lots first, at
+    // `price`; returns the units sold
+    const sellFromShelf = (p: ProductKey, units: number, price: number): number => {
+      let remaining = units;
+      for (const lot of (state.finishedGoods as any).lots.filter((l: any) => l.product === p)) {
+        if (remaining <= 0) break;
+        const take = Math.min(remaining, this.toNumber(lot.quantity));
+        lot.quantity = this.toNumber(lot.quantity) - take;
+        weeklyRevenue += take * price;
+        // Accumulate COGS components for sold units
+        cogsMaterialsSold += take * this.toNumber(lot.unitMaterialCost);
+        cogsProductionSold += take * this.toNumber(lot.unitProductionCost);
+        cogsLogisticsSold += take * this.toNumber(lot.unitShippingCost);
+        remaining -= take;
+      }
+      // Remove depleted lots
+      (state.finishedGoods as any).lots = (state.finishedGoods as any).lots.filter((l: any) => this.toNumber(l.quantity) > 0);
+      return units - remaining;
+    };
+
+    // Backorder mode: waiting orders decay and are served first, oldest first
+    const book: BackorderBook | null = options.backorders ? this.openBackorderBook(state) : null;
+    if (book) {
+      for (const entry of book.queue) {
+        if (week < entry.dueWeek) continue;
+        const fill = this.constants.BACKORDERS.FILL_PROBABILITY[week - entry.dueWeek] ?? 0;
+        const stillWanted = Math.min(entry.remaining, Math.max(0, Math.round(entry.ordered * fill) - entry.served));
+        book.cancelled[entry.product] += entry.remaining - stillWanted;
+        entry.remaining = stillWanted;
+        const rrp = this.toNumber((state.productData as any)?.[entry.product]?.rrp);
+        const served = sellFromShelf(entry.product, entry.remaining, rrp * (1 - this.toNumber((discounts as any)[entry.product])));
+        entry.served += served;
+        entry.remaining -= served;
+        book.served[entry.product] += served;
+      }
+    }
+
     // Compute marketing factor once for the week
     const marketingFactor = this.computeMarketingFactor(awareness, intent);
+    const sellingWeek = ['sales', 'runout'].includes(this.getPhaseForWeek(week));
     for (const p of productKeys) {
       const dec = (state.productData as any)[p];
       const rrp = this.toNumber(dec?.rrp);
@@ -914,31 +1396,66 @@ export class GameEngine {
       const price = rrp * (1 - discount);
       // Demand
       const baseDemand = this.calculateDemand(p, week, rrp, discount, 0, hasPrint, materialChoice);
-      const demand = Math.round(baseDemand * marketingFactor);
+      const marketDemand = options.marketDemand?.[p];
+      const expectedDemand = baseDemand * marketingFactor;
+      const drawnDemand = options.demandSeed
+        ? expectedDemand * this.demandNoiseFactor(options.demandSeed, week, p)
+        : expectedDemand;
+      const demand = marketDemand != null ? Math.max(0, Math.round(marketDemand)) : Math.round(drawnDemand);
       demandByProduct[p] = demand;
 
-      // Available inventory for sale
-      const availableLots = (state.finishedGoods as any).lots.filter((l: any) => l.product === p);
-      let availableUnits = availableLots.reduce((s: number, l: any) => s + this.toNumber(l.quantity), 0);
-      let unitsToSell = Math.min(availableUnits, demand);
-      salesByProduct[p] = unitsToSell;
-      lostByProduct[p] = Math.max(0, demand - unitsToSell);
+      // Serve from the shelf, then split what is left between backorders and lost sales
+      salesByProduct[p] = sellFromShelf(p, demand, price);
+      let unmet = Math.max(0, demand - salesByProduct[p]);
+      if (book && unmet > 0 && sellingWeek && week < 15) {
+        const backordered = Math.round(unmet * this.constants.BACKORDERS.SHARE);
+        if (backordered > 0) {
+          book.queue.push({ id: `bo-w${week}-${p}`, product: p, kind: 'backorder', weekPlaced: week, dueWeek: week + 1, ordered: backordered, served: 0, remaining: backordered });
+          book.placed[p] += backordered;
+          unmet -= backordered;
+        }
+      }
+      lostByProduct[p] = unmet;
+
+      // Pre-orders before launch, in proportion to awareness
+      if (book && this.constants.BACKORDERS.PREORDER_WEEKS.includes(week)) {
+        const preordered = Math.round(baseDemand * this.constants.BACKORDERS.PREORDER_SHARE * this.clamp(awareness / 100, 0, 1));
+        if (preordered > 0) {
+          book.queue.push({ id: `po-w${week}-${p}`, product: p, kind: 'preorder', weekPlaced: week, dueWeek: this.constants.BACKORDERS.PREORDER_DUE_WEEK, ordered: preordered, served: 0, remaining: preordered });
+          book.preordered[p] += preordered;
+        }
+      }
+    }
 
-      // Decrement lots FIFO and compute revenue and allocate COGS components
-      let remaining = unitsToSell;
-      for (const lot of availableLots) {
-        if (remaining <= 0) break;
-        const take = Math.min(remaining, this.toNumber(lot.quantity));
-        lot.quantity = this.toNumber(lot.quantity) - take;
-        weeklyRevenue += take * price;
-        // Accumulate COGS components for sold units
-        cogsMaterialsSold += take * this.toNumber(lot.unitMaterialCost);
-        cogsProductionSold += take * this.toNumber(lot.unitProductionCost);
-        cogsLogisticsSold += take * this.toNumber(lot.unitShippingCost);
-        remaining -= take;
+    if (book) {
+      // Long waits put customers off: intent penalty for next week
+      const longWaiting = book.queue
+        .filter((e) => week - e.dueWeek + 1 >= this.constants.BACKORDERS.LONG_WAIT_WEEKS)
+        .reduce((sum, e) => sum + e.remaining, 0);
+      const penalty = Math.min(
+        this.constants.BACKORDERS.MAX_WAIT_INTENT_PENALTY,
+        (longWaiting / 10_000) * this.constants.BACKORDERS.LONG_WAIT_INTENT_PENALTY,
+      );
+      if (penalty > 0 && (state as any).nextWeekIntent !== undefined) {
+        (state as any).nextWeekIntent = Math.max(0, this.toNumber((state as any).nextWeekIntent) - penalty).toFixed(2);
       }
-      // Remove depleted lots
-      (state.finishedGoods as any).lots = (state.finishedGoods as any).lots.filter((l: any) => this.toNumber(l.quantity) > 0);
+      // Nothing arrives after the final week: whoever is still waiting gives up
+      if (week === 15) {
+        for (const e of book.queue) book.cancelled[e.product] += e.remaining;
+        book.queue = [];
+      }
+      book.queue = book.queue.filter((e) => e.remaining > 0);
+    }
+    (state as any).backorders = book;
+
+    // End of season: the jobber takes whatever is left at salvage value, so
+    // it neither carries holding cost nor counts as dead stock
+    (state as any).liquidation = null;
+    if (week === 15 && (state as any).liquidateUnsoldStock) {
+      const liquidation = this.liquidateFinishedGoods((state.finishedGoods as any).lots);
+      (state.finishedGoods as any).lots = [];
+      (state as any).liquidation = liquidation;
+      weeklyRevenue += liquidation.revenue;
     }
 
     // 7) Holding costs on end-of-week inventory value
@@ -949,7 +1466,7 @@ export class GameEngine {
     costHolding = this.calculateHoldingCosts(invValue);
 
     // 8) Apply cash waterfall (timing-aware) and collect ledger entries
-    const ledger: Array<{ type: string; amount: number; refId?: string; weekNumber?: number }> = [];
+    const ledger: LedgerEntryDraft[] = [];
     // Do not charge current-week interest here; it was already applied when Week N was created
     costInterest = 0;
 
@@ -960,7 +1477,7 @@ export class GameEngine {
       cashOnHand -= operationalOutflows;
     } else {
       const shortfallOps = operationalOutflows - cashOnHand;
-      creditUsed = Math.min(GAME_CONSTANTS.CREDIT_LIMIT, creditUsed + shortfallOps);
+      creditUsed = Math.min(this.constants.CREDIT_LIMIT, creditUsed + shortfallOps);
       cashOnHand = 0;
     }
     // Append staged next-week ledger entries (weekNumber = N+1). Do not affect Week N cash.
@@ -1076,7 +1593,7 @@ export class GameEngine {
                 cashOnHand -= due;
               } else {
                 const short = due - cashOnHand;
-                creditUsed = Math.min(GAME_CONSTANTS.CREDIT_LIMIT, creditUsed + short);
+                creditUsed = Math.min(this.constants.CREDIT_LIMIT, creditUsed + short);
                 cashOnHand = 0;
               }
               costMaterials += due;
@@ -1100,7 +1617,7 @@ export class GameEngine {
                 cashOnHand -= due;
               } else {
                 const short = due - cashOnHand;
-                creditUsed = Math.min(GAME_CONSTANTS.CREDIT_LIMIT, creditUsed + short);
+                creditUsed = Math.min(this.constants.CREDIT_LIMIT, creditUsed + short);
                 cashOnHand = 0;
               }
               costMaterials += due;
@@ -1116,45 +1633,33 @@ export class GameEngine {
             }
           }
         }
-      }
-
-      let gmcPenalty = 0;
-      // Penalty per supplier based on GMC commitment minus delivered GMC units
-      for (const [sup, commit] of Object.entries(gmcCommitmentsBySupplier)) {
-        const deliveredSum = contracts
-          .filter((c: any) => c.type === 'GMC' && c.supplier === sup)
-          .reduce((s: number, c: any) => s + this.toNumber(c.deliveredUnits), 0);
-        const undelivered = Math.max(0, this.toNumber(commit) - deliveredSum);
-        if (undelivered > 0) {
-          // Compute average GMC unit price for this supplier
-          const gmcContracts = contracts.filter((c: any) => c.type === 'GMC' && c.supplier === sup);
-          let avgUnit = 0;
-          let totalUnitsForAvg = 0;
-          for (const c of gmcContracts) {
-            const unit = this.computeContractUnitPrice(c);
-            const delivered = this.toNumber(c.deliveredUnits);
-            if (delivered > 0) {
-              avgUnit += unit * delivered;
-              totalUnitsForAvg += delivered;
+        // - FVC: balance due on final delivery; if that falls after 15, bill now
+        if (c.type === 'FVC' && !(c as any).balancePaid) {
+          const split = this.computeFvcPaymentSplit(c);
+          if (split.finalDeliveryWeek > 15) {
+            const due = split.balance;
+            if (cashOnHand >= due) {
+              cashOnHand -= due;
+            } else {
+              const short = due - cashOnHand;
+              creditUsed = Math.min(this.constants.CREDIT_LIMIT, creditUsed + short);
+              cashOnHand = 0;
             }
+            costMaterials += due;
+            ledger.push({ type: 'materials_fvc', amount: due, refId: `${c.supplier}:${c.material}:balance`, weekNumber: 15 });
+            (c as any).balancePaid = true;
           }
-          if (totalUnitsForAvg > 0) {
-            avgUnit = avgUnit / totalUnitsForAvg;
-          } else if (gmcContracts.length > 0) {
-            avgUnit = gmcContracts.reduce((s: number, c: any) => s + this.computeContractUnitPrice(c), 0) / gmcContracts.length;
-          } else {
-            avgUnit = 0;
-          }
-          gmcPenalty += undelivered * avgUnit * 0.20;
         }
       }
+
+      const gmcPenalty = this.gmcShortfallPenalty(contracts, gmcCommitmentsBySupplier).total;
       if (gmcPenalty > 0) {
         // Apply after revenue/operations/interest, draw credit if needed
         if (cashOnHand >= gmcPenalty) {
           cashOnHand -= gmcPenalty;
         } else {
           const shortfall = gmcPenalty - cashOnHand;
-          creditUsed = Math.min(GAME_CONSTANTS.CREDIT_LIMIT, creditUsed + shortfall);
+          creditUsed = Math.min(this.constants.CREDIT_LIMIT, creditUsed + shortfall);
           cashOnHand = 0;
         }
         costMaterials += gmcPenalty; // track inside materials bucket for simplicity
@@ -1195,7 +1700,7 @@ export class GameEngine {
     // Update totals (cumulative season-to-date) for actual unit cost tracking
     // and ROAS / COGS analytics. Allocate marketing per unit sold.
     const prevTotals = (state.totals as any) || {};
-    const unitsSoldThisWeek = productKeys.reduce((s, p) => s + this.toNumber(salesByProduct[p]), 0);
+    const unitsSoldThisWeek = productKeys.reduce((s, p) => s + this.toNumber(salesByProduct[p]) + this.toNumber(book?.served[p]), 0);
     const marketingAllocated = unitsSoldThisWeek > 0 ? costMarketing : 0;
     state.totals = {
       revenueToDate: this.toNumber(prevTotals.revenueToDate) + weeklyRevenue,
@@ -1225,6 +1730,7 @@ export class GameEngine {
       marketing: nextWeekOutflowsMarketing,
       materials_spt: nextWeekOutflowsSPT,
       materials_gmc: nextWeekOutflowsGMC,
+      materials_fvc: nextWeekOutflowsFVC,
       production: nextWeekProductionCharges.production,
       logistics: nextWeekProductionCharges.logistics,
       interest: nextWeekInterest,
@@ -1246,35 +1752,344 @@ export class GameEngine {
       ledger.push({ type: 'logistics', amount: nextWeekProductionCharges.logistics, weekNumber: week + 1 });
     }
 
-    // Single batch insert for the full week's ledger
-    try {
-      if (ledger.length > 0) {
-        const gameSessionId = (state as any).gameSessionId || currentState.gameSessionId;
-        const rows = ledger.map((e, i) => ({
-          id: `${gameSessionId}-${(e.weekNumber ?? week)}-${e.type}-${Date.now()}-${i}-${Math.random().toString(36).slice(2, 8)}`,
-          gameSessionId,
-          weekNumber: (e.weekNumber ?? week),
-          entryType: e.type,
-          refId: e.refId || null,
-          amount: Number(e.amount || 0) as any,
-        }));
-        await db.insert(cashLedger).values(rows as any);
-      }
-    } catch (error) {
-      console.error('Failed to write cash ledger entries', { week, gameSessionId: (state as any).gameSessionId, count: ledger.length, error });
-    }
+    // Ledger entries ride along on the result; the caller persists them so the engine stays storage-free
     (state as any).isCommitted = true;
-    (state as any).ledgerEntries = ledger; // Keep for backwards compatibility
+    (state as any).ledgerEntries = ledger;
     return state as any as WeeklyState;
   }
 
+  /**
+   * Opening state for week N+1 from the committed week N: carries contracts and
+   * plans forward, applies staged arrivals, materialises opening production and
+   * runs the staged N+1 cash waterfall. Pure; the caller persists the result.
+   */
+  static advanceWeek(computed: WeeklyState, preCommitState: WeeklyState): any {
+    const weekNumber = Number(computed.weekNumber);
+    const { createdAt: _c2, updatedAt: _u2, ledgerEntries: _l2, ...rest } = (computed as any);
+    const nextWeekState: any = {
+      ...rest,
+      id: undefined,
+      weekNumber: weekNumber + 1,
+      phase: this.getPhaseForWeek(weekNumber + 1),
+      isCommitted: false,
+      submittedAt: null,
+      commitIdempotencyKey: null,
+      validationErrors: [],
+      validationWarnings: [],
+      // Reset per-week breakdown; cumulative `totals` and `actualUnitCost`
+      // carry forward from the spread above.
+      costBreakdown: {},
+    };
+    // New week starts with empty UI Orders Log; historical Orders Log remains on committed weeks
+    nextWeekState.materialPurchases = [];
+    // Carry forward canonical procurement contracts (so arrivals timeline persists)
+    nextWeekState.procurementContracts = (computed as any).procurementContracts ?? (preCommitState as any).procurementContracts ?? { contracts: [], gmcCommitments: {}, singleSupplierDeal: (preCommitState as any)?.procurementContracts?.singleSupplierDeal };
+    // Apply planned marketing and discounts into next week's live plan
+    if ((computed as any).plannedMarketingPlan) {
+      nextWeekState.marketingPlan = (computed as any).plannedMarketingPlan;
+    }
+    if ((computed as any).plannedWeeklyDiscounts) {
+      nextWeekState.weeklyDiscounts = (computed as any).plannedWeeklyDiscounts;
+    }
+    // Preserve plans for subsequent programming and unlock planning for the new week
+    nextWeekState.plannedMarketingPlan = (computed as any).plannedMarketingPlan;
+    nextWeekState.plannedWeeklyDiscounts = (computed as any).plannedWeeklyDiscounts;
+    nextWeekState.plannedLocked = false;
+    // Inbox: disruptions announced so far, plus those hitting the new week
+    nextWeekState.disruptions = [
+      ...((computed as any).disruptions || []),
+      ...(this.constants.EVENTS || []).filter((e) => e.week === weekNumber + 1),
+    ];
+    // Open backorders carry forward; their flows belong to the committed week
+    if ((computed as any).backorders) {
+      nextWeekState.backorders = this.openBackorderBook(computed);
+    }
+
+    // Apply start-of-week N+1 A/I
+    if ((computed as any).nextWeekAwareness !== undefined) {
+      nextWeekState.awareness = (computed as any).nextWeekAwareness;
+    }
+    if ((computed as any).nextWeekIntent !== undefined) {
+      nextWeekState.intent = (computed as any).nextWeekIntent;
+    }
+
+    // Persist next-week demand/sales/revenue metrics computed by the engine
+    if ((computed as any).nextWeekMetrics) {
+      const nx: any = (computed as any).nextWeekMetrics;
+      if (nx.weeklyDemand) nextWeekState.weeklyDemand = nx.weeklyDemand;
+      if (nx.weeklySales) nextWeekState.weeklySales = nx.weeklySales;
+      if (nx.lostSales) nextWeekState.lostSales = nx.lostSales;
+      if (nx.weeklyRevenue != null) nextWeekState.weeklyRevenue = `${Number(nx.weeklyRevenue || 0).toFixed(2)}`;
+    }
+
+    // Apply staged N+1 arrivals and outflows into the new state's opening snapshot
+    const arrivals: Array<{ material: string; goodUnits: number; orderedUnits?: number; unitPrice: number; inventoryUnitCost?: number }> = (computed as any).nextWeekArrivals || [];
+    nextWeekState.rawMaterials = nextWeekState.rawMaterials || {};
+    for (const a of arrivals) {
+      const mat = String(a.material || 'unknown');
+      const entry: any = nextWeekState.rawMaterials[mat] || { onHand: 0, allocated: 0, inTransit: [], costLots: [] };
+      const goodUnits = Number(a.goodUnits || 0);
+      const inventoryUnitCost = Number(a.inventoryUnitCost ?? a.unitPrice ?? 0);
+      entry.onHand = Number(entry.onHand || 0) + Number(a.goodUnits || 0);
+      entry.onHandValue = Number(entry.onHandValue || 0) + goodUnits * inventoryUnitCost;
+      entry.lastUnitCost = inventoryUnitCost;
+      entry.costLots = Array.isArray(entry.costLots) ? entry.costLots : [];
+      if (goodUnits > 0) {
+        entry.costLots.push({ quantity: goodUnits, unitCost: inventoryUnitCost });
+      }
+      nextWeekState.rawMaterials[mat] = entry;
+    }
+
+    // Materialise opening production/logistics events for the new live week.
+    // This keeps Inventory, Logistics, summaries, and validation on the
+    // same clock: if Week N+1 has started, its starting batches have
+    // consumed materials, entered WIP, and locked their shipping plan.
+    this.applyOpeningPipelineEvents(nextWeekState, weekNumber + 1);
+
+    // Apply cash waterfall for N+1 outflows at start of week (interest + ops)
+    const out = (computed as any).nextWeekOutflows || {};
+    const openingProductionCharges = (nextWeekState as any).openingProductionCharges;
+    if (openingProductionCharges) {
+      out.production = Number(openingProductionCharges.production || 0);
+      out.logistics = Number(openingProductionCharges.logistics || 0);
+    }
+    let cashOnHandN1 = Number(nextWeekState.cashOnHand || 0);
+    let creditUsedN1 = Number(nextWeekState.creditUsed || 0);
+    const costInterest = Number(out.interest || 0);
+    if (costInterest > 0) {
+      if (cashOnHandN1 >= costInterest) cashOnHandN1 -= costInterest; else { creditUsedN1 += (costInterest - cashOnHandN1); cashOnHandN1 = 0; }
+      nextWeekState.interestAccrued = (Number(nextWeekState.interestAccrued || 0) + costInterest).toFixed(2);
+    }
+    const ops = Number(out.marketing || 0)
+      + Number(out.materials_spt || 0)
+      + Number(out.materials_gmc || 0)
+      + Number(out.materials_fvc || 0)
+      + Number(out.production || 0)
+      + Number(out.logistics || 0)
+      + Number(out.holding || 0);
+    if (ops > 0) {
+      if (cashOnHandN1 >= ops) cashOnHandN1 -= ops; else { creditUsedN1 += (ops - cashOnHandN1); cashOnHandN1 = 0; }
+    }
+    const supplierMaterialsPaid = Number(out.materials_spt || 0) + Number(out.materials_gmc || 0) + Number(out.materials_fvc || 0);
+    if (supplierMaterialsPaid > 0) {
+      nextWeekState.materialCosts = (Number(nextWeekState.materialCosts || 0) + supplierMaterialsPaid).toFixed(2);
+    }
+    if (Number(out.production || 0) > 0) {
+      nextWeekState.productionCosts = (Number(nextWeekState.productionCosts || 0) + Number(out.production || 0)).toFixed(2);
+    }
+    if (Number(out.logistics || 0) > 0) {
+      nextWeekState.logisticsCosts = (Number(nextWeekState.logisticsCosts || 0) + Number(out.logistics || 0)).toFixed(2);
+    }
+    nextWeekState.costBreakdown = {
+      materials: supplierMaterialsPaid,
+      production: Number(out.production || 0),
+      logistics: Number(out.logistics || 0),
+      marketing: Number(out.marketing || 0),
+      holding: Number(out.holding || 0),
+      interest: costInterest,
+    };
+    delete nextWeekState.openingProductionStarts;
+    delete nextWeekState.openingProductionCharges;
+    nextWeekState.cashOnHand = cashOnHandN1.toFixed(2);
+    nextWeekState.creditUsed = Math.min(this.constants.CREDIT_LIMIT, creditUsedN1).toFixed(2);
+
+    return nextWeekState;
+  }
+
+  // The rest of the season with no further decisions: each week's opening
+  // state and its commit, from the current week to 15, on a copy
+  private static playForward(currentState: Partial<WeeklyState>, options: GameRuleOptions = {}): Array<{ opening: any; computed: any }> {
+    const fromWeek = this.toNumber(currentState.weekNumber, 1);
+    // Projections only know the disruptions announced so far
+    const events = this.constants.EVENTS || [];
+    const known = events.filter((e) => e.week <= fromWeek);
+    const engine = known.length === events.length ? this : this.withScenario({ ...this.constants, EVENTS: known });
+    const weeks: Array<{ opening: any; computed: any }> = [];
+    let state: any = this.cloneJson(currentState);
+    for (let week = fromWeek; week <= 15; week++) {
+      const computed: any = engine.computeCommittedWeek(state, options);
+      weeks.push({ opening: state, computed });
+      // advanceWeek shares nested objects with the week it advances from; keep each week intact
+      if (week < 15) state = engine.advanceWeek(engine.cloneJson(computed), state);
+    }
+    return weeks;
+  }
+
+  /**
+   * Cash, credit and each inflow/outflow category for the current and every
+   * remaining week if the plan plays out unchanged: signed contracts, scheduled
+   * batches and the planned marketing carry forward, and sales follow expected
+   * (unseeded) demand. Pure. The current week starts from cash after its
+   * opening payments.
+   */
+  static projectCashFlow(currentState: Partial<WeeklyState>, options: GameRuleOptions = {}): CashFlowProjection {
+    const fromWeek = this.toNumber(currentState.weekNumber, 1);
+    const creditLimit = this.constants.CREDIT_LIMIT;
+    const round2 = (n: number) => Number(n.toFixed(2));
+
+    // Net position (cash minus credit) without the engine's credit cap
+    let net = this.toNumber(currentState.cashOnHand) - this.toNumber(currentState.creditUsed);
+    const weeks: ProjectedCashWeek[] = this.playForward(currentState, options).map(({ opening, computed }) => {
+      const week = Number(computed.weekNumber);
+      // Start-of-week payments as advanceWeek applied them (already in the current week's cash)
+      const paid = week > fromWeek ? (opening.costBreakdown || {}) : {};
+      const outflows: CashFlowOutflows = { materials: 0, production: 0, logistics: 0, marketing: 0, holding: 0, interest: 0 };
+      for (const k of Object.keys(outflows) as Array<keyof CashFlowOutflows>) outflows[k] = this.toNumber(paid[k]);
+      // Batches started this week pay production and shipping now
+      for (const e of (computed.ledgerEntries || []) as LedgerEntryDraft[]) {
+        if (e.weekNumber == null && (e.type === 'production' || e.type === 'logistics')) {
+          outflows[e.type] += this.toNumber(e.amount);
+        }
+      }
+      // Week 15 also settles payments due after the season and GMC shortfall penalties
+      outflows.materials += this.toNumber(computed.costBreakdown?.materials) - this.toNumber(opening.costBreakdown?.materials);
+
+      const sales = this.toNumber(computed.weeklyRevenue);
+      const totalOutflows = Object.values(outflows).reduce((sum, v) => sum + v, 0);
+      const peakNet = net - totalOutflows;
+      net = peakNet + sales;
+      return {
+        weekNumber: week,
+        inflows: { sales: round2(sales) },
+        outflows: Object.fromEntries(Object.entries(outflows).map(([k, v]) => [k, round2(v)])) as CashFlowOutflows,
+        totalInflows: round2(sales),
+        totalOutflows: round2(totalOutflows),
+        netCashFlow: round2(sales - totalOutflows),
+        cashOnHand: round2(Math.max(0, net)),
+        creditUsed: round2(Math.max(0, -net)),
+        peakCreditUsed: round2(Math.max(0, -peakNet)),
+        overCreditLimit: -peakNet > creditLimit + 1e-6,
+      };
+    });
+    const breach = weeks.find(w => w.overCreditLimit);
+    return { fromWeek, creditLimit, weeks, firstWeekOverLimit: breach ? breach.weekNumber : null };
+  }
+
+  /**
+   * Finished goods against forecast demand for each selling week (7–15) still
+   * to come, per product, if the plan plays out unchanged: shelf stock plus
+   * shipments in transit, WIP and scheduled batches as they arrive, sold
+   * against expected (unseeded) demand. Pure.
+   */
+  static projectInventoryCoverage(currentState: Partial<WeeklyState>, options: GameRuleOptions = {}): InventoryCoverageProjection {
+    const productKeys = Object.keys(this.constants.PRODUCTS) as ProductKey[];
+    const fgUnits = (state: any, product: string) => ((state.finishedGoods as any)?.lots || [])
+      .filter((l: any) => l.product === product)
+      .reduce((sum: number, l: any) => sum + this.toNumber(l.quantity), 0);
+
+    const weeks: InventoryCoverageWeek[] = [];
+    let previous: any = null;
+    for (const { opening, computed } of this.playForward(currentState, options)) {
+      const week = Number(computed.weekNumber);
+      const phase = this.getPhaseForWeek(week);
+      if (phase === 'sales' || phase === 'runout') {
+        const products = {} as InventoryCoverageWeek['products'];
+        for (const p of productKeys) {
+          const openingUnits = fgUnits(opening, p);
+          const demand = this.toNumber((computed.weeklyDemand as any)?.[p]);
+          const sales = this.toNumber((computed.weeklySales as any)?.[p]);
+          products[p] = {
+            openingUnits,
+            arrivingUnits: previous ? Math.max(0, openingUnits - fgUnits(previous, p)) : 0,
+            demand,
+            sales,
+            shortfall: Math.max(0, demand - sales),
+            closingUnits: fgUnits(computed, p),
+            coverage: demand > 0 ? Number((openingUnits / demand).toFixed(2)) : null,
+          };
+        }
+        weeks.push({ weekNumber: week, products });
+      }
+      previous = computed;
+    }
+    const stockOuts = weeks.flatMap(w => productKeys
+      .filter(p => w.products[p].shortfall > 0)
+      .map(p => ({ weekNumber: w.weekNumber, product: p, shortfall: w.products[p].shortfall, demand: w.products[p].demand })));
+    return { fromWeek: this.toNumber(currentState.weekNumber, 1), weeks, stockOuts };
+  }
+
+  /** Season results over all weekly states once week 15 is committed, scored under `rubric`. */
+  static calculateFinalResults(allStates: WeeklyState[], rubric: ScoringRubric = this.constants.SCORING): FinalResults {
+    const serviceLevel = this.calculateServiceLevel(allStates);
+
+    // Cumulative columns (materialCosts, productionCosts, etc.) are
+    // season-to-date by week-15 already; use the last (sorted) row to
+    // avoid double-counting via summation across all weeks.
+    const sortedStates = [...allStates].sort((a, b) => Number(a.weekNumber) - Number(b.weekNumber));
+    const finalStateRow = sortedStates[sortedStates.length - 1] as any;
+    const totalRevenue = sortedStates.reduce((sum, state) => sum + Number(state.weeklyRevenue || 0), 0);
+    const totalOperationalCosts =
+      Number(finalStateRow?.materialCosts || 0) +
+      Number(finalStateRow?.productionCosts || 0) +
+      Number(finalStateRow?.logisticsCosts || 0) +
+      Number(finalStateRow?.holdingCosts || 0);
+    const totalInterest = Number(finalStateRow?.interestAccrued || 0);
+    const totalMarketing = sortedStates.reduce(
+      (sum, state) => sum + Number((state as any).marketingPlan?.totalSpend ?? state.marketingSpend ?? 0),
+      0
+    );
+    const totalCosts = totalOperationalCosts + totalMarketing + totalInterest;
+
+    // Average capital employed across the season:
+    // capitalEmployed_w = cashOnHand_w + creditUsed_w + inventoryValue_w
+    const capitalByWeek = sortedStates.map((s: any) => {
+      const cash = Number(s.cashOnHand || 0);
+      const credit = Number(s.creditUsed || 0);
+      const rmValue = Object.values(s.rawMaterials || {}).reduce(
+        (acc: number, v: any) => acc + Number(v?.onHandValue || 0),
+        0
+      );
+      const wipValue = ((s.workInProcess?.batches) || []).reduce(
+        (acc: number, b: any) => acc + Number(b.quantity || 0) * (Number(b.materialUnitCost || 0) + Number(b.productionUnitCost || 0)),
+        0
+      );
+      const inTransitValue = ((s.shipmentsInTransit) || []).reduce(
+        (acc: number, sh: any) => acc + Number(sh.quantity || 0) * (Number(sh.unitMaterialCost || 0) + Number(sh.unitProductionCost || 0) + Number(sh.unitShippingCost || 0)),
+        0
+      );
+      const fgValue = ((s.finishedGoods?.lots) || []).reduce(
+        (acc: number, l: any) => acc + Number(l.quantity || 0) * Number(l.unitCostBasis || 0),
+        0
+      );
+      return cash + credit + rmValue + wipValue + inTransitValue + fgValue;
+    });
+    const averageCapital = capitalByWeek.length > 0
+      ? capitalByWeek.reduce((s, v) => s + v, 0) / capitalByWeek.length
+      : this.constants.STARTING_CAPITAL;
+    const economicProfit = this.calculateEconomicProfit(totalRevenue, totalCosts, averageCapital);
+
+    // Remaining finished goods at unit cost basis; the rubric sets how heavily they count
+    const deadStockValue = (finalStateRow?.finishedGoods?.lots || []).reduce((s: number, l: any) => s + Number(l.quantity || 0) * Number(l.unitCostBasis || 0), 0);
+    const scoreBreakdown = scoreSeason({
+      economicProfit,
+      serviceLevel,
+      finalCash: Number(finalStateRow?.cashOnHand || 0),
+      finalCredit: Number(finalStateRow?.creditUsed || 0),
+      deadStockValue,
+      lateLaunchWeeks: lateLaunchWeeks(sortedStates, rubric.LAUNCH_WEEK),
+    }, rubric);
+    const deadStockPenalty = deadStockValue * rubric.DEAD_STOCK_MULTIPLIER;
+
+    return {
+      serviceLevel,
+      totalRevenue,
+      totalCosts,
+      averageCapital,
+      economicProfit,
+      deadStockPenalty,
+      finalScore: scoreBreakdown.total,
+      finalCash: Number(finalStateRow?.cashOnHand || 0),
+      scoreBreakdown,
+    };
+  }
+
   private static payAmount(cashOnHand: number, creditUsed: number, amount: number): { cashOnHand: number; creditUsed: number } {
     if (amount <= 0) return { cashOnHand, creditUsed };
     if (cashOnHand >= amount) {
       return { cashOnHand: cashOnHand - amount, creditUsed };
     }
     const remaining = amount - cashOnHand;
-    const newCredit = Math.min(GAME_CONSTANTS.CREDIT_LIMIT, creditUsed + remaining);
+    const newCredit = Math.min(this.constants.CREDIT_LIMIT, creditUsed + remaining);
     return { cashOnHand: 0, creditUsed: newCredit };
   }
   static processMaterialPurchases(currentState: any, updates: any): any {
@@ -1299,9 +2114,9 @@ export class GameEngine {
     }
 
     // Update financial data
-    const currentCash = parseFloat(currentState.cashOnHand || GAME_CONSTANTS.STARTING_CAPITAL);
+    const currentCash = parseFloat(currentState.cashOnHand || this.constants.STARTING_CAPITAL);
     const currentCreditUsed = parseFloat(currentState.creditUsed || 0);
-    const creditAvailable = GAME_CONSTANTS.CREDIT_LIMIT - currentCreditUsed;
+    const creditAvailable = this.constants.CREDIT_LIMIT - currentCreditUsed;
     
     let updatedCashOnHand = currentCash;
     let updatedCreditUsed = currentCreditUsed;
@@ -1313,7 +2128,7 @@ export class GameEngine {
       // Use cash + credit
       const remainingCost = totalPurchaseCost - currentCash;
       updatedCashOnHand = 0;
-      updatedCreditUsed = Math.min(GAME_CONSTANTS.CREDIT_LIMIT, currentCreditUsed + remainingCost);
+      updatedCreditUsed = Math.min(this.constants.CREDIT_LIMIT, currentCreditUsed + remainingCost);
     }
 
 
@@ -1358,7 +2173,7 @@ export class GameEngine {
     hasPrint: boolean = false,
     materialChoice?: MaterialKey | null
   ): number {
-    const productData = GAME_CONSTANTS.PRODUCTS[product];
+    const productData = this.constants.PRODUCTS[product];
     // Use season forecast distributed evenly per sales week (9 weeks). We still compute weekly
     // "want to buy" demand for all weeks (including pre‑sales), but there is no separate
     // seasonality multiplier inside the 9-week window.
@@ -1379,14 +2194,41 @@ export class GameEngine {
     return Math.round(baseWeekly * positioningEffect * discountEffect * designEffect);
   }
   
+  // Multiplayer: each team's standalone demand for one product (its positioning,
+  // discount, design appeal and marketing factor already applied) becomes a
+  // share of one market pool. Identical offers split the pool evenly.
+  static splitMarketDemand(standaloneDemands: number[]): number[] {
+    const offers = standaloneDemands.map((d) => Math.max(0, this.toNumber(d)));
+    const n = offers.length;
+    if (n <= 1) return offers.map((d) => Math.round(d));
+
+    const { ADDITIONAL_TEAM_MARKET_SIZE, SHARE_SENSITIVITY } = this.constants.MARKET;
+    const pool = Math.round((offers.reduce((s, d) => s + d, 0) / n) * (1 + (n - 1) * ADDITIONAL_TEAM_MARKET_SIZE));
+    const weights = offers.map((d) => Math.pow(d, SHARE_SENSITIVITY));
+    const totalWeight = weights.reduce((s, w) => s + w, 0);
+    if (totalWeight <= 0) return offers.map(() => 0);
+
+    // Largest remainder, so the team shares add up to the pool exactly
+    const exact = weights.map((w) => (pool * w) / totalWeight);
+    const shares = exact.map((x) => Math.floor(x));
+    let remainder = pool - shares.reduce((s, x) => s + x, 0);
+    const byFraction = exact.map((x, i) => ({ i, f: x - Math.floor(x) })).sort((a, b) => b.f - a.f);
+    for (const { i } of byFraction) {
+      if (remainder <= 0) break;
+      shares[i] += 1;
+      remainder -= 1;
+    }
+    return shares;
+  }
+
   static calculateProjectedUnitCost(
     product: keyof typeof GAME_CONSTANTS.PRODUCTS,
     materialChoice: string,
     hasPrint: boolean
   ): number {
     // Average material cost from both suppliers
-    const s1Materials = GAME_CONSTANTS.SUPPLIERS.supplier1.materials;
-    const s2Materials = GAME_CONSTANTS.SUPPLIERS.supplier2.materials;
+    const s1Materials = this.constants.SUPPLIERS.supplier1.materials;
+    const s2Materials = this.constants.SUPPLIERS.supplier2.materials;
     
     const s1Price = (s1Materials as any)[materialChoice]?.price || 0;
     const s2Price = (s2Materials as any)[materialChoice]?.price || 0;
@@ -1403,6 +2245,39 @@ export class GameEngine {
     return avgMaterialCost;
   }
   
+  // Backorders carried into this week, with this week's flows reset
+  private static openBackorderBook(state: any): BackorderBook {
+    const zero = () => ({ jacket: 0, dress: 0, pants: 0 });
+    const queue = Array.isArray(state.backorders?.queue) ? this.cloneJson(state.backorders.queue) : [];
+    return { queue, placed: zero(), preordered: zero(), served: zero(), cancelled: zero() };
+  }
+
+  /**
+   * The markdown a product actually sells at in a run-out week: the player's
+   * own, or the fixed clearance markdown for the week in 'automatic' mode,
+   * limited so the price stays at or above actualUnitCost (0 = not known yet).
+   */
+  static runOutMarkdown(week: number, plannedDiscount: number, rrp: number, actualUnitCost: number, mode?: string | null): number {
+    const { START_WEEK, AUTO_MARKDOWNS } = this.constants.RUN_OUT;
+    if (week < START_WEEK) return plannedDiscount;
+    const markdown = mode === 'automatic' ? (AUTO_MARKDOWNS[week - START_WEEK] ?? AUTO_MARKDOWNS[AUTO_MARKDOWNS.length - 1]) : plannedDiscount;
+    if (rrp <= 0 || actualUnitCost <= 0) return markdown;
+    return Math.max(0, Math.min(markdown, 1 - actualUnitCost / rrp));
+  }
+
+  // Units and proceeds if these finished-goods lots go to the end-of-season jobber
+  static liquidateFinishedGoods(lots: Array<{ product: string; quantity: unknown; unitCostBasis: unknown }>): LiquidationResult {
+    const units = { jacket: 0, dress: 0, pants: 0 } as Record<ProductKey, number>;
+    let revenue = 0;
+    for (const lot of lots) {
+      const quantity = this.toNumber(lot.quantity);
+      if (quantity <= 0) continue;
+      units[lot.product as ProductKey] = (units[lot.product as ProductKey] || 0) + quantity;
+      revenue += quantity * this.toNumber(lot.unitCostBasis) * this.constants.RUN_OUT.SALVAGE_RATE;
+    }
+    return { units, revenue: Number(revenue.toFixed(2)) };
+  }
+
   static calculateActualUnitCost(
     totalRevenue: number,
     totalMaterialCosts: number,
@@ -1417,11 +2292,11 @@ export class GameEngine {
   }
   
   static calculateHoldingCosts(inventoryValue: number): number {
-    return inventoryValue * GAME_CONSTANTS.HOLDING_COST_RATE;
+    return inventoryValue * this.constants.HOLDING_COST_RATE;
   }
   
   static calculateInterest(creditBalance: number): number {
-    return creditBalance * GAME_CONSTANTS.WEEKLY_INTEREST_RATE;
+    return creditBalance * this.constants.WEEKLY_INTEREST_RATE;
   }
 
   /** Production + shipping (batches starting this week) — same as validate/commit liquidity. */
@@ -1457,8 +2332,8 @@ export class GameEngine {
     const procurementContracts = currentState.procurementContracts as any;
     if (procurementContracts) {
       for (const c of procurementContracts.contracts || []) {
-        const unitBase = (GAME_CONSTANTS.SUPPLIERS as any)[c.supplier]?.materials?.[c.material]?.price || 0;
-        const surcharge = (GAME_CONSTANTS.SUPPLIERS as any)[c.supplier]?.materials?.[c.material]?.printSurcharge || 0;
+        const unitBase = (this.constants.SUPPLIERS as any)[c.supplier]?.materials?.[c.material]?.price || 0;
+        const surcharge = (this.constants.SUPPLIERS as any)[c.supplier]?.materials?.[c.material]?.printSurcharge || 0;
         const locked = this.toNumber((c as any).lockedUnitPrice);
         const unitPriceC = locked > 0 ? locked : (unitBase + surcharge);
         if (c.type === 'SPT') {
@@ -1477,6 +2352,10 @@ export class GameEngine {
               staged += units * price;
             }
           }
+        } else if (c.type === 'FVC') {
+          const split = this.computeFvcPaymentSplit(c);
+          if (!(c as any).downPaymentPaid) staged += split.downPayment;
+          if (split.finalDeliveryWeek === dueWeekNext && !(c as any).balancePaid) staged += split.balance;
         }
       }
     }
@@ -1487,9 +2366,9 @@ export class GameEngine {
         .reduce((s: number, b: any) => s + Number(b.quantity || 0) * (Number(b.materialUnitCost || 0) + Number(b.productionUnitCost || 0)), 0);
       const fgValue = ((currentState as any).finishedGoods?.lots || [])
         .reduce((s: number, l: any) => s + Number(l.quantity || 0) * Number(l.unitCostBasis || 0), 0);
-      staged += (rmValue + wipValue + fgValue) * GAME_CONSTANTS.HOLDING_COST_RATE;
+      staged += (rmValue + wipValue + fgValue) * this.constants.HOLDING_COST_RATE;
     }
-    staged += creditUsed * GAME_CONSTANTS.WEEKLY_INTEREST_RATE;
+    staged += creditUsed * this.constants.WEEKLY_INTEREST_RATE;
     return staged;
   }
 
@@ -1499,7 +2378,7 @@ export class GameEngine {
   static getMaxAffordablePlannedMarketingSpend(weekNumber: number, currentState: Partial<WeeklyState>): number {
     const cashOnHand = Number((currentState as any).cashOnHand || 0);
     const creditUsed = Number((currentState as any).creditUsed || 0);
-    const availableFunds = cashOnHand + (GAME_CONSTANTS.CREDIT_LIMIT - creditUsed);
+    const availableFunds = cashOnHand + (this.constants.CREDIT_LIMIT - creditUsed);
     const operational = this.computeOperationalOutflowsForWeekCommit(weekNumber, currentState);
     const stagedNonMarketing = this.computeStagedNonMarketingNextWeek(weekNumber, currentState);
     return Math.max(0, availableFunds - operational - stagedNonMarketing);
@@ -1535,8 +2414,10 @@ export class GameEngine {
     currentState: Partial<WeeklyState>,
     gameSession: GameSession
   ): ValidationResult {
-    const errors: string[] = [];
-    const warnings: string[] = [];
+    const errors: ValidationIssue[] = [];
+    const warnings: ValidationIssue[] = [];
+    const addError = (issue: Omit<ValidationIssue, 'severity'>) => { errors.push({ ...issue, severity: 'error' }); };
+    const addWarning = (issue: Omit<ValidationIssue, 'severity'>) => { warnings.push({ ...issue, severity: 'warning' }); };
     
     const phase = this.getPhaseForWeek(weekNumber);
     
@@ -1544,19 +2425,25 @@ export class GameEngine {
     if (phase === 'strategy') {
       const productData = currentState.productData as any;
       if (!productData) {
-        errors.push("Product data not provided");
+        addError({ code: 'product_data_missing', message: "Product data not provided", tab: 'pricing', suggestedFix: "Set an RRP for every product" });
       } else {
         // Check if all RRPs are set
         for (const [product, data] of Object.entries(productData)) {
           const productInfo = data as any;
           if (!productInfo.rrp) {
-            errors.push(`RRP not set for ${product}`);
+            addError({ code: 'rrp_missing', message: `RRP not set for ${product}`, tab: 'pricing', product: product as ProductKey, suggestedFix: "Set and lock an RRP" });
           }
           // Below-floor pricing is allowed, but should be explicit because it can be a deliberate clearance or acquisition tactic.
           const confirmed = Number(productInfo.confirmedMaterialCost || 0);
-          const productionCost = GAME_CONSTANTS.MANUFACTURING[product as keyof typeof GAME_CONSTANTS.MANUFACTURING]?.inHouseCost || 0; // conservative
+          const productionCost = this.constants.MANUFACTURING[product as keyof typeof GAME_CONSTANTS.MANUFACTURING]?.inHouseCost || 0; // conservative
           if (productInfo.rrp && productInfo.rrp < 1.05 * (confirmed + productionCost)) {
-            warnings.push(`RRP for ${product} below cost floor; expect weak contribution margin unless this is deliberate customer-acquisition pricing`);
+            addWarning({
+              code: 'rrp_below_cost_floor',
+              message: `RRP for ${product} below cost floor; expect weak contribution margin unless this is deliberate customer-acquisition pricing`,
+              tab: 'pricing',
+              product: product as ProductKey,
+              suggestedFix: `Raise the RRP to at least £${(1.05 * (confirmed + productionCost)).toFixed(2)}`,
+            });
           }
         }
       }
@@ -1577,9 +2464,9 @@ export class GameEngine {
         // shrink the on-hand pool. We still flag obviously bad data.
         const qty = Number(b.quantity || 0);
         if (qty <= 0) {
-          errors.push(`Batch ${b.id} has invalid quantity (must be > 0)`);
-        } else if (qty > GAME_CONSTANTS.BATCH_SIZE) {
-          errors.push(`Batch ${b.id} quantity ${qty} exceeds the single-rung limit of ${GAME_CONSTANTS.BATCH_SIZE}; split into multiple batches`);
+          addError({ code: 'batch_invalid_quantity', message: `Batch ${b.id} has invalid quantity (must be > 0)`, tab: 'production', product: b.product, batchId: String(b.id), week: Number(b.startWeek), suggestedFix: "Enter a quantity or delete the batch" });
+        } else if (qty > this.constants.BATCH_SIZE) {
+          addError({ code: 'batch_over_size', message: `Batch ${b.id} quantity ${qty} exceeds the single-rung limit of ${this.constants.BATCH_SIZE}; split into multiple batches`, tab: 'production', product: b.product, batchId: String(b.id), week: Number(b.startWeek), suggestedFix: `Split into batches of at most ${this.constants.BATCH_SIZE.toLocaleString('en-GB')} units` });
         }
         const lead = this.getProductionLead(b.product, b.method);
         for (let w = b.startWeek; w < b.startWeek + lead; w++) {
@@ -1588,10 +2475,10 @@ export class GameEngine {
             // so charge full BATCH_SIZE against capacity. Otherwise three
             // partial batches of 24,800 would slip past a 75k capacity gate
             // even though they truly need three rungs.
-            capacityMap[w] = (capacityMap[w] || 0) + GAME_CONSTANTS.BATCH_SIZE;
-            const available = GAME_CONSTANTS.CAPACITY_SCHEDULE[w - 1] || 0;
-            if (capacityMap[w] > available) {
-              errors.push(`Production capacity exceeded in week ${w}`);
+            capacityMap[w] = (capacityMap[w] || 0) + this.constants.BATCH_SIZE;
+            const available = this.capacityForWeek(w, weekNumber);
+            if (capacityMap[w] > available && !this.hasMaterializedBatch(currentState, String(b.id))) {
+              addError({ code: 'capacity_exceeded', message: `Production capacity exceeded in week ${w}`, tab: 'production', product: b.product, batchId: String(b.id), week: w, suggestedFix: "Move this batch to another week or outsource it" });
             }
           }
         }
@@ -1600,14 +2487,19 @@ export class GameEngine {
         // Materials check (DB-first logic): onHand + canonical arrivals by start - prior allocations
         const fabric = productData?.[b.product]?.fabric as MaterialKey;
         if (!fabric) {
-          errors.push(`No fabric selected for ${b.product}`);
+          addError({ code: 'fabric_missing', message: `No fabric selected for ${b.product}`, tab: 'design', product: b.product, suggestedFix: "Choose a fabric in Design" });
         } else {
           const entry = rawMaterials?.[fabric] || { onHand: 0, allocated: 0 };
           const onHandNow = Number(entry.onHand || 0);
           // Sum arrivals from procurementContracts deliveries with arrivalWeek <= startWeek
           const contracts: any[] = (currentState.procurementContracts as any)?.contracts || [];
-          const leadBySupplier = (sup: SupplierKey) => Number((GAME_CONSTANTS.SUPPLIERS as any)[sup]?.leadTime || 0);
+          const leadBySupplier = (sup: SupplierKey) => Number((this.constants.SUPPLIERS as any)[sup]?.leadTime || 0);
           const unitPriceOf = (c: any) => this.computeContractUnitPrice(c);
+          // Where a disruption delayed a scheduled delivery, it arrives later
+          const scheduledWeek = (c: any, arrW: number, units: number) => {
+            const delivery = (c.deliveries || []).find((d: any) => this.toNumber(d.originalWeek ?? d.week) === arrW && this.toNumber(d.units) === units);
+            return delivery ? this.toNumber(delivery.week) : arrW;
+          };
           const arrivals = contracts.flatMap((c: any) => {
             if (c.material !== fabric) return [] as any[];
             const uLocked = unitPriceOf(c);
@@ -1615,7 +2507,7 @@ export class GameEngine {
               const arrW = Number(c.weekSigned || 0) + leadBySupplier(c.supplier as SupplierKey);
               const units = this.toNumber(c.units);
               return [{
-                week: arrW,
+                week: scheduledWeek(c, arrW, units),
                 goodUnits: this.calculateDeliveryGoodUnits(c.supplier as SupplierKey, units, `${c.id || ''}:${arrW}:${units}:${uLocked}`),
                 unitPrice: uLocked,
               }];
@@ -1627,12 +2519,25 @@ export class GameEngine {
                 const units = this.toNumber(o.units);
                 const uPrice = this.toNumber(o.unitPrice ?? uLocked);
                 return {
-                  week: arrW,
+                  week: scheduledWeek(c, arrW, units),
                   goodUnits: this.calculateDeliveryGoodUnits(c.supplier as SupplierKey, units, `${c.id || ''}:${o.orderId || ''}:${arrW}:${units}:${uPrice}`),
                   unitPrice: uPrice,
                 };
               });
             }
+            if (c.type === 'FVC') {
+              return ((c.deliveries || []) as any[]).map((d: any) => {
+                const units = this.toNumber(d.units);
+                const uPrice = this.toNumber(d.unitPrice ?? uLocked);
+                return {
+                  week: Number(d.week || 0),
+                  goodUnits: Number.isFinite(Number(d.goodUnits))
+                    ? this.toNumber(d.goodUnits)
+                    : this.calculateDeliveryGoodUnits(c.supplier as SupplierKey, units, `${c.id || ''}:${d.week}:${units}:${uPrice}`),
+                  unitPrice: uPrice,
+                };
+              });
+            }
             return [] as any[];
           });
           const currentWeekForMaterials = Number((currentState as any).weekNumber || weekNumber);
@@ -1656,7 +2561,7 @@ export class GameEngine {
             .reduce((s: number, bb: any) => s + Number(bb.quantity || 0), 0);
           const projected = onHandNow + inboundByStart - allocatedBefore;
           if (projected <= 0 && Number(b.quantity || 0) > 0) {
-            errors.push(`Insufficient materials for batch ${b.id} (${b.product})`);
+            addError({ code: 'insufficient_materials', message: `Insufficient materials for batch ${b.id} (${b.product})`, tab: 'production', product: b.product, batchId: String(b.id), week: batchStart, suggestedFix: `Buy more ${fabric} arriving by week ${batchStart}, or start the batch later` });
           }
         }
       }
@@ -1671,7 +2576,7 @@ export class GameEngine {
       // Check marketing spend
       const marketingSpend = Number((currentState as any).marketingPlan?.totalSpend ?? currentState.marketingSpend ?? 0);
       if (!marketingSpend || marketingSpend === 0) {
-        warnings.push("Zero marketing spend may negatively impact sales");
+        addWarning({ code: 'zero_marketing', message: "Zero marketing spend may negatively impact sales", tab: 'marketing', week: weekNumber, suggestedFix: "Plan a marketing budget" });
       }
       // Aggressive pricing warning: reuse the same positioning effect that demand uses.
       const productData = currentState.productData as any;
@@ -1679,13 +2584,13 @@ export class GameEngine {
         const rrp = Number((data as any).rrp);
         const positioningEffect = this.calculatePositioningEffect(product as keyof typeof GAME_CONSTANTS.PRODUCTS, rrp);
         if (positioningEffect < 0.85) {
-          warnings.push(`Aggressive pricing for ${product} may hurt demand`);
+          addWarning({ code: 'aggressive_pricing', message: `Aggressive pricing for ${product} may hurt demand`, tab: 'pricing', product: product as ProductKey, suggestedFix: "Price closer to the high-street benchmark" });
         }
         // Price floor with discount: use the larger of (a) planning cost
         // (confirmed material + in-house production) or (b) the running
         // actualUnitCost once available post-launch. Both with a 5% buffer
         // so the player keeps a thin margin per unit.
-        const prodCost = GAME_CONSTANTS.MANUFACTURING[product as keyof typeof GAME_CONSTANTS.MANUFACTURING]?.inHouseCost || 0;
+        const prodCost = this.constants.MANUFACTURING[product as keyof typeof GAME_CONSTANTS.MANUFACTURING]?.inHouseCost || 0;
         const confirmed = Number((data as any).confirmedMaterialCost || 0);
         const actualUC = Number((currentState as any).actualUnitCost || 0);
         const planningFloor = 1.05 * (confirmed + prodCost);
@@ -1693,16 +2598,32 @@ export class GameEngine {
         const floor = Math.max(planningFloor, actualFloor);
         const currentDiscount = Number((currentState as any).weeklyDiscounts?.[product as keyof any] ?? 0);
         if (rrp && rrp * (1 - currentDiscount) < floor) {
-          warnings.push(`Discounted price below cost floor for ${product}; expect loss-making sales below £${floor.toFixed(2)}`);
+          addWarning({ code: 'discount_below_cost_floor', message: `Discounted price below cost floor for ${product}; expect loss-making sales below £${floor.toFixed(2)}`, tab: 'marketing', product: product as ProductKey, week: weekNumber, suggestedFix: "Reduce the discount" });
         }
         const nextWeek = weekNumber + 1;
         const plannedDiscount = Number((currentState as any).plannedWeeklyDiscounts?.[product as keyof any] ?? 0);
         if (nextWeek <= 12 && rrp && rrp * (1 - plannedDiscount) < floor) {
-          warnings.push(`Planned next-week discount below cost floor for ${product}; expect loss-making sales below £${floor.toFixed(2)}`);
+          addWarning({ code: 'planned_discount_below_cost_floor', message: `Planned next-week discount below cost floor for ${product}; expect loss-making sales below £${floor.toFixed(2)}`, tab: 'marketing', product: product as ProductKey, week: nextWeek, suggestedFix: "Reduce next week's planned discount" });
         }
       }
     }
     
+    // Run-out markdowns the player set that would price below the actual unit
+    // cost; the commit limits them to the no-loss price
+    const markdownWeek = weekNumber + 1;
+    if (gameSession?.runOutMode !== 'automatic' && markdownWeek >= this.constants.RUN_OUT.START_WEEK && markdownWeek <= 15) {
+      const actualUC = Number((currentState as any).actualUnitCost || 0);
+      for (const [product, data] of Object.entries((currentState.productData as any) || {})) {
+        const rrp = Number((data as any)?.rrp || 0);
+        const planned = Number((currentState as any).plannedWeeklyDiscounts?.[product] ?? 0);
+        const applied = this.runOutMarkdown(markdownWeek, planned, rrp, actualUC, 'player');
+        if (applied < planned - 0.0005) {
+          const pct = Math.floor(applied * 100);
+          addWarning({ code: 'markdown_below_unit_cost', message: `Week ${markdownWeek} markdown for ${product} prices below its actual unit cost of £${actualUC.toFixed(2)}; it will be limited to ${pct}%`, tab: 'marketing', product: product as ProductKey, week: markdownWeek, suggestedFix: `Mark ${product} down by at most ${pct}%` });
+        }
+      }
+    }
+
     // Cash flow validation: mirror the engine's actual commit cash flow.
     // Engine `commitWeek` charges only operational outflows in week N (production
     // + shipping for batches starting in N). Procurement deliveries, next-week
@@ -1711,17 +2632,58 @@ export class GameEngine {
     // locks in" so the player gets a true liquidity check.
     const cashOnHand = Number(currentState.cashOnHand || 0);
     const creditUsed = Number(currentState.creditUsed || 0);
-    const availableFunds = cashOnHand + (GAME_CONSTANTS.CREDIT_LIMIT - creditUsed);
+    const availableFunds = cashOnHand + (this.constants.CREDIT_LIMIT - creditUsed);
     const operationalOutflows = this.computeOperationalOutflowsForWeekCommit(weekNumber, currentState);
     const stagedNonMarketing = this.computeStagedNonMarketingNextWeek(weekNumber, currentState);
     const plannedMarketing = Number((currentState as any).plannedMarketingPlan?.totalSpend ?? 0);
     const immediatePayments = operationalOutflows + stagedNonMarketing + plannedMarketing;
     if (immediatePayments > availableFunds + 1e-6) {
-      errors.push("Inadequate cash for this week's plan");
+      addError({ code: 'inadequate_cash', message: "Inadequate cash for this week's plan", week: weekNumber, suggestedFix: "Cut next week's planned marketing, delay batches, or buy less material" });
     }
 
     // Warnings
-    if (cashOnHand < 100000) warnings.push("Low cash balance may lead to future liquidity issues");
+    if (cashOnHand < 100000) addWarning({ code: 'low_cash', message: "Low cash balance may lead to future liquidity issues", week: weekNumber });
+    // Low service level risk: product/weeks in the service-level window (weeks
+    // 7–12) where the projected shelf stock falls short of forecast demand
+    try {
+      const { stockOuts } = this.projectInventoryCoverage({ ...currentState, weekNumber });
+      const byProduct = new Map<ProductKey, typeof stockOuts>();
+      for (const risk of stockOuts.filter(r => this.getPhaseForWeek(r.weekNumber) === 'sales')) {
+        byProduct.set(risk.product, [...(byProduct.get(risk.product) || []), risk]);
+      }
+      for (const [product, risks] of Array.from(byProduct)) {
+        const short = risks.reduce((sum, r) => sum + r.shortfall, 0);
+        const demand = risks.reduce((sum, r) => sum + r.demand, 0);
+        addWarning({
+          code: 'stock_out_risk',
+          message: `Low service level risk: ${this.constants.PRODUCTS[product].name} is projected to stock out in ${this.formatWeekList(risks.map(r => r.weekNumber))} (${Math.round(short).toLocaleString('en-GB')} of ${Math.round(demand).toLocaleString('en-GB')} units of demand unmet)`,
+          tab: 'inventory',
+          product,
+          week: risks[0].weekNumber,
+          suggestedFix: "Schedule production earlier or expedite shipping",
+        });
+      }
+    } catch {
+      // Incomplete states (e.g. before pricing) have nothing to project
+    }
+
+    // Negative future cash flow: the plan, played out unchanged, needs more
+    // credit than the limit in a later week
+    try {
+      const projection = this.projectCashFlow({ ...currentState, weekNumber });
+      const breach = projection.weeks.find(w => w.weekNumber > weekNumber && w.overCreditLimit);
+      if (breach) {
+        const shortfall = breach.peakCreditUsed - projection.creditLimit;
+        addWarning({
+          code: 'credit_limit_breach',
+          message: `Projected cash need exceeds the credit limit in week ${breach.weekNumber} by £${Math.round(shortfall).toLocaleString('en-GB')}`,
+          week: breach.weekNumber,
+          suggestedFix: "Spread material purchases or production over more weeks",
+        });
+      }
+    } catch {
+      // Incomplete states (e.g. before pricing) have nothing to project
+    }
     // High inventory value vs next week demand
     const nextWeek = weekNumber + 1;
     if (nextWeek >= 7 && nextWeek <= 12) {
@@ -1735,8 +2697,7 @@ export class GameEngine {
       }
       // Approx finished goods value in units
       const fgUnits = ((currentState as any).finishedGoods?.lots || []).reduce((s: number, l: any) => s + Number(l.quantity || 0), 0);
-      if (fgUnits > 3 * nextDemand) warnings.push("High inventory levels relative to demand");
-      if (nextDemand > fgUnits * 1.2) warnings.push("Low service level risk: demand may exceed available inventory");
+      if (fgUnits > 3 * nextDemand) addWarning({ code: 'high_inventory', message: "High inventory levels relative to demand", tab: 'inventory', week: nextWeek, suggestedFix: "Raise marketing or discount to sell down stock" });
     }
     
     return {
@@ -1750,7 +2711,7 @@ export class GameEngine {
     return {
       weekNumber: 1,
       phase: 'strategy',
-      cashOnHand: GAME_CONSTANTS.STARTING_CAPITAL.toString(),
+      cashOnHand: this.constants.STARTING_CAPITAL.toString(),
       creditUsed: '0',
       interestAccrued: '0',
       productData: {
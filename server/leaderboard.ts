@@ -0,0 +1,92 @@
+import { createHash } from "crypto";
+import type { GameSession, ScoreBreakdown, ScoreComponent } from "@shared/schema";
+
+// Cohort leaderboard: each member's best completed game, ranked by the final
+// score or by one of its headline results. Members appear under an anonymous
+// handle unless they opt in to showing their name.
+
+export type LeaderboardSort = 'score' | 'serviceLevel' | 'economicProfit' | 'finalCash';
+export const LEADERBOARD_SORTS: LeaderboardSort[] = ['score', 'serviceLevel', 'economicProfit', 'finalCash'];
+
+export interface LeaderboardCandidate {
+  userId: string;
+  // Name shown when the member opted in; null falls back to the handle
+  name: string | null;
+  showOnLeaderboard: boolean;
+  gameSession: GameSession;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  handle: string;
+  isNamed: boolean;
+  isYou: boolean;
+  scenarioId: string;
+  finalScore: number;
+  serviceLevel: number;
+  economicProfit: number;
+  finalCash: number;
+  components: ScoreComponent[];
+  completedAt: Date | null;
+  // Set when the viewer may open the game's final dashboard
+  gameSessionId: string | null;
+}
+
+const ADJECTIVES = ['Amber', 'Bold', 'Brisk', 'Calm', 'Clever', 'Crimson', 'Deft', 'Eager', 'Indigo', 'Jade', 'Keen', 'Lucky', 'Nimble', 'Quiet', 'Swift', 'Velvet'];
+const ANIMALS = ['Badger', 'Crane', 'Falcon', 'Fox', 'Hare', 'Heron', 'Lynx', 'Magpie', 'Otter', 'Owl', 'Panda', 'Puffin', 'Raven', 'Seal', 'Stag', 'Wren'];
+
+/** Stable per cohort, so a member keeps the same handle but cannot be matched across cohorts. */
+export function anonymousHandle(cohortId: string, userId: string): string {
+  const digest = createHash('sha256').update(`${cohortId}:${userId}`).digest();
+  return `${ADJECTIVES[digest[0] % ADJECTIVES.length]} ${ANIMALS[digest[1] % ANIMALS.length]} ${digest.readUInt16BE(2) % 100}`;
+}
+
+const metric = (entry: LeaderboardEntry, sort: LeaderboardSort): number =>
+  sort === 'score' ? entry.finalScore : entry[sort];
+
+/**
+ * Ranks the best graded game of each member, highest first. Ties share a rank
+ * (1, 1, 3). Only completed, scored, non-sandbox games count; the caller
+ * applies any scenario filter beforehand.
+ */
+export function buildLeaderboard(
+  cohortId: string,
+  candidates: LeaderboardCandidate[],
+  options: { viewerId: string; viewerIsInstructor: boolean; sort: LeaderboardSort },
+): LeaderboardEntry[] {
+  const best = new Map<string, LeaderboardCandidate>();
+  for (const candidate of candidates) {
+    const game = candidate.gameSession;
+    if (!game.isCompleted || game.finalScore == null || game.sandboxOf) continue;
+    const current = best.get(candidate.userId);
+    if (!current || Number(game.finalScore) > Number(current.gameSession.finalScore)) {
+      best.set(candidate.userId, candidate);
+    }
+  }
+
+  const entries: LeaderboardEntry[] = Array.from(best.values()).map(({ userId, name, showOnLeaderboard, gameSession }) => {
+    const isYou = userId === options.viewerId;
+    const isNamed = showOnLeaderboard && !!name;
+    return {
+      rank: 0,
+      handle: isNamed ? name! : anonymousHandle(cohortId, userId),
+      isNamed,
+      isYou,
+      scenarioId: gameSession.scenarioId,
+      finalScore: Number(gameSession.finalScore),
+      serviceLevel: Number(gameSession.finalServiceLevel ?? 0),
+      economicProfit: Number(gameSession.finalEconomicProfit ?? 0),
+      finalCash: Number(gameSession.finalCash ?? 0),
+      components: (gameSession.scoreBreakdown as ScoreBreakdown | null)?.components ?? [],
+      completedAt: gameSession.updatedAt ?? null,
+      gameSessionId: isYou || options.viewerIsInstructor || gameSession.isShared ? gameSession.id : null,
+    };
+  });
+
+  entries.sort((a, b) => metric(b, options.sort) - metric(a, options.sort) || b.finalScore - a.finalScore);
+  entries.forEach((entry, i) => {
+    const previous = entries[i - 1];
+    entry.rank = previous && metric(previous, options.sort) === metric(entry, options.sort) ? previous.rank : i + 1;
+  });
+  return entries;
+}
@@ -0,0 +1,121 @@
+/*
+ * Optional OpenID Connect sign-in (authorization code flow with PKCE).
+ *
+ * Enabled when OIDC_ISSUER_URL, OIDC_CLIENT_ID and OIDC_CLIENT_SECRET are set;
+ * OIDC_PROVIDER_NAME labels the landing-page button and OIDC_REDIRECT_URI
+ * overrides the callback URL derived from the request. Any standards-compliant
+ * issuer works; `npm run mock-oidc` starts a local one for development.
+ */
+
+import type { Express } from "express";
+import * as client from "openid-client";
+import { storage } from "./storage";
+
+interface OidcProvider {
+  name: string;
+  issuer: string;
+  config: client.Configuration;
+}
+
+let provider: OidcProvider | null = null;
+
+export function getOidcProvider(): OidcProvider | null {
+  return provider;
+}
+
+function callbackUrl(req: any): string {
+  return process.env.OIDC_REDIRECT_URI || `${req.protocol}://${req.get("host")}/api/auth/oidc/callback`;
+}
+
+// Find the account for an OIDC identity: by linked subject, then by verified
+// email (linking the identity), else create a new student account
+async function findOrCreateOidcUser(issuer: string, claims: Record<string, any>) {
+  const oidcSubject = `${issuer}|${claims.sub}`;
+  const linked = await storage.getUserByOidcSubject(oidcSubject);
+  if (linked) return linked;
+
+  const email = typeof claims.email === "string" ? claims.email.trim().toLowerCase() : null;
+  if (email && claims.email_verified === true) {
+    const existing = await storage.getUserByEmail(email);
+    if (existing) {
+      return storage.updateUser(existing.id, { oidcSubject });
+    }
+  }
+  return storage.createUser({
+    // An unverified email is not stored, so it cannot later claim a local account
+    email: email && claims.email_verified === true ? email : null,
+    firstName: claims.given_name || claims.name || null,
+    lastName: claims.family_name || null,
+    profileImageUrl: claims.picture || null,
+    oidcSubject,
+  } as any);
+}
+
+export async function setupOidc(app: Express) {
+  const { OIDC_ISSUER_URL, OIDC_CLIENT_ID, OIDC_CLIENT_SECRET } = process.env;
+  if (!OIDC_ISSUER_URL || !OIDC_CLIENT_ID || !OIDC_CLIENT_SECRET) {
+    return;
+  }
+
+  const issuerUrl = new URL(OIDC_ISSUER_URL);
+  // Plain-http issuers (e.g. the local mock) are only accepted outside production
+  const execute = issuerUrl.protocol === "http:" && process.env.NODE_ENV !== "production"
+    ? [client.allowInsecureRequests]
+    : [];
+  const config = await client.discovery(issuerUrl, OIDC_CLIENT_ID, OIDC_CLIENT_SECRET, undefined, { execute });
+  provider = {
+    name: process.env.OIDC_PROVIDER_NAME || "Single sign-on",
+    issuer: config.serverMetadata().issuer,
+    config,
+  };
+
+  app.get("/api/auth/oidc/login", async (req: any, res, next) => {
+    try {
+      const codeVerifier = client.randomPKCECodeVerifier();
+      const state = client.randomState();
+      const nonce = client.randomNonce();
+      req.session.oidc = { codeVerifier, state, nonce };
+      const url = client.buildAuthorizationUrl(config, {
+        redirect_uri: callbackUrl(req),
+        scope: "openid email profile",
+        code_challenge: await client.calculatePKCECodeChallenge(codeVerifier),
+        code_challenge_method: "S256",
+        state,
+        nonce,
+      });
+      req.session.save(() => res.redirect(url.href));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/auth/oidc/callback", async (req: any, res) => {
+    const checks = req.session.oidc;
+    delete req.session.oidc;
+    if (!checks) {
+      return res.redirect("/");
+    }
+    try {
+      const currentUrl = new URL(req.originalUrl, callbackUrl(req));
+      const tokens = await client.authorizationCodeGrant(config, currentUrl, {
+        pkceCodeVerifier: checks.codeVerifier,
+        expectedState: checks.state,
+        expectedNonce: checks.nonce,
+        idTokenExpected: true,
+      });
+      const claims = tokens.claims();
+      if (!claims) throw new Error("ID token missing from token response");
+      const user = await findOrCreateOidcUser(provider!.issuer, claims);
+      req.login({ claims: { sub: user.id } }, (error: any) => {
+        if (error) {
+          console.error("Error completing OIDC login:", error);
+          return res.redirect("/?login=failed");
+        }
+        res.redirect("/");
+      });
+    } catch (error) {
+      console.error("OIDC callback failed:", error);
+      res.redirect("/?login=failed");
+    }
+  });
+}
@@ -1,67 +1,263 @@
 /*
- * Session identification for the stand‑alone app (legacy module name).
+ * Authentication for the stand‑alone app (legacy module name).
  *
- * This file is not tied to any vendor. It issues an `sid` cookie, upserts a
- * lightweight user row, and sets `req.user` so game routes have a stable user
- * id. `isAuthenticated` passes all requests — replace with real auth for
- * production if you need login, SSO, or stricter checks.
+ * Server-side sessions (express-session) are stored in the `sessions` table
+ * when DATABASE_URL is set, in memory otherwise. Users sign in with a local
+ * email/password account (scrypt-hashed) or, when OIDC_* is configured, an
+ * external OpenID Connect provider (see `oidcAuth.ts`). Authenticated requests
+ * carry `req.user = { claims: { sub: <user id> } }`, the shape every route reads.
  */
 
 import type { Express, RequestHandler } from "express";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import type { User } from "@shared/schema";
 import { storage } from "./storage";
+import { getOidcProvider, setupOidc } from "./oidcAuth";
 
-function parseCookies(header: string | undefined): Record<string, string> {
-  const out: Record<string, string> = {};
-  if (!header) return out;
-  header.split(";").forEach((p) => {
-    const [k, ...rest] = p.trim().split("=");
-    if (!k) return;
-    out[k] = decodeURIComponent(rest.join("="));
-  });
-  return out;
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+// Stored as "<salt>.<hash>" (hex)
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(password, salt, 64);
+  return `${salt}.${hash.toString("hex")}`;
 }
 
-function buildSessionCookie(sid: string): string {
-  const parts = [
-    `sid=${encodeURIComponent(sid)}`,
-    "Path=/",
-    "HttpOnly",
-    "SameSite=Lax",
-  ];
-  if (process.env.NODE_ENV === "production") parts.push("Secure");
-  // 30 days
-  parts.push(`Max-Age=${30 * 24 * 60 * 60}`);
-  return parts.join("; ");
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hashHex] = stored.split(".");
+  if (!salt || !hashHex) return false;
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = await scryptAsync(password, salt, expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
 }
 
-/*
- * Attach a fake user object to every incoming request. In addition to
- * setting a static user identifier, this function ensures that a
- * corresponding user record exists in the in‑memory store by upserting
- * it once at startup. Without this step, calls to `/api/auth/user` would
- * return `undefined`, causing the frontend to remain on the landing page.
- */
+// Never send the password hash to the client
+export function toPublicUser(user: User) {
+  const { passwordHash: _passwordHash, ...publicUser } = user;
+  return publicUser;
+}
+
+async function getSessionStore(): Promise<session.Store> {
+  if (process.env.DATABASE_URL) {
+    const { pool } = await import("./db");
+    const PgStore = connectPg(session);
+    return new PgStore({
+      pool: pool as any,
+      tableName: "sessions",
+      createTableIfMissing: false,
+      ttl: SESSION_TTL_MS / 1000,
+    });
+  }
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  console.warn("SESSION_SECRET is not set; using a random secret (sessions end when the server restarts)");
+  return randomBytes(32).toString("hex");
+}
+
+const registerSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  password: z.string().min(8).max(200),
+  firstName: z.string().trim().max(100).optional(),
+  lastName: z.string().trim().max(100).optional(),
+});
+
 export async function setupAuth(app: Express) {
-  app.use(async (req: any, res: any, next: any) => {
-    const cookies = parseCookies(req.headers["cookie"] as string | undefined);
-    let sid = cookies["sid"];
-    if (!sid) {
-      sid = (globalThis.crypto ?? require("crypto")).randomUUID();
-      res.setHeader("Set-Cookie", buildSessionCookie(sid));
+  app.set("trust proxy", 1);
+  app.use(session({
+    secret: getSessionSecret(),
+    store: await getSessionStore(),
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_TTL_MS,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy({ usernameField: "email" }, async (email, password, done) => {
+    try {
+      const user = await storage.getUserByEmail(email.trim().toLowerCase());
+      if (!user?.passwordHash || !(await verifyPassword(password, user.passwordHash))) {
+        return done(null, false);
+      }
+      return done(null, { claims: { sub: user.id } });
+    } catch (error) {
+      return done(error);
+    }
+  }));
+
+  passport.serializeUser((user: any, done) => done(null, user.claims.sub));
+  // Validate the session against the users table on every request so deleted
+  // accounts are signed out
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ? { claims: { sub: user.id } } : false);
+    } catch (error) {
+      done(error);
     }
-    // Upsert a lightweight pseudo-user keyed by session id
-    const user = await storage.upsertUser({
-      email: `session:${sid}@local`,
-      firstName: "Session",
-      lastName: sid.slice(0, 8),
-      profileImageUrl: "",
-    } as any);
-    req.user = { claims: { sub: (user as any).id } };
-    next();
+  });
+
+  app.post("/api/auth/register", async (req: any, res, next) => {
+    try {
+      const { email, password, firstName, lastName } = registerSchema.parse(req.body);
+      if (await storage.getUserByEmail(email)) {
+        return res.status(409).json({ message: "An account with this email already exists" });
+      }
+      const user = await storage.createUser({
+        email,
+        firstName: firstName || null,
+        lastName: lastName || null,
+        passwordHash: await hashPassword(password),
+      } as any);
+      req.login({ claims: { sub: user.id } }, (error: any) => {
+        if (error) return next(error);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "A valid email and a password of at least 8 characters are required" });
+      }
+      console.error("Error registering user:", error);
+      res.status(500).json({ message: "Failed to register" });
+    }
+  });
+
+  app.post("/api/auth/login", (req: any, res, next) => {
+    passport.authenticate("local", (error: any, user: any) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid email or password" });
+      }
+      req.login(user, async (loginError: any) => {
+        if (loginError) return next(loginError);
+        const record = await storage.getUser(user.claims.sub);
+        res.json(record ? toPublicUser(record) : null);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req: any, res, next) => {
+    req.logout((error: any) => {
+      if (error) return next(error);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.json({ ok: true });
+      });
+    });
+  });
+
+  // Which sign-in options the landing page should offer
+  app.get("/api/auth/providers", (_req, res) => {
+    const oidc = getOidcProvider();
+    res.json({ local: true, oidc: oidc ? { name: oidc.name } : null });
+  });
+
+  await setupOidc(app);
+
+  // Browser entry points kept from the original template
+  app.get("/api/login", (_req, res) => {
+    res.redirect(getOidcProvider() ? "/api/auth/oidc/login" : "/");
+  });
+  app.get("/api/logout", (req: any, res) => {
+    req.logout(() => {
+      req.session.destroy(() => res.redirect("/"));
+    });
   });
 }
 
-// Authentication middleware that always passes (demo / single-tenant default).
-export const isAuthenticated: RequestHandler = (_req, _res, next) => {
-  return next();
-};
\ No newline at end of file
+export const isAuthenticated: RequestHandler = (req: any, res, next) => {
+  if (req.isAuthenticated?.() && req.user?.claims?.sub) {
+    return next();
+  }
+  return res.status(401).json({ message: "Unauthorized" });
+};
+// Instructor-only routes (cohort management and the teacher dashboard).
+export const isInstructor: RequestHandler = async (req: any, res, next) => {
+  try {
+    const user = await storage.getUser(req.user?.claims?.sub);
+    if ((user as any)?.role !== "instructor") {
+      return res.status(403).json({ message: "Instructor access required" });
+    }
+    return next();
+  } catch (error) {
+    return next(error);
+  }
+};
+
+// Put ahead of authorizeGame on the read-only (GET) routes behind a game's
+// final dashboard: the instructor of one of the owner's cohorts may then read
+// the game, and a classmate a completed game the owner has shared from the
+// leaderboard. Every other route stays owner-only.
+export const sharedGameView: RequestHandler = (req: any, _res, next) => {
+  req.allowSharedGameView = true;
+  next();
+};
+
+async function instructsOwner(gameSession: any, userId: string): Promise<boolean> {
+  const ownerCohorts = await storage.getUserCohorts(gameSession.userId);
+  return ownerCohorts.some((c) => c.instructorId === userId);
+}
+
+async function isSharedWithClassmate(gameSession: any, userId: string): Promise<boolean> {
+  if (!gameSession.isShared || !gameSession.isCompleted || gameSession.finalScore == null) return false;
+  const [ownerCohorts, viewerCohorts] = await Promise.all([
+    storage.getUserCohorts(gameSession.userId),
+    storage.getUserCohorts(userId),
+  ]);
+  const ownerCohortIds = new Set(ownerCohorts.map((c) => c.id));
+  return viewerCohorts.some((c) => ownerCohortIds.has(c.id));
+}
+
+// Resolves the game named by `:gameId` (or a `gameId` in the body or query
+// string) onto `req.gameSession`. Only the game's owner gets through, plus,
+// on sharedGameView routes, the owner's cohort instructors and classmates
+// (shared games): 401 without a session, 404 for an unknown game, 403
+// otherwise. Requests that name no game pass straight through.
+export const authorizeGame: RequestHandler = async (req: any, res, next) => {
+  try {
+    const gameId = req.params?.gameId ?? req.body?.gameId ?? req.query?.gameId;
+    if (gameId == null || gameId === "") {
+      return next();
+    }
+    const userId = req.isAuthenticated?.() ? req.user?.claims?.sub : undefined;
+    if (!userId) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    const gameSession = await storage.getGameSession(String(gameId));
+    if (!gameSession) {
+      return res.status(404).json({ message: "Game session not found" });
+    }
+    if (gameSession.userId !== userId) {
+      const canView = !!req.allowSharedGameView
+        && (await instructsOwner(gameSession, userId) || await isSharedWithClassmate(gameSession, userId));
+      if (!canView) {
+        return res.status(403).json({ message: "You do not have access to this game" });
+      }
+    }
+    req.gameSession = gameSession;
+    return next();
+  } catch (error) {
+    return next(error);
+  }
+};
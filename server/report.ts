@@ -0,0 +1,363 @@
+import PDFDocument from "pdfkit";
+import type { GameEngine } from "./gameEngine";
+import type { GameSession, OrdersLog, ProductKey, ProcurementContract, ProductionBatchPlan, ScoreBreakdown, ScoringRubric, WeeklyState } from "@shared/schema";
+
+// Printable season report for assessment: headline KPIs, the score breakdown,
+// the strategic choices, three charts from Analytics and a week-by-week log of
+// decisions. buildSeasonReport gathers the figures; renderSeasonReport draws
+// them with pdfkit's built-in fonts, so nothing leaves the server.
+
+const PRODUCTS: ProductKey[] = ['jacket', 'dress', 'pants'];
+const COST_KEYS = ['materials', 'production', 'logistics', 'marketing', 'holding', 'interest'] as const;
+
+export interface ReportWeek {
+  week: number;
+  phase: string;
+  cash: number;
+  credit: number;
+  revenue: number;
+  demand: number;
+  sales: number;
+  lostSales: number;
+  costs: Record<(typeof COST_KEYS)[number], number>;
+  marketingSpend: number;
+  // Mean markdown across products, 0..1
+  averageDiscount: number;
+  batchesStarted: string[];
+  materialsOrderedUnits: number;
+  materialsOrderedValue: number;
+}
+
+export interface SeasonReport {
+  scenarioName: string;
+  teamName: string | null;
+  // Game rules beyond the scenario (uncertain demand, own markdowns, backorders)
+  modes: string[];
+  kpis: Array<{ label: string; value: string }>;
+  scoreBreakdown: ScoreBreakdown;
+  products: Array<{ name: string; rrp: number | null; fabric: string; print: boolean }>;
+  contracts: Array<{ type: string; supplier: string; material: string; units: number; unitPrice: number }>;
+  production: { inhouseUnits: number; outsourceUnits: number; expeditedUnits: number };
+  weeks: ReportWeek[];
+}
+
+const num = (value: unknown): number => {
+  const n = Number(value ?? 0);
+  return Number.isFinite(n) ? n : 0;
+};
+
+const formatCurrency = (value: number) => new Intl.NumberFormat('en-GB', { style: 'currency', currency: 'GBP', maximumFractionDigits: 0 }).format(value);
+const formatNumber = (value: number) => new Intl.NumberFormat('en-GB', { maximumFractionDigits: 0 }).format(value);
+
+// selvedgeDenim -> Selvedge denim
+const humanize = (key: string) => {
+  const words = key.replace(/([a-z])([A-Z0-9])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+export function buildSeasonReport(
+  engine: typeof GameEngine,
+  options: { gameSession: GameSession; scenarioName: string; states: WeeklyState[]; ordersLog: OrdersLog[]; rubric?: ScoringRubric },
+): SeasonReport {
+  const { gameSession, scenarioName, ordersLog } = options;
+  const states = [...options.states].sort((a, b) => Number(a.weekNumber) - Number(b.weekNumber));
+  const committed = states.filter((w) => w.isCommitted);
+  const last = states[states.length - 1];
+  // A scored game reports under the rubric it was scored with
+  const scored = gameSession.scoreBreakdown as ScoreBreakdown | null;
+  const results = engine.calculateFinalResults(committed, scored?.rubric ?? options.rubric);
+  const breakdown = scored ?? results.scoreBreakdown;
+
+  const batches: ProductionBatchPlan[] = ((last?.productionSchedule as any)?.batches || []).filter((b: ProductionBatchPlan) => num(b.quantity) > 0);
+  const contracts: ProcurementContract[] = (last?.procurementContracts as any)?.contracts || [];
+  const liveOrders = ordersLog.filter((o) => !o.removedAt);
+
+  const weeks: ReportWeek[] = committed.map((w) => {
+    const week = Number(w.weekNumber);
+    const discounts = (w.weeklyDiscounts as any) || {};
+    const orders = liveOrders.filter((o) => Number(o.weekNumber) === week);
+    const sum = (byProduct: unknown) => PRODUCTS.reduce((s, p) => s + num((byProduct as any)?.[p]), 0);
+    return {
+      week,
+      phase: w.phase,
+      cash: num(w.cashOnHand),
+      credit: num(w.creditUsed),
+      revenue: num(w.weeklyRevenue),
+      demand: sum(w.weeklyDemand),
+      sales: sum(w.weeklySales),
+      lostSales: sum(w.lostSales),
+      costs: Object.fromEntries(COST_KEYS.map((k) => [k, num((w.costBreakdown as any)?.[k])])) as ReportWeek['costs'],
+      marketingSpend: num((w.marketingPlan as any)?.totalSpend ?? w.marketingSpend),
+      averageDiscount: PRODUCTS.reduce((s, p) => s + num(discounts[p]), 0) / PRODUCTS.length,
+      batchesStarted: batches
+        .filter((b) => Number(b.startWeek) === week)
+        .map((b) => `${humanize(b.product)} ${formatNumber(num(b.quantity))} ${b.method === 'outsource' ? 'outsourced' : 'in-house'}${b.shipping === 'expedited' ? ', expedited' : ''}`),
+      materialsOrderedUnits: orders.reduce((s, o) => s + num(o.quantity), 0),
+      materialsOrderedValue: orders.reduce((s, o) => s + num(o.effectiveLineTotal), 0),
+    };
+  });
+
+  const unitsSold = weeks.reduce((s, w) => s + w.sales, 0);
+  const modes = [
+    gameSession.demandSeed ? 'Uncertain demand' : null,
+    gameSession.runOutMode === 'automatic' ? 'Automatic clearance' : null,
+    gameSession.backorderMode ? 'Backorders' : null,
+    gameSession.marketId ? 'Multiplayer market' : null,
+  ].filter((m): m is string => !!m);
+
+  return {
+    scenarioName,
+    teamName: gameSession.teamName ?? null,
+    modes,
+    kpis: [
+      { label: 'Final score', value: formatCurrency(gameSession.finalScore != null ? num(gameSession.finalScore) : breakdown.total) },
+      { label: 'Service level (weeks 7-12)', value: `${results.serviceLevel.toFixed(1)}%` },
+      { label: 'Economic profit', value: formatCurrency(results.economicProfit) },
+      { label: 'Final cash', value: formatCurrency(results.finalCash) },
+      { label: 'Revenue', value: formatCurrency(results.totalRevenue) },
+      { label: 'Total costs', value: formatCurrency(results.totalCosts) },
+      { label: 'Units sold', value: formatNumber(unitsSold) },
+      { label: 'Dead stock penalty', value: formatCurrency(results.deadStockPenalty) },
+    ],
+    scoreBreakdown: breakdown,
+    products: PRODUCTS.map((p) => {
+      const decision = (last?.productData as any)?.[p] || {};
+      return {
+        name: (engine.constants.PRODUCTS as any)[p]?.name ?? humanize(p),
+        rrp: decision.rrp != null ? num(decision.rrp) : null,
+        fabric: decision.fabric ? humanize(decision.fabric) : 'Not chosen',
+        print: !!decision.hasPrint,
+      };
+    }),
+    contracts: contracts.map((c) => ({
+      type: c.type,
+      supplier: (engine.constants.SUPPLIERS as any)[c.supplier]?.name ?? c.supplier,
+      material: humanize(c.material),
+      units: num(c.units),
+      unitPrice: num(c.lockedUnitPrice ?? c.unitBasePrice),
+    })),
+    production: {
+      inhouseUnits: batches.filter((b) => b.method === 'inhouse').reduce((s, b) => s + num(b.quantity), 0),
+      outsourceUnits: batches.filter((b) => b.method === 'outsource').reduce((s, b) => s + num(b.quantity), 0),
+      expeditedUnits: batches.filter((b) => b.shipping === 'expedited').reduce((s, b) => s + num(b.quantity), 0),
+    },
+    weeks,
+  };
+}
+
+// ---- Rendering -------------------------------------------------------------
+
+type Doc = InstanceType<typeof PDFDocument>;
+
+const MARGIN = 50;
+const COLORS = ['#2563eb', '#dc2626', '#16a34a', '#9333ea', '#ea580c', '#0891b2'];
+
+function heading(doc: Doc, text: string) {
+  doc.moveDown(0.8).font('Helvetica-Bold').fontSize(13).fillColor('#111827').text(text, MARGIN);
+  doc.moveDown(0.3).font('Helvetica').fontSize(9).fillColor('#111827');
+}
+
+interface Column { header: string; width: number; align?: 'left' | 'right' }
+
+// Simple ruled table that starts a new page (repeating the header) when full
+function table(doc: Doc, columns: Column[], rows: string[][]) {
+  const drawRow = (cells: string[], bold: boolean) => {
+    const heights = cells.map((cell, i) => doc.heightOfString(cell, { width: columns[i].width - 6 }));
+    const rowHeight = Math.max(...heights) + 6;
+    if (doc.y + rowHeight > doc.page.height - MARGIN) {
+      doc.addPage();
+      if (!bold) drawRow(columns.map((c) => c.header), true);
+    }
+    const top = doc.y;
+    let x = MARGIN;
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(8.5);
+    cells.forEach((cell, i) => {
+      doc.text(cell, x + 3, top + 3, { width: columns[i].width - 6, align: columns[i].align ?? 'left' });
+      x += columns[i].width;
+    });
+    doc.moveTo(MARGIN, top + rowHeight).lineTo(x, top + rowHeight).lineWidth(0.5).strokeColor('#d1d5db').stroke();
+    doc.y = top + rowHeight;
+  };
+  drawRow(columns.map((c) => c.header), true);
+  rows.forEach((row) => drawRow(row, false));
+  doc.x = MARGIN;
+}
+
+interface ChartSeries { label: string; values: number[] }
+
+// Line, grouped-bar or stacked-bar chart by week, with a zero line and legend
+function chart(doc: Doc, title: string, kind: 'line' | 'bar' | 'stacked', weeks: number[], series: ChartSeries[], height = 170) {
+  const width = doc.page.width - 2 * MARGIN;
+  if (doc.y + height + 40 > doc.page.height - MARGIN) doc.addPage();
+  doc.font('Helvetica-Bold').fontSize(10).fillColor('#111827').text(title, MARGIN);
+  const top = doc.y + 4;
+  const plot = { x: MARGIN + 55, y: top, w: width - 55, h: height };
+
+  const totals = kind === 'stacked'
+    ? weeks.map((_, i) => series.reduce((s, se) => s + Math.max(0, se.values[i]), 0))
+    : series.flatMap((se) => se.values);
+  const max = Math.max(1, ...totals);
+  const min = kind === 'line' ? Math.min(0, ...totals) : 0;
+  const yFor = (v: number) => plot.y + plot.h - ((v - min) / (max - min)) * plot.h;
+  const slot = plot.w / Math.max(1, weeks.length);
+
+  // Axis labels and gridlines
+  doc.font('Helvetica').fontSize(7).fillColor('#6b7280');
+  for (let i = 0; i <= 4; i++) {
+    const v = min + ((max - min) * i) / 4;
+    const y = yFor(v);
+    doc.moveTo(plot.x, y).lineTo(plot.x + plot.w, y).lineWidth(0.3).strokeColor('#e5e7eb').stroke();
+    doc.text(formatCurrencyOrUnits(v, title), MARGIN, y - 4, { width: 50, align: 'right' });
+  }
+  weeks.forEach((w, i) => doc.text(String(w), plot.x + i * slot, plot.y + plot.h + 3, { width: slot, align: 'center' }));
+  if (min < 0) doc.moveTo(plot.x, yFor(0)).lineTo(plot.x + plot.w, yFor(0)).lineWidth(0.6).strokeColor('#9ca3af').stroke();
+
+  series.forEach((se, s) => {
+    const color = COLORS[s % COLORS.length];
+    if (kind === 'line') {
+      se.values.forEach((v, i) => {
+        const x = plot.x + (i + 0.5) * slot;
+        if (i === 0) doc.moveTo(x, yFor(v)); else doc.lineTo(x, yFor(v));
+      });
+      doc.lineWidth(1.5).strokeColor(color).stroke();
+    } else if (kind === 'bar') {
+      const barWidth = (slot * 0.8) / series.length;
+      se.values.forEach((v, i) => {
+        const x = plot.x + i * slot + slot * 0.1 + s * barWidth;
+        doc.rect(x, yFor(v), barWidth, yFor(0) - yFor(v)).fillColor(color).fill();
+      });
+    } else {
+      se.values.forEach((v, i) => {
+        const below = series.slice(0, s).reduce((sum, prev) => sum + Math.max(0, prev.values[i]), 0);
+        const x = plot.x + i * slot + slot * 0.15;
+        doc.rect(x, yFor(below + Math.max(0, v)), slot * 0.7, yFor(below) - yFor(below + Math.max(0, v))).fillColor(color).fill();
+      });
+    }
+  });
+
+  // Legend
+  let x = plot.x;
+  const legendY = plot.y + plot.h + 14;
+  doc.fontSize(7.5);
+  series.forEach((se, s) => {
+    doc.rect(x, legendY + 1, 8, 6).fillColor(COLORS[s % COLORS.length]).fill();
+    doc.fillColor('#374151').text(se.label, x + 11, legendY, { lineBreak: false });
+    x += 16 + doc.widthOfString(se.label);
+  });
+  doc.fillColor('#111827');
+  doc.y = legendY + 18;
+  doc.x = MARGIN;
+}
+
+// Unit charts are labelled in units, money charts in pounds
+const formatCurrencyOrUnits = (v: number, title: string) => {
+  const compact = Math.abs(v) >= 1_000_000 ? `${(v / 1_000_000).toFixed(1)}m` : Math.abs(v) >= 1_000 ? `${Math.round(v / 1_000)}k` : `${Math.round(v)}`;
+  return /units/i.test(title) ? compact : `£${compact}`.replace('£-', '-£');
+};
+
+/** The report as a PDF (A4). */
+export function renderSeasonReport(report: SeasonReport): Promise<Buffer> {
+  const doc = new PDFDocument({ size: 'A4', margin: MARGIN, info: { Title: `Season report: ${report.scenarioName}` } });
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+  const contentWidth = doc.page.width - 2 * MARGIN;
+
+  doc.font('Helvetica-Bold').fontSize(18).fillColor('#111827').text('Season report');
+  doc.font('Helvetica').fontSize(10).fillColor('#4b5563')
+    .text([report.scenarioName, report.teamName ? `Team ${report.teamName}` : null, ...report.modes].filter(Boolean).join(' | '))
+    .text(`Generated ${new Date().toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' })}`);
+
+  // Headline KPIs: two rows of four
+  heading(doc, 'Headline results');
+  const cardWidth = contentWidth / 4;
+  const gridTop = doc.y;
+  report.kpis.forEach((kpi, i) => {
+    const x = MARGIN + (i % 4) * cardWidth;
+    const y = gridTop + Math.floor(i / 4) * 38;
+    doc.font('Helvetica').fontSize(8).fillColor('#6b7280').text(kpi.label, x, y, { width: cardWidth - 8 });
+    doc.font('Helvetica-Bold').fontSize(13).fillColor('#111827').text(kpi.value, x, y + 12, { width: cardWidth - 8 });
+  });
+  doc.y = gridTop + Math.ceil(report.kpis.length / 4) * 38;
+  doc.x = MARGIN;
+
+  heading(doc, 'Final score breakdown');
+  table(doc, [
+    { header: 'Component', width: 260 },
+    { header: 'Measure', width: 120, align: 'right' },
+    { header: 'Points', width: contentWidth - 380, align: 'right' },
+  ], [
+    ...report.scoreBreakdown.components.map((c) => [
+      c.label,
+      c.key === 'service_level' ? `${c.value.toFixed(1)}%` : c.key === 'late_launch' ? `${c.value} product-weeks` : formatCurrency(c.value),
+      formatCurrency(c.points),
+    ]),
+    ['Final score', '', formatCurrency(report.scoreBreakdown.total)],
+  ]);
+
+  heading(doc, 'Strategic choices');
+  table(doc, [
+    { header: 'Product', width: 180 },
+    { header: 'RRP', width: 80, align: 'right' },
+    { header: 'Fabric', width: 160 },
+    { header: 'Print', width: contentWidth - 420 },
+  ], report.products.map((p) => [p.name, p.rrp != null ? `£${p.rrp.toFixed(2)}` : 'Not set', p.fabric, p.print ? 'Yes' : 'No']));
+  doc.moveDown(0.6);
+  if (report.contracts.length > 0) {
+    table(doc, [
+      { header: 'Contract', width: 60 },
+      { header: 'Supplier', width: 150 },
+      { header: 'Material', width: 130 },
+      { header: 'Units', width: 85, align: 'right' },
+      { header: 'Unit price', width: contentWidth - 425, align: 'right' },
+    ], report.contracts.map((c) => [c.type, c.supplier, c.material, formatNumber(c.units), `£${c.unitPrice.toFixed(2)}`]));
+  }
+  const { inhouseUnits, outsourceUnits, expeditedUnits } = report.production;
+  const produced = inhouseUnits + outsourceUnits;
+  doc.moveDown(0.6).font('Helvetica').fontSize(9).text(
+    `Production: ${formatNumber(produced)} units scheduled, ${formatNumber(inhouseUnits)} in-house and ${formatNumber(outsourceUnits)} outsourced; `
+    + `${produced > 0 ? Math.round((expeditedUnits / produced) * 100) : 0}% shipped expedited.`,
+    MARGIN,
+  );
+
+  doc.addPage();
+  heading(doc, 'Season charts');
+  const weekNumbers = report.weeks.map((w) => w.week);
+  chart(doc, 'Cash and credit (£)', 'line', weekNumbers, [
+    { label: 'Cash on hand', values: report.weeks.map((w) => w.cash) },
+    { label: 'Credit used', values: report.weeks.map((w) => w.credit) },
+  ]);
+  chart(doc, 'Demand vs sales (units)', 'bar', weekNumbers, [
+    { label: 'Demand', values: report.weeks.map((w) => w.demand) },
+    { label: 'Units sold', values: report.weeks.map((w) => w.sales) },
+    { label: 'Lost sales', values: report.weeks.map((w) => w.lostSales) },
+  ]);
+  chart(doc, 'Cost structure by week (£)', 'stacked', weekNumbers,
+    COST_KEYS.map((k) => ({ label: humanize(k), values: report.weeks.map((w) => w.costs[k]) })));
+
+  doc.addPage();
+  heading(doc, 'Week-by-week decision log');
+  table(doc, [
+    { header: 'Week', width: 34, align: 'right' },
+    { header: 'Marketing', width: 62, align: 'right' },
+    { header: 'Markdown', width: 48, align: 'right' },
+    { header: 'Production started', width: 150 },
+    { header: 'Materials ordered', width: 85, align: 'right' },
+    { header: 'Revenue', width: 58, align: 'right' },
+    { header: 'Cash', width: contentWidth - 437, align: 'right' },
+  ], report.weeks.map((w) => [
+    String(w.week),
+    formatCurrency(w.marketingSpend),
+    `${Math.round(w.averageDiscount * 100)}%`,
+    w.batchesStarted.join('\n') || '-',
+    w.materialsOrderedUnits > 0 ? `${formatNumber(w.materialsOrderedUnits)} (${formatCurrency(w.materialsOrderedValue)})` : '-',
+    formatCurrency(w.revenue),
+    formatCurrency(w.cash),
+  ]));
+
+  doc.end();
+  return done;
+}
@@ -1,12 +1,16 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { db } from "./db";
-import { ordersLog as ordersLogTable, cashLedger as cashLedgerTable } from "@shared/schema";
-import { and, eq, inArray } from "drizzle-orm";
-import { setupAuth, isAuthenticated } from "./replitAuth";
-import { GameEngine, GAME_CONSTANTS } from "./gameEngine";
-import { insertGameSessionSchema, insertWeeklyStateSchema } from "@shared/schema";
+import { storage, type IStorage } from "./storage";
+import { setupAuth, isAuthenticated, isInstructor, authorizeGame, sharedGameView, toPublicUser } from "./replitAuth";
+import { createHash, randomBytes, randomInt, timingSafeEqual } from "crypto";
+import { GameEngine, type CommitWeekOptions, type GameRuleOptions, type LedgerEntryDraft } from "./gameEngine";
+import { DEFAULT_SCENARIO_ID, getScenario, getScenarioEngine, hasScenario, listScenarios } from "./scenarios";
+import { generateDebrief } from "./debrief";
+import { buildSeasonReport, renderSeasonReport } from "./report";
+import { buildExportDatasets, EXPORT_DATASETS, toCsv, toXlsx, type ExportDatasetKey } from "./exports";
+import { buildLeaderboard, LEADERBOARD_SORTS, type LeaderboardSort } from "./leaderboard";
+import { withRubricOverrides } from "./scoring";
+import { insertGameSessionSchema, insertWeeklyStateSchema, type Cohort, type GameSession, type MarketFallback, type ScoreBreakdown, type ScoringRubric, type WeeklyState } from "@shared/schema";
 import { z } from "zod";
 
 function sanitizeForPersistence<T>(value: T): T {
@@ -18,6 +22,372 @@ function sanitizeForPersistence<T>(value: T): T {
   }));
 }
 
+// Single batch insert for a committed week's ledger. Runs inside the commit's
+// transaction, so a failure rolls back the whole week rather than leaving the
+// ledger out of step with the committed state.
+async function writeCashLedger(store: IStorage, gameSessionId: string, week: number, ledger: LedgerEntryDraft[]): Promise<void> {
+  if (ledger.length === 0) return;
+  try {
+    const rows = ledger.map((e, i) => ({
+      id: `${gameSessionId}-${(e.weekNumber ?? week)}-${e.type}-${Date.now()}-${i}-${Math.random().toString(36).slice(2, 8)}`,
+      gameSessionId,
+      weekNumber: (e.weekNumber ?? week),
+      entryType: e.type,
+      refId: e.refId || null,
+      amount: Number(e.amount || 0).toFixed(2),
+      committedWeek: week,
+    }));
+    await store.createCashLedgerEntries(rows);
+  } catch (error) {
+    console.error('Failed to write cash ledger entries', { week, gameSessionId, count: ledger.length, error });
+    throw error;
+  }
+}
+
+// Engine and constants bound to the scenario the game session was started with
+function getGameScenario(gameSession?: GameSession | null) {
+  const engine = getScenarioEngine(gameSession?.scenarioId);
+  return { engine, constants: engine.constants };
+}
+
+// Clamp planned marketing to liquidity (as commitWeek will) on a copy and
+// validate the decisions the commit runs with
+function clampAndValidate(engine: typeof GameEngine, gameSession: GameSession, weeklyState: WeeklyState) {
+  const stateForCommit = JSON.parse(JSON.stringify(weeklyState)) as any;
+  engine.clampPlannedMarketingToLiquidity(stateForCommit);
+  const validation = engine.validateWeeklyDecisions(Number(weeklyState.weekNumber), stateForCommit, gameSession);
+  return { stateForCommit, validation };
+}
+
+// clampAndValidate, saving the trimmed plan when the decisions pass
+async function prepareWeekForCommit(store: IStorage, engine: typeof GameEngine, gameSession: GameSession, weeklyState: WeeklyState) {
+  const { stateForCommit, validation } = clampAndValidate(engine, gameSession, weeklyState);
+  if (validation.canCommit) {
+    const prevPlan = JSON.stringify((weeklyState as any).plannedMarketingPlan ?? null);
+    const nextPlan = JSON.stringify(stateForCommit.plannedMarketingPlan ?? null);
+    if (prevPlan !== nextPlan) {
+      await store.updateWeeklyState(weeklyState.id, {
+        plannedMarketingPlan: stateForCommit.plannedMarketingPlan,
+      } as any);
+    }
+  }
+  return { stateForCommit, validation };
+}
+
+// clampAndValidate for a market week, which resolves whether or not a team's
+// saved plan passes: a failing plan loses the batches its errors point at and,
+// if it still cannot pay, next week's planned marketing. The fallback records
+// what was dropped; null when the plan passed as saved.
+function prepareMarketWeekForCommit(engine: typeof GameEngine, gameSession: GameSession, weeklyState: WeeklyState) {
+  const { stateForCommit, validation } = clampAndValidate(engine, gameSession, weeklyState);
+  if (validation.canCommit) return { stateForCommit, fallback: null };
+
+  const week = Number(weeklyState.weekNumber);
+  // Batches already started are work in progress and stay
+  const invalidBatchIds = new Set(validation.errors.map(e => e.batchId).filter((id): id is string => !!id));
+  const batches: any[] = stateForCommit.productionSchedule?.batches || [];
+  const droppedBatchIds = batches
+    .filter(b => invalidBatchIds.has(String(b.id)) && Number(b.startWeek) >= week)
+    .map(b => String(b.id));
+  if (droppedBatchIds.length > 0) {
+    stateForCommit.productionSchedule = {
+      ...stateForCommit.productionSchedule,
+      batches: batches.filter(b => !droppedBatchIds.includes(String(b.id))),
+    };
+  }
+
+  const plan = stateForCommit.plannedMarketingPlan;
+  const stillShort = engine.validateWeeklyDecisions(week, stateForCommit, gameSession).errors.some(e => e.code === 'inadequate_cash');
+  const droppedPlannedMarketing = stillShort && Number(plan?.totalSpend || 0) > 0;
+  if (droppedPlannedMarketing) {
+    stateForCommit.plannedMarketingPlan = {
+      ...plan,
+      totalSpend: 0,
+      channels: Array.isArray(plan.channels) ? plan.channels.map((ch: any) => ({ ...ch, spend: 0 })) : plan.channels,
+    };
+  }
+
+  const fallback: MarketFallback = {
+    gameSessionId: gameSession.id,
+    weekNumber: week,
+    errors: validation.errors.map(e => e.message),
+    droppedBatchIds,
+    droppedPlannedMarketing,
+  };
+  return { stateForCommit, fallback };
+}
+
+// Persist a week computed by engine.commitWeek: ledger entries, the committed
+// row, final results after week 15, and the next week's opening state. Pass
+// the transaction's storage so the week lands as a whole or not at all.
+async function persistCommittedWeek(
+  store: IStorage,
+  engine: typeof GameEngine,
+  gameId: string,
+  weeklyState: WeeklyState,
+  stateForCommit: any,
+  computed: any,
+): Promise<WeeklyState> {
+  const week = Number(weeklyState.weekNumber);
+  await writeCashLedger(store, gameId, week, computed.ledgerEntries || []);
+  // Preserve Orders Log (materialPurchases) in the committed week
+  computed.materialPurchases = (weeklyState as any).materialPurchases || [];
+  // submittedAt stays as stored (the clone holds it as a string)
+  const { ledgerEntries, createdAt: _ca, updatedAt: _ua, submittedAt: _sa, ...toPersist } = computed;
+  // Coerce numeric types expected by DB
+  // Persist A/I as decimals, not integers
+  toPersist.awareness = Number(toPersist.awareness ?? 0).toFixed(2);
+  toPersist.intent = Number(toPersist.intent ?? 0).toFixed(2);
+  // Keep the uncommitted row (with the trimmed plan) so a rewind can restore it
+  const { id: _id, createdAt: _sc, updatedAt: _su, preCommitSnapshot: _ps, ...snapshot } = (weeklyState as any);
+  toPersist.preCommitSnapshot = { ...snapshot, plannedMarketingPlan: stateForCommit.plannedMarketingPlan, isCommitted: false };
+  const committedState = await store.updateWeeklyState(weeklyState.id, sanitizeForPersistence(toPersist) as any);
+  await store.commitWeeklyState(weeklyState.id);
+
+  // If this is week 15, mark game as completed and score it under the game's rubric
+  if (week === 15) {
+    const allStates = await store.getAllWeeklyStates(gameId);
+    const gameSession = await store.getGameSession(gameId);
+    const rubric = gameSession ? await getScoringRubric(store, gameSession) : engine.constants.SCORING;
+    const results = engine.calculateFinalResults(allStates, rubric);
+    await store.updateGameSession(gameId, {
+      isCompleted: true,
+      finalServiceLevel: results.serviceLevel.toString(),
+      finalCash: committedState.cashOnHand,
+      finalEconomicProfit: results.economicProfit.toString(),
+      finalScore: results.finalScore.toString(),
+      scoreBreakdown: sanitizeForPersistence(results.scoreBreakdown),
+    });
+  }
+
+  // Create next week's opening state from the committed week if not final week
+  if (week < 15) {
+    const nextWeekState = engine.advanceWeek(computed, weeklyState);
+    await store.createWeeklyState(sanitizeForPersistence(nextWeekState));
+  }
+  return committedState;
+}
+
+// ------------------------------------------------------------------
+// Multiplayer markets: each team plays its own game, but demand for each
+// product is one pool split between the teams (GameEngine.splitMarketDemand),
+// so a week can only resolve once every team has submitted its decisions or
+// the week's deadline has passed.
+// ------------------------------------------------------------------
+
+// Resolutions of one market run one at a time within this process; the
+// market row lock in resolveMarketWeek covers other app instances
+const marketQueues = new Map<string, Promise<unknown>>();
+function withMarketLock<T>(marketId: string, fn: () => Promise<T>): Promise<T> {
+  const previous = marketQueues.get(marketId) ?? Promise.resolve();
+  const run = previous.catch(() => undefined).then(fn);
+  marketQueues.set(marketId, run);
+  run.finally(() => {
+    if (marketQueues.get(marketId) === run) marketQueues.delete(marketId);
+  }).catch(() => undefined);
+  return run;
+}
+
+// Resolve the market's current week when every team has submitted, the
+// deadline has passed, or `force` is set (instructor). Teams that have not
+// submitted are committed with their saved decisions, all in one transaction;
+// a plan that fails validation commits with a fallback (see
+// prepareMarketWeekForCommit), recorded on the market.
+// Returns whether the week advanced.
+function resolveMarketWeek(marketId: string, force = false): Promise<boolean> {
+  return withMarketLock(marketId, () => storage.transaction(async (tx) => {
+    // Held until the week is resolved: a second resolver then sees the new week
+    const market = await tx.getMarketForUpdate(marketId);
+    if (!market || market.status !== 'running') return false;
+    const week = market.currentWeek;
+    const teams = (await tx.getMarketGameSessions(marketId)).filter(s => !s.isCompleted);
+    const states = await Promise.all(teams.map(s => tx.getWeeklyStateForUpdate(s.id, week)));
+    const deadlinePassed = !!market.weekDeadlineAt && new Date(market.weekDeadlineAt).getTime() <= Date.now();
+    const allSubmitted = states.every(w => w?.submittedAt);
+    if (!allSubmitted && !deadlinePassed && !force) return false;
+
+    // Each team's standalone demand (its own price, design and marketing),
+    // then one pool per product split between the teams
+    const engine = getScenarioEngine(market.scenarioId);
+    const playing = teams
+      .map((gameSession, i) => ({ gameSession, weeklyState: states[i] }))
+      .filter((t): t is { gameSession: GameSession; weeklyState: WeeklyState } => !!t.weeklyState && !t.weeklyState.isCommitted);
+    // Another resolver already committed this week
+    if (playing.length === 0) return false;
+    const checked = playing.map(({ gameSession, weeklyState }) => prepareMarketWeekForCommit(engine, gameSession, weeklyState));
+    const prepared = checked.map(c => c.stateForCommit);
+    const weekFallbacks = checked.map(c => c.fallback).filter((f): f is MarketFallback => !!f);
+    const standalone = await Promise.all(prepared.map(async (state, i) => {
+      const dryRun = await engine.commitWeek(JSON.parse(JSON.stringify(state)), gameRules(playing[i].gameSession));
+      return (dryRun as any).weeklyDemand || {};
+    }));
+    const productKeys = Object.keys(engine.constants.PRODUCTS) as Array<keyof typeof engine.constants.PRODUCTS>;
+    const marketDemand: CommitWeekOptions['marketDemand'][] = prepared.map(() => ({}));
+    for (const p of productKeys) {
+      const shares = engine.splitMarketDemand(standalone.map(d => Number(d[p] || 0)));
+      shares.forEach((units, i) => { marketDemand[i]![p] = units; });
+    }
+
+    for (let i = 0; i < playing.length; i++) {
+      const { gameSession, weeklyState } = playing[i];
+      const computed = await engine.commitWeek(prepared[i], { marketDemand: marketDemand[i], ...gameRules(gameSession) });
+      await persistCommittedWeek(tx, engine, gameSession.id, weeklyState, prepared[i], computed);
+    }
+
+    if (week >= 15) {
+      await tx.updateMarket(marketId, { status: 'completed', weekDeadlineAt: null, weekFallbacks });
+    } else {
+      await tx.updateMarket(marketId, {
+        currentWeek: week + 1,
+        weekFallbacks,
+        weekDeadlineAt: new Date(Date.now() + market.weekDeadlineHours * 60 * 60 * 1000),
+      });
+    }
+    return true;
+  }));
+}
+
+// Market summary with each team's submission for the current week
+async function getMarketStatus(marketId: string) {
+  const market = await storage.getMarket(marketId);
+  if (!market) return null;
+  const teams = await storage.getMarketGameSessions(marketId);
+  const fallbacks = (market.weekFallbacks as MarketFallback[] | null) || [];
+  const teamRows = await Promise.all(teams.map(async (gameSession) => {
+    const weeklyState = market.status === 'running'
+      ? await storage.getWeeklyState(gameSession.id, market.currentWeek)
+      : undefined;
+    return {
+      gameSessionId: gameSession.id,
+      userId: gameSession.userId,
+      teamName: gameSession.teamName,
+      submitted: !!weeklyState?.submittedAt || !!weeklyState?.isCommitted,
+      isCompleted: !!gameSession.isCompleted,
+      finalScore: gameSession.finalScore != null ? Number(gameSession.finalScore) : null,
+      // Set when the team's plan failed validation as the last week resolved
+      fallback: fallbacks.find(f => f.gameSessionId === gameSession.id) ?? null,
+    };
+  }));
+  return { ...market, scenarioName: getScenario(market.scenarioId).name, teams: teamRows };
+}
+
+// Rewinds left for a game: the strictest limit among the player's cohorts,
+// else the scenario default (none for market games)
+async function getRewindAllowance(store: IStorage, gameSession: GameSession) {
+  // Market weeks resolve for every team at once, so they cannot be replayed
+  if (gameSession.marketId) {
+    return { limit: 0, used: 0, remaining: 0 };
+  }
+  const cohortLimits = (await store.getUserCohorts(gameSession.userId))
+    .map(c => c.maxRewinds)
+    .filter((n): n is number => n != null);
+  const limit = cohortLimits.length > 0
+    ? Math.min(...cohortLimits)
+    : Number(getScenarioEngine(gameSession.scenarioId).constants.REWIND.MAX_REWINDS || 0);
+  const used = Number(gameSession.rewindCount || 0);
+  return { limit, used, remaining: Math.max(0, limit - used) };
+}
+
+// Scoring rubric for a game: the scenario's SCORING with the overrides of the
+// market's cohort for market games, else of the earliest-joined of the
+// player's cohorts that sets any (getUserCohorts is in join order), so joining
+// another class later does not change how a game is scored. A completed game
+// keeps the rubric it was scored with, whatever its cohort has set since.
+async function getScoringRubric(store: IStorage, gameSession: GameSession): Promise<ScoringRubric> {
+  const scoredWith = (gameSession.scoreBreakdown as ScoreBreakdown | null)?.rubric;
+  if (gameSession.isCompleted && scoredWith) return scoredWith;
+  const base = getScenarioEngine(gameSession.scenarioId).constants.SCORING;
+  const market = gameSession.marketId ? await store.getMarket(gameSession.marketId) : undefined;
+  const cohorts = market
+    ? [await store.getCohort(market.cohortId)]
+    : await store.getUserCohorts(gameSession.userId);
+  const overrides = cohorts.find((c) => c?.scoring != null)?.scoring as Partial<ScoringRubric> | undefined;
+  return withRubricOverrides(base, overrides);
+}
+
+// The per-game rules every commit, dry run and projection of a game runs under
+function gameRules(gameSession: GameSession): GameRuleOptions {
+  return { runOutMode: gameSession.runOutMode, backorders: !!gameSession.backorderMode };
+}
+
+// Copy a game into a new sandbox session for the same player: every week so
+// far, the cash ledger and the Orders Log. Uncertain-demand games get a fresh
+// seed: with the real game's seed, playing ahead in a sandbox would reveal the
+// real game's future demand draws.
+async function forkSandbox(store: IStorage, source: GameSession, forkWeek: number): Promise<GameSession> {
+  const sandbox = await store.createGameSession({
+    userId: source.userId,
+    scenarioId: source.scenarioId,
+    demandSeed: source.demandSeed ? randomBytes(8).toString("hex") : null,
+    runOutMode: source.runOutMode,
+    backorderMode: source.backorderMode,
+    sandboxOf: source.id,
+    sandboxForkWeek: forkWeek,
+    isCompleted: false,
+  });
+  for (const { id: _id, createdAt: _c, updatedAt: _u, ...week } of await store.getAllWeeklyStates(source.id)) {
+    await store.createWeeklyState({ ...week, gameSessionId: sandbox.id } as any);
+  }
+  const ledger = await store.getCashLedgerEntries(source.id);
+  await store.createCashLedgerEntries(ledger.map(({ createdAt: _c, ...row }) => ({
+    ...row,
+    id: `${sandbox.id}:${row.id}`,
+    gameSessionId: sandbox.id,
+  })));
+  for (const { createdAt: _c, ...order } of await store.getOrdersLogEntries(source.id)) {
+    await store.createOrdersLogEntry({ ...order, id: `${sandbox.id}:${order.id}`, gameSessionId: sandbox.id });
+  }
+  return sandbox;
+}
+
+// Headline progress for comparing a game with its sandboxes
+function gameProgress(gameSession: GameSession, states: WeeklyState[]) {
+  const latest = states[states.length - 1];
+  const committed = states.filter(w => w.isCommitted);
+  const total = (key: 'weeklySales' | 'lostSales') => committed.reduce((sum, w) => (
+    sum + Object.values((w[key] || {}) as Record<string, number>).reduce((s, v) => s + Number(v || 0), 0)
+  ), 0);
+  return {
+    currentWeek: latest ? Number(latest.weekNumber) : null,
+    isCompleted: !!gameSession.isCompleted,
+    cash: latest ? Number(latest.cashOnHand || 0) : null,
+    creditUsed: latest ? Number(latest.creditUsed || 0) : null,
+    revenueToDate: committed.reduce((sum, w) => sum + Number(w.weeklyRevenue || 0), 0),
+    unitsSold: total('weeklySales'),
+    lostSales: total('lostSales'),
+    serviceLevel: committed.some(w => w.weekNumber >= 7) ? GameEngine.calculateServiceLevel(committed) : null,
+    finalScore: gameSession.finalScore != null ? Number(gameSession.finalScore) : null,
+  };
+}
+
+// Whether a member's completed game belongs on a cohort's leaderboard: games
+// in the cohort's own markets, and solo games started after the member joined
+// or scored under the cohort's own rubric. Games from before joining, from
+// another cohort's market or scored under another cohort's rubric stay off.
+function scoredInCohort(cohort: Cohort, joinedAt: Date | null, gameSession: GameSession, marketCohortId: string | undefined): boolean {
+  if (gameSession.marketId) return marketCohortId === cohort.id;
+  if (joinedAt && gameSession.createdAt && new Date(gameSession.createdAt) >= new Date(joinedAt)) return true;
+  const scoredWith = (gameSession.scoreBreakdown as ScoreBreakdown | null)?.rubric;
+  if (cohort.scoring == null || !scoredWith) return false;
+  const cohortRubric = withRubricOverrides(getScenarioEngine(gameSession.scenarioId).constants.SCORING, cohort.scoring as Partial<ScoringRubric>);
+  return (Object.keys(cohortRubric) as Array<keyof ScoringRubric>).every(key => scoredWith[key] === cohortRubric[key]);
+}
+
+// Constant-time check of the instructor access code; hashing first gives both
+// sides the same length, so the comparison does not leak the code's length
+function accessCodeMatches(given: string, expected: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(given), digest(expected));
+}
+
+// Join codes avoid look-alike characters (0/O, 1/I/L) so they survive being read out in class
+const JOIN_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+function generateJoinCode(length = 6): string {
+  let code = "";
+  for (let i = 0; i < length; i++) code += JOIN_CODE_ALPHABET[randomInt(JOIN_CODE_ALPHABET.length)];
+  return code;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
@@ -27,7 +397,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
-      res.json(user);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      res.json(toPublicUser(user));
     } catch (error) {
       console.error("Error fetching user:", error);
       res.status(500).json({ message: "Failed to fetch user" });
@@ -38,21 +411,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/game/start', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      
-      // Check if user has an active game
-      const existingGame = await storage.getUserActiveGameSession(userId);
-      if (existingGame) {
-        return res.status(400).json({ message: "User already has an active game session" });
+
+      // Games already in progress stay open; the new game becomes the current one
+      const scenarioId = String(req.body?.scenarioId || DEFAULT_SCENARIO_ID);
+      if (!hasScenario(scenarioId)) {
+        return res.status(400).json({ message: `Unknown scenario: ${scenarioId}` });
       }
-      
+      // Uncertain demand: a given seed replays someone else's demand draws,
+      // otherwise the game gets a fresh one. runOutMode 'automatic' clears
+      // stock at fixed week 13-15 markdowns instead of the player's own;
+      // backorders lets part of unmet demand wait for stock.
+      const seedMessage = "Demand seed must be 1 to 64 characters";
+      const { uncertainDemand, demandSeed, runOutMode, backorders } = z.object({
+        uncertainDemand: z.boolean().optional(),
+        demandSeed: z.string().trim().min(1, seedMessage).max(64, seedMessage).optional(),
+        runOutMode: z.enum(['automatic', 'player'], { message: "Run-out mode must be 'automatic' or 'player'" }).optional(),
+        backorders: z.boolean().optional(),
+      }).parse(req.body ?? {});
+
       // Create new game session
       const gameSession = await storage.createGameSession({
         userId,
+        scenarioId,
+        demandSeed: demandSeed ?? (uncertainDemand ? randomBytes(8).toString("hex") : null),
+        runOutMode: runOutMode ?? 'player',
+        backorderMode: backorders ?? false,
         isCompleted: false,
       });
       
       // Create initial weekly state
-      const initialState = GameEngine.initializeNewGame(userId);
+      const initialState = getScenarioEngine(scenarioId).initializeNewGame(userId);
       await storage.createWeeklyState({
         gameSessionId: gameSession.id,
         ...initialState,
@@ -60,6 +448,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.json(gameSession);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.issues[0]?.message || "Invalid game options" });
+      }
       console.error("Error starting game:", error);
       res.status(500).json({ message: "Failed to start game" });
     }
@@ -98,15 +489,183 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // All of the user's games, newest first, with progress and final KPIs
+  app.get('/api/games', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const [sessions, active] = await Promise.all([
+        storage.getUserGameSessions(userId),
+        storage.getUserActiveGameSession(userId),
+      ]);
+      const games = await Promise.all(sessions.map(async (gameSession) => {
+        const latest = await storage.getLatestWeeklyState(gameSession.id);
+        const hasFinalResults = gameSession.finalScore != null;
+        return {
+          id: gameSession.id,
+          scenarioId: gameSession.scenarioId,
+          scenarioName: getScenario(gameSession.scenarioId).name,
+          // Restarted games are completed without final results
+          status: !gameSession.isCompleted ? 'in_progress' : hasFinalResults ? 'completed' : 'abandoned',
+          // Playing one of its sandboxes still counts as the current game
+          isCurrent: gameSession.id === (active?.sandboxOf ?? active?.id),
+          currentWeek: latest ? Number(latest.weekNumber) : null,
+          cash: latest ? Number(latest.cashOnHand) : null,
+          finalScore: hasFinalResults ? Number(gameSession.finalScore) : null,
+          finalCash: gameSession.finalCash != null ? Number(gameSession.finalCash) : null,
+          finalServiceLevel: gameSession.finalServiceLevel != null ? Number(gameSession.finalServiceLevel) : null,
+          finalEconomicProfit: gameSession.finalEconomicProfit != null ? Number(gameSession.finalEconomicProfit) : null,
+          rewindsUsed: Number(gameSession.rewindCount || 0),
+          uncertainDemand: !!gameSession.demandSeed,
+          runOutMode: gameSession.runOutMode,
+          backorderMode: !!gameSession.backorderMode,
+          marketId: gameSession.marketId ?? null,
+          teamName: gameSession.teamName ?? null,
+          isShared: !!gameSession.isShared,
+          createdAt: gameSession.createdAt,
+          updatedAt: gameSession.updatedAt,
+        };
+      }));
+      res.json(games);
+    } catch (error) {
+      console.error("Error listing games:", error);
+      res.status(500).json({ message: "Failed to list games" });
+    }
+  });
+
+  // Make an in-progress game the current one (served by /api/game/current)
+  app.post('/api/game/:gameId/resume', isAuthenticated, authorizeGame, async (req: any, res) => {
+    try {
+      const gameSession: GameSession = req.gameSession;
+      // Instructors may view a student's game but not make it their current one
+      if (gameSession.userId !== req.user.claims.sub) {
+        return res.status(403).json({ message: "Only the player can resume this game" });
+      }
+      if (gameSession.isCompleted) {
+        return res.status(400).json({ message: "Completed games can only be viewed" });
+      }
+      // Touching updatedAt is what marks the game as the most recently resumed
+      const resumed = await storage.updateGameSession(gameSession.id, {});
+      const currentState = await storage.getLatestWeeklyState(gameSession.id);
+      res.json({ gameSession: resumed, currentState });
+    } catch (error) {
+      console.error("Error resuming game:", error);
+      res.status(500).json({ message: "Failed to resume game" });
+    }
+  });
+
+  // Let cohort classmates open this finished game's final dashboard from the leaderboard
+  app.post('/api/game/:gameId/share', isAuthenticated, authorizeGame, async (req: any, res) => {
+    try {
+      const gameSession: GameSession = req.gameSession;
+      if (gameSession.userId !== req.user.claims.sub) {
+        return res.status(403).json({ message: "Only the game's owner can share it" });
+      }
+      if (!gameSession.isCompleted || gameSession.finalScore == null || gameSession.sandboxOf) {
+        return res.status(409).json({ message: "Only finished games can be shared" });
+      }
+      const { shared } = z.object({ shared: z.boolean() }).parse(req.body);
+      const updated = await storage.updateGameSession(gameSession.id, { isShared: shared });
+      res.json({ id: updated.id, isShared: !!updated.isShared });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "shared must be true or false" });
+      }
+      console.error("Error sharing game:", error);
+      res.status(500).json({ message: "Failed to share game" });
+    }
+  });
+
+  // What-if sandboxes: fork the player's game at its current week into a
+  // throwaway copy, play ahead, compare, then discard. Forking or resuming a
+  // sandbox makes it the current game; discarding one switches back.
+  app.post('/api/game/:gameId/sandboxes', isAuthenticated, authorizeGame, async (req: any, res) => {
+    try {
+      const gameSession: GameSession = req.gameSession;
+      if (gameSession.userId !== req.user.claims.sub) {
+        return res.status(403).json({ message: "Only the player can fork this game" });
+      }
+      if (gameSession.sandboxOf) {
+        return res.status(400).json({ message: "Fork your real game, not a sandbox" });
+      }
+      if (gameSession.isCompleted) {
+        return res.status(400).json({ message: "Completed games cannot be forked" });
+      }
+      // Market weeks depend on every team's decisions, so they cannot be played ahead alone
+      if (gameSession.marketId) {
+        return res.status(400).json({ message: "Market games cannot be forked" });
+      }
+      const sandbox = await storage.transaction(async (tx) => {
+        const latest = await tx.getLatestWeeklyState(gameSession.id);
+        return forkSandbox(tx, gameSession, Number(latest?.weekNumber || 1));
+      });
+      const currentState = await storage.getLatestWeeklyState(sandbox.id);
+      res.status(201).json({ gameSession: sandbox, currentState });
+    } catch (error) {
+      console.error("Error forking sandbox:", error);
+      res.status(500).json({ message: "Failed to fork sandbox" });
+    }
+  });
+
+  // The real game and each of its sandboxes side by side. Accepts either the
+  // real game's id or one of its sandboxes'.
+  app.get('/api/game/:gameId/sandboxes', isAuthenticated, authorizeGame, async (req: any, res) => {
+    try {
+      const requested: GameSession = req.gameSession;
+      const game = requested.sandboxOf ? await storage.getGameSession(requested.sandboxOf) : requested;
+      if (!game) {
+        return res.status(404).json({ message: "Game session not found" });
+      }
+      const sandboxes = await storage.getSandboxGameSessions(game.id);
+      const [gameStates, ...sandboxStates] = await Promise.all(
+        [game, ...sandboxes].map(s => storage.getAllWeeklyStates(s.id)),
+      );
+      res.json({
+        game: { id: game.id, ...gameProgress(game, gameStates) },
+        sandboxes: sandboxes.map((sandbox, i) => ({
+          id: sandbox.id,
+          forkWeek: sandbox.sandboxForkWeek,
+          createdAt: sandbox.createdAt,
+          ...gameProgress(sandbox, sandboxStates[i]),
+        })),
+      });
+    } catch (error) {
+      console.error("Error listing sandboxes:", error);
+      res.status(500).json({ message: "Failed to list sandboxes" });
+    }
+  });
+
+  // Discard a sandbox; the game it was forked from becomes current again
+  app.delete('/api/game/:gameId', isAuthenticated, authorizeGame, async (req: any, res) => {
+    try {
+      const gameSession: GameSession = req.gameSession;
+      if (gameSession.userId !== req.user.claims.sub) {
+        return res.status(403).json({ message: "Only the player can discard this sandbox" });
+      }
+      if (!gameSession.sandboxOf) {
+        return res.status(400).json({ message: "Only sandboxes can be discarded" });
+      }
+      const parentId = gameSession.sandboxOf;
+      await storage.transaction(async (tx) => {
+        await tx.deleteGameSession(gameSession.id);
+        await tx.updateGameSession(parentId, {});
+      });
+      res.json({ ok: true, gameSessionId: parentId });
+    } catch (error) {
+      console.error("Error discarding sandbox:", error);
+      res.status(500).json({ message: "Failed to discard sandbox" });
+    }
+  });
+
   // Inventory overview (read-only aggregate). Single endpoint that powers
   // both the Inventory and Logistics sub-tabs. Returns current-week stocks,
   // detailed in-transit per supplier/arrival-week, WIP with %-complete,
   // shipments-in-transit with full cost basis, FG lots with full cost basis,
   // historical holding-cost / lost-sales / service-level series, and per
   // production batch the projected on-shelf week (for the shipping editor).
-  app.get('/api/game/:gameId/inventory/overview', isAuthenticated, async (req: any, res) => {
+  app.get('/api/game/:gameId/inventory/overview', isAuthenticated, authorizeGame, async (req: any, res) => {
     try {
       const { gameId } = req.params;
+      const { constants } = getGameScenario(req.gameSession);
       const allStates = await storage.getAllWeeklyStates(gameId);
       if (allStates.length === 0) return res.status(404).json({ message: 'No state' });
       const sortedStates = [...allStates].sort((a, b) => Number(a.weekNumber) - Number(b.weekNumber));
@@ -134,12 +693,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         arrivalWeek: number;
         units: number;
         unitCost: number;
-        contractType: 'SPT' | 'GMC';
+        contractType: 'FVC' | 'SPT' | 'GMC';
         contractId: string;
       }>> = {};
       for (const c of contracts) {
         const supplier = String(c.supplier || '');
-        const lead = Number((GAME_CONSTANTS.SUPPLIERS as any)?.[supplier]?.leadTime || 0);
+        const lead = Number((constants.SUPPLIERS as any)?.[supplier]?.leadTime || 0);
         const material = String(c.material || 'unknown');
         const computeUnitPrice = (cc: any): number => {
           if (cc.lockedUnitPrice != null) return Number(cc.lockedUnitPrice);
@@ -179,6 +738,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
               });
             }
           }
+        } else if (c.type === 'FVC') {
+          for (const d of (c.deliveries || [])) {
+            const arrivalWeek = Number(d.week || 0);
+            const units = Number(d.units || 0);
+            if (arrivalWeek > currentWeek && units > 0) {
+              detailedInTransit[material] = detailedInTransit[material] || [];
+              detailedInTransit[material].push({
+                supplier,
+                arrivalWeek,
+                units,
+                unitCost: Number(d.unitPrice ?? computeUnitPrice(c)),
+                contractType: 'FVC',
+                contractId: String(c.id || ''),
+              });
+            }
+          }
         }
       }
 
@@ -237,7 +812,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         0
       );
       const totalInventoryValue = totalRmValue + totalWipValue + totalFgValue + totalInTransitValue;
-      const holdingCostThisWeek = totalInventoryValue * GAME_CONSTANTS.HOLDING_COST_RATE;
+      const holdingCostThisWeek = totalInventoryValue * constants.HOLDING_COST_RATE;
 
       const summary = {
         currentWeek,
@@ -257,7 +832,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         totalFinishedGoodsAvailableNextWeek: Object.values(nextWeekEntry.products || {}).reduce((s: number, v: any) => s + Number(v || 0), 0),
         cashOnHand: Number(weeklyState.cashOnHand || 0),
         creditUsed: Number(weeklyState.creditUsed || 0),
-        creditAvailable: GAME_CONSTANTS.CREDIT_LIMIT - Number(weeklyState.creditUsed || 0),
+        creditAvailable: constants.CREDIT_LIMIT - Number(weeklyState.creditUsed || 0),
       };
 
       // ------------------------------------------------------------------
@@ -357,7 +932,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const shippingPlan = ((productionSchedule.batches || []) as any[]).map((b: any) => {
         const product = String(b.product || '');
         const method = String(b.method || 'inhouse') as 'inhouse' | 'outsource';
-        const mfg = (GAME_CONSTANTS.MANUFACTURING as any)[product] || {};
+        const mfg = (constants.MANUFACTURING as any)[product] || {};
         const lead = method === 'inhouse' ? Number(mfg.inHouseTime || 0) : Number(mfg.outsourceTime || 0);
         const shipMethod = (b.shipping || 'standard') as 'standard' | 'expedited';
         const shipWeeks = SHIPPING_WEEKS[shipMethod];
@@ -378,11 +953,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         else if (currentWeek < onShelfWeek) status = 'inTransit';
         else status = 'delivered';
 
-        const unitShipStandard = Number((GAME_CONSTANTS.SHIPPING as any)[product]?.standard || 0);
-        const unitShipExpedited = Number((GAME_CONSTANTS.SHIPPING as any)[product]?.expedited || 0);
+        const unitShipStandard = Number((constants.SHIPPING as any)[product]?.standard || 0);
+        const unitShipExpedited = Number((constants.SHIPPING as any)[product]?.expedited || 0);
         const onShelfWeekStandard = endWeek + SHIPPING_WEEKS.standard + 1;
         const onShelfWeekExpedited = endWeek + SHIPPING_WEEKS.expedited + 1;
-        const billedQty = qty > 0 ? Math.max(Number(GAME_CONSTANTS.BATCH_SIZE || 25000), qty) : 0;
+        const billedQty = qty > 0 ? Math.max(Number(constants.BATCH_SIZE || 25000), qty) : 0;
         const cashDeltaToExpedite = billedQty * (unitShipExpedited - unitShipStandard);
 
         return {
@@ -476,18 +1051,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Production preview (read-only)
-  app.post('/api/game/:gameId/production/preview', isAuthenticated, async (req: any, res) => {
+  app.post('/api/game/:gameId/production/preview', isAuthenticated, authorizeGame, async (req: any, res) => {
     try {
       const { gameId } = req.params;
+      const { engine, constants } = getGameScenario(req.gameSession);
       const { product, method, startWeek, batches } = req.body || {};
       const weeklyState = await storage.getLatestWeeklyState(gameId);
       if (!weeklyState) return res.status(404).json({ message: 'No state' });
-      const units = Number(batches || 0) * GAME_CONSTANTS.BATCH_SIZE;
-      const mfg = (GAME_CONSTANTS.MANUFACTURING as any)[product] || {};
+      const units = Number(batches || 0) * constants.BATCH_SIZE;
+      const mfg = (constants.MANUFACTURING as any)[product] || {};
       const lead = method === 'inhouse' ? Number(mfg.inHouseTime || 2) : Number(mfg.outsourceTime || 1);
       const completionWeek = Number(startWeek) + lead;
       // Assume standard shipping for preview
-      const shipWeeks = Number((GAME_CONSTANTS.SHIPPING as any)[product]?.standard || 2);
+      const shipWeeks = Number((constants.SHIPPING as any)[product]?.standard || 2);
       const availableWeek = completionWeek + shipWeeks + 1;
 
       // Capacity check for inhouse
@@ -497,8 +1073,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (method === 'inhouse') {
         const perWeekUnits = Math.ceil(units / lead);
         for (let w = Number(startWeek); w < Number(startWeek) + lead; w++) {
-          const capacity = Number(GAME_CONSTANTS.CAPACITY_SCHEDULE[w - 1] || 0);
-          const used = schedule.filter((b: any) => b.method === 'inhouse' && w >= Number(b.startWeek) && w < Number(b.startWeek) + (b.method === 'inhouse' ? Number((GAME_CONSTANTS.MANUFACTURING as any)[b.product]?.inHouseTime || 2) : Number((GAME_CONSTANTS.MANUFACTURING as any)[b.product]?.outsourceTime || 1))).reduce((s: number, b: any) => s + Math.ceil(Number(b.quantity || 0) / (b.method === 'inhouse' ? Number((GAME_CONSTANTS.MANUFACTURING as any)[b.product]?.inHouseTime || 2) : Number((GAME_CONSTANTS.MANUFACTURING as any)[b.product]?.outsourceTime || 1))), 0);
+          const capacity = engine.capacityForWeek(w, Number(weeklyState.weekNumber));
+          const used = schedule.filter((b: any) => b.method === 'inhouse' && w >= Number(b.startWeek) && w < Number(b.startWeek) + (b.method === 'inhouse' ? Number((constants.MANUFACTURING as any)[b.product]?.inHouseTime || 2) : Number((constants.MANUFACTURING as any)[b.product]?.outsourceTime || 1))).reduce((s: number, b: any) => s + Math.ceil(Number(b.quantity || 0) / (b.method === 'inhouse' ? Number((constants.MANUFACTURING as any)[b.product]?.inHouseTime || 2) : Number((constants.MANUFACTURING as any)[b.product]?.outsourceTime || 1))), 0);
           const newUsed = used + perWeekUnits;
           capacityDetail.push({ week: w, used: newUsed, capacity });
           if (newUsed > capacity) okCapacity = false;
@@ -529,7 +1105,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Restart current game: mark active session as completed so the client shows the welcome/start screen
+  // Restart current game: mark active session as completed (abandoned; still listed under /api/games)
+  // so the client falls back to another game in progress or the welcome/start screen
   app.post('/api/game/restart', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
@@ -537,6 +1114,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!active) {
         return res.status(404).json({ message: 'No active game to restart' });
       }
+      if (active.sandboxOf) {
+        return res.status(400).json({ message: 'Discard the sandbox or switch back to your game first' });
+      }
       await storage.updateGameSession(active.id, { isCompleted: true });
       res.json({ ok: true });
     } catch (error) {
@@ -545,14 +1125,88 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // List all weekly states for a game session (for analytics/final dashboard)
-  app.get('/api/game/:gameId/weeks', isAuthenticated, async (req: any, res) => {
+  // Rewind allowance and history for a game
+  app.get('/api/game/:gameId/rewind', isAuthenticated, authorizeGame, async (req: any, res) => {
+    try {
+      const gameSession: GameSession = req.gameSession;
+      const allowance = await getRewindAllowance(storage, gameSession);
+      res.json({ ...allowance, log: gameSession.rewindLog || [] });
+    } catch (error) {
+      console.error("Error fetching rewind allowance:", error);
+      res.status(500).json({ message: "Failed to fetch rewind allowance" });
+    }
+  });
+
+  // Rewind to a committed week: later weeks, their ledger and Orders Log rows are
+  // deleted and the target week is restored to its pre-commit state
+  app.post('/api/game/:gameId/rewind', isAuthenticated, authorizeGame, async (req: any, res) => {
     try {
       const { gameId } = req.params;
-      const gameSession = await storage.getGameSession(gameId);
-      if (!gameSession) {
-        return res.status(404).json({ message: "Game session not found" });
+      const { toWeek } = z.object({ toWeek: z.coerce.number().int().min(1).max(15) }).parse(req.body);
+      const gameSession: GameSession = req.gameSession;
+      if (gameSession.isCompleted) {
+        return res.status(400).json({ message: "Completed games cannot be rewound" });
+      }
+      if (gameSession.marketId) {
+        return res.status(400).json({ message: "Market games cannot be rewound" });
+      }
+      // The whole rewind lands or none of it. The game row is locked as the
+      // commit route locks it, so no commit can add a week or ledger rows
+      // while the later weeks are removed.
+      const outcome = await storage.transaction(async (tx): Promise<{ status: number; body: any }> => {
+        const current = (await tx.getGameSessionForUpdate(gameId)) ?? gameSession;
+        const allowance = await getRewindAllowance(tx, current);
+        if (allowance.remaining <= 0) {
+          return { status: 403, body: { message: "No rewinds remaining for this game" } };
+        }
+        const latest = await tx.getLatestWeeklyState(gameId);
+        const target = await tx.getWeeklyStateForUpdate(gameId, toWeek);
+        if (!latest || !target || !target.isCommitted || toWeek >= Number(latest.weekNumber)) {
+          return { status: 400, body: { message: `Week ${toWeek} is not a committed week of this game` } };
+        }
+        if (!target.preCommitSnapshot) {
+          return { status: 409, body: { message: `Week ${toWeek} was committed before rewinds were available and cannot be restored` } };
+        }
+
+        await tx.deleteWeeklyStatesAfter(gameId, toWeek);
+        // Ledger rows written by the target week's commit or later
+        await tx.deleteCashLedgerFromWeek(gameId, toWeek);
+        await tx.deleteOrdersLogAfter(gameId, toWeek);
+
+        const restored = await tx.updateWeeklyState(target.id, {
+          ...(target.preCommitSnapshot as any),
+          isCommitted: false,
+          preCommitSnapshot: null,
+        });
+        const rewindLog = [
+          ...((current.rewindLog as any[]) || []),
+          { fromWeek: Number(latest.weekNumber), toWeek, at: new Date().toISOString() },
+        ];
+        await tx.updateGameSession(gameId, { rewindCount: allowance.used + 1, rewindLog });
+
+        return {
+          status: 200,
+          body: {
+            currentState: restored,
+            rewinds: { limit: allowance.limit, used: allowance.used + 1, remaining: allowance.remaining - 1, log: rewindLog },
+          },
+        };
+      });
+      res.status(outcome.status).json(outcome.body);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "toWeek must be a week number between 1 and 15" });
       }
+      console.error("Error rewinding game:", error);
+      res.status(500).json({ message: "Failed to rewind game" });
+    }
+  });
+
+  // List all weekly states for a game session (for analytics/final dashboard)
+  app.get('/api/game/:gameId/weeks', isAuthenticated, sharedGameView, authorizeGame, async (req: any, res) => {
+    try {
+      const { gameId } = req.params;
+      const gameSession: GameSession = req.gameSession;
       const weeklyStates = await storage.getAllWeeklyStates(gameId);
       // Sort by weekNumber ascending
       const sorted = weeklyStates.sort((a: any, b: any) => Number(a.weekNumber) - Number(b.weekNumber));
@@ -564,7 +1218,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Weekly state routes
-  app.get('/api/game/:gameId/week/:weekNumber', isAuthenticated, async (req: any, res) => {
+  app.get('/api/game/:gameId/week/:weekNumber', isAuthenticated, authorizeGame, async (req: any, res) => {
     try {
       const { gameId, weekNumber } = req.params;
       const week = parseInt(weekNumber);
@@ -581,15 +1235,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/game/:gameId/week/:weekNumber/planned-marketing-cap', isAuthenticated, async (req: any, res) => {
+  app.get('/api/game/:gameId/week/:weekNumber/planned-marketing-cap', isAuthenticated, authorizeGame, async (req: any, res) => {
     try {
       const { gameId, weekNumber } = req.params;
+      const { engine } = getGameScenario(req.gameSession);
       const week = parseInt(weekNumber, 10);
       const weeklyState = await storage.getWeeklyState(gameId, week);
       if (!weeklyState) {
         return res.status(404).json({ message: "Weekly state not found" });
       }
-      const maxPlannedMarketingSpend = GameEngine.getMaxAffordablePlannedMarketingSpend(week, weeklyState);
+      const maxPlannedMarketingSpend = engine.getMaxAffordablePlannedMarketingSpend(week, weeklyState);
       res.json({ maxPlannedMarketingSpend });
     } catch (error) {
       console.error("Error computing planned marketing cap:", error);
@@ -597,9 +1252,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/game/:gameId/week/:weekNumber/update', isAuthenticated, async (req: any, res) => {
+  // Cash and credit for this and every remaining week if the saved plan plays
+  // out unchanged (GameEngine.projectCashFlow). No mutation.
+  app.get('/api/game/:gameId/week/:weekNumber/cash-projection', isAuthenticated, authorizeGame, async (req: any, res) => {
+    try {
+      const { gameId, weekNumber } = req.params;
+      const { engine } = getGameScenario(req.gameSession);
+      const week = parseInt(weekNumber, 10);
+      const weeklyState = await storage.getWeeklyState(gameId, week);
+      if (!weeklyState) {
+        return res.status(404).json({ message: "Weekly state not found" });
+      }
+      if (weeklyState.isCommitted) {
+        return res.status(409).json({ message: `Week ${week} is already committed` });
+      }
+      res.json(engine.projectCashFlow(weeklyState, gameRules(req.gameSession)));
+    } catch (error) {
+      console.error("Error projecting cash flow:", error);
+      res.status(500).json({ message: "Failed to project cash flow" });
+    }
+  });
+
+  // Finished goods against forecast demand per product for the remaining
+  // selling weeks (GameEngine.projectInventoryCoverage). No mutation.
+  app.get('/api/game/:gameId/week/:weekNumber/inventory-coverage', isAuthenticated, authorizeGame, async (req: any, res) => {
+    try {
+      const { gameId, weekNumber } = req.params;
+      const { engine } = getGameScenario(req.gameSession);
+      const week = parseInt(weekNumber, 10);
+      const weeklyState = await storage.getWeeklyState(gameId, week);
+      if (!weeklyState) {
+        return res.status(404).json({ message: "Weekly state not found" });
+      }
+      if (weeklyState.isCommitted) {
+        return res.status(409).json({ message: `Week ${week} is already committed` });
+      }
+      res.json(engine.projectInventoryCoverage(weeklyState, gameRules(req.gameSession)));
+    } catch (error) {
+      console.error("Error projecting inventory coverage:", error);
+      res.status(500).json({ message: "Failed to project inventory coverage" });
+    }
+  });
+
+  app.post('/api/game/:gameId/week/:weekNumber/update', isAuthenticated, authorizeGame, async (req: any, res) => {
     try {
       const { gameId, weekNumber } = req.params;
+      const { engine, constants } = getGameScenario(req.gameSession);
       const week = parseInt(weekNumber);
       const updates = req.body;
       
@@ -608,24 +1306,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       if (!weeklyState) {
         // Create new weekly state if it doesn't exist
-        const gameSession = await storage.getGameSession(gameId);
-        if (!gameSession) {
-          return res.status(404).json({ message: "Game session not found" });
-        }
+        const gameSession: GameSession = req.gameSession;
         
-        const initialState = GameEngine.initializeNewGame(gameSession.userId);
+        const initialState = engine.initializeNewGame(gameSession.userId);
         weeklyState = await storage.createWeeklyState({
           gameSessionId: gameId,
           weekNumber: week,
-          phase: GameEngine.getPhaseForWeek(week),
+          phase: engine.getPhaseForWeek(week),
           ...initialState,
           ...updates,
         } as any);
       } else {
+        // A market team's submitted decisions are final until the week resolves
+        if (weeklyState.submittedAt && !weeklyState.isCommitted) {
+          return res.status(409).json({ message: `Week ${week} is submitted; waiting for the other teams` });
+        }
         // Process material purchases if they exist in updates
         if (updates.materialPurchases || updates.gmcCommitments || (updates.procurementContracts && typeof updates.procurementContracts.singleSupplierDeal !== 'undefined')) {
           // Convert material purchases UI into procurement contracts (iterative orders)
-          // We will append GMC/SPT entries under procurementContracts and ignore immediate cash effects.
+          // We will append FVC/GMC/SPT entries under procurementContracts and ignore immediate cash effects.
           const existing = (weeklyState as any).procurementContracts || { contracts: [] };
           const contracts = existing.contracts || [];
           const gmcCommitments = { ...(existing as any).gmcCommitments };
@@ -641,17 +1340,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
             const removedTimestamps: string[] = Array.from(existingTimestamps).filter(ts => !nextTimestamps.has(ts)) as string[];
 
             if (removedTimestamps.length > 0) {
-              // Remove GMC order lines and SPT contracts derived from these timestamps
+              // Remove GMC order lines and SPT/FVC contracts derived from these timestamps
               for (const c of contracts) {
                 if ((c as any).type === 'GMC') {
                   const prev = (c as any).gmcOrders || [];
                   (c as any).gmcOrders = prev.filter((o: any) => !removedTimestamps.some(ts => String(o.orderId || '').startsWith(ts)));
                 }
               }
-              // Remove SPT contracts that originated from removed timestamps (id starts with timestamp)
+              // Remove SPT/FVC contracts that originated from removed timestamps (id starts with timestamp)
               const remainingContracts: any[] = [];
               for (const c of contracts) {
-                if ((c as any).type === 'SPT' && removedTimestamps.some(ts => String((c as any).id || '').startsWith(ts))) {
+                if (((c as any).type === 'SPT' || (c as any).type === 'FVC') && removedTimestamps.some(ts => String((c as any).id || '').startsWith(ts))) {
                   // skip -> removed
                   continue;
                 }
@@ -661,10 +1360,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
               for (const rc of remainingContracts) contracts.push(rc);
               // Soft-delete Orders Log rows for these timestamps
               try {
-                await db
-                  .update(ordersLogTable)
-                  .set({ removedAt: new Date() } as any)
-                  .where(and(eq(ordersLogTable.gameSessionId, (weeklyState as any).gameSessionId), inArray(ordersLogTable.orderTimestamp, removedTimestamps)));
+                await storage.markOrdersLogRemoved((weeklyState as any).gameSessionId, removedTimestamps);
               } catch (err) {
                 console.error('Failed to soft-delete orders log rows', { gameSessionId: (weeklyState as any).gameSessionId, removedTimestamps, err });
               }
@@ -672,8 +1368,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
 
           // Helper: compute per-supplier tier discount from constants
-          const getTierDiscount = (supplier: keyof typeof GAME_CONSTANTS.SUPPLIERS, units: number) => {
-            const tiers: any[] = ((GAME_CONSTANTS as any).VOLUME_DISCOUNTS || {})[supplier] || [];
+          const getTierDiscount = (supplier: keyof typeof constants.SUPPLIERS, units: number) => {
+            const tiers: any[] = ((constants as any).VOLUME_DISCOUNTS || {})[supplier] || [];
             for (const t of tiers) {
               if (units >= Number(t.min) && units <= Number(t.max)) return Number(t.discount || 0);
             }
@@ -688,15 +1384,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 if (o?.orderId) existingOrderIds.add(String(o.orderId));
               }
             }
-            // Also include SPT contract ids
-            if ((c as any).type === 'SPT' && (c as any).id) existingOrderIds.add(String((c as any).id));
+            // Also include SPT/FVC contract ids
+            if (((c as any).type === 'SPT' || (c as any).type === 'FVC') && (c as any).id) existingOrderIds.add(String((c as any).id));
+          }
+
+          // FVC: Week 1 only, with a fixed delivery schedule agreed at signing.
+          // Validate every new FVC line before any contract or log row is written.
+          const fvcDeliveriesByOrderId = new Map<string, Array<{ week: number; units: number }>>();
+          for (const p of purchases) {
+            if (p.type !== 'fvc') continue;
+            const lead = Number((constants.SUPPLIERS as any)[p.supplier]?.leadTime || 0);
+            for (const order of (p.orders || [])) {
+              const orderId = `${p.timestamp}-${p.supplier}-${order.material}`;
+              if (existingOrderIds.has(orderId)) continue;
+              if (currentWeek !== constants.FVC.SIGNING_WEEK) {
+                return res.status(400).json({ message: `FVC contracts can only be signed in Week ${constants.FVC.SIGNING_WEEK}.` });
+              }
+              const quantity = Number(order.quantity || 0);
+              const schedule: Array<{ week: number; units: number }> = Array.isArray(order.deliveries) && order.deliveries.length > 0
+                ? order.deliveries.map((d: any) => ({ week: Number(d.week), units: Number(d.units || 0) }))
+                : [{ week: Number(order.deliveryWeek ?? currentWeek + lead), units: quantity }];
+              const scheduledUnits = schedule.reduce((sum, d) => sum + d.units, 0);
+              const invalidWeek = schedule.some(d => !Number.isInteger(d.week) || d.week < currentWeek + lead || d.week > 15 || d.units <= 0);
+              if (quantity <= 0 || invalidWeek || scheduledUnits !== quantity) {
+                return res.status(400).json({
+                  message: `Invalid FVC delivery schedule for ${order.material}: deliveries must fall in Weeks ${currentWeek + lead}-15 and sum to the contracted units.`,
+                });
+              }
+              fvcDeliveriesByOrderId.set(orderId, schedule);
+            }
+          }
+
+          // FVC volume counts towards the supplier's committed volume for tier discounts
+          const fvcUnitsBySupplier: Record<string, number> = {};
+          for (const c of contracts) {
+            if ((c as any).type === 'FVC') {
+              fvcUnitsBySupplier[(c as any).supplier] = (fvcUnitsBySupplier[(c as any).supplier] || 0) + Number((c as any).units || 0);
+            }
+          }
+          for (const p of purchases) {
+            if (p.type !== 'fvc') continue;
+            for (const order of (p.orders || [])) {
+              if (!fvcDeliveriesByOrderId.has(`${p.timestamp}-${p.supplier}-${order.material}`)) continue;
+              fvcUnitsBySupplier[p.supplier] = (fvcUnitsBySupplier[p.supplier] || 0) + Number(order.quantity || 0);
+            }
           }
           for (const p of purchases) {
             // One contract per material
             for (const order of (p.orders || [])) {
               // Pull base and surcharge from constants to keep source of truth in engine
-              const sup = GAME_CONSTANTS.SUPPLIERS as any;
-              const base = sup[p.supplier]?.materials?.[order.material]?.price || 0;
+              const sup = constants.SUPPLIERS as any;
+              // A price spike in force raises the catalogue price of new orders
+              const base = (sup[p.supplier]?.materials?.[order.material]?.price || 0) * engine.materialPriceMultiplier(p.supplier, order.material, currentWeek);
               const surchargeCatalog = sup[p.supplier]?.materials?.[order.material]?.printSurcharge || 0;
               const applyPrint = Boolean(p.printOptions?.[order.material]);
 
@@ -725,9 +1464,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
               if (p.type === 'spot') {
                 const basketTotal = (p.orders || []).reduce((s: number, o: any) => s + Number(o.quantity || 0), 0);
                 tierDisc = getTierDiscount(p.supplier, basketTotal);
-              } else if (p.type === 'gmc') {
+              } else if (p.type === 'gmc' || p.type === 'fvc') {
                 const committed = Number((updates.gmcCommitments && updates.gmcCommitments[p.supplier]) ?? gmcCommitments[p.supplier] ?? 0);
-                tierDisc = getTierDiscount(p.supplier, committed);
+                tierDisc = getTierDiscount(p.supplier, committed + (fvcUnitsBySupplier[p.supplier] || 0));
               }
               const effDiscount = tierDisc + extraSSD;
               const effectiveUnitPrice = baseUnit * (1 - effDiscount);
@@ -758,13 +1497,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
                   lockedUnitPrice: effectiveUnitPrice,
                 });
                 existingOrderIds.add(orderId);
+              } else if (p.type === 'fvc') {
+                contracts.push({
+                  ...contractBase,
+                  type: 'FVC',
+                  units: order.quantity,
+                  weekSigned: currentWeek,
+                  lockedUnitPrice: effectiveUnitPrice,
+                  deliveries: (fvcDeliveriesByOrderId.get(orderId) || []).map(d => ({ ...d, unitPrice: effectiveUnitPrice })),
+                });
+                existingOrderIds.add(orderId);
               }
 
-              // Insert immutable Orders Log row in DB. Duplicate id on retry is
-              // harmless (same order resubmit); log other failures so they are
+              // Insert immutable Orders Log row. Duplicate id on retry is
+              // ignored (same order resubmit); log other failures so they are
               // visible in production logs rather than silently swallowed.
               try {
-                await db.insert(ordersLogTable).values({
+                await storage.createOrdersLogEntry({
                   id: orderId,
                   gameSessionId: (weeklyState as any).gameSessionId,
                   weekNumber: currentWeek,
@@ -773,14 +1522,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
                   orderType: String(p.type).toUpperCase(),
                   material: String(order.material),
                   quantity: Number(order.quantity || 0),
-                  effectiveUnitPrice: Number(order.effectiveUnitPrice || 0) as any,
-                  effectiveLineTotal: Number(order.effectiveLineTotal || 0) as any,
-                } as any);
+                  effectiveUnitPrice: Number(order.effectiveUnitPrice || 0).toFixed(4),
+                  effectiveLineTotal: Number(order.effectiveLineTotal || 0).toFixed(2),
+                });
               } catch (err: any) {
-                const isDup = String(err?.code || '') === '23505';
-                if (!isDup) {
-                  console.error('Failed to insert orders_log row', { orderId, err });
-                }
+                console.error('Failed to insert orders_log row', { orderId, err });
               }
             }
           }
@@ -819,14 +1565,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
               });
             }
           }
-          const processedUpdates = GameEngine.processProductionSchedule(weeklyState, updates);
+          const processedUpdates = engine.processProductionSchedule(weeklyState, updates);
           weeklyState = await storage.updateWeeklyState(weeklyState.id, processedUpdates);
         } 
         else if (updates.plannedMarketingPlan || updates.plannedWeeklyDiscounts || typeof updates.plannedLocked !== 'undefined') {
           if (updates.plannedLocked === true) {
             const planToLock = updates.plannedMarketingPlan ?? (weeklyState as any).plannedMarketingPlan;
             const spend = Number(planToLock?.totalSpend ?? 0);
-            const maxSpend = GameEngine.getMaxAffordablePlannedMarketingSpend(week, weeklyState);
+            const maxSpend = engine.getMaxAffordablePlannedMarketingSpend(week, weeklyState);
             if (spend > maxSpend + 0.01) {
               return res.status(400).json({
                 message: `Next week marketing cannot exceed £${Math.round(maxSpend).toLocaleString('en-GB')} after your other cash commitments (production, materials due, holding, interest).`,
@@ -853,9 +1599,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/game/:gameId/week/:weekNumber/validate', isAuthenticated, async (req: any, res) => {
+  app.post('/api/game/:gameId/week/:weekNumber/validate', isAuthenticated, authorizeGame, async (req: any, res) => {
     try {
       const { gameId, weekNumber } = req.params;
+      const { engine } = getGameScenario(req.gameSession);
       const week = parseInt(weekNumber);
       
       const weeklyState = await storage.getWeeklyState(gameId, week);
@@ -863,15 +1610,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Weekly state not found" });
       }
       
-      const gameSession = await storage.getGameSession(gameId);
-      if (!gameSession) {
-        return res.status(404).json({ message: "Game session not found" });
-      }
+      const gameSession: GameSession = req.gameSession;
       
       // Mirror commit path: trim oversize planned marketing before liquidity check
       const stateForValidation = JSON.parse(JSON.stringify(weeklyState)) as any;
-      GameEngine.clampPlannedMarketingToLiquidity(stateForValidation);
-      const validation = GameEngine.validateWeeklyDecisions(week, stateForValidation, gameSession);
+      engine.clampPlannedMarketingToLiquidity(stateForValidation);
+      const validation = engine.validateWeeklyDecisions(week, stateForValidation, gameSession);
       
       // Update validation results in the state
       await storage.updateWeeklyState(weeklyState.id, {
@@ -886,253 +1630,147 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/game/:gameId/week/:weekNumber/commit', isAuthenticated, async (req: any, res) => {
+  // The week's row is locked for the whole commit, so concurrent requests run
+  // one after the other and the week advances at most once. CommitWeekModal
+  // sends an Idempotency-Key: a retry with the same key gets the committed row
+  // back; any other request for a committed week gets 409.
+  app.post('/api/game/:gameId/week/:weekNumber/commit', isAuthenticated, authorizeGame, async (req: any, res) => {
     try {
       const { gameId, weekNumber } = req.params;
+      const { engine } = getGameScenario(req.gameSession);
       const week = parseInt(weekNumber);
-      
+      const idempotencyKey = req.get('Idempotency-Key')?.trim().slice(0, 200) || null;
+      const gameSession: GameSession = req.gameSession;
+
+      const outcome = await storage.transaction(async (tx): Promise<{ status: number; body: any; marketId?: string }> => {
+        // Held against a concurrent rewind of the game (see the rewind route)
+        await tx.getGameSessionForUpdate(gameId);
+        const weeklyState = await tx.getWeeklyStateForUpdate(gameId, week);
+        if (!weeklyState) {
+          return { status: 404, body: { message: "Weekly state not found" } };
+        }
+        if (weeklyState.isCommitted) {
+          if (idempotencyKey && weeklyState.commitIdempotencyKey === idempotencyKey) {
+            return { status: 200, body: weeklyState };
+          }
+          return { status: 409, body: { message: `Week ${week} is already committed` } };
+        }
+
+        // Clamp happens inside commitWeek, but validation runs first — apply the same
+        // quiet trim here so liquidity checks match what commit will actually run.
+        const { stateForCommit, validation } = await prepareWeekForCommit(tx, engine, gameSession, weeklyState);
+        if (!validation.canCommit) {
+          return {
+            status: 400,
+            body: {
+              message: "Cannot commit week due to validation errors",
+              errors: validation.errors
+            },
+          };
+        }
+
+        // Market games do not commit on their own: the team submits and the week
+        // resolves for every team together
+        if (gameSession.marketId) {
+          const market = await tx.getMarket(gameSession.marketId);
+          if (!market || market.status !== 'running') {
+            return { status: 409, body: { message: "This market is not running" } };
+          }
+          if (week !== market.currentWeek) {
+            return { status: 409, body: { message: `The market is on week ${market.currentWeek}` } };
+          }
+          if (!weeklyState.submittedAt) {
+            await tx.updateWeeklyState(weeklyState.id, { submittedAt: new Date(), commitIdempotencyKey: idempotencyKey });
+          }
+          return { status: 202, body: null, marketId: market.id };
+        }
+
+        // Commit the week via engine (full simulation); persist result
+        stateForCommit.commitIdempotencyKey = idempotencyKey;
+        const computed = await engine.commitWeek(stateForCommit as any, { demandSeed: gameSession.demandSeed, ...gameRules(gameSession) });
+        const committedState = await persistCommittedWeek(tx, engine, gameId, weeklyState, stateForCommit, computed);
+        return { status: 200, body: committedState };
+      });
+
+      // The market resolves in its own transaction once the submission is saved
+      if (outcome.marketId) {
+        await resolveMarketWeek(outcome.marketId);
+        const resolved = await storage.getWeeklyState(gameId, week);
+        if (resolved?.isCommitted) {
+          return res.json(resolved);
+        }
+        return res.status(202).json({ status: 'submitted', market: await getMarketStatus(outcome.marketId) });
+      }
+      res.status(outcome.status).json(outcome.body);
+    } catch (error) {
+      console.error("Error committing weekly state:", error);
+      res.status(500).json({ message: "Failed to commit weekly state" });
+    }
+  });
+
+  // Dry run of the commit: the same clamp, validation, commitWeek and next-week
+  // creation on a copy, with nothing saved. Uncertain-demand and market games
+  // preview at expected demand so the draw and the other teams stay unknown.
+  app.post('/api/game/:gameId/week/:weekNumber/simulate', isAuthenticated, authorizeGame, async (req: any, res) => {
+    try {
+      const { gameId, weekNumber } = req.params;
+      const { engine } = getGameScenario(req.gameSession);
+      const week = parseInt(weekNumber);
+      const gameSession: GameSession = req.gameSession;
+
       const weeklyState = await storage.getWeeklyState(gameId, week);
       if (!weeklyState) {
         return res.status(404).json({ message: "Weekly state not found" });
       }
-      
-      const gameSession = await storage.getGameSession(gameId);
-      if (!gameSession) {
-        return res.status(404).json({ message: "Game session not found" });
+      if (weeklyState.isCommitted) {
+        return res.status(409).json({ message: `Week ${week} is already committed` });
       }
-      
-      // Clamp happens inside commitWeek, but validation runs first — apply the same
-      // quiet trim here so liquidity checks match what commit will actually run.
-      const stateForCommit = JSON.parse(JSON.stringify(weeklyState)) as any;
-      GameEngine.clampPlannedMarketingToLiquidity(stateForCommit);
-      const validation = GameEngine.validateWeeklyDecisions(week, stateForCommit, gameSession);
+
+      const { stateForCommit, validation } = clampAndValidate(engine, gameSession, weeklyState);
       if (!validation.canCommit) {
-        return res.status(400).json({ 
+        return res.status(400).json({
           message: "Cannot commit week due to validation errors",
-          errors: validation.errors 
+          errors: validation.errors,
         });
       }
 
-      const prevPlan = JSON.stringify((weeklyState as any).plannedMarketingPlan ?? null);
-      const nextPlan = JSON.stringify(stateForCommit.plannedMarketingPlan ?? null);
-      if (prevPlan !== nextPlan) {
-        await storage.updateWeeklyState(weeklyState.id, {
-          plannedMarketingPlan: stateForCommit.plannedMarketingPlan,
-        });
-      }
-      
-      // Commit the week via engine (full simulation); persist result
-      const computed = await GameEngine.commitWeek(stateForCommit as any);
-      // Preserve Orders Log (materialPurchases) in the committed week
-      (computed as any).materialPurchases = (weeklyState as any).materialPurchases || [];
-      const { ledgerEntries, createdAt: _ca, updatedAt: _ua, ...toPersist } = (computed as any);
-      // Coerce numeric types expected by DB
-      // Persist A/I as decimals, not integers
-      (toPersist as any).awareness = Number((toPersist as any).awareness ?? 0).toFixed(2);
-      (toPersist as any).intent = Number((toPersist as any).intent ?? 0).toFixed(2);
-      const committedState = await storage.updateWeeklyState(weeklyState.id, sanitizeForPersistence(toPersist) as any);
-      await storage.commitWeeklyState(weeklyState.id);
-      
-      // If this is week 15, mark game as completed
+      const computed: any = await engine.commitWeek(stateForCommit, gameRules(gameSession));
+      computed.materialPurchases = (weeklyState as any).materialPurchases || [];
+      const ledger = ((computed.ledgerEntries || []) as LedgerEntryDraft[]).map((e) => ({
+        weekNumber: e.weekNumber ?? week,
+        entryType: e.type,
+        refId: e.refId || null,
+        amount: Number(Number(e.amount || 0).toFixed(2)),
+      }));
+      const { ledgerEntries: _le, ...committedState } = computed;
+      const nextState = week < 15 ? engine.advanceWeek(JSON.parse(JSON.stringify(computed)), weeklyState) : null;
+
+      let finalResults = null;
       if (week === 15) {
-        const allStates = await storage.getAllWeeklyStates(gameId);
-        const serviceLevel = GameEngine.calculateServiceLevel(allStates);
-
-        // Cumulative columns (materialCosts, productionCosts, etc.) are
-        // season-to-date by week-15 already; use the last (sorted) row to
-        // avoid double-counting via summation across all weeks.
-        const sortedStates = [...allStates].sort((a, b) => Number(a.weekNumber) - Number(b.weekNumber));
-        const finalStateRow = sortedStates[sortedStates.length - 1] as any;
-        const totalRevenue = sortedStates.reduce((sum, state) => sum + Number(state.weeklyRevenue || 0), 0);
-        const totalOperationalCosts =
-          Number(finalStateRow?.materialCosts || 0) +
-          Number(finalStateRow?.productionCosts || 0) +
-          Number(finalStateRow?.logisticsCosts || 0) +
-          Number(finalStateRow?.holdingCosts || 0);
-        const totalInterest = Number(finalStateRow?.interestAccrued || 0);
-        const totalMarketing = sortedStates.reduce(
-          (sum, state) => sum + Number((state as any).marketingPlan?.totalSpend ?? state.marketingSpend ?? 0),
-          0
-        );
-        const totalCosts = totalOperationalCosts + totalMarketing + totalInterest;
-
-        // Average capital employed across the season:
-        // capitalEmployed_w = cashOnHand_w + creditUsed_w + inventoryValue_w
-        const capitalByWeek = sortedStates.map((s: any) => {
-          const cash = Number(s.cashOnHand || 0);
-          const credit = Number(s.creditUsed || 0);
-          const rmValue = Object.values(s.rawMaterials || {}).reduce(
-            (acc: number, v: any) => acc + Number(v?.onHandValue || 0),
-            0
-          );
-          const wipValue = ((s.workInProcess?.batches) || []).reduce(
-            (acc: number, b: any) => acc + Number(b.quantity || 0) * (Number(b.materialUnitCost || 0) + Number(b.productionUnitCost || 0)),
-            0
-          );
-          const inTransitValue = ((s.shipmentsInTransit) || []).reduce(
-            (acc: number, sh: any) => acc + Number(sh.quantity || 0) * (Number(sh.unitMaterialCost || 0) + Number(sh.unitProductionCost || 0) + Number(sh.unitShippingCost || 0)),
-            0
-          );
-          const fgValue = ((s.finishedGoods?.lots) || []).reduce(
-            (acc: number, l: any) => acc + Number(l.quantity || 0) * Number(l.unitCostBasis || 0),
-            0
-          );
-          return cash + credit + rmValue + wipValue + inTransitValue + fgValue;
-        });
-        const averageCapital = capitalByWeek.length > 0
-          ? capitalByWeek.reduce((s, v) => s + v, 0) / capitalByWeek.length
-          : GAME_CONSTANTS.STARTING_CAPITAL;
-        const economicProfit = GameEngine.calculateEconomicProfit(totalRevenue, totalCosts, averageCapital);
-
-        // Dead stock penalty: value of remaining finished goods at unit cost basis
-        const finalState = committedState as any;
-        const deadStockPenalty = (finalState.finishedGoods?.lots || []).reduce((s: number, l: any) => s + Number(l.quantity || 0) * Number(l.unitCostBasis || 0), 0);
-        const finalScore = economicProfit - deadStockPenalty;
-
-        await storage.updateGameSession(gameId, {
-          isCompleted: true,
-          finalServiceLevel: serviceLevel.toString(),
-          finalCash: committedState.cashOnHand,
-          finalEconomicProfit: economicProfit.toString(),
-          finalScore: finalScore.toString(),
-        });
+        const earlier = (await storage.getAllWeeklyStates(gameId)).filter(w => w.weekNumber < week);
+        finalResults = engine.calculateFinalResults([...earlier, committedState], await getScoringRubric(storage, gameSession));
       }
-      
-      // Create next week's skeleton from committed state if not final week
-      if (week < 15) {
-        const { createdAt: _c2, updatedAt: _u2, ledgerEntries: _l2, ...rest } = (computed as any);
-        const nextWeekState: any = {
-          ...rest,
-          id: undefined,
-          weekNumber: week + 1,
-          phase: GameEngine.getPhaseForWeek(week + 1),
-          isCommitted: false,
-          validationErrors: [],
-          validationWarnings: [],
-          // Reset per-week breakdown; cumulative `totals` and `actualUnitCost`
-          // carry forward from the spread above.
-          costBreakdown: {},
-        };
-        // New week starts with empty UI Orders Log; historical Orders Log remains on committed weeks
-        nextWeekState.materialPurchases = [];
-        // Carry forward canonical procurement contracts (so arrivals timeline persists)
-        nextWeekState.procurementContracts = (computed as any).procurementContracts ?? (weeklyState as any).procurementContracts ?? { contracts: [], gmcCommitments: {}, singleSupplierDeal: (weeklyState as any)?.procurementContracts?.singleSupplierDeal };
-        // Apply planned marketing and discounts into next week's live plan
-        if ((computed as any).plannedMarketingPlan) {
-          nextWeekState.marketingPlan = (computed as any).plannedMarketingPlan;
-        }
-        if ((computed as any).plannedWeeklyDiscounts) {
-          nextWeekState.weeklyDiscounts = (computed as any).plannedWeeklyDiscounts;
-        }
-        // Preserve plans for subsequent programming and unlock planning for the new week
-        nextWeekState.plannedMarketingPlan = (computed as any).plannedMarketingPlan;
-        nextWeekState.plannedWeeklyDiscounts = (computed as any).plannedWeeklyDiscounts;
-        nextWeekState.plannedLocked = false;
-
-        // Apply start-of-week N+1 A/I
-        if ((computed as any).nextWeekAwareness !== undefined) {
-          nextWeekState.awareness = (computed as any).nextWeekAwareness;
-        }
-        if ((computed as any).nextWeekIntent !== undefined) {
-          nextWeekState.intent = (computed as any).nextWeekIntent;
-        }
-
-        // Persist next-week demand/sales/revenue metrics computed by the engine
-        if ((computed as any).nextWeekMetrics) {
-          const nx: any = (computed as any).nextWeekMetrics;
-          if (nx.weeklyDemand) nextWeekState.weeklyDemand = nx.weeklyDemand;
-          if (nx.weeklySales) nextWeekState.weeklySales = nx.weeklySales;
-          if (nx.lostSales) nextWeekState.lostSales = nx.lostSales;
-          if (nx.weeklyRevenue != null) nextWeekState.weeklyRevenue = `${Number(nx.weeklyRevenue || 0).toFixed(2)}`;
-        }
 
-        // Apply staged N+1 arrivals and outflows into the new state's opening snapshot
-        const arrivals: Array<{ material: string; goodUnits: number; orderedUnits?: number; unitPrice: number; inventoryUnitCost?: number }> = (computed as any).nextWeekArrivals || [];
-        nextWeekState.rawMaterials = nextWeekState.rawMaterials || {};
-        for (const a of arrivals) {
-          const mat = String(a.material || 'unknown');
-          const entry: any = nextWeekState.rawMaterials[mat] || { onHand: 0, allocated: 0, inTransit: [], costLots: [] };
-          const goodUnits = Number(a.goodUnits || 0);
-          const inventoryUnitCost = Number(a.inventoryUnitCost ?? a.unitPrice ?? 0);
-          entry.onHand = Number(entry.onHand || 0) + Number(a.goodUnits || 0);
-          entry.onHandValue = Number(entry.onHandValue || 0) + goodUnits * inventoryUnitCost;
-          entry.lastUnitCost = inventoryUnitCost;
-          entry.costLots = Array.isArray(entry.costLots) ? entry.costLots : [];
-          if (goodUnits > 0) {
-            entry.costLots.push({ quantity: goodUnits, unitCost: inventoryUnitCost });
-          }
-          nextWeekState.rawMaterials[mat] = entry;
-        }
-
-        // Materialise opening production/logistics events for the new live week.
-        // This keeps Inventory, Logistics, summaries, and validation on the
-        // same clock: if Week N+1 has started, its starting batches have
-        // consumed materials, entered WIP, and locked their shipping plan.
-        GameEngine.applyOpeningPipelineEvents(nextWeekState, week + 1);
-
-        // Apply cash waterfall for N+1 outflows at start of week (interest + ops)
-        const out = (computed as any).nextWeekOutflows || {};
-        const openingProductionCharges = (nextWeekState as any).openingProductionCharges;
-        if (openingProductionCharges) {
-          out.production = Number(openingProductionCharges.production || 0);
-          out.logistics = Number(openingProductionCharges.logistics || 0);
-        }
-        let cashOnHandN1 = Number(nextWeekState.cashOnHand || 0);
-        let creditUsedN1 = Number(nextWeekState.creditUsed || 0);
-        const costInterest = Number(out.interest || 0);
-        if (costInterest > 0) {
-          if (cashOnHandN1 >= costInterest) cashOnHandN1 -= costInterest; else { creditUsedN1 += (costInterest - cashOnHandN1); cashOnHandN1 = 0; }
-          nextWeekState.interestAccrued = (Number(nextWeekState.interestAccrued || 0) + costInterest).toFixed(2);
-        }
-        const ops = Number(out.marketing || 0)
-          + Number(out.materials_spt || 0)
-          + Number(out.materials_gmc || 0)
-          + Number(out.production || 0)
-          + Number(out.logistics || 0)
-          + Number(out.holding || 0);
-        if (ops > 0) {
-          if (cashOnHandN1 >= ops) cashOnHandN1 -= ops; else { creditUsedN1 += (ops - cashOnHandN1); cashOnHandN1 = 0; }
-        }
-        const supplierMaterialsPaid = Number(out.materials_spt || 0) + Number(out.materials_gmc || 0);
-        if (supplierMaterialsPaid > 0) {
-          nextWeekState.materialCosts = (Number(nextWeekState.materialCosts || 0) + supplierMaterialsPaid).toFixed(2);
-        }
-        if (Number(out.production || 0) > 0) {
-          nextWeekState.productionCosts = (Number(nextWeekState.productionCosts || 0) + Number(out.production || 0)).toFixed(2);
-        }
-        if (Number(out.logistics || 0) > 0) {
-          nextWeekState.logisticsCosts = (Number(nextWeekState.logisticsCosts || 0) + Number(out.logistics || 0)).toFixed(2);
-        }
-        nextWeekState.costBreakdown = {
-          materials: supplierMaterialsPaid,
-          production: Number(out.production || 0),
-          logistics: Number(out.logistics || 0),
-          marketing: Number(out.marketing || 0),
-          holding: Number(out.holding || 0),
-          interest: costInterest,
-        };
-        delete nextWeekState.openingProductionStarts;
-        delete nextWeekState.openingProductionCharges;
-        nextWeekState.cashOnHand = cashOnHandN1.toFixed(2);
-        nextWeekState.creditUsed = Math.min(GAME_CONSTANTS.CREDIT_LIMIT, creditUsedN1).toFixed(2);
-
-
-        await storage.createWeeklyState(sanitizeForPersistence(nextWeekState));
-      }
-      
-      // Cash ledger entries are written directly by gameEngine
-      
-      res.json(committedState);
+      res.json({
+        weekNumber: week,
+        demandBasis: gameSession.demandSeed || gameSession.marketId ? 'expected' : 'exact',
+        committedState,
+        nextState,
+        ledger,
+        finalResults,
+        warnings: validation.warnings,
+      });
     } catch (error) {
-      console.error("Error committing weekly state:", error);
-      res.status(500).json({ message: "Failed to commit weekly state" });
+      console.error("Error simulating week commit:", error);
+      res.status(500).json({ message: "Failed to simulate week commit" });
     }
   });
 
   // Helper: preview due payments for a specific week (no mutation)
-  app.get('/api/game/:gameId/week/:weekNumber/due-payments', isAuthenticated, async (req: any, res) => {
+  app.get('/api/game/:gameId/week/:weekNumber/due-payments', isAuthenticated, authorizeGame, async (req: any, res) => {
     try {
       const { gameId, weekNumber } = req.params;
+      const { constants } = getGameScenario(req.gameSession);
       const week = parseInt(weekNumber);
       const weeklyState = await storage.getWeeklyState(gameId, week);
       if (!weeklyState) return res.status(404).json({ message: 'Weekly state not found' });
@@ -1171,6 +1809,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
               result.push({ type: 'materials_gmc', amount: billedUnits * u, refId: `${c.supplier}:${c.material}` });
             }
           }
+        } else if (c.type === 'FVC') {
+          // Down payment opens the week after signing; balance lands with the final delivery
+          const total = (c.deliveries || []).reduce((s: number, d: any) => s + Number(d.units || 0) * Number(d.unitPrice ?? unitPrice), 0);
+          const downPayment = total * constants.FVC.DOWN_PAYMENT_RATE;
+          const finalDeliveryWeek = (c.deliveries || []).reduce((m: number, d: any) => Math.max(m, Number(d.week || 0)), 0);
+          if (Number(c.weekSigned) + 1 === week) {
+            result.push({ type: 'materials_fvc', amount: downPayment, refId: `${c.supplier}:${c.material}:deposit` });
+          }
+          if (finalDeliveryWeek === week) {
+            result.push({ type: 'materials_fvc', amount: total - downPayment, refId: `${c.supplier}:${c.material}:balance` });
+          }
         }
       }
 
@@ -1181,12 +1830,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           const product = String(b.product || '');
           const method = String(b.method || 'inhouse');
           const units = Number(b.quantity || 0);
-          const mfg = (GAME_CONSTANTS.MANUFACTURING as any)[product] || {};
+          const mfg = (constants.MANUFACTURING as any)[product] || {};
           const unitProd = method === 'inhouse' ? Number(mfg.inHouseCost || 0) : Number(mfg.outsourceCost || 0);
-          const billedUnits = units > 0 ? Math.max(Number(GAME_CONSTANTS.BATCH_SIZE || 25000), units) : 0;
+          const billedUnits = units > 0 ? Math.max(Number(constants.BATCH_SIZE || 25000), units) : 0;
           result.push({ type: 'production', amount: billedUnits * unitProd, refId: product });
           const shippingMode = (b.shipping || 'standard') as 'standard' | 'expedited';
-          const shipUnit = Number((GAME_CONSTANTS.SHIPPING as any)[product]?.[shippingMode] || 0);
+          const shipUnit = Number((constants.SHIPPING as any)[product]?.[shippingMode] || 0);
           if (shipUnit > 0) result.push({ type: 'logistics', amount: billedUnits * shipUnit, refId: product });
         }
       }
@@ -1199,10 +1848,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Ledger rollup (returns raw rows; client will compute sums per type)
-  app.get('/api/game/:gameId/ledger/rollup', isAuthenticated, async (req: any, res) => {
+  app.get('/api/game/:gameId/ledger/rollup', isAuthenticated, sharedGameView, authorizeGame, async (req: any, res) => {
     try {
       const { gameId } = req.params;
-      const rows = await db.select().from(cashLedgerTable).where(eq(cashLedgerTable.gameSessionId, gameId as any));
+      const rows = await storage.getCashLedgerEntries(gameId);
       res.json({ rows });
     } catch (error) {
       console.error('Error fetching ledger rollup:', error);
@@ -1210,16 +1859,122 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Post-game debrief: ranked findings with their £ impact (server/debrief.ts)
+  app.get('/api/game/:gameId/debrief', isAuthenticated, sharedGameView, authorizeGame, async (req: any, res) => {
+    try {
+      const { gameId } = req.params;
+      const { engine } = getGameScenario(req.gameSession);
+      const weeklyStates = await storage.getAllWeeklyStates(gameId);
+      const finalWeek = weeklyStates.find((w) => Number(w.weekNumber) === 15);
+      if (!finalWeek?.isCommitted) {
+        return res.status(409).json({ message: "The debrief is available once week 15 is committed" });
+      }
+      const ledger = await storage.getCashLedgerEntries(gameId);
+      const gameSession: GameSession = req.gameSession;
+      const finalScore = gameSession.finalScore != null ? Number(gameSession.finalScore) : null;
+      res.json(generateDebrief(engine, weeklyStates, ledger, await getScoringRubric(storage, gameSession), finalScore));
+    } catch (error) {
+      console.error('Error generating debrief:', error);
+      res.status(500).json({ message: 'Failed to generate debrief' });
+    }
+  });
+
+  // Printable season report (server/report.ts), once week 15 is committed
+  app.get('/api/game/:gameId/report.pdf', isAuthenticated, sharedGameView, authorizeGame, async (req: any, res) => {
+    try {
+      const { gameId } = req.params;
+      const gameSession: GameSession = req.gameSession;
+      const { engine } = getGameScenario(gameSession);
+      const [weeklyStates, ordersLog] = await Promise.all([storage.getAllWeeklyStates(gameId), storage.getOrdersLogEntries(gameId)]);
+      if (!weeklyStates.find((w) => Number(w.weekNumber) === 15)?.isCommitted) {
+        return res.status(409).json({ message: "The report is available once week 15 is committed" });
+      }
+      const report = buildSeasonReport(engine, {
+        gameSession,
+        scenarioName: getScenario(gameSession.scenarioId).name,
+        states: weeklyStates,
+        ordersLog,
+        rubric: await getScoringRubric(storage, gameSession),
+      });
+      const pdf = await renderSeasonReport(report);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="season-report-${gameId}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error('Error generating season report:', error);
+      res.status(500).json({ message: 'Failed to generate season report' });
+    }
+  });
+
+  // Spreadsheet exports (server/exports.ts): one CSV per dataset, or every
+  // dataset as a sheet of one XLSX workbook
+  const loadExportDatasets = async (gameId: string) => {
+    const [weeks, ledger, ordersLog] = await Promise.all([
+      storage.getAllWeeklyStates(gameId),
+      storage.getCashLedgerEntries(gameId),
+      storage.getOrdersLogEntries(gameId),
+    ]);
+    return buildExportDatasets({ weeks, ledger, ordersLog });
+  };
+
+  app.get('/api/game/:gameId/export/:dataset.csv', isAuthenticated, sharedGameView, authorizeGame, async (req: any, res) => {
+    try {
+      const { gameId, dataset } = req.params;
+      if (!EXPORT_DATASETS.includes(dataset as ExportDatasetKey)) {
+        return res.status(404).json({ message: `Unknown dataset: ${dataset}. Available: ${EXPORT_DATASETS.join(', ')}` });
+      }
+      const datasets = await loadExportDatasets(gameId);
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="game-${gameId}-${dataset}.csv"`);
+      res.send(toCsv(datasets.find(d => d.key === dataset)!));
+    } catch (error) {
+      console.error('Error exporting CSV:', error);
+      res.status(500).json({ message: 'Failed to export game data' });
+    }
+  });
+
+  app.get('/api/game/:gameId/export.xlsx', isAuthenticated, sharedGameView, authorizeGame, async (req: any, res) => {
+    try {
+      const { gameId } = req.params;
+      const workbook = await toXlsx(await loadExportDatasets(gameId));
+      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      res.setHeader('Content-Disposition', `attachment; filename="game-${gameId}.xlsx"`);
+      res.send(workbook);
+    } catch (error) {
+      console.error('Error exporting workbook:', error);
+      res.status(500).json({ message: 'Failed to export game data' });
+    }
+  });
+
   // Game data endpoints
-  app.get('/api/game/constants', async (req, res) => {
-    res.json(GAME_CONSTANTS);
+  app.get('/api/scenarios', async (_req, res) => {
+    res.json(listScenarios());
   });
 
-  app.post('/api/game/calculate-demand', async (req, res) => {
+  // Constants of the requested game's scenario (?gameId=), else the caller's
+  // current game, else the default scenario
+  app.get('/api/game/constants', sharedGameView, authorizeGame, async (req: any, res) => {
+    try {
+      let gameSession = req.gameSession;
+      const userId = req.user?.claims?.sub;
+      if (!gameSession && userId) {
+        gameSession = await storage.getUserActiveGameSession(userId) || await storage.getUserLatestGameSession(userId);
+      }
+      // Disruption events stay hidden until the week they hit (weekly_states.disruptions)
+      const { EVENTS: _events, ...constants } = getGameScenario(gameSession).constants;
+      res.json(constants);
+    } catch (error) {
+      console.error("Error fetching constants:", error);
+      res.status(500).json({ message: "Failed to fetch constants" });
+    }
+  });
+
+  app.post('/api/game/calculate-demand', authorizeGame, async (req: any, res) => {
     try {
       const { product, week, rrp, discount, marketingSpend, hasPrint, materialChoice, fabric } = req.body;
+      const { engine } = getGameScenario(req.gameSession);
       
-      const demand = GameEngine.calculateDemand(
+      const demand = engine.calculateDemand(
         product,
         week,
         rrp,
@@ -1237,13 +1992,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Preview next week's A/I and demand using current planned marketing/discounts
-  app.get('/api/game/:gameId/week/:weekNumber/marketing-preview', isAuthenticated, async (req: any, res) => {
+  app.get('/api/game/:gameId/week/:weekNumber/marketing-preview', isAuthenticated, authorizeGame, async (req: any, res) => {
     try {
       const { gameId, weekNumber } = req.params;
+      const { engine } = getGameScenario(req.gameSession);
       const week = parseInt(weekNumber);
       const weeklyState = await storage.getWeeklyState(gameId, week);
       if (!weeklyState) return res.status(404).json({ message: 'Weekly state not found' });
-      const result = GameEngine.previewNextWeekMarketing(weeklyState as any);
+      const result = engine.previewNextWeekMarketing(weeklyState as any, undefined, undefined, { uncertainDemand: !!req.gameSession.demandSeed });
       res.json(result);
     } catch (error) {
       console.error('Error generating marketing preview:', error);
@@ -1251,15 +2007,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/game/:gameId/week/:weekNumber/marketing-preview', isAuthenticated, async (req: any, res) => {
+  app.post('/api/game/:gameId/week/:weekNumber/marketing-preview', isAuthenticated, authorizeGame, async (req: any, res) => {
     try {
       const { gameId, weekNumber } = req.params;
+      const { engine } = getGameScenario(req.gameSession);
       const week = parseInt(weekNumber);
       const weeklyState = await storage.getWeeklyState(gameId, week);
       if (!weeklyState) return res.status(404).json({ message: 'Weekly state not found' });
       const plan = req.body?.plan || req.body?.plannedMarketingPlan || undefined;
       const discounts = req.body?.discounts || req.body?.plannedWeeklyDiscounts || undefined;
-      const result = GameEngine.previewNextWeekMarketing(weeklyState as any, plan, discounts);
+      const result = engine.previewNextWeekMarketing(weeklyState as any, plan, discounts, { uncertainDemand: !!req.gameSession.demandSeed });
       res.json(result);
     } catch (error) {
       console.error('Error generating marketing preview (POST):', error);
@@ -1267,11 +2024,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/game/calculate-unit-cost', async (req, res) => {
+  app.post('/api/game/calculate-unit-cost', authorizeGame, async (req: any, res) => {
     try {
       const { product, materialChoice, hasPrint } = req.body;
+      const { engine } = getGameScenario(req.gameSession);
       
-      const cost = GameEngine.calculateProjectedUnitCost(product, materialChoice, hasPrint);
+      const cost = engine.calculateProjectedUnitCost(product, materialChoice, hasPrint);
       
       res.json({ cost });
     } catch (error) {
@@ -1280,6 +2038,420 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ------------------------------------------------------------------
+  // Cohorts: instructors create a class and share its join code; students
+  // join with the code; the instructor dashboard lists every member's game.
+  // ------------------------------------------------------------------
+
+  // Become an instructor with the deployment's access code (INSTRUCTOR_ACCESS_CODE)
+  app.post('/api/instructor/enroll', isAuthenticated, async (req: any, res) => {
+    try {
+      const expected = process.env.INSTRUCTOR_ACCESS_CODE;
+      if (!expected) {
+        return res.status(403).json({ message: "Instructor access is not enabled on this server" });
+      }
+      const { accessCode } = z.object({ accessCode: z.string().min(1) }).parse(req.body);
+      if (!accessCodeMatches(accessCode, expected)) {
+        return res.status(403).json({ message: "Invalid instructor access code" });
+      }
+      const user = await storage.updateUser(req.user.claims.sub, { role: 'instructor' });
+      res.json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Access code is required" });
+      }
+      console.error("Error enrolling instructor:", error);
+      res.status(500).json({ message: "Failed to enrol instructor" });
+    }
+  });
+
+  app.get('/api/cohorts', isAuthenticated, isInstructor, async (req: any, res) => {
+    try {
+      const cohorts = await storage.getInstructorCohorts(req.user.claims.sub);
+      const withCounts = await Promise.all(cohorts.map(async (cohort) => ({
+        ...cohort,
+        memberCount: (await storage.getCohortMembers(cohort.id)).length,
+      })));
+      res.json(withCounts);
+    } catch (error) {
+      console.error("Error fetching cohorts:", error);
+      res.status(500).json({ message: "Failed to fetch cohorts" });
+    }
+  });
+
+  app.post('/api/cohorts', isAuthenticated, isInstructor, async (req: any, res) => {
+    try {
+      const { name } = z.object({ name: z.string().trim().min(1).max(120) }).parse(req.body);
+      // Retry on the rare join-code collision
+      for (let attempt = 0; attempt < 5; attempt++) {
+        const joinCode = generateJoinCode();
+        if (await storage.getCohortByJoinCode(joinCode)) continue;
+        const cohort = await storage.createCohort({ name, joinCode, instructorId: req.user.claims.sub });
+        return res.json(cohort);
+      }
+      res.status(500).json({ message: "Failed to allocate a join code" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Cohort name is required" });
+      }
+      console.error("Error creating cohort:", error);
+      res.status(500).json({ message: "Failed to create cohort" });
+    }
+  });
+
+  // Cohort settings (instructor who owns it)
+  app.patch('/api/cohorts/:cohortId', isAuthenticated, isInstructor, async (req: any, res) => {
+    try {
+      const cohort = await storage.getCohort(req.params.cohortId);
+      if (!cohort || cohort.instructorId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Cohort not found" });
+      }
+      const updates = z.object({
+        name: z.string().trim().min(1).max(120).optional(),
+        maxRewinds: z.number().int().min(0).max(14).nullable().optional(),
+        // Partial rubric; null goes back to the scenario's SCORING
+        scoring: z.object({
+          EP_WEIGHT: z.number().min(0).max(10),
+          SERVICE_LEVEL_GATE: z.number().min(0).max(100),
+          SERVICE_LEVEL_PENALTY_PER_POINT: z.number().min(0),
+          CASH_PENALTY_RATE: z.number().min(0).max(10),
+          DEAD_STOCK_MULTIPLIER: z.number().min(0).max(10),
+          LAUNCH_WEEK: z.number().int().min(7).max(15),
+          LATE_LAUNCH_PENALTY_PER_WEEK: z.number().min(0),
+        }).partial().strict().nullable().optional(),
+      }).parse(req.body);
+      res.json(await storage.updateCohort(cohort.id, updates));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid cohort settings" });
+      }
+      console.error("Error updating cohort:", error);
+      res.status(500).json({ message: "Failed to update cohort" });
+    }
+  });
+
+  // Cohorts the current user has joined as a student
+  app.get('/api/cohorts/mine', isAuthenticated, async (req: any, res) => {
+    try {
+      const cohorts = await storage.getUserCohorts(req.user.claims.sub);
+      res.json(cohorts.map(({ id, name, joinCode }) => ({ id, name, joinCode })));
+    } catch (error) {
+      console.error("Error fetching joined cohorts:", error);
+      res.status(500).json({ message: "Failed to fetch joined cohorts" });
+    }
+  });
+
+  app.post('/api/cohorts/join', isAuthenticated, async (req: any, res) => {
+    try {
+      const { joinCode, displayName } = z.object({
+        joinCode: z.string().trim().min(1),
+        displayName: z.string().trim().max(120).optional(),
+      }).parse(req.body);
+      const cohort = await storage.getCohortByJoinCode(joinCode.toUpperCase());
+      if (!cohort) {
+        return res.status(404).json({ message: "No class found for that join code" });
+      }
+      await storage.addCohortMember(cohort.id, req.user.claims.sub, displayName || undefined);
+      res.json({ id: cohort.id, name: cohort.name, joinCode: cohort.joinCode });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Join code is required" });
+      }
+      console.error("Error joining cohort:", error);
+      res.status(500).json({ message: "Failed to join class" });
+    }
+  });
+
+  // Leaderboard: each member's best completed game (server/leaderboard.ts),
+  // for the cohort's members and its instructor
+  app.get('/api/cohorts/:cohortId/leaderboard', isAuthenticated, async (req: any, res) => {
+    try {
+      const viewerId = req.user.claims.sub;
+      const cohort = await storage.getCohort(req.params.cohortId);
+      const members = cohort ? await storage.getCohortMembers(cohort.id) : [];
+      const viewerIsInstructor = cohort?.instructorId === viewerId;
+      const membership = members.find(m => m.userId === viewerId);
+      if (!cohort || (!viewerIsInstructor && !membership)) {
+        return res.status(404).json({ message: "Cohort not found" });
+      }
+      const { scenarioId, sort } = z.object({
+        scenarioId: z.string().optional(),
+        sort: z.enum(LEADERBOARD_SORTS as [LeaderboardSort, ...LeaderboardSort[]]).default('score'),
+      }).parse(req.query);
+
+      const marketCohorts = new Map((await storage.getCohortMarkets(cohort.id)).map(m => [m.id, m.cohortId]));
+      const candidates = (await Promise.all(members.map(async (member) => {
+        const [user, sessions] = await Promise.all([storage.getUser(member.userId), storage.getUserGameSessions(member.userId)]);
+        const name = member.displayName || [user?.firstName, user?.lastName].filter(Boolean).join(' ') || null;
+        return sessions
+          .filter(gameSession => scoredInCohort(cohort, member.joinedAt, gameSession, gameSession.marketId ? marketCohorts.get(gameSession.marketId) : undefined))
+          .map(gameSession => ({ userId: member.userId, name, showOnLeaderboard: !!member.showOnLeaderboard, gameSession }));
+      }))).flat();
+      const graded = candidates.filter(c => c.gameSession.isCompleted && c.gameSession.finalScore != null && !c.gameSession.sandboxOf);
+      // Scenarios with at least one graded game, for the filter
+      const scenarios = Array.from(new Set(graded.map(c => c.gameSession.scenarioId)))
+        .map(id => ({ id, name: getScenario(id).name }));
+      const entries = buildLeaderboard(
+        cohort.id,
+        scenarioId ? graded.filter(c => c.gameSession.scenarioId === scenarioId) : graded,
+        { viewerId, viewerIsInstructor, sort },
+      );
+      res.json({
+        cohort: { id: cohort.id, name: cohort.name },
+        sort,
+        scenarios,
+        showOnLeaderboard: membership ? !!membership.showOnLeaderboard : null,
+        entries: entries.map(e => ({ ...e, scenarioName: getScenario(e.scenarioId).name })),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid leaderboard filter" });
+      }
+      console.error("Error fetching leaderboard:", error);
+      res.status(500).json({ message: "Failed to fetch leaderboard" });
+    }
+  });
+
+  // A member's own leaderboard setting: their name or an anonymous handle
+  app.patch('/api/cohorts/:cohortId/membership', isAuthenticated, async (req: any, res) => {
+    try {
+      const { showOnLeaderboard } = z.object({ showOnLeaderboard: z.boolean() }).parse(req.body);
+      const member = await storage.updateCohortMember(req.params.cohortId, req.user.claims.sub, { showOnLeaderboard });
+      if (!member) {
+        return res.status(404).json({ message: "Cohort not found" });
+      }
+      res.json({ cohortId: member.cohortId, showOnLeaderboard: !!member.showOnLeaderboard });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "showOnLeaderboard must be true or false" });
+      }
+      console.error("Error updating membership:", error);
+      res.status(500).json({ message: "Failed to update membership" });
+    }
+  });
+
+  // Roster: one row per member with their latest game's progress and results
+  app.get('/api/cohorts/:cohortId/roster', isAuthenticated, isInstructor, async (req: any, res) => {
+    try {
+      const cohort = await storage.getCohort(req.params.cohortId);
+      if (!cohort || cohort.instructorId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Cohort not found" });
+      }
+      const members = await storage.getCohortMembers(cohort.id);
+      const students = await Promise.all(members.map(async (member) => {
+        const user = await storage.getUser(member.userId);
+        const gameSession = await storage.getUserLatestGameSession(member.userId);
+        const states = gameSession ? await storage.getAllWeeklyStates(gameSession.id) : [];
+        const latest = states[states.length - 1];
+        const committed = states.filter(w => w.isCommitted);
+        const displayName = member.displayName
+          || [user?.firstName, user?.lastName].filter(Boolean).join(' ')
+          || user?.email
+          || member.userId;
+        return {
+          userId: member.userId,
+          name: displayName,
+          email: user?.email ?? null,
+          joinedAt: member.joinedAt,
+          gameSessionId: gameSession?.id ?? null,
+          status: !gameSession ? 'not_started' : gameSession.isCompleted ? 'completed' : 'in_progress',
+          currentWeek: latest ? Number(latest.weekNumber) : null,
+          cash: gameSession?.isCompleted && gameSession.finalCash != null
+            ? Number(gameSession.finalCash)
+            : latest ? Number(latest.cashOnHand || 0) : null,
+          serviceLevel: gameSession?.isCompleted && gameSession.finalServiceLevel != null
+            ? Number(gameSession.finalServiceLevel)
+            : committed.length > 0 ? GameEngine.calculateServiceLevel(committed) : null,
+          finalScore: gameSession?.finalScore != null ? Number(gameSession.finalScore) : null,
+          rewindsUsed: gameSession ? Number(gameSession.rewindCount || 0) : null,
+        };
+      }));
+      res.json({ cohort, students });
+    } catch (error) {
+      console.error("Error fetching cohort roster:", error);
+      res.status(500).json({ message: "Failed to fetch cohort roster" });
+    }
+  });
+
+  // ------------------------------------------------------------------
+  // Multiplayer markets: the instructor opens a market in a cohort, members
+  // join as teams, and weeks advance for every team together.
+  // ------------------------------------------------------------------
+
+  app.get('/api/cohorts/:cohortId/markets', isAuthenticated, isInstructor, async (req: any, res) => {
+    try {
+      const cohort = await storage.getCohort(req.params.cohortId);
+      if (!cohort || cohort.instructorId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Cohort not found" });
+      }
+      const markets = await storage.getCohortMarkets(cohort.id);
+      res.json(await Promise.all(markets.map(m => getMarketStatus(m.id))));
+    } catch (error) {
+      console.error("Error fetching markets:", error);
+      res.status(500).json({ message: "Failed to fetch markets" });
+    }
+  });
+
+  app.post('/api/cohorts/:cohortId/markets', isAuthenticated, isInstructor, async (req: any, res) => {
+    try {
+      const cohort = await storage.getCohort(req.params.cohortId);
+      if (!cohort || cohort.instructorId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Cohort not found" });
+      }
+      const { name, scenarioId, weekDeadlineHours } = z.object({
+        name: z.string().trim().min(1).max(120),
+        scenarioId: z.string().default(DEFAULT_SCENARIO_ID),
+        weekDeadlineHours: z.number().int().min(1).max(24 * 14).optional(),
+      }).parse(req.body);
+      if (!hasScenario(scenarioId)) {
+        return res.status(400).json({ message: `Unknown scenario: ${scenarioId}` });
+      }
+      const market = await storage.createMarket({
+        cohortId: cohort.id,
+        name,
+        scenarioId,
+        weekDeadlineHours: weekDeadlineHours ?? getScenarioEngine(scenarioId).constants.MARKET.DEFAULT_WEEK_DEADLINE_HOURS,
+        createdBy: req.user.claims.sub,
+      });
+      res.json(await getMarketStatus(market.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Market name is required" });
+      }
+      console.error("Error creating market:", error);
+      res.status(500).json({ message: "Failed to create market" });
+    }
+  });
+
+  // Markets open to the current user through the cohorts they have joined
+  app.get('/api/markets', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const cohorts = await storage.getUserCohorts(userId);
+      const markets = (await Promise.all(cohorts.map(c => storage.getCohortMarkets(c.id)))).flat();
+      const rows = await Promise.all(markets.map(async (m) => {
+        const status = await getMarketStatus(m.id);
+        const myTeam = status?.teams.find(t => t.userId === userId);
+        return { ...status, myGameSessionId: myTeam?.gameSessionId ?? null };
+      }));
+      res.json(rows);
+    } catch (error) {
+      console.error("Error listing markets:", error);
+      res.status(500).json({ message: "Failed to list markets" });
+    }
+  });
+
+  // Market status for its teams and the cohort's instructor. Polling this is
+  // also what resolves a week once its deadline has passed.
+  app.get('/api/markets/:marketId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const market = await storage.getMarket(req.params.marketId);
+      const cohort = market ? await storage.getCohort(market.cohortId) : undefined;
+      if (!market || !cohort) {
+        return res.status(404).json({ message: "Market not found" });
+      }
+      const isMember = (await storage.getCohortMembers(cohort.id)).some(m => m.userId === userId);
+      if (!isMember && cohort.instructorId !== userId) {
+        return res.status(403).json({ message: "You do not have access to this market" });
+      }
+      if (market.status === 'running' && market.weekDeadlineAt && new Date(market.weekDeadlineAt).getTime() <= Date.now()) {
+        await resolveMarketWeek(market.id);
+      }
+      res.json(await getMarketStatus(market.id));
+    } catch (error) {
+      console.error("Error fetching market:", error);
+      res.status(500).json({ message: "Failed to fetch market" });
+    }
+  });
+
+  // Join a market in the lobby as a team; the team's game becomes the current one
+  app.post('/api/markets/:marketId/join', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { teamName } = z.object({ teamName: z.string().trim().min(1).max(60) }).parse(req.body);
+      const market = await storage.getMarket(req.params.marketId);
+      if (!market || !(await storage.getCohortMembers(market.cohortId)).some(m => m.userId === userId)) {
+        return res.status(404).json({ message: "Market not found" });
+      }
+      if (market.status !== 'lobby') {
+        return res.status(409).json({ message: "This market has already started" });
+      }
+      const teams = await storage.getMarketGameSessions(market.id);
+      if (teams.some(t => t.userId === userId)) {
+        return res.status(409).json({ message: "You have already joined this market" });
+      }
+      if (teams.some(t => (t.teamName || '').toLowerCase() === teamName.toLowerCase())) {
+        return res.status(409).json({ message: "That team name is taken" });
+      }
+
+      const gameSession = await storage.createGameSession({
+        userId,
+        scenarioId: market.scenarioId,
+        marketId: market.id,
+        teamName,
+        isCompleted: false,
+      });
+      const initialState = getScenarioEngine(market.scenarioId).initializeNewGame(userId);
+      await storage.createWeeklyState({
+        gameSessionId: gameSession.id,
+        ...initialState,
+      } as any);
+      res.json(gameSession);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Team name is required" });
+      }
+      console.error("Error joining market:", error);
+      res.status(500).json({ message: "Failed to join market" });
+    }
+  });
+
+  // Close the lobby and open week 1 (instructor who owns the cohort)
+  app.post('/api/markets/:marketId/start', isAuthenticated, isInstructor, async (req: any, res) => {
+    try {
+      const market = await storage.getMarket(req.params.marketId);
+      const cohort = market ? await storage.getCohort(market.cohortId) : undefined;
+      if (!market || !cohort || cohort.instructorId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Market not found" });
+      }
+      if (market.status !== 'lobby') {
+        return res.status(409).json({ message: "This market has already started" });
+      }
+      if ((await storage.getMarketGameSessions(market.id)).length < 2) {
+        return res.status(400).json({ message: "A market needs at least two teams" });
+      }
+      await storage.updateMarket(market.id, {
+        status: 'running',
+        currentWeek: 1,
+        weekDeadlineAt: new Date(Date.now() + market.weekDeadlineHours * 60 * 60 * 1000),
+      });
+      res.json(await getMarketStatus(market.id));
+    } catch (error) {
+      console.error("Error starting market:", error);
+      res.status(500).json({ message: "Failed to start market" });
+    }
+  });
+
+  // Resolve the current week now, committing teams that have not submitted
+  app.post('/api/markets/:marketId/advance', isAuthenticated, isInstructor, async (req: any, res) => {
+    try {
+      const market = await storage.getMarket(req.params.marketId);
+      const cohort = market ? await storage.getCohort(market.cohortId) : undefined;
+      if (!market || !cohort || cohort.instructorId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Market not found" });
+      }
+      if (market.status !== 'running') {
+        return res.status(409).json({ message: "This market is not running" });
+      }
+      await resolveMarketWeek(market.id, true);
+      res.json(await getMarketStatus(market.id));
+    } catch (error) {
+      console.error("Error advancing market:", error);
+      res.status(500).json({ message: "Failed to advance market" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
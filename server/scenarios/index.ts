@@ -0,0 +1,106 @@
+import { GameEngine, GAME_CONSTANTS, type GameConstants } from "../gameEngine";
+import vintageRevival from "./vintage-revival.json";
+import creditCrunch from "./credit-crunch.json";
+import earlySummer from "./early-summer.json";
+import supplyShock from "./supply-shock.json";
+
+// Named scenarios. Each JSON file carries partial overrides of GAME_CONSTANTS:
+// objects are merged key by key, arrays and scalars replace the default.
+interface ScenarioFile {
+  id: string;
+  name: string;
+  description: string;
+  constants: Record<string, unknown>;
+}
+
+export interface Scenario {
+  id: string;
+  name: string;
+  description: string;
+  constants: GameConstants;
+}
+
+export const DEFAULT_SCENARIO_ID = 'vintage-revival';
+
+const SCENARIO_FILES: ScenarioFile[] = [vintageRevival, creditCrunch, earlySummer, supplyShock];
+
+// The field each kind of disruption event needs, with its allowed range
+const EVENT_EFFECTS: Record<string, { field: string; min: number; max: number }> = {
+  supplier_delay: { field: 'delayWeeks', min: 1, max: 14 },
+  port_strike: { field: 'delayWeeks', min: 1, max: 14 },
+  capacity_cut: { field: 'capacityFactor', min: 0, max: 1 },
+  price_spike: { field: 'priceMultiplier', min: 1, max: 10 },
+};
+
+function validateEvents(scenarioId: string, events: unknown): void {
+  if (!Array.isArray(events)) throw new Error(`Scenario ${scenarioId}: EVENTS must be a list`);
+  const ids = new Set<string>();
+  for (const event of events) {
+    const effect = EVENT_EFFECTS[event?.kind];
+    const label = `Scenario ${scenarioId}: event ${event?.id ?? '(no id)'}`;
+    if (!event?.id || ids.has(event.id)) throw new Error(`${label} needs a unique id`);
+    ids.add(event.id);
+    if (!effect) throw new Error(`${label} has unknown kind ${event.kind}`);
+    // Week 1 has nothing in flight to disrupt
+    if (!Number.isInteger(event.week) || event.week < 2 || event.week > 15) throw new Error(`${label}: week must be 2 to 15`);
+    if (!event.title || !event.message) throw new Error(`${label} needs a title and a message`);
+    const value = event[effect.field];
+    if (typeof value !== 'number' || value < effect.min || value > effect.max) {
+      throw new Error(`${label}: ${effect.field} must be ${effect.min} to ${effect.max}`);
+    }
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function mergeOverrides(base: any, overrides: any): any {
+  if (!isPlainObject(base) || !isPlainObject(overrides)) return overrides;
+  const merged: Record<string, any> = { ...base };
+  for (const [key, value] of Object.entries(overrides)) {
+    merged[key] = key in base ? mergeOverrides(base[key], value) : value;
+  }
+  return merged;
+}
+
+function buildScenario(file: ScenarioFile): Scenario {
+  if (Object.keys(file.constants).length === 0) {
+    return { id: file.id, name: file.name, description: file.description, constants: GAME_CONSTANTS };
+  }
+  const constants = mergeOverrides(GAME_CONSTANTS, file.constants) as GameConstants;
+  // Fail fast on malformed week-indexed arrays; the engine reads them by week - 1
+  for (const key of ['SEASONALITY', 'CAPACITY_SCHEDULE'] as const) {
+    if (!Array.isArray(constants[key]) || constants[key].length !== 15) {
+      throw new Error(`Scenario ${file.id}: ${key} must list 15 weeks`);
+    }
+  }
+  validateEvents(file.id, constants.EVENTS);
+  return { id: file.id, name: file.name, description: file.description, constants };
+}
+
+const scenarios = new Map<string, Scenario>(SCENARIO_FILES.map((file) => [file.id, buildScenario(file)]));
+const engines = new Map<string, typeof GameEngine>();
+
+export function listScenarios(): Array<Omit<Scenario, 'constants'>> {
+  return Array.from(scenarios.values()).map(({ id, name, description }) => ({ id, name, description }));
+}
+
+export function hasScenario(id: string): boolean {
+  return scenarios.has(id);
+}
+
+// Unknown ids (e.g. a scenario file removed after games were started) fall back to the default
+export function getScenario(id?: string | null): Scenario {
+  return scenarios.get(id || DEFAULT_SCENARIO_ID) || scenarios.get(DEFAULT_SCENARIO_ID)!;
+}
+
+export function getScenarioEngine(id?: string | null): typeof GameEngine {
+  const scenario = getScenario(id);
+  let engine = engines.get(scenario.id);
+  if (!engine) {
+    engine = GameEngine.withScenario(scenario.constants);
+    engines.set(scenario.id, engine);
+  }
+  return engine;
+}
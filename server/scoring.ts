@@ -0,0 +1,63 @@
+import type { ProductKey, ScoreBreakdown, ScoringRubric, WeeklyState } from "@shared/schema";
+
+// Final score of a season under a scoring rubric (constants.SCORING, with any
+// cohort overrides). The score is in pounds: weighted economic profit less
+// the penalties for the spec's other priorities — service level, a positive
+// cash position, dead stock and launching on time.
+
+export interface ScoreInputs {
+  economicProfit: number;
+  // % of demand served in weeks 7-12
+  serviceLevel: number;
+  finalCash: number;
+  finalCredit: number;
+  // Unsold finished goods at unit cost after week 15
+  deadStockValue: number;
+  // Product-weeks between LAUNCH_WEEK and each product's first sale
+  lateLaunchWeeks: number;
+}
+
+const PRODUCTS: ProductKey[] = ['jacket', 'dress', 'pants'];
+const LAST_WEEK = 15;
+
+/** First week from `launchWeek` on with sales, per product; null if it never sold. */
+export function productLaunchWeeks(allStates: WeeklyState[], launchWeek: number): Record<ProductKey, number | null> {
+  const sorted = [...allStates].sort((a, b) => Number(a.weekNumber) - Number(b.weekNumber));
+  const result = {} as Record<ProductKey, number | null>;
+  for (const p of PRODUCTS) {
+    const first = sorted.find((w) => Number(w.weekNumber) >= launchWeek && Number((w.weeklySales as any)?.[p] || 0) > 0);
+    result[p] = first ? Number(first.weekNumber) : null;
+  }
+  return result;
+}
+
+/** Weeks each product launched late, summed; a product that never sold is late for the whole season. */
+export function lateLaunchWeeks(allStates: WeeklyState[], launchWeek: number): number {
+  return Object.values(productLaunchWeeks(allStates, launchWeek))
+    .reduce((sum: number, first) => sum + Math.max(0, (first ?? LAST_WEEK + 1) - launchWeek), 0);
+}
+
+/** The rubric with a cohort's overrides applied; unknown keys and non-numbers are ignored. */
+export function withRubricOverrides(rubric: ScoringRubric, overrides?: Partial<ScoringRubric> | null): ScoringRubric {
+  const merged = { ...rubric };
+  for (const key of Object.keys(rubric) as Array<keyof ScoringRubric>) {
+    const value = overrides?.[key];
+    if (typeof value === 'number' && Number.isFinite(value)) merged[key] = value;
+  }
+  return merged;
+}
+
+export function scoreSeason(inputs: ScoreInputs, rubric: ScoringRubric): ScoreBreakdown {
+  const serviceShortfall = Math.max(0, rubric.SERVICE_LEVEL_GATE - inputs.serviceLevel);
+  const netDebt = Math.max(0, inputs.finalCredit - inputs.finalCash);
+  const components: ScoreBreakdown['components'] = [
+    { key: 'economic_profit', label: 'Economic profit', value: inputs.economicProfit, points: inputs.economicProfit * rubric.EP_WEIGHT },
+    { key: 'service_level', label: `Service level below ${rubric.SERVICE_LEVEL_GATE}%`, value: inputs.serviceLevel, points: -serviceShortfall * rubric.SERVICE_LEVEL_PENALTY_PER_POINT },
+    { key: 'cash_position', label: 'Net debt at season end', value: inputs.finalCash - inputs.finalCredit, points: -netDebt * rubric.CASH_PENALTY_RATE },
+    { key: 'dead_stock', label: 'Dead stock', value: inputs.deadStockValue, points: -inputs.deadStockValue * rubric.DEAD_STOCK_MULTIPLIER },
+    { key: 'late_launch', label: `Launch after week ${rubric.LAUNCH_WEEK}`, value: inputs.lateLaunchWeeks, points: -inputs.lateLaunchWeeks * rubric.LATE_LAUNCH_PENALTY_PER_WEEK },
+  ];
+  // No negative zero for penalties that did not apply
+  for (const c of components) c.points = c.points === 0 ? 0 : Math.round(c.points * 100) / 100;
+  return { rubric, components, total: components.reduce((s, c) => s + c.points, 0) };
+}
@@ -0,0 +1,133 @@
+import type { RunOutMode, WeeklyState } from "@shared/schema";
+import type { FinalResults, LedgerEntryDraft, GameEngine, ValidationIssue } from "./gameEngine";
+import { DEFAULT_SCENARIO_ID, getScenarioEngine, hasScenario, mergeOverrides } from "./scenarios";
+
+// Headless season runner: plays initializeNewGame → commitWeek × 15 with the
+// same week-advance path as the commit route, without storage or HTTP.
+
+/**
+ * Decisions for one week, applied to the live state before validation/commit.
+ * `set` merges into the state (objects key by key, arrays replace);
+ * `contracts` and `batches` append to the carried-forward contract and
+ * production lists so earlier commitments are kept.
+ */
+export interface WeekDecisions {
+  set?: Record<string, unknown>;
+  contracts?: any[];
+  batches?: any[];
+}
+
+export interface DecisionScript {
+  scenario?: string;
+  // Uncertain-demand mode: seed for the weekly demand draws
+  demandSeed?: string;
+  // 'automatic' for fixed week 13-15 clearance markdowns (default 'player')
+  runOutMode?: RunOutMode;
+  // Backorder mode: part of unmet demand waits for stock
+  backorders?: boolean;
+  weeks: Record<string, WeekDecisions | undefined>;
+}
+
+export interface SimulatedWeek {
+  weekNumber: number;
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+  state: WeeklyState;
+}
+
+export interface SimulationResult {
+  scenarioId: string;
+  weeks: SimulatedWeek[];
+  ledger: Array<LedgerEntryDraft & { weekNumber: number }>;
+  final: FinalResults | null;
+  // Set when a week failed validation and the run was not forced
+  stoppedAtWeek?: number;
+}
+
+export interface SimulationOptions {
+  // Commit weeks even when validation reports errors
+  force?: boolean;
+  // Overrides the script's demandSeed
+  demandSeed?: string;
+}
+
+function applyDecisions(engine: typeof GameEngine, state: any, week: number, decisions: WeekDecisions): any {
+  const next = decisions.set ? mergeOverrides(state, decisions.set) : state;
+  const suppliers = engine.constants.SUPPLIERS as any;
+
+  if (decisions.contracts?.length) {
+    const existing = (next.procurementContracts?.contracts || []) as any[];
+    const added = decisions.contracts.map((c: any, i: number) => {
+      const catalogue = suppliers[c.supplier]?.materials?.[c.material];
+      if (!catalogue) throw new Error(`Week ${week}: unknown material ${c.material} for ${c.supplier}`);
+      const printSurcharge = c.printed ? Number(catalogue.printSurcharge || 0) : 0;
+      const price = Number(catalogue.price || 0) * engine.materialPriceMultiplier(c.supplier, c.material, week);
+      return {
+        id: `${String(c.type || 'SPT').toLowerCase()}-w${week}-${c.supplier}-${c.material}-${i}`,
+        weekSigned: week,
+        unitBasePrice: price,
+        printSurcharge,
+        // Catalogue price unless the script locks a negotiated (discounted) price
+        lockedUnitPrice: price + printSurcharge,
+        ...c,
+      };
+    });
+    next.procurementContracts = { ...(next.procurementContracts || {}), contracts: [...existing, ...added] };
+  }
+
+  if (decisions.batches?.length) {
+    const existing = (next.productionSchedule?.batches || []) as any[];
+    const added = decisions.batches.map((b: any, i: number) => ({
+      id: `batch-w${week}-${b.product}-${i}`,
+      startWeek: week,
+      method: 'inhouse',
+      shipping: 'standard',
+      ...b,
+    }));
+    next.productionSchedule = { ...(next.productionSchedule || {}), batches: [...existing, ...added] };
+  }
+
+  return next;
+}
+
+export async function simulateSeason(script: DecisionScript, options: SimulationOptions = {}): Promise<SimulationResult> {
+  const scenarioId = script.scenario || DEFAULT_SCENARIO_ID;
+  if (!hasScenario(scenarioId)) {
+    throw new Error(`Unknown scenario: ${scenarioId}`);
+  }
+  const engine = getScenarioEngine(scenarioId);
+  const demandSeed = options.demandSeed ?? script.demandSeed ?? null;
+  const runOutMode = script.runOutMode ?? 'player';
+  const backorders = !!script.backorders;
+  const gameSession = { id: 'simulation', userId: 'simulation', scenarioId, demandSeed, runOutMode, backorderMode: backorders } as any;
+
+  const result: SimulationResult = { scenarioId, weeks: [], ledger: [], final: null };
+  let state: any = { ...engine.initializeNewGame('simulation'), gameSessionId: 'simulation', weekNumber: 1 };
+
+  for (let week = 1; week <= 15; week++) {
+    state = applyDecisions(engine, state, week, script.weeks?.[String(week)] || {});
+    const preCommitState = JSON.parse(JSON.stringify(state));
+
+    engine.clampPlannedMarketingToLiquidity(state);
+    const validation = engine.validateWeeklyDecisions(week, state, gameSession);
+    if (!validation.canCommit && !options.force) {
+      result.weeks.push({ weekNumber: week, errors: validation.errors, warnings: validation.warnings, state });
+      result.stoppedAtWeek = week;
+      return result;
+    }
+
+    const computed = await engine.commitWeek(state, { demandSeed, runOutMode, backorders });
+    for (const entry of ((computed as any).ledgerEntries || []) as LedgerEntryDraft[]) {
+      result.ledger.push({ ...entry, weekNumber: entry.weekNumber ?? week });
+    }
+    const { ledgerEntries: _ledger, ...committed } = computed as any;
+    result.weeks.push({ weekNumber: week, errors: validation.errors, warnings: validation.warnings, state: committed });
+
+    if (week < 15) {
+      state = engine.advanceWeek(computed, preCommitState);
+    }
+  }
+
+  result.final = engine.calculateFinalResults(result.weeks.map((w) => w.state));
+  return result;
+}
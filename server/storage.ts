@@ -13,38 +13,97 @@
  * should not be used in production.
  */
 
-import { db } from "./db";
-import { and, desc, eq, sql as dsql, asc } from "drizzle-orm";
+import { db as defaultDb } from "./db";
+import { and, desc, eq, gt, gte, inArray, isNull, or, sql as dsql, asc } from "drizzle-orm";
 import {
   users as usersTable,
   gameSessions as gameSessionsTable,
   weeklyStates as weeklyStatesTable,
+  cohorts as cohortsTable,
+  cohortMembers as cohortMembersTable,
+  markets as marketsTable,
+  cashLedger as cashLedgerTable,
+  ordersLog as ordersLogTable,
+  type CashLedger,
+  type InsertCashLedger,
+  type OrdersLog,
+  type InsertOrdersLog,
+  type Cohort,
+  type CohortMember,
+  type InsertCohort,
   type GameSession,
   type WeeklyState,
   type User,
   type UpsertUser,
   type InsertGameSession,
   type InsertWeeklyState,
+  type InsertMarket,
+  type Market,
 } from "@shared/schema";
 
+// The shared Drizzle database or an open transaction on it
+type DbExecutor = typeof defaultDb | Parameters<Parameters<typeof defaultDb.transaction>[0]>[0];
+
 // Define the shape of the storage interface. This mirrors the original
 // interface used with the Postgres implementation but is simplified for
 // clarity. All methods return Promises so they can be used interchangeably
 // with the async database version.
 export interface IStorage {
+  // Runs fn against a storage bound to one transaction: every write commits
+  // together or not at all
+  transaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T>;
+  // Inside transaction(): reads the week and holds it against concurrent commits
+  getWeeklyStateForUpdate(gameSessionId: string, weekNumber: number): Promise<WeeklyState | undefined>;
+  // Inside transaction(): reads the game and holds it, so a commit and a rewind
+  // of the same game wait for each other
+  getGameSessionForUpdate(id: string): Promise<GameSession | undefined>;
+  // Inside transaction(): reads the market and holds it, so only one resolver
+  // (on any app instance) works on a market week at a time
+  getMarketForUpdate(id: string): Promise<Market | undefined>;
   getUser(id: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  getUserByOidcSubject(oidcSubject: string): Promise<User | undefined>;
+  createUser(user: UpsertUser): Promise<User>;
   upsertUser(user: UpsertUser): Promise<User>;
+  updateUser(id: string, updates: Partial<User>): Promise<User>;
   createGameSession(gameSession: InsertGameSession): Promise<GameSession>;
   getGameSession(id: string): Promise<GameSession | undefined>;
   getUserActiveGameSession(userId: string): Promise<GameSession | undefined>;
   getUserLatestGameSession(userId: string): Promise<GameSession | undefined>;
+  getUserGameSessions(userId: string): Promise<GameSession[]>;
+  getSandboxGameSessions(gameSessionId: string): Promise<GameSession[]>;
   updateGameSession(id: string, updates: Partial<GameSession>): Promise<GameSession>;
+  // Removes the game with its weeks, cash ledger and Orders Log
+  deleteGameSession(id: string): Promise<void>;
   createWeeklyState(weeklyState: InsertWeeklyState): Promise<WeeklyState>;
   getWeeklyState(gameSessionId: string, weekNumber: number): Promise<WeeklyState | undefined>;
   getLatestWeeklyState(gameSessionId: string): Promise<WeeklyState | undefined>;
   updateWeeklyState(id: string, updates: Partial<WeeklyState>): Promise<WeeklyState>;
   getAllWeeklyStates(gameSessionId: string): Promise<WeeklyState[]>;
   commitWeeklyState(id: string): Promise<WeeklyState>;
+  deleteWeeklyStatesAfter(gameSessionId: string, weekNumber: number): Promise<void>;
+  createCohort(cohort: InsertCohort): Promise<Cohort>;
+  getCohort(id: string): Promise<Cohort | undefined>;
+  updateCohort(id: string, updates: Partial<Cohort>): Promise<Cohort>;
+  getCohortByJoinCode(joinCode: string): Promise<Cohort | undefined>;
+  getInstructorCohorts(instructorId: string): Promise<Cohort[]>;
+  // Cohorts the user has joined, in join order (earliest first, then cohort id)
+  getUserCohorts(userId: string): Promise<Cohort[]>;
+  addCohortMember(cohortId: string, userId: string, displayName?: string): Promise<CohortMember>;
+  getCohortMembers(cohortId: string): Promise<CohortMember[]>;
+  updateCohortMember(cohortId: string, userId: string, updates: Partial<CohortMember>): Promise<CohortMember | undefined>;
+  createMarket(market: InsertMarket): Promise<Market>;
+  getMarket(id: string): Promise<Market | undefined>;
+  updateMarket(id: string, updates: Partial<Market>): Promise<Market>;
+  getCohortMarkets(cohortId: string): Promise<Market[]>;
+  getMarketGameSessions(marketId: string): Promise<GameSession[]>;
+  createCashLedgerEntries(entries: InsertCashLedger[]): Promise<void>;
+  getCashLedgerEntries(gameSessionId: string): Promise<CashLedger[]>;
+  deleteCashLedgerFromWeek(gameSessionId: string, committedWeek: number): Promise<void>;
+  createOrdersLogEntry(entry: InsertOrdersLog): Promise<void>;
+  getOrdersLogEntries(gameSessionId: string): Promise<OrdersLog[]>;
+  markOrdersLogRemoved(gameSessionId: string, orderTimestamps: string[]): Promise<void>;
+  deleteOrdersLogAfter(gameSessionId: string, weekNumber: number): Promise<void>;
 }
 
 // Helper to generate unique identifiers. The built‑in crypto module is
@@ -59,13 +118,84 @@ function generateId(): string {
 const usersStore: User[] = [];
 const gameSessionsStore: GameSession[] = [];
 const weeklyStatesStore: WeeklyState[] = [];
+const cohortsStore: Cohort[] = [];
+const cohortMembersStore: CohortMember[] = [];
+const marketsStore: Market[] = [];
+const cashLedgerStore: CashLedger[] = [];
+const ordersLogStore: OrdersLog[] = [];
+
+// In-memory transactions run one at a time
+let memoryTransactionQueue: Promise<unknown> = Promise.resolve();
+
+// Decimal columns come back from Postgres as strings; keep the same shape in memory
+const toDecimalString = (value: unknown, scale: number): string | null =>
+  value == null ? null : Number(value).toFixed(scale);
 
 class InMemoryStorage implements IStorage {
+  // Transactions are serialised, and a failure restores every collection to
+  // its state when the transaction began. Nested calls join the open one.
+  async transaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T> {
+    const run = memoryTransactionQueue.then(async () => {
+      const stores: any[][] = [usersStore, gameSessionsStore, weeklyStatesStore, cohortsStore, cohortMembersStore, marketsStore, cashLedgerStore, ordersLogStore];
+      const snapshot = stores.map(store => structuredClone(store));
+      const tx: IStorage = Object.create(this, {
+        transaction: { value: <U>(inner: (t: IStorage) => Promise<U>) => inner(tx) },
+      });
+      try {
+        return await fn(tx);
+      } catch (error) {
+        stores.forEach((store, i) => store.splice(0, store.length, ...snapshot[i]));
+        throw error;
+      }
+    });
+    memoryTransactionQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  // Transactions already run one at a time, so this is a plain read
+  async getWeeklyStateForUpdate(gameSessionId: string, weekNumber: number): Promise<WeeklyState | undefined> {
+    return this.getWeeklyState(gameSessionId, weekNumber);
+  }
+  async getGameSessionForUpdate(id: string): Promise<GameSession | undefined> {
+    return this.getGameSession(id);
+  }
+  async getMarketForUpdate(id: string): Promise<Market | undefined> {
+    return this.getMarket(id);
+  }
+
   // Retrieve a user by its UUID. Returns undefined if not found.
   async getUser(id: string): Promise<User | undefined> {
     return usersStore.find(u => u.id === id);
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return usersStore.find(u => u.email === email);
+  }
+
+  async getUserByOidcSubject(oidcSubject: string): Promise<User | undefined> {
+    return usersStore.find(u => u.oidcSubject === oidcSubject);
+  }
+
+  // Create a user; callers check for an existing email first.
+  async createUser(userData: UpsertUser): Promise<User> {
+    const now = new Date();
+    const user: any = {
+      id: generateId(),
+      email: null,
+      firstName: null,
+      lastName: null,
+      profileImageUrl: null,
+      passwordHash: null,
+      oidcSubject: null,
+      role: 'student',
+      createdAt: now,
+      updatedAt: now,
+      ...userData,
+    };
+    usersStore.push(user);
+    return user;
+  }
+
   // Create or update a user based on email. If a user with the same
   // email exists, update its fields; otherwise create a new user. The
   // returned object follows the User type.
@@ -79,6 +209,7 @@ class InMemoryStorage implements IStorage {
     } else {
       const newUser: any = {
         id: generateId(),
+        role: 'student',
         createdAt: now,
         updatedAt: now,
         ...userData,
@@ -88,6 +219,14 @@ class InMemoryStorage implements IStorage {
     }
   }
 
+  // Update fields on an existing user (e.g. role changes).
+  async updateUser(id: string, updates: Partial<User>): Promise<User> {
+    const user = usersStore.find(u => u.id === id);
+    if (!user) throw new Error('User not found');
+    Object.assign(user, updates, { updatedAt: new Date() });
+    return user;
+  }
+
   // Create a new game session. Generates an ID and timestamps if they
   // aren't provided.
   async createGameSession(gameSession: InsertGameSession): Promise<GameSession> {
@@ -96,11 +235,23 @@ class InMemoryStorage implements IStorage {
       id: generateId(),
       createdAt: now,
       updatedAt: now,
+      scenarioId: 'vintage-revival',
+      rewindCount: 0,
+      rewindLog: [],
+      demandSeed: null,
+      runOutMode: 'player',
+      backorderMode: false,
+      marketId: null,
+      teamName: null,
+      sandboxOf: null,
+      sandboxForkWeek: null,
       isCompleted: false,
       finalScore: null,
       finalCash: null,
       finalServiceLevel: null,
       finalEconomicProfit: null,
+      scoreBreakdown: null,
+      isShared: false,
       ...gameSession,
     };
     gameSessionsStore.push(session);
@@ -112,22 +263,38 @@ class InMemoryStorage implements IStorage {
     return gameSessionsStore.find(s => s.id === id);
   }
 
-  // Find the most recent active game session for a user. We treat the
-  // last created session that is not completed as the active one.
+  // Find the active game session for a user. Several games may be in
+  // progress; the one most recently started or resumed (latest updatedAt)
+  // is the active one. This may be a sandbox the player switched to.
   async getUserActiveGameSession(userId: string): Promise<GameSession | undefined> {
     const sessions = gameSessionsStore
       .filter(s => s.userId === userId && s.isCompleted === false)
-      .sort((a, b) => (a.createdAt as any) > (b.createdAt as any) ? -1 : 1);
+      .sort((a, b) => (a.updatedAt as any) > (b.updatedAt as any) ? -1 : 1);
     return sessions[0];
   }
 
+  // The user's newest real game; sandboxes are never graded
   async getUserLatestGameSession(userId: string): Promise<GameSession | undefined> {
     const sessions = gameSessionsStore
-      .filter(s => s.userId === userId)
+      .filter(s => s.userId === userId && !s.sandboxOf)
       .sort((a, b) => (a.createdAt as any) > (b.createdAt as any) ? -1 : 1);
     return sessions[0];
   }
 
+  // All of a user's real game sessions (no sandboxes), newest first.
+  async getUserGameSessions(userId: string): Promise<GameSession[]> {
+    return gameSessionsStore
+      .filter(s => s.userId === userId && !s.sandboxOf)
+      .sort((a, b) => (a.createdAt as any) > (b.createdAt as any) ? -1 : 1);
+  }
+
+  // Sandboxes forked from a game, oldest first.
+  async getSandboxGameSessions(gameSessionId: string): Promise<GameSession[]> {
+    return gameSessionsStore
+      .filter(s => s.sandboxOf === gameSessionId)
+      .sort((a, b) => (a.createdAt as any) > (b.createdAt as any) ? 1 : -1);
+  }
+
   // Update a game session with new fields and update the timestamp.
   async updateGameSession(id: string, updates: Partial<GameSession>): Promise<GameSession> {
     const session = gameSessionsStore.find(s => s.id === id);
@@ -136,6 +303,16 @@ class InMemoryStorage implements IStorage {
     return session;
   }
 
+  async deleteGameSession(id: string): Promise<void> {
+    for (const store of [ordersLogStore, cashLedgerStore, weeklyStatesStore] as Array<Array<{ gameSessionId: string }>>) {
+      for (let i = store.length - 1; i >= 0; i--) {
+        if (store[i].gameSessionId === id) store.splice(i, 1);
+      }
+    }
+    const index = gameSessionsStore.findIndex(s => s.id === id);
+    if (index >= 0) gameSessionsStore.splice(index, 1);
+  }
+
   // Create a new weekly state for a game. Assigns an ID, timestamps and
   // merges any provided fields. Numeric values should already be strings
   // (to be consistent with the database version) so we simply spread them.
@@ -146,6 +323,7 @@ class InMemoryStorage implements IStorage {
       createdAt: now,
       updatedAt: now,
       isCommitted: false,
+      submittedAt: null,
       ...weeklyState,
     };
     weeklyStatesStore.push(state);
@@ -190,64 +368,307 @@ class InMemoryStorage implements IStorage {
     state.updatedAt = new Date();
     return state;
   }
+
+  // Remove every week after `weekNumber` (used when rewinding a game).
+  async deleteWeeklyStatesAfter(gameSessionId: string, weekNumber: number): Promise<void> {
+    for (let i = weeklyStatesStore.length - 1; i >= 0; i--) {
+      const w = weeklyStatesStore[i];
+      if (w.gameSessionId === gameSessionId && w.weekNumber > weekNumber) weeklyStatesStore.splice(i, 1);
+    }
+  }
+
+  // Create a cohort owned by an instructor. Join codes are unique.
+  async createCohort(cohort: InsertCohort): Promise<Cohort> {
+    if (cohortsStore.some(c => c.joinCode === cohort.joinCode)) {
+      throw new Error('Join code already in use');
+    }
+    const now = new Date();
+    const created: any = { id: generateId(), createdAt: now, updatedAt: now, maxRewinds: null, scoring: null, ...cohort };
+    cohortsStore.push(created);
+    return created;
+  }
+
+  async getCohort(id: string): Promise<Cohort | undefined> {
+    return cohortsStore.find(c => c.id === id);
+  }
+
+  async getCohortByJoinCode(joinCode: string): Promise<Cohort | undefined> {
+    return cohortsStore.find(c => c.joinCode === joinCode);
+  }
+
+  async updateCohort(id: string, updates: Partial<Cohort>): Promise<Cohort> {
+    const cohort = cohortsStore.find(c => c.id === id);
+    if (!cohort) throw new Error('Cohort not found');
+    Object.assign(cohort, updates, { updatedAt: new Date() });
+    return cohort;
+  }
+
+  // Cohorts run by an instructor, newest first.
+  async getInstructorCohorts(instructorId: string): Promise<Cohort[]> {
+    return cohortsStore
+      .filter(c => c.instructorId === instructorId)
+      .sort((a, b) => (a.createdAt as any) > (b.createdAt as any) ? -1 : 1);
+  }
+
+  // Cohorts a user has joined as a student.
+  async getUserCohorts(userId: string): Promise<Cohort[]> {
+    return cohortMembersStore
+      .filter(m => m.userId === userId)
+      .sort((a, b) => (a.joinedAt?.getTime() ?? 0) - (b.joinedAt?.getTime() ?? 0) || a.cohortId.localeCompare(b.cohortId))
+      .map(m => cohortsStore.find(c => c.id === m.cohortId))
+      .filter((c): c is Cohort => !!c);
+  }
+
+  // Add a member; joining the same cohort twice updates the display name only.
+  async addCohortMember(cohortId: string, userId: string, displayName?: string): Promise<CohortMember> {
+    const existing = cohortMembersStore.find(m => m.cohortId === cohortId && m.userId === userId);
+    if (existing) {
+      if (displayName) existing.displayName = displayName;
+      return existing;
+    }
+    const member: any = { id: generateId(), cohortId, userId, displayName: displayName ?? null, showOnLeaderboard: false, joinedAt: new Date() };
+    cohortMembersStore.push(member);
+    return member;
+  }
+
+  async getCohortMembers(cohortId: string): Promise<CohortMember[]> {
+    return cohortMembersStore
+      .filter(m => m.cohortId === cohortId)
+      .sort((a, b) => (a.joinedAt as any) > (b.joinedAt as any) ? 1 : -1);
+  }
+
+  async updateCohortMember(cohortId: string, userId: string, updates: Partial<CohortMember>): Promise<CohortMember | undefined> {
+    const member = cohortMembersStore.find(m => m.cohortId === cohortId && m.userId === userId);
+    if (member) Object.assign(member, updates);
+    return member;
+  }
+
+  async createMarket(market: InsertMarket): Promise<Market> {
+    const now = new Date();
+    const created: any = {
+      id: generateId(),
+      createdAt: now,
+      updatedAt: now,
+      scenarioId: 'vintage-revival',
+      status: 'lobby',
+      currentWeek: 1,
+      weekDeadlineHours: 48,
+      weekDeadlineAt: null,
+      weekFallbacks: [],
+      ...market,
+    };
+    marketsStore.push(created);
+    return created;
+  }
+
+  async getMarket(id: string): Promise<Market | undefined> {
+    return marketsStore.find(m => m.id === id);
+  }
+
+  async updateMarket(id: string, updates: Partial<Market>): Promise<Market> {
+    const market = marketsStore.find(m => m.id === id);
+    if (!market) throw new Error('Market not found');
+    Object.assign(market, updates, { updatedAt: new Date() });
+    return market;
+  }
+
+  // Markets in a cohort, newest first.
+  async getCohortMarkets(cohortId: string): Promise<Market[]> {
+    return marketsStore
+      .filter(m => m.cohortId === cohortId)
+      .sort((a, b) => (a.createdAt as any) > (b.createdAt as any) ? -1 : 1);
+  }
+
+  // Team games in a market, in the order the teams joined.
+  async getMarketGameSessions(marketId: string): Promise<GameSession[]> {
+    return gameSessionsStore
+      .filter(s => s.marketId === marketId)
+      .sort((a, b) => (a.createdAt as any) > (b.createdAt as any) ? 1 : -1);
+  }
+
+  async createCashLedgerEntries(entries: InsertCashLedger[]): Promise<void> {
+    const now = new Date();
+    for (const entry of entries) {
+      cashLedgerStore.push({
+        refId: null,
+        committedWeek: null,
+        createdAt: now,
+        ...entry,
+        amount: toDecimalString(entry.amount, 2)!,
+        balanceAfter: toDecimalString(entry.balanceAfter, 2),
+        creditAfter: toDecimalString(entry.creditAfter, 2),
+      } as CashLedger);
+    }
+  }
+
+  // Ledger rows for a game, in the order they were written.
+  async getCashLedgerEntries(gameSessionId: string): Promise<CashLedger[]> {
+    return cashLedgerStore.filter(e => e.gameSessionId === gameSessionId);
+  }
+
+  // Rows written by the given week's commit or later; legacy rows without
+  // committedWeek fall back to the week they are charged in.
+  async deleteCashLedgerFromWeek(gameSessionId: string, committedWeek: number): Promise<void> {
+    for (let i = cashLedgerStore.length - 1; i >= 0; i--) {
+      const e = cashLedgerStore[i];
+      if (e.gameSessionId !== gameSessionId) continue;
+      const stale = e.committedWeek != null ? e.committedWeek >= committedWeek : e.weekNumber > committedWeek;
+      if (stale) cashLedgerStore.splice(i, 1);
+    }
+  }
+
+  // Orders Log rows are immutable; re-inserting an existing id is a no-op.
+  async createOrdersLogEntry(entry: InsertOrdersLog): Promise<void> {
+    if (ordersLogStore.some(o => o.id === entry.id)) return;
+    ordersLogStore.push({
+      removedAt: null,
+      createdAt: new Date(),
+      ...entry,
+      effectiveUnitPrice: toDecimalString(entry.effectiveUnitPrice, 4)!,
+      effectiveLineTotal: toDecimalString(entry.effectiveLineTotal, 2)!,
+    } as OrdersLog);
+  }
+
+  async getOrdersLogEntries(gameSessionId: string): Promise<OrdersLog[]> {
+    return ordersLogStore
+      .filter(o => o.gameSessionId === gameSessionId)
+      .sort((a, b) => a.weekNumber - b.weekNumber);
+  }
+
+  // Soft delete: rows stay for audit with removedAt set.
+  async markOrdersLogRemoved(gameSessionId: string, orderTimestamps: string[]): Promise<void> {
+    const now = new Date();
+    for (const o of ordersLogStore) {
+      if (o.gameSessionId === gameSessionId && orderTimestamps.includes(o.orderTimestamp)) o.removedAt = now;
+    }
+  }
+
+  async deleteOrdersLogAfter(gameSessionId: string, weekNumber: number): Promise<void> {
+    for (let i = ordersLogStore.length - 1; i >= 0; i--) {
+      const o = ordersLogStore[i];
+      if (o.gameSessionId === gameSessionId && o.weekNumber > weekNumber) ordersLogStore.splice(i, 1);
+    }
+  }
 }
 
 // Export a single instance of the in‑memory storage. This mirrors the
 // original API where a singleton `storage` was exported from this module.
 class DatabaseStorage implements IStorage {
+  // The shared connection, or the open transaction inside transaction()
+  constructor(private readonly db: DbExecutor = defaultDb) {}
+
+  async transaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T> {
+    return this.db.transaction((trx) => fn(new DatabaseStorage(trx)));
+  }
+  // Row lock on the week until the surrounding transaction ends
+  async getWeeklyStateForUpdate(gameSessionId: string, weekNumber: number): Promise<WeeklyState | undefined> {
+    const rows = await this.db
+      .select()
+      .from(weeklyStatesTable)
+      .where(and(eq(weeklyStatesTable.gameSessionId, gameSessionId), eq(weeklyStatesTable.weekNumber, weekNumber)))
+      .for('update')
+      .limit(1);
+    return rows[0] as any;
+  }
+  async getGameSessionForUpdate(id: string): Promise<GameSession | undefined> {
+    const rows = await this.db.select().from(gameSessionsTable).where(eq(gameSessionsTable.id, id)).for('update').limit(1);
+    return rows[0] as any;
+  }
+  async getMarketForUpdate(id: string): Promise<Market | undefined> {
+    const rows = await this.db.select().from(marketsTable).where(eq(marketsTable.id, id)).for('update').limit(1);
+    return rows[0] as any;
+  }
   async getUser(id: string): Promise<User | undefined> {
-    const rows = await db.select().from(usersTable).where(eq(usersTable.id, id)).limit(1);
+    const rows = await this.db.select().from(usersTable).where(eq(usersTable.id, id)).limit(1);
     return rows[0];
   }
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const rows = await this.db.select().from(usersTable).where(eq(usersTable.email, email)).limit(1);
+    return rows[0];
+  }
+  async getUserByOidcSubject(oidcSubject: string): Promise<User | undefined> {
+    const rows = await this.db.select().from(usersTable).where(eq(usersTable.oidcSubject, oidcSubject)).limit(1);
+    return rows[0];
+  }
+  async createUser(userData: UpsertUser): Promise<User> {
+    const rows = await this.db.insert(usersTable).values(userData as any).returning();
+    return rows[0] as any;
+  }
   async upsertUser(userData: UpsertUser): Promise<User> {
-    const existing = await db.select().from(usersTable).where(eq(usersTable.email, userData.email as any)).limit(1);
+    const existing = await this.db.select().from(usersTable).where(eq(usersTable.email, userData.email as any)).limit(1);
     if (existing[0]) {
-      const updated = await db
+      const updated = await this.db
         .update(usersTable)
         .set({ ...userData, updatedAt: new Date() } as any)
         .where(eq(usersTable.id, existing[0].id))
         .returning();
       return updated[0] as any;
     }
-    const inserted = await db.insert(usersTable).values(userData as any).returning();
+    const inserted = await this.db.insert(usersTable).values(userData as any).returning();
     return inserted[0] as any;
   }
+  async updateUser(id: string, updates: Partial<User>): Promise<User> {
+    const rows = await this.db.update(usersTable).set({ ...(updates as any), updatedAt: new Date() }).where(eq(usersTable.id, id)).returning();
+    return rows[0] as any;
+  }
   async createGameSession(gameSession: InsertGameSession): Promise<GameSession> {
-    const rows = await db.insert(gameSessionsTable).values(gameSession as any).returning();
+    const rows = await this.db.insert(gameSessionsTable).values(gameSession as any).returning();
     return rows[0] as any;
   }
   async getGameSession(id: string): Promise<GameSession | undefined> {
-    const rows = await db.select().from(gameSessionsTable).where(eq(gameSessionsTable.id, id)).limit(1);
+    const rows = await this.db.select().from(gameSessionsTable).where(eq(gameSessionsTable.id, id)).limit(1);
     return rows[0] as any;
   }
   async getUserActiveGameSession(userId: string): Promise<GameSession | undefined> {
-    const rows = await db
+    const rows = await this.db
       .select()
       .from(gameSessionsTable)
       .where(and(eq(gameSessionsTable.userId, userId), eq(gameSessionsTable.isCompleted, false as any)))
-      .orderBy(desc(gameSessionsTable.createdAt))
+      .orderBy(desc(gameSessionsTable.updatedAt))
       .limit(1);
     return rows[0] as any;
   }
   async getUserLatestGameSession(userId: string): Promise<GameSession | undefined> {
-    const rows = await db
+    const rows = await this.db
       .select()
       .from(gameSessionsTable)
-      .where(eq(gameSessionsTable.userId, userId))
+      .where(and(eq(gameSessionsTable.userId, userId), isNull(gameSessionsTable.sandboxOf)))
       .orderBy(desc(gameSessionsTable.createdAt))
       .limit(1);
     return rows[0] as any;
   }
+  async getUserGameSessions(userId: string): Promise<GameSession[]> {
+    const rows = await this.db
+      .select()
+      .from(gameSessionsTable)
+      .where(and(eq(gameSessionsTable.userId, userId), isNull(gameSessionsTable.sandboxOf)))
+      .orderBy(desc(gameSessionsTable.createdAt));
+    return rows as any;
+  }
+  async getSandboxGameSessions(gameSessionId: string): Promise<GameSession[]> {
+    const rows = await this.db
+      .select()
+      .from(gameSessionsTable)
+      .where(eq(gameSessionsTable.sandboxOf, gameSessionId))
+      .orderBy(asc(gameSessionsTable.createdAt));
+    return rows as any;
+  }
   async updateGameSession(id: string, updates: Partial<GameSession>): Promise<GameSession> {
-    const rows = await db.update(gameSessionsTable).set({ ...(updates as any), updatedAt: new Date() }).where(eq(gameSessionsTable.id, id)).returning();
+    const rows = await this.db.update(gameSessionsTable).set({ ...(updates as any), updatedAt: new Date() }).where(eq(gameSessionsTable.id, id)).returning();
     return rows[0] as any;
   }
+  async deleteGameSession(id: string): Promise<void> {
+    await this.db.delete(ordersLogTable).where(eq(ordersLogTable.gameSessionId, id));
+    await this.db.delete(cashLedgerTable).where(eq(cashLedgerTable.gameSessionId, id));
+    await this.db.delete(weeklyStatesTable).where(eq(weeklyStatesTable.gameSessionId, id));
+    await this.db.delete(gameSessionsTable).where(eq(gameSessionsTable.id, id));
+  }
   async createWeeklyState(weeklyState: InsertWeeklyState): Promise<WeeklyState> {
-    const rows = await db.insert(weeklyStatesTable).values(weeklyState as any).returning();
+    const rows = await this.db.insert(weeklyStatesTable).values(weeklyState as any).returning();
     return rows[0] as any;
   }
   async getWeeklyState(gameSessionId: string, weekNumber: number): Promise<WeeklyState | undefined> {
-    const rows = await db
+    const rows = await this.db
       .select()
       .from(weeklyStatesTable)
       .where(and(eq(weeklyStatesTable.gameSessionId, gameSessionId), eq(weeklyStatesTable.weekNumber, weekNumber)))
@@ -255,7 +676,7 @@ class DatabaseStorage implements IStorage {
     return rows[0] as any;
   }
   async getLatestWeeklyState(gameSessionId: string): Promise<WeeklyState | undefined> {
-    const rows = await db
+    const rows = await this.db
       .select()
       .from(weeklyStatesTable)
       .where(eq(weeklyStatesTable.gameSessionId, gameSessionId))
@@ -264,7 +685,7 @@ class DatabaseStorage implements IStorage {
     return rows[0] as any;
   }
   async updateWeeklyState(id: string, updates: Partial<WeeklyState>): Promise<WeeklyState> {
-    const rows = await db
+    const rows = await this.db
       .update(weeklyStatesTable)
       .set({ ...(updates as any), updatedAt: new Date() })
       .where(eq(weeklyStatesTable.id, id))
@@ -272,7 +693,7 @@ class DatabaseStorage implements IStorage {
     return rows[0] as any;
   }
   async getAllWeeklyStates(gameSessionId: string): Promise<WeeklyState[]> {
-    const rows = await db
+    const rows = await this.db
       .select()
       .from(weeklyStatesTable)
       .where(eq(weeklyStatesTable.gameSessionId, gameSessionId))
@@ -280,9 +701,150 @@ class DatabaseStorage implements IStorage {
     return rows as any;
   }
   async commitWeeklyState(id: string): Promise<WeeklyState> {
-    const rows = await db.update(weeklyStatesTable).set({ isCommitted: true, updatedAt: new Date() } as any).where(eq(weeklyStatesTable.id, id)).returning();
+    const rows = await this.db.update(weeklyStatesTable).set({ isCommitted: true, updatedAt: new Date() } as any).where(eq(weeklyStatesTable.id, id)).returning();
+    return rows[0] as any;
+  }
+  async deleteWeeklyStatesAfter(gameSessionId: string, weekNumber: number): Promise<void> {
+    await this.db
+      .delete(weeklyStatesTable)
+      .where(and(eq(weeklyStatesTable.gameSessionId, gameSessionId), gt(weeklyStatesTable.weekNumber, weekNumber)));
+  }
+  async createCohort(cohort: InsertCohort): Promise<Cohort> {
+    const rows = await this.db.insert(cohortsTable).values(cohort as any).returning();
+    return rows[0] as any;
+  }
+  async getCohort(id: string): Promise<Cohort | undefined> {
+    const rows = await this.db.select().from(cohortsTable).where(eq(cohortsTable.id, id)).limit(1);
+    return rows[0] as any;
+  }
+  async getCohortByJoinCode(joinCode: string): Promise<Cohort | undefined> {
+    const rows = await this.db.select().from(cohortsTable).where(eq(cohortsTable.joinCode, joinCode)).limit(1);
+    return rows[0] as any;
+  }
+  async updateCohort(id: string, updates: Partial<Cohort>): Promise<Cohort> {
+    const rows = await this.db.update(cohortsTable).set({ ...(updates as any), updatedAt: new Date() }).where(eq(cohortsTable.id, id)).returning();
+    return rows[0] as any;
+  }
+  async getInstructorCohorts(instructorId: string): Promise<Cohort[]> {
+    const rows = await this.db
+      .select()
+      .from(cohortsTable)
+      .where(eq(cohortsTable.instructorId, instructorId))
+      .orderBy(desc(cohortsTable.createdAt));
+    return rows as any;
+  }
+  async getUserCohorts(userId: string): Promise<Cohort[]> {
+    const rows = await this.db
+      .select({ cohort: cohortsTable })
+      .from(cohortMembersTable)
+      .innerJoin(cohortsTable, eq(cohortMembersTable.cohortId, cohortsTable.id))
+      .where(eq(cohortMembersTable.userId, userId))
+      .orderBy(asc(cohortMembersTable.joinedAt), asc(cohortMembersTable.cohortId));
+    return rows.map(r => r.cohort) as any;
+  }
+  async addCohortMember(cohortId: string, userId: string, displayName?: string): Promise<CohortMember> {
+    await this.db
+      .insert(cohortMembersTable)
+      .values({ cohortId, userId, displayName: displayName ?? null } as any)
+      .onConflictDoUpdate({
+        target: [cohortMembersTable.cohortId, cohortMembersTable.userId],
+        set: displayName ? { displayName } : { cohortId },
+      });
+    const rows = await this.db
+      .select()
+      .from(cohortMembersTable)
+      .where(and(eq(cohortMembersTable.cohortId, cohortId), eq(cohortMembersTable.userId, userId)))
+      .limit(1);
     return rows[0] as any;
   }
+  async getCohortMembers(cohortId: string): Promise<CohortMember[]> {
+    const rows = await this.db
+      .select()
+      .from(cohortMembersTable)
+      .where(eq(cohortMembersTable.cohortId, cohortId))
+      .orderBy(asc(cohortMembersTable.joinedAt));
+    return rows as any;
+  }
+  async updateCohortMember(cohortId: string, userId: string, updates: Partial<CohortMember>): Promise<CohortMember | undefined> {
+    const rows = await this.db
+      .update(cohortMembersTable)
+      .set(updates as any)
+      .where(and(eq(cohortMembersTable.cohortId, cohortId), eq(cohortMembersTable.userId, userId)))
+      .returning();
+    return rows[0] as any;
+  }
+  async createMarket(market: InsertMarket): Promise<Market> {
+    const rows = await this.db.insert(marketsTable).values(market as any).returning();
+    return rows[0] as any;
+  }
+  async getMarket(id: string): Promise<Market | undefined> {
+    const rows = await this.db.select().from(marketsTable).where(eq(marketsTable.id, id)).limit(1);
+    return rows[0] as any;
+  }
+  async updateMarket(id: string, updates: Partial<Market>): Promise<Market> {
+    const rows = await this.db.update(marketsTable).set({ ...(updates as any), updatedAt: new Date() }).where(eq(marketsTable.id, id)).returning();
+    return rows[0] as any;
+  }
+  async getCohortMarkets(cohortId: string): Promise<Market[]> {
+    const rows = await this.db
+      .select()
+      .from(marketsTable)
+      .where(eq(marketsTable.cohortId, cohortId))
+      .orderBy(desc(marketsTable.createdAt));
+    return rows as any;
+  }
+  async getMarketGameSessions(marketId: string): Promise<GameSession[]> {
+    const rows = await this.db
+      .select()
+      .from(gameSessionsTable)
+      .where(eq(gameSessionsTable.marketId, marketId))
+      .orderBy(asc(gameSessionsTable.createdAt));
+    return rows as any;
+  }
+  async createCashLedgerEntries(entries: InsertCashLedger[]): Promise<void> {
+    if (entries.length === 0) return;
+    await this.db.insert(cashLedgerTable).values(entries);
+  }
+  async getCashLedgerEntries(gameSessionId: string): Promise<CashLedger[]> {
+    const rows = await this.db
+      .select()
+      .from(cashLedgerTable)
+      .where(eq(cashLedgerTable.gameSessionId, gameSessionId))
+      .orderBy(asc(cashLedgerTable.createdAt));
+    return rows as any;
+  }
+  async deleteCashLedgerFromWeek(gameSessionId: string, committedWeek: number): Promise<void> {
+    await this.db.delete(cashLedgerTable).where(and(
+      eq(cashLedgerTable.gameSessionId, gameSessionId),
+      or(
+        gte(cashLedgerTable.committedWeek, committedWeek),
+        and(isNull(cashLedgerTable.committedWeek), gt(cashLedgerTable.weekNumber, committedWeek)),
+      ),
+    ));
+  }
+  async createOrdersLogEntry(entry: InsertOrdersLog): Promise<void> {
+    await this.db.insert(ordersLogTable).values(entry).onConflictDoNothing({ target: ordersLogTable.id });
+  }
+  async getOrdersLogEntries(gameSessionId: string): Promise<OrdersLog[]> {
+    const rows = await this.db
+      .select()
+      .from(ordersLogTable)
+      .where(eq(ordersLogTable.gameSessionId, gameSessionId))
+      .orderBy(asc(ordersLogTable.weekNumber), asc(ordersLogTable.createdAt));
+    return rows as any;
+  }
+  async markOrdersLogRemoved(gameSessionId: string, orderTimestamps: string[]): Promise<void> {
+    if (orderTimestamps.length === 0) return;
+    await this.db
+      .update(ordersLogTable)
+      .set({ removedAt: new Date() })
+      .where(and(eq(ordersLogTable.gameSessionId, gameSessionId), inArray(ordersLogTable.orderTimestamp, orderTimestamps)));
+  }
+  async deleteOrdersLogAfter(gameSessionId: string, weekNumber: number): Promise<void> {
+    await this.db
+      .delete(ordersLogTable)
+      .where(and(eq(ordersLogTable.gameSessionId, gameSessionId), gt(ordersLogTable.weekNumber, weekNumber)));
+  }
 }
 
 // Choose DB storage when DATABASE_URL is present; otherwise in-memory
@@ -9,6 +9,8 @@ import {
   decimal,
   boolean,
   text,
+  uniqueIndex,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
@@ -32,6 +34,57 @@ export const users = pgTable("users", {
   firstName: varchar("first_name"),
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
+  role: varchar("role").notNull().default('student'), // 'student' | 'instructor'
+  // scrypt hash for email/password accounts; null for OIDC-only accounts
+  passwordHash: varchar("password_hash"),
+  // "<issuer>|<sub>" of the linked OIDC identity
+  oidcSubject: varchar("oidc_subject").unique(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Cohorts (a class run by an instructor; students join with the join code)
+export const cohorts = pgTable("cohorts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(),
+  joinCode: varchar("join_code").notNull().unique(),
+  instructorId: varchar("instructor_id").notNull().references(() => users.id),
+  // Week rewinds allowed per game for members; null = the scenario's default
+  maxRewinds: integer("max_rewinds"),
+  // Scoring rubric overrides for members' games (Partial<ScoringRubric>); null = the scenario's SCORING
+  scoring: jsonb("scoring"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const cohortMembers = pgTable(
+  "cohort_members",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    cohortId: varchar("cohort_id").notNull().references(() => cohorts.id),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    displayName: varchar("display_name"), // name the student gave when joining
+    // Leaderboard: show the display name (true) or an anonymous handle (false)
+    showOnLeaderboard: boolean("show_on_leaderboard").notNull().default(false),
+    joinedAt: timestamp("joined_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_cohort_member").on(table.cohortId, table.userId)],
+);
+
+// Multiplayer markets: cohort teams competing for one pool of demand, with
+// weeks advancing in lock-step once every team has submitted (or the deadline passes)
+export const markets = pgTable("markets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  cohortId: varchar("cohort_id").notNull().references(() => cohorts.id),
+  name: varchar("name").notNull(),
+  scenarioId: varchar("scenario_id").notNull().default('vintage-revival'),
+  status: varchar("status").notNull().default('lobby'), // 'lobby' | 'running' | 'completed'
+  currentWeek: integer("current_week").notNull().default(1),
+  weekDeadlineHours: integer("week_deadline_hours").notNull().default(48),
+  weekDeadlineAt: timestamp("week_deadline_at"),
+  // Teams whose saved decisions failed validation when the last week resolved (MarketFallback[])
+  weekFallbacks: jsonb("week_fallbacks").notNull().default('[]'),
+  createdBy: varchar("created_by").notNull().references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -40,11 +93,34 @@ export const users = pgTable("users", {
 export const gameSessions = pgTable("game_sessions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id),
+  scenarioId: varchar("scenario_id").notNull().default('vintage-revival'),
   isCompleted: boolean("is_completed").default(false),
   finalScore: decimal("final_score", { precision: 15, scale: 2 }),
   finalCash: decimal("final_cash", { precision: 15, scale: 2 }),
   finalServiceLevel: decimal("final_service_level", { precision: 5, scale: 2 }),
   finalEconomicProfit: decimal("final_economic_profit", { precision: 15, scale: 2 }),
+  // How finalScore was reached: the rubric applied and each component's points (ScoreBreakdown)
+  scoreBreakdown: jsonb("score_breakdown"),
+  // Owner lets cohort classmates open the final dashboard from the leaderboard
+  isShared: boolean("is_shared").notNull().default(false),
+  // Week rewinds used, with one { fromWeek, toWeek, at } entry per rewind (for grading)
+  rewindCount: integer("rewind_count").notNull().default(0),
+  rewindLog: jsonb("rewind_log").notNull().default('[]'),
+  // Uncertain-demand mode: seed for the weekly demand draws (null = deterministic demand)
+  demandSeed: varchar("demand_seed"),
+  // Run-out weeks 13-15: 'player' sets its own per-product markdowns, or
+  // 'automatic' clearance markdowns (RunOutMode)
+  runOutMode: varchar("run_out_mode").notNull().default('player'),
+  // Backorder mode: part of unmet demand waits for stock, and awareness
+  // drives pre-orders before launch (BackorderBook on each week)
+  backorderMode: boolean("backorder_mode").notNull().default(false),
+  // Set when this game is one team in a multiplayer market
+  marketId: varchar("market_id").references(() => markets.id),
+  teamName: varchar("team_name"),
+  // What-if sandbox: the game it was forked from, and the week it was forked
+  // at. Sandboxes are never graded or ranked.
+  sandboxOf: varchar("sandbox_of").references((): AnyPgColumn => gameSessions.id),
+  sandboxForkWeek: integer("sandbox_fork_week"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -74,6 +150,8 @@ export const weeklyStates = pgTable("weekly_states", {
   workInProcess: jsonb("work_in_process").notNull(),
   finishedGoods: jsonb("finished_goods").notNull(),
   shipmentsInTransit: jsonb("shipments_in_transit").default('[]'),
+  // Scenario disruption events announced so far (DisruptionEvent[]), for the inbox
+  disruptions: jsonb("disruptions").default('[]'),
   
   // Production and procurement
   productionSchedule: jsonb("production_schedule").notNull(),
@@ -84,12 +162,18 @@ export const weeklyStates = pgTable("weekly_states", {
   // Marketing and sales
   marketingSpend: decimal("marketing_spend", { precision: 10, scale: 2 }).default('0'),
   weeklyDiscounts: jsonb("weekly_discounts").notNull(),
+  // Week 15: sell unsold finished goods to the end-of-season jobber at
+  // salvage value instead of carrying them as dead stock
+  liquidateUnsoldStock: boolean("liquidate_unsold_stock").default(false),
+  liquidation: jsonb("liquidation"),
   
   // Performance metrics
   weeklyRevenue: decimal("weekly_revenue", { precision: 15, scale: 2 }).default('0'),
   weeklyDemand: jsonb("weekly_demand").notNull(),
   weeklySales: jsonb("weekly_sales").notNull(),
   lostSales: jsonb("lost_sales").notNull(),
+  // Backorder mode: open backorders / pre-orders and this week's flows
+  backorders: jsonb("backorders"),
   
   // Costs (cumulative season-to-date)
   materialCosts: decimal("material_costs", { precision: 15, scale: 2 }).default('0'),
@@ -117,6 +201,13 @@ export const weeklyStates = pgTable("weekly_states", {
   validationWarnings: jsonb("validation_warnings").notNull(),
   
   isCommitted: boolean("is_committed").default(false),
+  // Row as it stood before commit; restored when the player rewinds to this week
+  preCommitSnapshot: jsonb("pre_commit_snapshot"),
+  // Market games: when the team submitted this week (it commits when the market advances)
+  submittedAt: timestamp("submitted_at"),
+  // Idempotency-Key of the request that committed (or, in a market, submitted)
+  // this week; a retry carrying the same key gets the committed row back
+  commitIdempotencyKey: varchar("commit_idempotency_key"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -147,12 +238,42 @@ export const cashLedger = pgTable("cash_ledger", {
   amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
   balanceAfter: decimal("balance_after", { precision: 15, scale: 2 }),
   creditAfter: decimal("credit_after", { precision: 15, scale: 2 }),
+  // Week whose commit wrote this entry (weekNumber is the week it is charged in)
+  committedWeek: integer("committed_week"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   gameSessions: many(gameSessions),
+  cohortMemberships: many(cohortMembers),
+}));
+
+export const cohortsRelations = relations(cohorts, ({ one, many }) => ({
+  instructor: one(users, {
+    fields: [cohorts.instructorId],
+    references: [users.id],
+  }),
+  members: many(cohortMembers),
+}));
+
+export const cohortMembersRelations = relations(cohortMembers, ({ one }) => ({
+  cohort: one(cohorts, {
+    fields: [cohortMembers.cohortId],
+    references: [cohorts.id],
+  }),
+  user: one(users, {
+    fields: [cohortMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const marketsRelations = relations(markets, ({ one, many }) => ({
+  cohort: one(cohorts, {
+    fields: [markets.cohortId],
+    references: [cohorts.id],
+  }),
+  gameSessions: many(gameSessions),
 }));
 
 export const gameSessionsRelations = relations(gameSessions, ({ one, many }) => ({
@@ -160,6 +281,10 @@ export const gameSessionsRelations = relations(gameSessions, ({ one, many }) =>
     fields: [gameSessions.userId],
     references: [users.id],
   }),
+  market: one(markets, {
+    fields: [gameSessions.marketId],
+    references: [markets.id],
+  }),
   weeklyStates: many(weeklyStates),
 }));
 
@@ -171,7 +296,9 @@ export const weeklyStatesRelations = relations(weeklyStates, ({ one }) => ({
 }));
 
 export type OrdersLog = typeof ordersLog.$inferSelect;
+export type InsertOrdersLog = typeof ordersLog.$inferInsert;
 export type CashLedger = typeof cashLedger.$inferSelect;
+export type InsertCashLedger = typeof cashLedger.$inferInsert;
 
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
@@ -180,6 +307,18 @@ export const insertUserSchema = createInsertSchema(users).omit({
   updatedAt: true,
 });
 
+export const insertCohortSchema = createInsertSchema(cohorts).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertMarketSchema = createInsertSchema(markets).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertGameSessionSchema = createInsertSchema(gameSessions).omit({
   id: true,
   createdAt: true,
@@ -195,6 +334,13 @@ export const insertWeeklyStateSchema = createInsertSchema(weeklyStates).omit({
 // Types
 export type UpsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type UserRole = 'student' | 'instructor';
+export type Cohort = typeof cohorts.$inferSelect;
+export type CohortMember = typeof cohortMembers.$inferSelect;
+export type InsertCohort = z.infer<typeof insertCohortSchema>;
+export type Market = typeof markets.$inferSelect;
+export type InsertMarket = z.infer<typeof insertMarketSchema>;
+export type MarketStatus = 'lobby' | 'running' | 'completed';
 export type GameSession = typeof gameSessions.$inferSelect;
 export type WeeklyState = typeof weeklyStates.$inferSelect;
 export type InsertGameSession = z.infer<typeof insertGameSessionSchema>;
@@ -208,6 +354,7 @@ export type InsertWeeklyState = z.infer<typeof insertWeeklyStateSchema>;
 // but they provide compile-time safety for the game engine and routes.
 
 export type ProductKey = 'jacket' | 'dress' | 'pants';
+export type RunOutMode = 'automatic' | 'player';
 export type SupplierKey = 'supplier1' | 'supplier2';
 export type MaterialKey =
   | 'selvedgeDenim'
@@ -267,6 +414,8 @@ export interface ShipmentInTransit {
   unitMaterialCost?: number;
   unitProductionCost?: number;
   arrivalWeek: number; // available at start of next week after this arrival
+  // Ids of the disruptions that pushed arrivalWeek back
+  delayedBy?: string[];
 }
 
 export interface ProductionBatchPlan {
@@ -276,11 +425,13 @@ export interface ProductionBatchPlan {
   method: 'inhouse' | 'outsource';
   startWeek: number;
   shipping: 'standard' | 'expedited';
+  // Set when a capacity cut pushed the start back a week
+  postponedBy?: string;
 }
 
 export interface ProcurementContract {
   id: string;
-  type: 'GMC' | 'SPT';
+  type: 'FVC' | 'GMC' | 'SPT';
   supplier: SupplierKey;
   material: MaterialKey;
   units: number; // committed units
@@ -289,12 +440,16 @@ export interface ProcurementContract {
   printSurcharge: number; // per unit if applicable
   // deprecated: dynamic discounts are no longer recomputed; kept for backward compatibility
   discountPercentApplied?: number;
-  // authoritative locked unit price for SPT
+  // authoritative locked unit price for SPT and FVC
   lockedUnitPrice?: number;
   // planned arrivals, each with a locked unit price
-  deliveries?: Array<{ week: number; units: number; unitPrice?: number }>; // planned arrivals
+  // planned arrivals; originalWeek/delayedBy are set when a disruption pushed one back
+  deliveries?: Array<{ week: number; units: number; unitPrice?: number; originalWeek?: number; delayedBy?: string[] }>;
   paidSoFar?: number; // bookkeeping for payment waterfall
   deliveredUnits?: number; // track delivered
+  // FVC only: 25% down payment staged after signing, balance on final delivery
+  downPaymentPaid?: boolean;
+  balancePaid?: boolean;
 }
 
 export interface GmcOrderLine {
@@ -345,12 +500,109 @@ export interface RunningTotals {
   cogsMarketingToDate: number; // allocated portion of marketing
 }
 
+// A customer order waiting for stock (backorder mode). Pre-orders are due at
+// launch, backorders the week after they were placed.
+export interface BackorderEntry {
+  id: string;
+  product: ProductKey;
+  kind: 'backorder' | 'preorder';
+  weekPlaced: number;
+  dueWeek: number;
+  ordered: number;
+  served: number;
+  remaining: number;
+}
+
+export interface BackorderBook {
+  queue: BackorderEntry[];
+  // This week's flows per product
+  placed: Record<ProductKey, number>;
+  preordered: Record<ProductKey, number>;
+  // Served late from stock (backorders and pre-orders)
+  served: Record<ProductKey, number>;
+  // Customers who gave up waiting
+  cancelled: Record<ProductKey, number>;
+}
+
+// A scenario-defined supply disruption (constants.EVENTS). It is announced in
+// the inbox of the week it hits and lasts durationWeeks (default 1).
+export type DisruptionKind = 'supplier_delay' | 'port_strike' | 'capacity_cut' | 'price_spike';
+
+export interface DisruptionEvent {
+  id: string;
+  kind: DisruptionKind;
+  week: number;
+  durationWeeks?: number;
+  title: string;
+  message: string;
+  // supplier_delay / price_spike: limit to one supplier and/or material
+  supplier?: SupplierKey;
+  material?: MaterialKey;
+  // port_strike: limit to one product's shipments
+  product?: ProductKey;
+  // supplier_delay / port_strike: arrivals due while it lasts slip by this many weeks
+  delayWeeks?: number;
+  // capacity_cut: in-house capacity is multiplied by this while it lasts
+  capacityFactor?: number;
+  // price_spike: spot and GMC orders placed while it lasts pay this multiple of the catalogue price
+  priceMultiplier?: number;
+}
+
+// Final score weights and thresholds (constants.SCORING, overridable per cohort)
+export interface ScoringRubric {
+  // Economic profit counts at this weight
+  EP_WEIGHT: number;
+  // Service level (%) below which every point short costs SERVICE_LEVEL_PENALTY_PER_POINT (£)
+  SERVICE_LEVEL_GATE: number;
+  SERVICE_LEVEL_PENALTY_PER_POINT: number;
+  // Share of the net debt (credit drawn less cash) at the end of week 15 deducted
+  CASH_PENALTY_RATE: number;
+  // Multiple of the unsold finished goods value deducted
+  DEAD_STOCK_MULTIPLIER: number;
+  // £ per product per week its first sale came after LAUNCH_WEEK
+  LAUNCH_WEEK: number;
+  LATE_LAUNCH_PENALTY_PER_WEEK: number;
+}
+
+export type ScoreComponentKey = 'economic_profit' | 'service_level' | 'cash_position' | 'dead_stock' | 'late_launch';
+
+export interface ScoreComponent {
+  key: ScoreComponentKey;
+  label: string;
+  // The measure scored: £ for profit, cash and dead stock, % for service level, product-weeks for late launch
+  value: number;
+  // Signed contribution to the final score (£)
+  points: number;
+}
+
+export interface ScoreBreakdown {
+  rubric: ScoringRubric;
+  components: ScoreComponent[];
+  total: number;
+}
+
+// A market team whose saved decisions failed validation when the week
+// resolved, and what was dropped so the week could still commit
+export interface MarketFallback {
+  gameSessionId: string;
+  weekNumber: number;
+  errors: string[];
+  droppedBatchIds: string[];
+  droppedPlannedMarketing: boolean;
+}
+
+export interface LiquidationResult {
+  units: Record<ProductKey, number>;
+  revenue: number;
+}
+
 export interface ExtendedWeeklyState {
   productData: ProductDecisions;
   rawMaterials: RawMaterialsInventory;
   workInProcess: { batches: WorkInProcessBatchSnapshot[] };
   finishedGoods: { lots: FinishedGoodsLot[] };
   shipmentsInTransit?: ShipmentInTransit[];
+  disruptions?: DisruptionEvent[];
   productionSchedule: { batches: ProductionBatchPlan[] };
   procurementContracts: { contracts: ProcurementContract[] };
   marketingPlan?: MarketingPlan;
@@ -368,9 +620,13 @@ export interface ExtendedWeeklyState {
   underfundedStreakA?: number;
   underfundedStreakI?: number;
   weeklyDiscounts: WeeklyDiscountsByProduct;
+  liquidateUnsoldStock?: boolean;
+  // Week 15 jobber sale, set by commit when liquidateUnsoldStock is on
+  liquidation?: LiquidationResult | null;
   weeklyDemand: WeeklyDemandByProduct;
   weeklySales: WeeklySalesByProduct;
   lostSales: WeeklySalesByProduct;
+  backorders?: BackorderBook | null;
   costBreakdown?: CostBreakdown;
   totals?: RunningTotals;
   // Three-tier cost tracking: cumulative actual unit cost (COGS / units sold)
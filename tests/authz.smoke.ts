@@ -0,0 +1,233 @@
+/* Smoke tests for game-ownership authorization (server/replitAuth.ts `authorizeGame`).
+ *
+ * Run from the project root with:
+ *   npx tsx tests/authz.smoke.ts
+ *
+ * Boots the real routes on in-memory storage (startServer in helpers.ts), registers
+ * two students and an instructor, and checks that one student cannot read or
+ * change the other's game. Same PASS/FAIL convention as engine.smoke.ts; tests
+ * run in order because they share the accounts created in the first one.
+ */
+
+import assert from "node:assert/strict";
+import { finish, startServer, test, type Agent } from "./helpers.js";
+
+process.env.INSTRUCTOR_ACCESS_CODE = "authz-smoke-instructor";
+const { app, server, call } = await startServer("authz-smoke");
+const { authorizeGame } = await import("../server/replitAuth.js");
+const { storage } = await import("../server/storage.js");
+const { GAME_CONSTANTS } = await import("../server/gameEngine.js");
+
+const alice: Agent = {};
+const bob: Agent = {};
+const teacher: Agent = {};
+const anonymous: Agent = {};
+let aliceGameId = "";
+
+// Every game route an attacker might target, with a request body where needed
+const gameRoutes = (gameId: string): Array<[string, string, unknown?]> => [
+  ["GET", `/api/game/${gameId}/weeks`],
+  ["GET", `/api/game/${gameId}/week/1`],
+  ["GET", `/api/game/${gameId}/inventory/overview`],
+  ["GET", `/api/game/${gameId}/week/1/planned-marketing-cap`],
+  ["GET", `/api/game/${gameId}/week/1/due-payments`],
+  ["GET", `/api/game/${gameId}/week/1/marketing-preview`],
+  ["GET", `/api/game/${gameId}/week/1/cash-projection`],
+  ["GET", `/api/game/${gameId}/week/1/inventory-coverage`],
+  ["POST", `/api/game/${gameId}/week/1/marketing-preview`, {}],
+  ["GET", `/api/game/${gameId}/ledger/rollup`],
+  ["GET", `/api/game/${gameId}/export/weeks.csv`],
+  ["GET", `/api/game/${gameId}/export.xlsx`],
+  ["GET", `/api/game/${gameId}/report.pdf`],
+  ["GET", `/api/game/${gameId}/rewind`],
+  ["POST", `/api/game/${gameId}/rewind`, { toWeek: 1 }],
+  ["POST", `/api/game/${gameId}/resume`, {}],
+  ["GET", `/api/game/${gameId}/sandboxes`],
+  ["POST", `/api/game/${gameId}/share`, { shared: true }],
+  ["POST", `/api/game/${gameId}/sandboxes`, {}],
+  ["DELETE", `/api/game/${gameId}`],
+  ["POST", `/api/game/${gameId}/production/preview`, {}],
+  ["POST", `/api/game/${gameId}/week/1/update`, { productData: {} }],
+  ["POST", `/api/game/${gameId}/week/1/validate`, {}],
+  ["POST", `/api/game/${gameId}/week/1/simulate`, {}],
+  ["POST", `/api/game/${gameId}/week/1/commit`, {}],
+];
+
+await test("students and an instructor can register and sign in", async () => {
+  for (const [agent, email] of [[alice, "alice@example.com"], [bob, "bob@example.com"], [teacher, "teacher@example.com"]] as const) {
+    const res = await call(agent, "POST", "/api/auth/register", { email, password: "correct-horse" });
+    assert.equal(res.status, 201);
+    assert.equal(res.json.passwordHash, undefined, "password hash leaked to the client");
+  }
+  assert.equal((await call(bob, "POST", "/api/instructor/enroll", { accessCode: "authz-smoke-instructoR" })).status, 403);
+  assert.equal((await call(bob, "POST", "/api/instructor/enroll", { accessCode: "authz" })).status, 403);
+  assert.equal((await call(teacher, "POST", "/api/instructor/enroll", { accessCode: "authz-smoke-instructor" })).status, 200);
+
+  const started = await call(alice, "POST", "/api/game/start", {});
+  assert.equal(started.status, 200);
+  aliceGameId = started.json.id;
+  assert.ok(aliceGameId);
+});
+
+await test("the owner can read their own game", async () => {
+  const res = await call(alice, "GET", `/api/game/${aliceGameId}/weeks`);
+  assert.equal(res.status, 200);
+  assert.equal(res.json.gameSession.id, aliceGameId);
+  assert.equal((await call(alice, "GET", `/api/game/${aliceGameId}/week/1`)).status, 200);
+});
+
+await test("another student gets 403 on every game route", async () => {
+  for (const [method, path, body] of gameRoutes(aliceGameId)) {
+    const res = await call(bob, method, path, body);
+    assert.equal(res.status, 403, `${method} ${path} returned ${res.status}`);
+  }
+});
+
+await test("another student cannot reach a game through a gameId in the body or query", async () => {
+  const demand = await call(bob, "POST", "/api/game/calculate-demand", { gameId: aliceGameId, product: "jacket", week: 7, rrp: 80 });
+  assert.equal(demand.status, 403);
+  const cost = await call(bob, "POST", "/api/game/calculate-unit-cost", { gameId: aliceGameId, product: "jacket", materialChoice: "selvedgeDenim", hasPrint: false });
+  assert.equal(cost.status, 403);
+  assert.equal((await call(bob, "GET", `/api/game/constants?gameId=${aliceGameId}`)).status, 403);
+});
+
+await test("cross-user writes leave the owner's game untouched", async () => {
+  await call(bob, "POST", `/api/game/${aliceGameId}/week/1/update`, { productData: { jacket: { rrp: 1 } } });
+  await call(bob, "POST", `/api/game/${aliceGameId}/week/1/commit`, {});
+  const week1 = await call(alice, "GET", `/api/game/${aliceGameId}/week/1`);
+  assert.notEqual(week1.json.productData?.jacket?.rrp, 1);
+  assert.equal(week1.json.isCommitted, false);
+});
+
+await test("signed-out requests get 401", async () => {
+  for (const [method, path, body] of gameRoutes(aliceGameId)) {
+    const res = await call(anonymous, method, path, body);
+    assert.equal(res.status, 401, `${method} ${path} returned ${res.status}`);
+  }
+  assert.equal((await call(anonymous, "POST", "/api/game/calculate-demand", { gameId: aliceGameId })).status, 401);
+});
+
+await test("an instructor can view a student's game only once the student joins their cohort", async () => {
+  assert.equal((await call(teacher, "GET", `/api/game/${aliceGameId}/weeks`)).status, 403);
+  const cohort = await call(teacher, "POST", "/api/cohorts", { name: "Tutorial group" });
+  assert.equal((await call(alice, "POST", "/api/cohorts/join", { joinCode: cohort.json.joinCode })).status, 200);
+
+  const res = await call(teacher, "GET", `/api/game/${aliceGameId}/weeks`);
+  assert.equal(res.status, 200);
+  assert.equal((await call(teacher, "GET", `/api/game/${aliceGameId}/ledger/rollup`)).status, 200);
+  assert.equal((await call(teacher, "GET", `/api/game/constants?gameId=${aliceGameId}`)).status, 200);
+  assert.equal((await call(teacher, "POST", `/api/game/${aliceGameId}/resume`, {})).status, 403);
+});
+
+await test("an instructor cannot change a student's game", async () => {
+  const readOnly = /\/(weeks|ledger\/rollup|export\/weeks\.csv|export\.xlsx|report\.pdf)$/;
+  for (const [method, path, body] of gameRoutes(aliceGameId).filter(([, path]) => !readOnly.test(path))) {
+    const res = await call(teacher, method, path, body);
+    assert.equal(res.status, 403, `${method} ${path} returned ${res.status}`);
+  }
+  const week1 = await call(alice, "GET", `/api/game/${aliceGameId}/week/1`);
+  assert.equal(week1.json.isCommitted, false);
+});
+
+await test("the instructor of another cohort gets 403, so the access code alone opens no one's game", async () => {
+  const otherTeacher: Agent = {};
+  await call(otherTeacher, "POST", "/api/auth/register", { email: "other-teacher@example.com", password: "correct-horse" });
+  assert.equal((await call(otherTeacher, "POST", "/api/instructor/enroll", { accessCode: "authz-smoke-instructor" })).status, 200);
+  assert.equal((await call(otherTeacher, "POST", "/api/cohorts", { name: "Other group" })).status, 200);
+  for (const [method, path, body] of gameRoutes(aliceGameId)) {
+    const res = await call(otherTeacher, method, path, body);
+    assert.equal(res.status, 403, `${method} ${path} returned ${res.status}`);
+  }
+});
+
+await test("unknown games return 404", async () => {
+  assert.equal((await call(alice, "GET", "/api/game/no-such-game/weeks")).status, 404);
+});
+
+await test("the cohort leaderboard shows classmates under anonymous handles until they opt in", async () => {
+  const cohort = await call(teacher, "POST", "/api/cohorts", { name: "Leaderboard class" });
+  assert.equal(cohort.status, 200);
+  for (const [agent, displayName] of [[alice, "Alice A"], [bob, "Bob B"]] as const) {
+    assert.equal((await call(agent, "POST", "/api/cohorts/join", { joinCode: cohort.json.joinCode, displayName })).status, 200);
+  }
+  // Grade Alice's game directly; playing 15 weeks is engine.smoke.ts territory
+  await storage.updateGameSession(aliceGameId, {
+    isCompleted: true, finalScore: "125000.00", finalCash: "90000.00", finalServiceLevel: "96.50", finalEconomicProfit: "130000.00",
+  });
+  const path = `/api/cohorts/${cohort.json.id}/leaderboard`;
+  assert.equal((await call(bob, "GET", path)).json.entries.length, 0, "a game started before joining does not count");
+
+  // It counts once scored under the class's rubric
+  assert.equal((await call(teacher, "PATCH", `/api/cohorts/${cohort.json.id}`, { scoring: { EP_WEIGHT: 2 } })).status, 200);
+  await storage.updateGameSession(aliceGameId, {
+    scoreBreakdown: { rubric: { ...GAME_CONSTANTS.SCORING, EP_WEIGHT: 2 }, components: [], total: 125000 },
+  });
+
+  // A game Bob finished in another class's market stays off this board
+  const otherCohort = await storage.createCohort({ name: "Other class", joinCode: "OTHER1", instructorId: "someone-else" });
+  const otherMarket = await storage.createMarket({ cohortId: otherCohort.id, name: "Other market", createdBy: "someone-else" });
+  await storage.createGameSession({
+    userId: (await storage.getUserByEmail("bob@example.com"))!.id, marketId: otherMarket.id, teamName: "Bob's team",
+    isCompleted: true, finalScore: "999999.00",
+  } as any);
+
+  const board = await call(bob, "GET", path);
+  assert.equal(board.status, 200);
+  assert.equal(board.json.entries.length, 1, "only graded games are ranked");
+  const [entry] = board.json.entries;
+  assert.equal(entry.rank, 1);
+  assert.equal(entry.isNamed, false);
+  assert.doesNotMatch(entry.handle, /alice/i);
+  assert.equal(entry.gameSessionId, null, "unshared games do not link to the dashboard");
+  assert.equal(entry.finalScore, 125000);
+  assert.deepEqual(board.json.scenarios.map((sc: any) => sc.id), [entry.scenarioId]);
+  assert.equal((await call(bob, "GET", `${path}?scenarioId=no-such-scenario`)).json.entries.length, 0);
+  assert.equal((await call(bob, "GET", `${path}?sort=serviceLevel`)).status, 200);
+  assert.equal((await call(bob, "GET", `${path}?sort=bogus`)).status, 400);
+
+  assert.equal((await call(alice, "PATCH", `/api/cohorts/${cohort.json.id}/membership`, { showOnLeaderboard: true })).status, 200);
+  const named = await call(bob, "GET", path);
+  assert.equal(named.json.entries[0].handle, "Alice A");
+  assert.equal((await call(alice, "GET", path)).json.entries[0].isYou, true);
+
+  const outsider: Agent = {};
+  await call(outsider, "POST", "/api/auth/register", { email: "outsider@example.com", password: "correct-horse" });
+  assert.equal((await call(outsider, "GET", path)).status, 404);
+  assert.equal((await call(outsider, "PATCH", `/api/cohorts/${cohort.json.id}/membership`, { showOnLeaderboard: true })).status, 404);
+});
+
+await test("a shared finished game opens read-only for classmates only", async () => {
+  assert.equal((await call(bob, "GET", `/api/game/${aliceGameId}/weeks`)).status, 403);
+  assert.equal((await call(bob, "POST", `/api/game/${aliceGameId}/share`, { shared: true })).status, 403);
+  assert.equal((await call(teacher, "POST", `/api/game/${aliceGameId}/share`, { shared: true })).status, 403);
+  assert.equal((await call(alice, "POST", `/api/game/${aliceGameId}/share`, { shared: true })).status, 200);
+
+  assert.equal((await call(bob, "GET", `/api/game/${aliceGameId}/weeks`)).status, 200);
+  assert.equal((await call(bob, "GET", `/api/game/${aliceGameId}/ledger/rollup`)).status, 200);
+  assert.equal((await call(bob, "GET", `/api/game/constants?gameId=${aliceGameId}`)).status, 200);
+  assert.equal((await call(bob, "GET", `/api/game/${aliceGameId}/export/weeks.csv`)).status, 200);
+  const readOnly = /\/(weeks|ledger\/rollup|export\/weeks\.csv|export\.xlsx|report\.pdf)$/;
+  for (const [method, path, body] of gameRoutes(aliceGameId).filter(([, path]) => !readOnly.test(path))) {
+    const res = await call(bob, method, path, body);
+    assert.equal(res.status, 403, `${method} ${path} returned ${res.status}`);
+  }
+  const cohorts = await call(bob, "GET", "/api/cohorts/mine");
+  const board = await call(bob, "GET", `/api/cohorts/${cohorts.json[0].id}/leaderboard`);
+  assert.equal(board.json.entries[0].gameSessionId, aliceGameId);
+
+  const outsider: Agent = {};
+  await call(outsider, "POST", "/api/auth/login", { email: "outsider@example.com", password: "correct-horse" });
+  assert.equal((await call(outsider, "GET", `/api/game/${aliceGameId}/weeks`)).status, 403, "sharing stays within the cohort");
+});
+
+await test("every registered :gameId route runs authorizeGame", async () => {
+  const stack = (app as any)._router.stack as any[];
+  const gameIdRoutes = stack.filter((layer) => layer.route?.path?.includes(":gameId"));
+  assert.ok(gameIdRoutes.length >= 15);
+  for (const layer of gameIdRoutes) {
+    const handlers = layer.route.stack.map((l: any) => l.handle);
+    assert.ok(handlers.includes(authorizeGame), `${layer.route.path} is missing authorizeGame`);
+  }
+});
+
+finish(server);
@@ -0,0 +1,119 @@
+/* Smoke tests for atomic, idempotent week commits
+ * (POST /api/game/:gameId/week/:weekNumber/commit in server/routes.ts).
+ *
+ * Run from the project root with:
+ *   npx tsx tests/commit.smoke.ts
+ *
+ * Boots the real routes on in-memory storage (DATABASE_URL unset) via
+ * startServer in helpers.ts. Tests run in order because they share one game.
+ */
+
+import assert from "node:assert/strict";
+import { finish, startServer, test, type Agent } from "./helpers.js";
+
+const smoke = await startServer("commit-smoke");
+const { server, baseUrl } = smoke;
+
+// One player throughout
+const player: Agent = {};
+const call = (method: string, path: string, body?: unknown, headers?: Record<string, string>) =>
+  smoke.call(player, method, path, body, headers);
+
+let gameId = "";
+let preview: any = null;
+const commitWeek1 = (key?: string) =>
+  call("POST", `/api/game/${gameId}/week/1/commit`, undefined, key ? { "Idempotency-Key": key } : {});
+
+console.log("Commit smoke tests:");
+
+await test("a player can start a game and price week 1", async () => {
+  assert.equal((await call("POST", "/api/auth/register", { email: "carol@example.com", password: "correct-horse" })).status, 201);
+  const started = await call("POST", "/api/game/start", {});
+  assert.equal(started.status, 200);
+  gameId = started.json.id;
+  const productData = {
+    jacket: { rrp: 96, fabric: "standardDenim", hasPrint: false, confirmedMaterialCost: 10 },
+    dress: { rrp: 60, fabric: "polyesterBlend", hasPrint: false, confirmedMaterialCost: 7 },
+    pants: { rrp: 72, fabric: "wideWaleCorduroy", hasPrint: false, confirmedMaterialCost: 9 },
+  };
+  assert.equal((await call("POST", `/api/game/${gameId}/week/1/update`, { productData })).status, 200);
+  const validation = await call("POST", `/api/game/${gameId}/week/1/validate`, {});
+  assert.equal(validation.json.canCommit, true, JSON.stringify(validation.json.errors));
+});
+
+await test("a dry run previews week 2 without saving anything", async () => {
+  const res = await call("POST", `/api/game/${gameId}/week/1/simulate`, {});
+  assert.equal(res.status, 200, JSON.stringify(res.json));
+  preview = res.json;
+  assert.equal(preview.demandBasis, "exact");
+  assert.equal(preview.committedState.isCommitted, true);
+  assert.equal(preview.nextState.weekNumber, 2);
+  assert.ok(Array.isArray(preview.ledger));
+
+  const weeks = await call("GET", `/api/game/${gameId}/weeks`);
+  assert.deepEqual(weeks.json.weeks.map((w: any) => w.weekNumber), [1]);
+  assert.equal(weeks.json.weeks[0].isCommitted, false);
+  const ledger = await call("GET", `/api/game/${gameId}/ledger/rollup`);
+  assert.equal(ledger.json.rows.length, 0);
+});
+
+await test("concurrent commits with one key advance the week once and return the same row", async () => {
+  const [first, second] = await Promise.all([commitWeek1("key-1"), commitWeek1("key-1")]);
+  assert.equal(first.status, 200, JSON.stringify(first.json));
+  assert.equal(second.status, 200, JSON.stringify(second.json));
+  assert.equal(first.json.id, second.json.id);
+  assert.equal(first.json.isCommitted, true);
+
+  const weeks = await call("GET", `/api/game/${gameId}/weeks`);
+  assert.deepEqual(weeks.json.weeks.map((w: any) => w.weekNumber), [1, 2]);
+});
+
+await test("a retry with the same key returns the committed week", async () => {
+  const retry = await commitWeek1("key-1");
+  assert.equal(retry.status, 200);
+  assert.equal(retry.json.weekNumber, 1);
+  assert.equal(retry.json.isCommitted, true);
+});
+
+await test("the committed week matches its dry run", async () => {
+  const week2 = await call("GET", `/api/game/${gameId}/week/2`);
+  assert.equal(Number(week2.json.cashOnHand), Number(preview.nextState.cashOnHand));
+  assert.equal(Number(week2.json.creditUsed), Number(preview.nextState.creditUsed));
+  const ledger = await call("GET", `/api/game/${gameId}/ledger/rollup`);
+  assert.equal(ledger.json.rows.length, preview.ledger.length);
+  assert.equal((await call("POST", `/api/game/${gameId}/week/1/simulate`, {})).status, 409);
+});
+
+await test("committing an already committed week without its key gets 409", async () => {
+  assert.equal((await commitWeek1("key-2")).status, 409);
+  assert.equal((await commitWeek1()).status, 409);
+  const weeks = await call("GET", `/api/game/${gameId}/weeks`);
+  assert.equal(weeks.json.weeks.length, 2);
+});
+
+await test("the game exports as one CSV per dataset and as an XLSX workbook", async () => {
+  const download = (path: string) => fetch(baseUrl + path, { headers: { cookie: player.cookie ?? "" } });
+
+  const weeksCsv = await download(`/api/game/${gameId}/export/weeks.csv`);
+  assert.equal(weeksCsv.status, 200);
+  assert.match(weeksCsv.headers.get("content-type") || "", /text\/csv/);
+  const lines = (await weeksCsv.text()).trim().split("\r\n");
+  assert.equal(lines[0].split(",")[0], "week");
+  assert.deepEqual(lines.slice(1).map((l) => l.split(",")[0]), ["1", "2"]);
+
+  const ledgerCsv = await (await download(`/api/game/${gameId}/export/cash_ledger.csv`)).text();
+  assert.equal(ledgerCsv.trim().split("\r\n").length, preview.ledger.length + 1);
+  const salesCsv = await (await download(`/api/game/${gameId}/export/product_sales.csv`)).text();
+  assert.equal(salesCsv.trim().split("\r\n").length, 1 + 2 * 3, "one row per week and product");
+  assert.equal((await download(`/api/game/${gameId}/export/secrets.csv`)).status, 404);
+
+  const xlsx = await download(`/api/game/${gameId}/export.xlsx`);
+  assert.equal(xlsx.status, 200);
+  const { default: ExcelJS } = await import("exceljs");
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await xlsx.arrayBuffer());
+  assert.deepEqual(workbook.worksheets.map((ws) => ws.name), ["Weekly KPIs", "Cost breakdown", "Season totals", "Sales by product", "Cash ledger", "Orders log"]);
+  assert.equal(workbook.getWorksheet("Weekly KPIs")!.rowCount, 3);
+});
+
+finish(server);
@@ -10,6 +10,13 @@
 
 import assert from "node:assert/strict";
 import { GAME_CONSTANTS, GameEngine } from "../server/gameEngine.js";
+import { getScenario, getScenarioEngine } from "../server/scenarios/index.js";
+import { simulateSeason } from "../server/simulator.js";
+import { generateDebrief } from "../server/debrief.js";
+import { buildSeasonReport, renderSeasonReport } from "../server/report.js";
+import { scoreSeason, withRubricOverrides } from "../server/scoring.js";
+import { readFileSync } from "node:fs";
+import { parse as parseYaml } from "yaml";
 
 let passed = 0;
 let failed = 0;
@@ -78,7 +85,9 @@ test("cost-floor validation catches sub-cost RRP", () => {
     weeklyDiscounts: {},
   };
   const result = GameEngine.validateWeeklyDecisions(1, state, {} as any);
-  assert.ok(result.errors.some((e) => /below cost floor/i.test(e)), "expected cost floor violation");
+  // Below-floor pricing is allowed (deliberate acquisition pricing) but flagged
+  assert.ok(result.warnings.some((w) => w.code === "rrp_below_cost_floor"), "expected cost floor warning");
+  assert.equal(result.errors.some((e) => e.code === "rrp_below_cost_floor"), false);
 });
 
 test("demand at RRP=hmPrice and no marketing is positive", () => {
@@ -190,7 +199,7 @@ test("partial production can start when remaining fabric is below one rung", asy
   };
 
   const validation = GameEngine.validateWeeklyDecisions(3, state, {} as any);
-  assert.equal(validation.canCommit, true, validation.errors.join("; "));
+  assert.equal(validation.canCommit, true, validation.errors.map((e) => e.message).join("; "));
 
   const committed = await GameEngine.commitWeek(state);
   const wip = (committed as any).workInProcess.batches.find((b: any) => b.id === "partial-jacket");
@@ -200,6 +209,494 @@ test("partial production can start when remaining fabric is below one rung", asy
   assert.equal(Number((committed as any).logisticsCosts), 25_000 * GAME_CONSTANTS.SHIPPING.jacket.standard);
 });
 
+test("validation issues carry a code, the tab to fix them in and the offending batch", () => {
+  const state: any = {
+    weekNumber: 3,
+    cashOnHand: 1_000_000,
+    creditUsed: 0,
+    rawMaterials: {},
+    workInProcess: { batches: [] },
+    finishedGoods: { lots: [] },
+    shipmentsInTransit: [],
+    productionSchedule: {
+      batches: [
+        { id: "no-fabric-pants", product: "pants", method: "inhouse", startWeek: 4, quantity: 25_000, shipping: "standard" },
+        { id: "too-big-dress", product: "dress", method: "outsource", startWeek: 4, quantity: 30_000, shipping: "standard" },
+      ],
+    },
+    procurementContracts: { contracts: [] },
+    productData: {
+      jacket: { fabric: "selvedgeDenim", rrp: 100 },
+      dress: { fabric: "egyptianCotton", rrp: 100 },
+      pants: { fabric: "fineWaleCorduroy", rrp: 100 },
+    },
+    plannedMarketingPlan: { totalSpend: 0 },
+  };
+  const { errors, canCommit } = GameEngine.validateWeeklyDecisions(3, state, {} as any);
+  assert.equal(canCommit, false);
+  assert.ok(errors.every((e) => e.severity === "error"));
+
+  const materials = errors.find((e) => e.code === "insufficient_materials" && e.batchId === "no-fabric-pants");
+  assert.ok(materials, errors.map((e) => e.message).join("; "));
+  assert.equal(materials.tab, "production");
+  assert.equal(materials.product, "pants");
+  assert.equal(materials.week, 4);
+  assert.ok(materials.suggestedFix);
+
+  const oversize = errors.find((e) => e.code === "batch_over_size");
+  assert.equal(oversize?.batchId, "too-big-dress");
+});
+
+test("FVC stages 25% down payment after signing and the balance on final delivery", async () => {
+  const contract = {
+    id: "fvc-test-supplier1-standardDenim",
+    type: "FVC",
+    supplier: "supplier1",
+    material: "standardDenim",
+    units: 100_000,
+    weekSigned: 1,
+    unitBasePrice: 10,
+    printSurcharge: 0,
+    lockedUnitPrice: 10,
+    deliveries: [
+      { week: 3, units: 50_000, unitPrice: 10 },
+      { week: 4, units: 50_000, unitPrice: 10 },
+    ],
+  };
+  const stateFor = (week: number, contracts: any[]): any => ({
+    gameSessionId: "fvc-test",
+    weekNumber: week,
+    cashOnHand: 5_000_000,
+    creditUsed: 0,
+    rawMaterials: {},
+    workInProcess: { batches: [] },
+    finishedGoods: { lots: [] },
+    shipmentsInTransit: [],
+    productionSchedule: { batches: [] },
+    procurementContracts: { contracts },
+    productData: {},
+    marketingPlan: { totalSpend: 0 },
+    plannedMarketingPlan: { totalSpend: 0 },
+    totals: {},
+  });
+
+  const week1 = await GameEngine.commitWeek(stateFor(1, [contract]));
+  assert.equal((week1 as any).nextWeekOutflows.materials_fvc, 250_000);
+
+  const week2 = await GameEngine.commitWeek(stateFor(2, (week1 as any).procurementContracts.contracts));
+  assert.equal((week2 as any).nextWeekOutflows.materials_fvc, 0);
+  assert.equal((week2 as any).nextWeekArrivals.length, 1);
+
+  const week3 = await GameEngine.commitWeek(stateFor(3, (week2 as any).procurementContracts.contracts));
+  assert.equal((week3 as any).nextWeekOutflows.materials_fvc, 750_000);
+});
+
+test("scenario engines read their own constants without touching the default", () => {
+  const crunch = getScenarioEngine("credit-crunch");
+  assert.equal(crunch.constants.CREDIT_LIMIT, 3_000_000);
+  assert.ok(Math.abs(crunch.calculateInterest(500_000) - 500_000 * crunch.constants.WEEKLY_INTEREST_RATE) < 1e-6);
+  assert.equal(GameEngine.constants, GAME_CONSTANTS);
+  assert.ok(Math.abs(GameEngine.calculateInterest(500_000) - 500_000 * GAME_CONSTANTS.WEEKLY_INTEREST_RATE) < 1e-6);
+
+  // Partial overrides merge onto the defaults
+  const summer = getScenario("early-summer").constants;
+  assert.equal(summer.PRODUCTS.dress.forecast, 200_000);
+  assert.equal(summer.PRODUCTS.dress.hmPrice, GAME_CONSTANTS.PRODUCTS.dress.hmPrice);
+  assert.equal(summer.SUPPLIERS.supplier1.materials.standardDenim.price, GAME_CONSTANTS.SUPPLIERS.supplier1.materials.standardDenim.price);
+  const rrp = GAME_CONSTANTS.PRODUCTS.dress.hmPrice * 1.2;
+  assert.ok(getScenarioEngine("early-summer").calculateDemand("dress" as any, 8, rrp) > GameEngine.calculateDemand("dress" as any, 8, rrp));
+
+  assert.equal(getScenarioEngine("no-such-scenario"), GameEngine);
+});
+
+test("simulateSeason plays the example decision script through week 15", async () => {
+  const script = parseYaml(readFileSync(new URL("../scripts/examples/baseline-season.yaml", import.meta.url), "utf8"));
+  const result = await simulateSeason(script);
+  assert.equal(result.stoppedAtWeek, undefined);
+  assert.equal(result.weeks.length, 15);
+  assert.ok(result.final, "final results missing");
+
+  // Spot buys are billed once, at catalogue price, through the staged ledger
+  const spot = result.ledger.filter((e) => e.type === "materials_spt").reduce((s, e) => s + e.amount, 0);
+  assert.equal(spot, 50_000 * 10 + 75_000 * 7 + 50_000 * 9);
+
+  // advanceWeek carries Week 1 contracts into later weeks
+  const week2 = result.weeks[1].state as any;
+  assert.equal(week2.procurementContracts.contracts.length, 3);
+});
+
+test("splitMarketDemand shares one pool between teams by the strength of their offers", () => {
+  // Identical offers: two teams split 1.5x one team's demand evenly
+  assert.deepEqual(GameEngine.splitMarketDemand([1000, 1000]), [750, 750]);
+  // A lone team keeps its standalone demand
+  assert.deepEqual(GameEngine.splitMarketDemand([437]), [437]);
+
+  const shares = GameEngine.splitMarketDemand([1200, 800, 400]);
+  const pool = Math.round(((1200 + 800 + 400) / 3) * (1 + 2 * GAME_CONSTANTS.MARKET.ADDITIONAL_TEAM_MARKET_SIZE));
+  assert.equal(shares.reduce((s, x) => s + x, 0), pool);
+  assert.ok(shares[0] > shares[1] && shares[1] > shares[2], `shares not ordered by offer: ${shares}`);
+  // Sensitivity > 1: the strongest offer wins more than its proportional share
+  assert.ok(shares[0] / pool > 1200 / 2400);
+
+  assert.deepEqual(GameEngine.splitMarketDemand([0, 0]), [0, 0]);
+});
+
+test("commitWeek uses the market's demand in place of the standalone calculation", async () => {
+  const state: any = { ...GameEngine.initializeNewGame("market"), gameSessionId: "market", weekNumber: 1 };
+  const computed: any = await GameEngine.commitWeek(state, { marketDemand: { jacket: 123 } });
+  assert.equal(computed.weeklyDemand.jacket, 123);
+  // Nothing to sell in week 1, so the whole share is lost
+  assert.equal(computed.lostSales.jacket, 123);
+});
+
+test("seeded demand draws are reproducible and average out to the mean", () => {
+  assert.equal(GameEngine.demandNoiseFactor("seed-a", 8, "jacket"), GameEngine.demandNoiseFactor("seed-a", 8, "jacket"));
+  assert.notEqual(GameEngine.demandNoiseFactor("seed-a", 8, "jacket"), GameEngine.demandNoiseFactor("seed-b", 8, "jacket"));
+
+  const draws: number[] = [];
+  for (let i = 0; i < 2000; i++) draws.push(GameEngine.demandNoiseFactor(`seed-${i}`, 1 + (i % 15), "dress"));
+  const mean = draws.reduce((s, x) => s + x, 0) / draws.length;
+  assert.ok(Math.abs(mean - 1) < 0.03, `mean draw ${mean}`);
+  assert.ok(draws.every((x) => x > 0));
+
+  // About 80% of draws land inside the forecast range
+  const { low, high } = GameEngine.demandForecastRange(10_000);
+  const inside = draws.filter((x) => x * 10_000 >= low && x * 10_000 <= high).length / draws.length;
+  assert.ok(inside > 0.75 && inside < 0.85, `coverage ${inside}`);
+});
+
+test("marketing preview adds forecast ranges only for uncertain-demand games", () => {
+  const state: any = { ...GameEngine.initializeNewGame("preview"), weekNumber: 8 };
+  state.productData.jacket.rrp = 80;
+  state.awareness = 40;
+  state.intent = 30;
+  const point: any = GameEngine.previewNextWeekMarketing(state);
+  assert.equal(point.forecastDemandRange, undefined);
+  const ranged: any = GameEngine.previewNextWeekMarketing(state, undefined, undefined, { uncertainDemand: true });
+  assert.equal(ranged.forecastDemandTotal, point.forecastDemandTotal);
+  assert.ok(ranged.forecastDemandTotal > 0);
+  assert.ok(ranged.forecastDemandRange.low < ranged.forecastDemandTotal && ranged.forecastDemandTotal < ranged.forecastDemandRange.high);
+});
+
+// The baseline season's decisions up to week 5, then nothing: week 6 onwards
+// plays out exactly as the plan stands at the start of week 6
+async function openingStateAfterWeek5Decisions() {
+  const script = parseYaml(readFileSync(new URL("../scripts/examples/baseline-season.yaml", import.meta.url), "utf8"));
+  for (const week of Object.keys(script.weeks)) if (Number(week) > 5) delete script.weeks[week];
+  const result = await simulateSeason(script);
+  const engine = getScenarioEngine(script.scenario);
+  const week5 = result.weeks[4].state as any;
+  return { engine, result, week6: engine.advanceWeek(week5, week5) };
+}
+
+test("projectCashFlow matches the season played out without further decisions", async () => {
+  const { engine, result, week6 } = await openingStateAfterWeek5Decisions();
+  const projection = engine.projectCashFlow(week6);
+  assert.deepEqual(projection.weeks.map((w) => w.weekNumber), [6, 7, 8, 9, 10, 11, 12, 13, 14, 15]);
+  assert.equal(projection.firstWeekOverLimit, null);
+  for (const w of projection.weeks) {
+    const actual = result.weeks[w.weekNumber - 1].state as any;
+    const actualNet = Number(actual.cashOnHand) - Number(actual.creditUsed);
+    assert.ok(Math.abs(w.cashOnHand - w.creditUsed - actualNet) < 0.05, `week ${w.weekNumber}`);
+    assert.equal(w.totalInflows, Number(actual.weeklyRevenue));
+  }
+  // Planned marketing is paid at the start of every later week
+  assert.equal(projection.weeks[1].outflows.marketing, 200_000);
+});
+
+test("validation warns when a later week needs more than the credit limit", async () => {
+  const { engine, week6 } = await openingStateAfterWeek5Decisions();
+  assert.equal(engine.validateWeeklyDecisions(6, week6, {} as any).warnings.some((w) => w.code === "credit_limit_breach"), false);
+
+  // A spot buy signed now is paid on delivery in week 8, after this week's liquidity check
+  week6.procurementContracts.contracts.push({
+    id: "spt-w6-huge", type: "SPT", supplier: "supplier1", material: "standardDenim",
+    units: 1_500_000, weekSigned: 6, unitBasePrice: 10, printSurcharge: 0, lockedUnitPrice: 10,
+  });
+  const projection = engine.projectCashFlow(week6);
+  assert.equal(projection.firstWeekOverLimit, 8);
+  assert.ok(projection.weeks[2].outflows.materials >= 15_000_000);
+
+  const validation = engine.validateWeeklyDecisions(6, week6, {} as any);
+  assert.equal(validation.canCommit, true);
+  const breach = validation.warnings.find((w) => w.code === "credit_limit_breach");
+  assert.ok(breach?.message.includes("credit limit in week 8"), validation.warnings.map((w) => w.message).join("; "));
+  assert.equal(breach?.week, 8);
+});
+
+test("inventory coverage follows batches onto the shelf and names the weeks that stock out", async () => {
+  const { engine, week6 } = await openingStateAfterWeek5Decisions();
+  const coverage = engine.projectInventoryCoverage(week6);
+  assert.deepEqual(coverage.weeks.map((w) => w.weekNumber), [7, 8, 9, 10, 11, 12, 13, 14, 15]);
+
+  // The first pants batch (started week 4) reaches the shelf in week 9
+  const pants = coverage.weeks.map((w) => w.products.pants);
+  assert.equal(pants[1].openingUnits, 0);
+  assert.equal(pants[2].arrivingUnits, 25_000);
+  for (const w of coverage.weeks) {
+    assert.ok(w.products.dress.demand > 0);
+    assert.ok(w.products.dress.sales <= w.products.dress.openingUnits);
+  }
+  assert.equal(coverage.weeks[0].products.dress.shortfall, coverage.weeks[0].products.dress.demand, "nothing on the shelf at launch");
+  assert.deepEqual(coverage.stockOuts.filter((s) => s.product === "pants" && s.weekNumber <= 12).map((s) => s.weekNumber), [7, 8]);
+
+  const warnings = engine.validateWeeklyDecisions(6, week6, {} as any).warnings.map((w) => w.message);
+  assert.ok(warnings.some((w) => w.startsWith("Low service level risk: Corduroy Pants is projected to stock out in weeks 7–8")), warnings.join("; "));
+  assert.ok(warnings.some((w) => w.includes("Floral Print Dress is projected to stock out in week 7 ")), warnings.join("; "));
+});
+
+// A run-out week with more jackets on the shelf than a week's demand (unit
+// cost basis £30) and £40 actual unit cost so far
+function runOutState(week: number) {
+  const state: any = { ...GameEngine.initializeNewGame("runout"), gameSessionId: "runout", weekNumber: week };
+  state.productData.jacket.rrp = 80;
+  state.awareness = 60;
+  state.intent = 50;
+  state.actualUnitCost = "40.0000";
+  state.finishedGoods = { lots: [{ id: "lot-1", product: "jacket", quantity: 100_000, unitCostBasis: 30, unitMaterialCost: 10, unitProductionCost: 15, unitShippingCost: 5 }] };
+  state.weeklyDiscounts = { jacket: 0.6, dress: 0, pants: 0 };
+  return state;
+}
+
+test("run-out weeks use the player's markdowns unless the game opts into clearance, never below actual unit cost", async () => {
+  assert.equal(GameEngine.runOutMarkdown(12, 0.6, 80, 40, "automatic"), 0.6);
+  assert.equal(GameEngine.runOutMarkdown(14, 0, 80, 0, "automatic"), 0.35);
+  assert.equal(GameEngine.runOutMarkdown(15, 0, 80, 60, "automatic"), 0.25);
+  assert.equal(GameEngine.runOutMarkdown(13, 0.1, 80, 40), 0.1);
+
+  const automatic: any = await GameEngine.commitWeek(runOutState(13), { runOutMode: "automatic" });
+  assert.equal(automatic.weeklyDiscounts.jacket, 0.2);
+  assert.ok(automatic.weeklySales.jacket > 0);
+  assert.equal(Number(automatic.weeklyRevenue), automatic.weeklySales.jacket * 64);
+
+  // The player's 60% would sell at £32; the guard stops it at £40
+  const player: any = await GameEngine.commitWeek(runOutState(13));
+  assert.equal(player.weeklyDiscounts.jacket, 0.5);
+  assert.equal(Number(player.weeklyRevenue), player.weeklySales.jacket * 40);
+
+  const state = runOutState(12);
+  state.plannedWeeklyDiscounts = { jacket: 0.6, dress: 0, pants: 0 };
+  const warning = GameEngine.validateWeeklyDecisions(12, state, {} as any).warnings.find((w) => w.code === "markdown_below_unit_cost");
+  assert.equal(warning?.week, 13);
+  assert.ok(warning?.message.includes("limited to 50%"), warning?.message);
+  assert.equal(GameEngine.validateWeeklyDecisions(12, state, { runOutMode: "automatic" } as any).warnings.some((w) => w.code === "markdown_below_unit_cost"), false);
+});
+
+test("the end-of-season jobber clears unsold stock at salvage value instead of dead stock", async () => {
+  const kept: any = await GameEngine.commitWeek(runOutState(15));
+  assert.equal(kept.liquidation, null);
+  assert.ok(GameEngine.calculateFinalResults([kept]).deadStockPenalty > 0);
+
+  const state = runOutState(15);
+  state.liquidateUnsoldStock = true;
+  const cleared: any = await GameEngine.commitWeek(state);
+  const left = 100_000 - cleared.weeklySales.jacket;
+  assert.ok(left > 0);
+  assert.deepEqual(cleared.liquidation.units, { jacket: left, dress: 0, pants: 0 });
+  assert.equal(cleared.liquidation.revenue, left * 30 * GAME_CONSTANTS.RUN_OUT.SALVAGE_RATE);
+  assert.deepEqual(cleared.finishedGoods.lots, []);
+  assert.equal(GameEngine.calculateFinalResults([cleared]).deadStockPenalty, 0);
+  assert.ok(Number(cleared.cashOnHand) > Number(kept.cashOnHand));
+});
+
+test("backorder mode queues part of unmet demand, serves it first from the next stock and takes pre-orders", async () => {
+  const soldOut = runOutState(8);
+  soldOut.finishedGoods = { lots: [] };
+  const lostOnly: any = await GameEngine.commitWeek(soldOut);
+  assert.equal(lostOnly.backorders, null);
+  assert.equal(lostOnly.lostSales.jacket, lostOnly.weeklyDemand.jacket);
+
+  const week8 = runOutState(8);
+  week8.finishedGoods = { lots: [] };
+  const waited: any = await GameEngine.commitWeek(week8, { backorders: true });
+  const demand = waited.weeklyDemand.jacket;
+  const backordered = Math.round(demand * GAME_CONSTANTS.BACKORDERS.SHARE);
+  assert.ok(backordered > 0, "jackets are demanded in week 8");
+  assert.equal(waited.backorders.placed.jacket, backordered);
+  assert.equal(waited.lostSales.jacket, demand - backordered);
+  assert.deepEqual(waited.backorders.queue.map((e: any) => [e.product, e.kind, e.dueWeek, e.remaining]), [["jacket", "backorder", 9, backordered]]);
+
+  // Stock arrives in week 9: waiting customers (90% still want it) go first, at week 9's price
+  const week9 = runOutState(9);
+  week9.weeklyDiscounts = { jacket: 0, dress: 0, pants: 0 };
+  week9.backorders = waited.backorders;
+  const served: any = await GameEngine.commitWeek(week9, { backorders: true });
+  const lateServed = Math.round(backordered * GAME_CONSTANTS.BACKORDERS.FILL_PROBABILITY[0]);
+  assert.equal(served.backorders.served.jacket, lateServed);
+  assert.equal(served.backorders.cancelled.jacket, backordered - lateServed);
+  assert.deepEqual(served.backorders.queue, []);
+  assert.equal(Number(served.weeklyRevenue), (lateServed + served.weeklySales.jacket) * 80);
+  assert.equal(served.weeklySales.jacket, served.weeklyDemand.jacket, "on-time sales are unaffected");
+
+  // Pre-launch, awareness turns into pre-orders due at launch
+  const week5 = runOutState(5);
+  const preordered: any = await GameEngine.commitWeek(week5, { backorders: true });
+  assert.ok(preordered.backorders.preordered.jacket > 0);
+  assert.ok(preordered.backorders.queue.every((e: any) => e.kind === "preorder" && e.dueWeek === 7));
+});
+
+test("scenario disruptions delay arrivals, cut capacity and spike prices from the week they hit", async () => {
+  const engine = GameEngine.withScenario({
+    ...GAME_CONSTANTS,
+    EVENTS: [
+      { id: "late", kind: "supplier_delay", week: 4, supplier: "supplier2", delayWeeks: 2, title: "Late", message: "Late" },
+      { id: "strike", kind: "port_strike", week: 4, delayWeeks: 1, title: "Strike", message: "Strike" },
+      { id: "outage", kind: "capacity_cut", week: 4, durationWeeks: 2, capacityFactor: 0.5, title: "Outage", message: "Outage" },
+      { id: "spike", kind: "price_spike", week: 4, material: "wideWaleCorduroy", priceMultiplier: 1.4, title: "Spike", message: "Spike" },
+    ],
+  });
+  const week3: any = { ...engine.initializeNewGame("disrupted"), gameSessionId: "disrupted", weekNumber: 3 };
+  week3.procurementContracts = {
+    contracts: [
+      { id: "spt-1", type: "SPT", supplier: "supplier2", material: "polyesterBlend", units: 10_000, weekSigned: 2, lockedUnitPrice: 6, deliveries: [{ week: 4, units: 10_000, goodUnits: 10_000, unitPrice: 6 }] },
+      { id: "spt-2", type: "SPT", supplier: "supplier1", material: "standardDenim", units: 5_000, weekSigned: 2, lockedUnitPrice: 10, deliveries: [{ week: 4, units: 5_000, goodUnits: 5_000, unitPrice: 10 }] },
+    ],
+  };
+  week3.productData.dress.fabric = "egyptianCotton";
+  week3.productData.pants.fabric = "egyptianCotton";
+  week3.rawMaterials = { egyptianCotton: { onHand: 50_000, allocated: 0, onHandValue: 600_000, costLots: [{ quantity: 50_000, unitCost: 12 }] } };
+  week3.shipmentsInTransit = [{ id: "b1-ship-2", product: "dress", quantity: 25_000, unitShippingCost: 2.5, arrivalWeek: 4 }];
+  week3.productionSchedule = { batches: [
+    { id: "b2", product: "dress", quantity: 25_000, method: "inhouse", startWeek: 4, shipping: "standard" },
+    { id: "b3", product: "pants", quantity: 25_000, method: "inhouse", startWeek: 4, shipping: "standard" },
+  ] };
+
+  const computed: any = await engine.commitWeek(week3);
+  const [late, onTime] = computed.procurementContracts.contracts.map((c: any) => c.deliveries[0]);
+  assert.deepEqual([late.week, late.originalWeek, late.delayedBy], [6, 4, ["late"]]);
+  assert.equal(onTime.week, 4);
+  assert.deepEqual(computed.nextWeekArrivals.map((a: any) => a.material), ["standardDenim"]);
+  assert.equal(computed.shipmentsInTransit[0].arrivalWeek, 5);
+
+  // Week 4 opens with the news; one in-house rung fits the halved 50k, the other batch waits a week
+  const week4 = engine.advanceWeek(computed, week3);
+  assert.deepEqual(week4.disruptions.map((e: any) => e.id), ["late", "strike", "outage", "spike"]);
+  assert.equal(engine.capacityForWeek(4), 25_000);
+  assert.equal(engine.capacityForWeek(5, 3), 100_000, "a cut is unknown before it hits");
+  assert.equal(engine.capacityForWeek(5, 4), 50_000);
+  assert.deepEqual(week4.productionSchedule.batches.map((b: any) => [b.id, b.startWeek, b.postponedBy]), [["b2", 4, undefined], ["b3", 5, "outage"]]);
+  assert.equal(week4.finishedGoods.lots.length, 0);
+
+  assert.equal(engine.materialPriceMultiplier("supplier1", "wideWaleCorduroy", 4), 1.4);
+  assert.equal(engine.materialPriceMultiplier("supplier1", "wideWaleCorduroy", 5), 1);
+  assert.equal(engine.materialPriceMultiplier("supplier1", "standardDenim", 4), 1);
+  assert.equal(getScenario("supply-shock").constants.EVENTS.length, 4);
+});
+
+test("the debrief ranks the season's mistakes by their £ impact", async () => {
+  const script = parseYaml(readFileSync(new URL("../scripts/examples/baseline-season.yaml", import.meta.url), "utf8"));
+  const result = await simulateSeason(script);
+  const engine = getScenarioEngine(script.scenario);
+  const states = result.weeks.map((w) => w.state);
+  const ledger = result.ledger.map((e) => ({ entryType: e.type, amount: e.amount, weekNumber: e.weekNumber }));
+
+  const debrief = generateDebrief(engine, states, ledger);
+  const impacts = debrief.findings.map((f) => f.impact);
+  assert.deepEqual(impacts, [...impacts].sort((a, b) => b - a));
+  const deadStock = debrief.findings.find((f) => f.code === "dead_stock");
+  assert.ok(deadStock, "dead stock finding missing");
+  assert.ok(Math.abs(deadStock.impact - result.final!.deadStockPenalty) < 0.01);
+  const late = debrief.findings.find((f) => f.code === "late_launch");
+  assert.ok(late && late.impact > 0 && late.weeks![0] === 7, "late launch finding missing");
+  assert.equal(debrief.findings.some((f) => f.code === "expedited_shipping"), false);
+  const underfunded = debrief.findings.find((f) => f.code === "marketing_below_baseline");
+  assert.ok(underfunded?.detail.includes(`in ${GameEngine.formatWeekList(underfunded.weeks!)},`), underfunded?.detail);
+
+  // Sending every batch expedited adds the premium over standard rates as a finding
+  const final: any = states[states.length - 1];
+  final.productionSchedule.batches = final.productionSchedule.batches.map((b: any) => ({ ...b, shipping: "expedited" }));
+  const expedited = generateDebrief(engine, states, ledger).findings.find((f) => f.code === "expedited_shipping");
+  const premium = final.productionSchedule.batches
+    .filter((b: any) => Number(b.quantity) > 0)
+    .reduce((s: number, b: any) => {
+      const rates = (GAME_CONSTANTS.SHIPPING as any)[b.product];
+      return s + Math.max(GAME_CONSTANTS.BATCH_SIZE, Number(b.quantity)) * (rates.expedited - rates.standard);
+    }, 0);
+  assert.ok(expedited && Math.abs(expedited.impact - premium) < 0.01, "expedited shipping finding missing");
+});
+
+test("the season report summarises a finished game and renders as a PDF", async () => {
+  const script = parseYaml(readFileSync(new URL("../scripts/examples/baseline-season.yaml", import.meta.url), "utf8"));
+  const result = await simulateSeason(script);
+  const engine = getScenarioEngine(script.scenario);
+  const states = result.weeks.map((w) => w.state);
+  const gameSession: any = { scenarioId: script.scenario, scoreBreakdown: null, demandSeed: null, runOutMode: "automatic", backorderMode: false, marketId: null, teamName: null };
+
+  const report = buildSeasonReport(engine, { gameSession, scenarioName: getScenario(script.scenario).name, states, ordersLog: [] });
+  assert.deepEqual(report.weeks.map((w) => w.week), states.filter((s) => s.isCommitted).map((s) => Number(s.weekNumber)));
+  assert.equal(report.scoreBreakdown.total, result.final!.finalScore);
+  assert.equal(report.products.length, 3);
+  const scheduled = report.weeks.reduce((s, w) => s + w.batchesStarted.length, 0);
+  assert.ok(scheduled > 0, "decision log lists no production");
+
+  const pdf = await renderSeasonReport(report);
+  assert.equal(pdf.subarray(0, 5).toString("latin1"), "%PDF-");
+  assert.ok(pdf.length > 5_000, `PDF is only ${pdf.length} bytes`);
+});
+
+test("a scored game's report and debrief keep the rubric and score it was awarded", async () => {
+  const script = parseYaml(readFileSync(new URL("../scripts/examples/baseline-season.yaml", import.meta.url), "utf8"));
+  const result = await simulateSeason(script);
+  const engine = getScenarioEngine(script.scenario);
+  const states = result.weeks.map((w) => w.state);
+  const scoredWith = { ...GAME_CONSTANTS.SCORING, DEAD_STOCK_MULTIPLIER: 2 };
+  const scored = GameEngine.calculateFinalResults(states, scoredWith);
+  const gameSession: any = {
+    scenarioId: script.scenario, isCompleted: true, finalScore: scored.finalScore.toFixed(2), scoreBreakdown: scored.scoreBreakdown,
+    demandSeed: null, runOutMode: "automatic", backorderMode: false, marketId: null, teamName: null,
+  };
+
+  // The cohort has since changed its rubric
+  const current = { ...GAME_CONSTANTS.SCORING, DEAD_STOCK_MULTIPLIER: 0.5 };
+  const report = buildSeasonReport(engine, { gameSession, scenarioName: getScenario(script.scenario).name, states, ordersLog: [], rubric: current });
+  const kpi = (label: string) => report.kpis.find((k) => k.label === label)!.value;
+  const gbp = (n: number) => new Intl.NumberFormat("en-GB", { style: "currency", currency: "GBP", maximumFractionDigits: 0 }).format(n);
+  assert.equal(kpi("Final score"), gbp(Number(gameSession.finalScore)));
+  assert.equal(kpi("Dead stock penalty"), gbp(scored.deadStockPenalty));
+  assert.deepEqual(report.scoreBreakdown.rubric, scoredWith);
+
+  const ledger = result.ledger.map((e) => ({ entryType: e.type, amount: e.amount, weekNumber: e.weekNumber }));
+  const debrief = generateDebrief(engine, states, ledger, scoredWith, Number(gameSession.finalScore));
+  assert.equal(debrief.finalScore, Number(gameSession.finalScore));
+});
+
+test("the scoring rubric weighs profit and penalises service, debt, dead stock and late launch", async () => {
+  const rubric = GAME_CONSTANTS.SCORING;
+  const breakdown = scoreSeason({
+    economicProfit: 1_000_000,
+    serviceLevel: 92.5,
+    finalCash: 0,
+    finalCredit: 40_000,
+    deadStockValue: 30_000,
+    lateLaunchWeeks: 2,
+  }, { ...rubric, EP_WEIGHT: 2, DEAD_STOCK_MULTIPLIER: 1.5 });
+  assert.deepEqual(breakdown.components.map((c) => [c.key, c.points]), [
+    ["economic_profit", 2_000_000],
+    ["service_level", -2.5 * rubric.SERVICE_LEVEL_PENALTY_PER_POINT],
+    ["cash_position", -40_000 * rubric.CASH_PENALTY_RATE],
+    ["dead_stock", -45_000],
+    ["late_launch", -2 * rubric.LATE_LAUNCH_PENALTY_PER_WEEK],
+  ]);
+  assert.equal(breakdown.total, breakdown.components.reduce((s, c) => s + c.points, 0));
+
+  // Cohort overrides replace known numeric keys only
+  const overridden = withRubricOverrides(rubric, { EP_WEIGHT: 0.5, SERVICE_LEVEL_GATE: "90", BOGUS: 1 } as any);
+  assert.equal(overridden.EP_WEIGHT, 0.5);
+  assert.equal(overridden.SERVICE_LEVEL_GATE, rubric.SERVICE_LEVEL_GATE);
+  assert.equal("BOGUS" in overridden, false);
+
+  // Final results carry the breakdown; the example season launches late and misses the service target
+  const script = parseYaml(readFileSync(new URL("../scripts/examples/baseline-season.yaml", import.meta.url), "utf8"));
+  const result = await simulateSeason(script);
+  const final = result.final!;
+  assert.equal(final.finalScore, final.scoreBreakdown.total);
+  const points = Object.fromEntries(final.scoreBreakdown.components.map((c) => [c.key, c.points]));
+  assert.equal(final.scoreBreakdown.components.find((c) => c.key === "late_launch")!.value, 4);
+  assert.ok(points.service_level < 0 && points.late_launch < 0);
+  const lenient = GameEngine.calculateFinalResults(result.weeks.map((w) => w.state), { ...rubric, SERVICE_LEVEL_GATE: 0, LATE_LAUNCH_PENALTY_PER_WEEK: 0 });
+  assert.equal(Math.round(lenient.finalScore - final.finalScore), Math.round(-points.service_level - points.late_launch));
+});
+
 setTimeout(() => {
   console.log(`\n${passed} passed, ${failed} failed`);
   process.exit(failed > 0 ? 1 : 0);
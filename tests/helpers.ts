@@ -0,0 +1,79 @@
+/* Shared harness for the smoke tests that run in order against the server
+ * code: a PASS/FAIL `test` runner, `finish` to report and exit, and
+ * `startServer` to boot the real routes on in-memory storage with a
+ * cookie-carrying `call` helper.
+ */
+
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import express, { type Express } from "express";
+
+let passed = 0;
+let failed = 0;
+
+export async function test(name: string, fn: () => Promise<void>) {
+  try {
+    await fn();
+    console.log(`  PASS  ${name}`);
+    passed++;
+  } catch (e) {
+    console.error(`  FAIL  ${name}`);
+    console.error(e);
+    failed++;
+  }
+}
+
+// Prints the tally and exits non-zero if any test failed
+export function finish(server?: Server): never {
+  server?.close();
+  console.log(`\n${passed} passed, ${failed} failed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+// One signed-in (or anonymous) browser: the session cookie it was last given
+export type Agent = { cookie?: string };
+
+export interface TestServer {
+  app: Express;
+  server: Server;
+  baseUrl: string;
+  call(agent: Agent, method: string, path: string, body?: unknown, headers?: Record<string, string>): Promise<{ status: number; json: any }>;
+}
+
+/**
+ * Boots registerRoutes on a free local port. DATABASE_URL and OIDC_ISSUER_URL
+ * are cleared first so storage and auth pick their in-memory, local-account
+ * paths; import server modules only after this resolves.
+ */
+export async function startServer(sessionSecret: string): Promise<TestServer> {
+  delete process.env.DATABASE_URL;
+  delete process.env.OIDC_ISSUER_URL;
+  process.env.SESSION_SECRET = sessionSecret;
+
+  const { registerRoutes } = await import("../server/routes.js");
+  const app = express();
+  app.use(express.json());
+  const server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  async function call(agent: Agent, method: string, path: string, body?: unknown, headers: Record<string, string> = {}) {
+    const res = await fetch(baseUrl + path, {
+      method,
+      headers: {
+        ...(body ? { "Content-Type": "application/json" } : {}),
+        ...(agent.cookie ? { cookie: agent.cookie } : {}),
+        ...headers,
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const setCookie = res.headers.get("set-cookie");
+    if (setCookie) agent.cookie = setCookie.split(";")[0];
+    const text = await res.text();
+    let json: any = null;
+    try { json = JSON.parse(text); } catch (_) {}
+    return { status: res.status, json };
+  }
+
+  return { app, server, baseUrl, call };
+}
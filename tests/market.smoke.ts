@@ -0,0 +1,110 @@
+/* Smoke tests for resolving multiplayer market weeks
+ * (resolveMarketWeek via /api/markets/:marketId/* in server/routes.ts).
+ *
+ * Run from the project root with:
+ *   npx tsx tests/market.smoke.ts
+ *
+ * Boots the real routes on in-memory storage (DATABASE_URL unset) via
+ * startServer in helpers.ts. Tests run in order because they share one market.
+ */
+
+import assert from "node:assert/strict";
+import { finish, startServer, test, type Agent } from "./helpers.js";
+
+process.env.INSTRUCTOR_ACCESS_CODE = "market-smoke-instructor";
+const { server, call } = await startServer("market-smoke");
+const { storage } = await import("../server/storage.js");
+
+const teacher: Agent = {};
+const hana: Agent = {};
+const ivan: Agent = {};
+let marketId = "";
+let hanaGameId = "";
+let ivanGameId = "";
+
+const productData = {
+  jacket: { rrp: 96, fabric: "standardDenim", hasPrint: false, confirmedMaterialCost: 10 },
+  dress: { rrp: 60, fabric: "polyesterBlend", hasPrint: false, confirmedMaterialCost: 7 },
+  pants: { rrp: 72, fabric: "wideWaleCorduroy", hasPrint: false, confirmedMaterialCost: 9 },
+};
+const advance = () => call(teacher, "POST", `/api/markets/${marketId}/advance`);
+
+console.log("Market smoke tests:");
+
+await test("two teams join a market and the instructor starts it", async () => {
+  for (const [agent, email] of [[teacher, "tess@example.com"], [hana, "hana@example.com"], [ivan, "ivan@example.com"]] as const) {
+    assert.equal((await call(agent, "POST", "/api/auth/register", { email, password: "correct-horse" })).status, 201);
+  }
+  assert.equal((await call(teacher, "POST", "/api/instructor/enroll", { accessCode: "market-smoke-instructor" })).status, 200);
+  const cohort = (await call(teacher, "POST", "/api/cohorts", { name: "Seminar A" })).json;
+  for (const agent of [hana, ivan]) {
+    assert.equal((await call(agent, "POST", "/api/cohorts/join", { joinCode: cohort.joinCode })).status, 200);
+  }
+  marketId = (await call(teacher, "POST", `/api/cohorts/${cohort.id}/markets`, { name: "Market A", weekDeadlineHours: 48 })).json.id;
+  hanaGameId = (await call(hana, "POST", `/api/markets/${marketId}/join`, { teamName: "Hana & Co" })).json.id;
+  ivanGameId = (await call(ivan, "POST", `/api/markets/${marketId}/join`, { teamName: "Ivan Ltd" })).json.id;
+  const started = await call(teacher, "POST", `/api/markets/${marketId}/start`);
+  assert.equal(started.status, 200, JSON.stringify(started.json));
+  assert.equal(started.json.status, "running");
+});
+
+await test("a team whose saved plan fails validation still commits, with the fallback on the market", async () => {
+  assert.equal((await call(hana, "POST", `/api/game/${hanaGameId}/week/1/update`, { productData })).status, 200);
+  assert.equal((await call(hana, "POST", `/api/game/${hanaGameId}/week/1/commit`)).status, 202);
+
+  // Ivan never priced: every RRP is missing
+  const status = await advance();
+  assert.equal(status.status, 200, JSON.stringify(status.json));
+  assert.equal(status.json.currentWeek, 2);
+  assert.equal((await storage.getWeeklyState(ivanGameId, 1))?.isCommitted, true);
+
+  const byTeam = new Map<string, any>(status.json.teams.map((t: any) => [t.gameSessionId, t]));
+  assert.equal(byTeam.get(hanaGameId).fallback, null);
+  const fallback = byTeam.get(ivanGameId).fallback;
+  assert.equal(fallback.weekNumber, 1);
+  assert.ok(fallback.errors.some((e: string) => /RRP not set/.test(e)), JSON.stringify(fallback.errors));
+  assert.deepEqual(fallback.droppedBatchIds, []);
+});
+
+await test("the fallback drops the batches the errors point at", async () => {
+  assert.equal((await call(ivan, "POST", `/api/game/${ivanGameId}/week/2/update`, { productData })).status, 200);
+  assert.equal((await advance()).json.currentWeek, 3);
+
+  const week3 = await storage.getWeeklyState(ivanGameId, 3);
+  await storage.updateWeeklyState(week3!.id, {
+    productionSchedule: { batches: [{ id: "empty-batch", product: "jacket", method: "outsource", quantity: 0, startWeek: 4, shipping: "standard" }] },
+  } as any);
+
+  const status = await advance();
+  assert.equal(status.json.currentWeek, 4);
+  const fallback = status.json.teams.find((t: any) => t.gameSessionId === ivanGameId).fallback;
+  assert.equal(fallback.weekNumber, 3);
+  assert.deepEqual(fallback.droppedBatchIds, ["empty-batch"]);
+  assert.ok(fallback.errors.some((e: string) => /invalid quantity/.test(e)), JSON.stringify(fallback.errors));
+  const committed = await storage.getWeeklyState(ivanGameId, 3);
+  assert.equal(committed?.isCommitted, true);
+  assert.deepEqual((committed?.productionSchedule as any).batches, []);
+  assert.equal(status.json.teams.find((t: any) => t.gameSessionId === hanaGameId).fallback, null);
+});
+
+await test("a resolver that finds the week already committed leaves the market as it is", async () => {
+  const before = await storage.getMarket(marketId);
+  const weeks = await Promise.all([hanaGameId, ivanGameId].map((id) => storage.getWeeklyState(id, 4)));
+  for (const w of weeks) await storage.updateWeeklyState(w!.id, { isCommitted: true });
+
+  const status = await advance();
+  assert.equal(status.json.currentWeek, 4);
+  const after = await storage.getMarket(marketId);
+  assert.deepEqual(after?.weekFallbacks, before?.weekFallbacks);
+  assert.equal(after?.weekDeadlineAt?.getTime(), before?.weekDeadlineAt?.getTime());
+
+  for (const w of weeks) await storage.updateWeeklyState(w!.id, { isCommitted: false });
+});
+
+await test("a week that resolves cleanly clears the fallbacks", async () => {
+  const status = await advance();
+  assert.equal(status.json.currentWeek, 5);
+  assert.deepEqual(status.json.teams.map((t: any) => t.fallback), [null, null]);
+});
+
+finish(server);
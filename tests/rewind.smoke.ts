@@ -0,0 +1,141 @@
+/* Smoke tests for rewinds
+ * (GET/POST /api/game/:gameId/rewind in server/routes.ts).
+ *
+ * Run from the project root with:
+ *   npx tsx tests/rewind.smoke.ts
+ *
+ * Boots the real routes on in-memory storage (DATABASE_URL unset) via
+ * startServer in helpers.ts. Tests run in order because they share one game.
+ */
+
+import assert from "node:assert/strict";
+import { finish, startServer, test, type Agent } from "./helpers.js";
+
+const smoke = await startServer("rewind-smoke");
+const { server } = smoke;
+const { storage } = await import("../server/storage.js");
+
+// One player throughout
+const player: Agent = {};
+const call = (method: string, path: string, body?: unknown) => smoke.call(player, method, path, body);
+
+let gameId = "";
+let week2BeforeCommit: any = null;
+
+const commit = async (week: number) => {
+  const res = await call("POST", `/api/game/${gameId}/week/${week}/commit`, {});
+  assert.equal(res.status, 200, `week ${week}: ${JSON.stringify(res.json)}`);
+};
+const rewind = (toWeek: number) => call("POST", `/api/game/${gameId}/rewind`, { toWeek });
+// One Orders Log row per week, as the procurement update would write, and one
+// ledger row per commit charged the week after, as a marketing plan would
+const logOrder = (week: number) => storage.createOrdersLogEntry({
+  id: `${gameId}:order-${week}`,
+  gameSessionId: gameId,
+  weekNumber: week,
+  orderTimestamp: new Date(Date.UTC(2026, 0, week)).toISOString(),
+  supplier: "supplier1",
+  orderType: "SPOT",
+  material: "standardDenim",
+  quantity: 100,
+  effectiveUnitPrice: "10.0000",
+  effectiveLineTotal: "1000.00",
+});
+const logCharge = (week: number) => storage.createCashLedgerEntries([{
+  id: `${gameId}:charge-${week}`,
+  gameSessionId: gameId,
+  weekNumber: week + 1,
+  entryType: "marketing",
+  amount: "500.00",
+  committedWeek: week,
+}]);
+
+console.log("Rewind smoke tests:");
+
+await test("a player can commit three weeks", async () => {
+  assert.equal((await call("POST", "/api/auth/register", { email: "grace@example.com", password: "correct-horse" })).status, 201);
+  gameId = (await call("POST", "/api/game/start", {})).json.id;
+  const productData = {
+    jacket: { rrp: 96, fabric: "standardDenim", hasPrint: false, confirmedMaterialCost: 10 },
+    dress: { rrp: 60, fabric: "polyesterBlend", hasPrint: false, confirmedMaterialCost: 7 },
+    pants: { rrp: 72, fabric: "wideWaleCorduroy", hasPrint: false, confirmedMaterialCost: 9 },
+  };
+  assert.equal((await call("POST", `/api/game/${gameId}/week/1/update`, { productData })).status, 200);
+  await logOrder(1);
+  await commit(1);
+  await logCharge(1);
+  week2BeforeCommit = (await call("GET", `/api/game/${gameId}/week/2`)).json;
+  await logOrder(2);
+  await commit(2);
+  await logCharge(2);
+  await logOrder(3);
+  await commit(3);
+  await logCharge(3);
+
+  const weeks = await call("GET", `/api/game/${gameId}/weeks`);
+  assert.deepEqual(weeks.json.weeks.map((w: any) => w.weekNumber), [1, 2, 3, 4]);
+  const ledger = await storage.getCashLedgerEntries(gameId);
+  assert.deepEqual(ledger.map((e) => e.committedWeek).sort(), [1, 2, 3]);
+  assert.deepEqual((await call("GET", `/api/game/${gameId}/rewind`)).json.remaining, 3);
+});
+
+await test("only a committed week before the current one can be the target", async () => {
+  assert.equal((await rewind(4)).status, 400);
+  assert.equal((await rewind(9)).status, 400);
+  assert.equal((await call("GET", `/api/game/${gameId}/weeks`)).json.weeks.length, 4);
+});
+
+await test("rewinding removes the later weeks with their ledger and Orders Log rows", async () => {
+  const res = await rewind(2);
+  assert.equal(res.status, 200, JSON.stringify(res.json));
+
+  const weeks = await call("GET", `/api/game/${gameId}/weeks`);
+  assert.deepEqual(weeks.json.weeks.map((w: any) => w.weekNumber), [1, 2]);
+  const ledger = await storage.getCashLedgerEntries(gameId);
+  assert.deepEqual(ledger.map((e) => e.committedWeek), [1]);
+  const orders = await storage.getOrdersLogEntries(gameId);
+  assert.deepEqual(orders.map((o) => o.weekNumber).sort(), [1, 2]);
+});
+
+await test("the target week comes back uncommitted as it was before its commit", async () => {
+  const week2 = (await call("GET", `/api/game/${gameId}/week/2`)).json;
+  assert.equal(week2.isCommitted, false);
+  assert.equal(week2.preCommitSnapshot, null);
+  assert.equal(week2.id, week2BeforeCommit.id);
+  assert.equal(Number(week2.cashOnHand), Number(week2BeforeCommit.cashOnHand));
+  assert.equal(Number(week2.creditUsed), Number(week2BeforeCommit.creditUsed));
+  assert.deepEqual(week2.productData, week2BeforeCommit.productData);
+  assert.deepEqual(week2.weeklySales, week2BeforeCommit.weeklySales);
+});
+
+await test("the rewind is counted and logged on the game", async () => {
+  const session = await storage.getGameSession(gameId);
+  assert.equal(session?.rewindCount, 1);
+  const log = session?.rewindLog as any[];
+  assert.equal(log.length, 1);
+  assert.equal(log[0].fromWeek, 4);
+  assert.equal(log[0].toWeek, 2);
+
+  const allowance = await call("GET", `/api/game/${gameId}/rewind`);
+  assert.deepEqual([allowance.json.used, allowance.json.remaining], [1, 2]);
+  assert.equal(allowance.json.log.length, 1);
+});
+
+await test("once the rewinds are used up the route refuses with 403", async () => {
+  await commit(2);
+  assert.equal((await rewind(1)).status, 200);
+  await commit(1);
+  assert.equal((await rewind(1)).status, 200);
+  await commit(1);
+
+  const refused = await rewind(1);
+  assert.equal(refused.status, 403);
+  const weeks = await call("GET", `/api/game/${gameId}/weeks`);
+  assert.deepEqual(weeks.json.weeks.map((w: any) => w.weekNumber), [1, 2]);
+  assert.equal(weeks.json.weeks[0].isCommitted, true);
+  const session = await storage.getGameSession(gameId);
+  assert.equal(session?.rewindCount, 3);
+  assert.equal((session?.rewindLog as any[]).length, 3);
+});
+
+finish(server);
@@ -0,0 +1,111 @@
+/* Smoke tests for what-if sandboxes
+ * (/api/game/:gameId/sandboxes and DELETE /api/game/:gameId in server/routes.ts).
+ *
+ * Run from the project root with:
+ *   npx tsx tests/sandbox.smoke.ts
+ *
+ * Boots the real routes on in-memory storage (DATABASE_URL unset) via
+ * startServer in helpers.ts. Tests run in order because they share one game.
+ */
+
+import assert from "node:assert/strict";
+import { finish, startServer, test, type Agent } from "./helpers.js";
+
+const { server, call } = await startServer("sandbox-smoke");
+const { storage } = await import("../server/storage.js");
+const { GameEngine } = await import("../server/gameEngine.js");
+
+const dave: Agent = {};
+const erin: Agent = {};
+let gameId = "";
+let sandboxId = "";
+
+const productData = {
+  jacket: { rrp: 96, fabric: "standardDenim", hasPrint: false, confirmedMaterialCost: 10 },
+  dress: { rrp: 60, fabric: "polyesterBlend", hasPrint: false, confirmedMaterialCost: 7 },
+  pants: { rrp: 72, fabric: "wideWaleCorduroy", hasPrint: false, confirmedMaterialCost: 9 },
+};
+
+console.log("Sandbox smoke tests:");
+
+await test("a player can fork their game into a sandbox that becomes current", async () => {
+  for (const [agent, email] of [[dave, "dave@example.com"], [erin, "erin@example.com"]] as const) {
+    assert.equal((await call(agent, "POST", "/api/auth/register", { email, password: "correct-horse" })).status, 201);
+  }
+  gameId = (await call(dave, "POST", "/api/game/start", {})).json.id;
+  assert.equal((await call(dave, "POST", `/api/game/${gameId}/week/1/update`, { productData })).status, 200);
+
+  const forked = await call(dave, "POST", `/api/game/${gameId}/sandboxes`, {});
+  assert.equal(forked.status, 201, JSON.stringify(forked.json));
+  sandboxId = forked.json.gameSession.id;
+  assert.equal(forked.json.gameSession.sandboxOf, gameId);
+  assert.equal(forked.json.gameSession.sandboxForkWeek, 1);
+  assert.equal(forked.json.currentState.productData.jacket.rrp, 96);
+
+  const current = await call(dave, "GET", "/api/game/current");
+  assert.equal(current.json.gameSession.id, sandboxId);
+});
+
+await test("playing ahead in the sandbox leaves the real game untouched", async () => {
+  assert.equal((await call(dave, "POST", `/api/game/${sandboxId}/week/1/commit`, {})).status, 200);
+  const sandboxWeeks = await call(dave, "GET", `/api/game/${sandboxId}/weeks`);
+  assert.deepEqual(sandboxWeeks.json.weeks.map((w: any) => w.weekNumber), [1, 2]);
+  const realWeeks = await call(dave, "GET", `/api/game/${gameId}/weeks`);
+  assert.deepEqual(realWeeks.json.weeks.map((w: any) => w.weekNumber), [1]);
+  assert.equal(realWeeks.json.weeks[0].isCommitted, false);
+});
+
+await test("the comparison lists the real game and its sandboxes", async () => {
+  const res = await call(dave, "GET", `/api/game/${sandboxId}/sandboxes`);
+  assert.equal(res.status, 200);
+  assert.equal(res.json.game.id, gameId);
+  assert.equal(res.json.game.currentWeek, 1);
+  assert.deepEqual(res.json.sandboxes.map((s: any) => [s.id, s.forkWeek, s.currentWeek]), [[sandboxId, 1, 2]]);
+});
+
+await test("sandboxes are left out of the game list", async () => {
+  const games = await call(dave, "GET", "/api/games");
+  assert.deepEqual(games.json.map((g: any) => g.id), [gameId]);
+  assert.equal(games.json[0].isCurrent, true);
+});
+
+await test("sandboxes cannot be forked, restarted or discarded by someone else", async () => {
+  assert.equal((await call(dave, "POST", `/api/game/${sandboxId}/sandboxes`, {})).status, 400);
+  assert.equal((await call(dave, "POST", "/api/game/restart", {})).status, 400);
+  assert.equal((await call(erin, "DELETE", `/api/game/${sandboxId}`)).status, 403);
+  assert.equal((await call(dave, "DELETE", `/api/game/${gameId}`)).status, 400);
+});
+
+await test("discarding a sandbox deletes it and switches back to the real game", async () => {
+  const res = await call(dave, "DELETE", `/api/game/${sandboxId}`);
+  assert.equal(res.status, 200);
+  assert.equal(res.json.gameSessionId, gameId);
+  assert.equal((await call(dave, "GET", `/api/game/${sandboxId}/weeks`)).status, 404);
+  assert.equal((await call(dave, "GET", "/api/game/current")).json.gameSession.id, gameId);
+  assert.deepEqual((await call(dave, "GET", `/api/game/${gameId}/sandboxes`)).json.sandboxes, []);
+});
+
+await test("an uncertain-demand sandbox does not replay the real game's demand draws", async () => {
+  const frank: Agent = {};
+  assert.equal((await call(frank, "POST", "/api/auth/register", { email: "frank@example.com", password: "correct-horse" })).status, 201);
+  const realId = (await call(frank, "POST", "/api/game/start", { uncertainDemand: true })).json.id;
+  assert.equal((await call(frank, "POST", `/api/game/${realId}/week/1/update`, { productData })).status, 200);
+  const forked = await call(frank, "POST", `/api/game/${realId}/sandboxes`, {});
+  assert.equal(forked.status, 201, JSON.stringify(forked.json));
+
+  const real = (await storage.getGameSession(realId))!;
+  const sandbox = (await storage.getGameSession(forked.json.gameSession.id))!;
+  assert.ok(real.demandSeed && sandbox.demandSeed, "both games should draw demand");
+  assert.notEqual(sandbox.demandSeed, real.demandSeed);
+
+  // The same sales week under each game's seed
+  const week8: any = { ...(await storage.getWeeklyState(sandbox.id, 1)), weekNumber: 8, awareness: "60", intent: "50" };
+  const demandUnder = async (seed: string) =>
+    ((await GameEngine.commitWeek(JSON.parse(JSON.stringify(week8)), { demandSeed: seed })) as any).weeklyDemand;
+  const realDemand = await demandUnder(real.demandSeed!);
+  const sandboxDemand = await demandUnder(sandbox.demandSeed!);
+  assert.ok(Object.values(realDemand).some((d) => Number(d) > 0), "fixture week has no demand");
+  assert.notDeepEqual(sandboxDemand, realDemand);
+});
+
+finish(server);
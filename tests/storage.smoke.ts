@@ -0,0 +1,121 @@
+/* Smoke tests for the in-memory storage's cash ledger, Orders Log,
+ * transactions and cohort membership order (server/storage.ts), the path used
+ * when DATABASE_URL is unset.
+ *
+ * Run from the project root with:
+ *   npx tsx tests/storage.smoke.ts
+ *
+ * Same PASS/FAIL convention as engine.smoke.ts, via the runner in helpers.ts.
+ */
+
+import assert from "node:assert/strict";
+import { finish, test } from "./helpers.js";
+
+delete process.env.DATABASE_URL;
+
+const { storage } = await import("../server/storage.js");
+
+const ledgerRow = (gameSessionId: string, id: string, weekNumber: number, committedWeek: number | null, amount: number) => ({
+  id,
+  gameSessionId,
+  weekNumber,
+  entryType: "materials_spt",
+  amount: amount.toFixed(2),
+  committedWeek,
+});
+
+const orderRow = (gameSessionId: string, id: string, weekNumber: number, orderTimestamp: string) => ({
+  id,
+  gameSessionId,
+  weekNumber,
+  orderTimestamp,
+  supplier: "supplier1",
+  orderType: "SPT",
+  material: "selvedgeDenim",
+  quantity: 1000,
+  effectiveUnitPrice: "10.0000",
+  effectiveLineTotal: "10000.00",
+});
+
+console.log("Storage smoke tests:");
+
+await test("ledger entries are stored per game with decimal strings, as Postgres returns them", async () => {
+  await storage.createCashLedgerEntries([
+    ledgerRow("game-a", "a-1", 1, 1, 500),
+    ledgerRow("game-a", "a-2", 2, 1, 250.5),
+    ledgerRow("game-b", "b-1", 1, 1, 99),
+  ]);
+  const rows = await storage.getCashLedgerEntries("game-a");
+  assert.deepEqual(rows.map((r) => r.id), ["a-1", "a-2"]);
+  assert.equal(rows[1].amount, "250.50");
+  assert.equal(rows[0].refId, null);
+});
+
+await test("rewind cleanup removes ledger rows committed from the target week on", async () => {
+  await storage.createCashLedgerEntries([
+    ledgerRow("game-r", "r-1", 1, 1, 1),
+    ledgerRow("game-r", "r-2", 4, 2, 1), // charged in week 4 by week 2's commit
+    ledgerRow("game-r", "r-3", 3, 3, 1),
+    ledgerRow("game-r", "r-legacy-1", 2, null, 1),
+    ledgerRow("game-r", "r-legacy-2", 3, null, 1),
+  ]);
+  await storage.deleteCashLedgerFromWeek("game-r", 2);
+  const ids = (await storage.getCashLedgerEntries("game-r")).map((r) => r.id);
+  assert.deepEqual(ids, ["r-1", "r-legacy-1"]);
+});
+
+await test("Orders Log ignores duplicate ids, soft-deletes by timestamp and trims later weeks", async () => {
+  await storage.createOrdersLogEntry(orderRow("game-o", "o-1", 1, "t1"));
+  await storage.createOrdersLogEntry(orderRow("game-o", "o-1", 1, "t1"));
+  await storage.createOrdersLogEntry(orderRow("game-o", "o-2", 1, "t2"));
+  await storage.createOrdersLogEntry(orderRow("game-o", "o-3", 3, "t3"));
+  assert.equal((await storage.getOrdersLogEntries("game-o")).length, 3);
+
+  await storage.markOrdersLogRemoved("game-o", ["t2"]);
+  const removed = (await storage.getOrdersLogEntries("game-o")).filter((o) => o.removedAt);
+  assert.deepEqual(removed.map((o) => o.id), ["o-2"]);
+
+  await storage.deleteOrdersLogAfter("game-o", 2);
+  assert.deepEqual((await storage.getOrdersLogEntries("game-o")).map((o) => o.id), ["o-1", "o-2"]);
+});
+
+await test("a failed transaction rolls back every write made inside it", async () => {
+  await assert.rejects(storage.transaction(async (tx) => {
+    await tx.createCashLedgerEntries([ledgerRow("game-t", "t-1", 1, 1, 10)]);
+    await tx.createOrdersLogEntry(orderRow("game-t", "t-o1", 1, "t1"));
+    throw new Error("ledger write failed");
+  }), /ledger write failed/);
+  assert.equal((await storage.getCashLedgerEntries("game-t")).length, 0);
+  assert.equal((await storage.getOrdersLogEntries("game-t")).length, 0);
+
+  await storage.transaction(async (tx) => {
+    await tx.createCashLedgerEntries([ledgerRow("game-t", "t-2", 1, 1, 10)]);
+  });
+  assert.deepEqual((await storage.getCashLedgerEntries("game-t")).map((r) => r.id), ["t-2"]);
+});
+
+await test("transactions run one at a time", async () => {
+  const order: string[] = [];
+  const first = storage.transaction(async () => {
+    order.push("first:start");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    order.push("first:end");
+  });
+  const second = storage.transaction(async () => {
+    order.push("second");
+  });
+  await Promise.all([first, second]);
+  assert.deepEqual(order, ["first:start", "first:end", "second"]);
+});
+
+await test("a player's cohorts come back in join order, whatever order they were created in", async () => {
+  const later = await storage.createCohort({ name: "Later class", joinCode: "LATER1", instructorId: "teacher" });
+  const earlier = await storage.createCohort({ name: "Earlier class", joinCode: "EARLY1", instructorId: "teacher" });
+  await storage.addCohortMember(later.id, "student-j");
+  await storage.addCohortMember(earlier.id, "student-j");
+  await storage.updateCohortMember(earlier.id, "student-j", { joinedAt: new Date("2026-01-05T09:00:00Z") });
+  await storage.updateCohortMember(later.id, "student-j", { joinedAt: new Date("2026-02-05T09:00:00Z") });
+  assert.deepEqual((await storage.getUserCohorts("student-j")).map((c) => c.name), ["Earlier class", "Later class"]);
+});
+
+finish();